@@ -12,6 +12,7 @@ import { Table } from '@/components/Table';
 import { SystemName } from '@/components/SystemName';
 import { CharacterAvatar } from '@/components/CharacterAvatar';
 import { ShipIcon } from '@/components/ShipIcon';
+import { BattleReplay } from '@/components/BattleReplay';
 import api from '@/lib/api';
 import {
   ArrowLeft,
@@ -37,9 +38,9 @@ export default function BattleDetailPage() {
   const [participants, setParticipants] = useState<BattleParticipant[]>([]);
   const [killmails, setKillmails] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'participants' | 'timeline'>(
-    'overview'
-  );
+  const [activeTab, setActiveTab] = useState<
+    'overview' | 'participants' | 'timeline' | 'replay'
+  >('overview');
 
   useEffect(() => {
     if (battleId) {
@@ -197,6 +198,12 @@ export default function BattleDetailPage() {
             >
               Timeline ({killmails.length})
             </TabButton>
+            <TabButton
+              active={activeTab === 'replay'}
+              onClick={() => setActiveTab('replay')}
+            >
+              Replay
+            </TabButton>
           </div>
         </div>
 
@@ -311,6 +318,8 @@ export default function BattleDetailPage() {
             </div>
           </Card>
         )}
+
+        {activeTab === 'replay' && <BattleReplay battleId={battleId} />}
       </div>
     </>
   );
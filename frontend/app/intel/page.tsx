@@ -10,6 +10,7 @@ import { Badge } from '@/components/Badge';
 import { SystemName } from '@/components/SystemName';
 import { CharacterAvatar } from '@/components/CharacterAvatar';
 import { ShipIcon } from '@/components/ShipIcon';
+import { LocalThreatPanel } from '@/components/LocalThreatPanel';
 import api from '@/lib/api';
 import { ExternalLink, Filter, RefreshCw } from 'lucide-react';
 import {
@@ -85,6 +86,8 @@ export default function IntelPage() {
           </div>
         </div>
 
+        <LocalThreatPanel />
+
         {/* Filters */}
         <Card className="mb-6">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Pause, Play, SkipBack } from 'lucide-react';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { LoadingSpinner } from '@/components/LoadingSpinner';
+import api from '@/lib/api';
+import { cn, formatISK, formatNumber } from '@/lib/utils';
+import type { BattleReplay as BattleReplayData, ReplaySide } from '@/lib/types';
+
+const PLAYBACK_INTERVAL_MS = 500;
+
+interface BattleReplayProps {
+  battleId: string;
+}
+
+export function BattleReplay({ battleId }: BattleReplayProps) {
+  // Left to the server, which picks the finest size that fits the battle
+  const [bucket, setBucket] = useState<string | null>(null);
+  const [replay, setReplay] = useState<BattleReplayData | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchReplay();
+  }, [battleId, bucket]);
+
+  const fetchReplay = async () => {
+    setIsLoading(true);
+    setIsPlaying(false);
+    try {
+      const response = await api.get(`/api/battles/${battleId}/replay`, { params: bucket ? { bucket } : {} });
+      setReplay(response.data);
+      setPosition(0);
+    } catch (error) {
+      console.error('Failed to fetch battle replay:', error);
+      setReplay(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const lastPosition = replay ? replay.buckets.length - 1 : 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setPosition((current) => {
+        if (current >= lastPosition) {
+          setIsPlaying(false);
+          return current;
+        }
+        return current + 1;
+      });
+    }, PLAYBACK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, lastPosition]);
+
+  if (isLoading) {
+    return <LoadingSpinner size="lg" />;
+  }
+
+  if (!replay || replay.buckets.length === 0) {
+    return (
+      <Card>
+        <p className="text-gray-400">No replay available for this battle</p>
+      </Card>
+    );
+  }
+
+  const current = replay.buckets[Math.min(position, lastPosition)];
+  const elapsedSeconds = current.index * replay.bucketSeconds;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <div className="flex flex-wrap items-center gap-4">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => {
+              setIsPlaying(false);
+              setPosition(0);
+            }}
+          >
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => {
+              if (position >= lastPosition) setPosition(0);
+              setIsPlaying(!isPlaying);
+            }}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <input
+            type="range"
+            min={0}
+            max={lastPosition}
+            value={position}
+            onChange={(e) => {
+              setIsPlaying(false);
+              setPosition(Number(e.target.value));
+            }}
+            className="flex-1 accent-eve-blue"
+          />
+          <span className="text-sm text-gray-400 tabular-nums">
+            +{formatElapsed(elapsedSeconds)} ({current.index + 1}/{replay.buckets.length})
+          </span>
+          <select
+            value={replay.bucket}
+            onChange={(e) => setBucket(e.target.value)}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white"
+          >
+            {replay.bucketSizes.map((size) => (
+              <option key={size} value={size}>
+                {size} buckets
+              </option>
+            ))}
+          </select>
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {current.sides.map((side) => (
+          <ReplaySideCard key={side.sideId ?? 'unassigned'} side={side} />
+        ))}
+      </div>
+
+      <Card title={`Kills in this bucket (${current.kills.length})`}>
+        {current.kills.length === 0 ? (
+          <p className="text-gray-400">No kills</p>
+        ) : (
+          <div className="space-y-2">
+            {current.kills.map((kill) => (
+              <div
+                key={kill.killmailId}
+                className="flex items-center justify-between p-3 bg-gray-900/50 rounded-lg"
+              >
+                <span className="text-white">
+                  {kill.victimName || 'Unknown'} lost a {kill.shipTypeName || 'ship'}
+                  <span className="ml-2 text-sm text-gray-500">{sideLabel(kill.sideId)}</span>
+                </span>
+                <span className="text-red-400 font-medium">{formatISK(kill.iskValue)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+function ReplaySideCard({ side }: { side: ReplaySide }) {
+  return (
+    <Card title={sideLabel(side.sideId)}>
+      <dl className="grid grid-cols-3 gap-4 mb-4">
+        <div>
+          <dt className="text-sm text-gray-400">ISK Lost</dt>
+          <dd className="text-lg font-bold text-red-400">{formatISK(side.iskLost)}</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-400">Losses</dt>
+          <dd className="text-lg font-bold text-white">{formatNumber(side.losses)}</dd>
+        </div>
+        <div>
+          <dt className="text-sm text-gray-400">Active / Pilots</dt>
+          <dd className="text-lg font-bold text-white">
+            {formatNumber(side.activePilots)} / {formatNumber(side.pilots)}
+          </dd>
+        </div>
+      </dl>
+      <div className="space-y-1">
+        {side.hulls.map((hull) => (
+          <div key={hull.shipTypeId} className="flex items-center justify-between text-sm">
+            <span className="text-gray-300">{hull.shipTypeName || `Type ${hull.shipTypeId}`}</span>
+            <span className="tabular-nums">
+              <span className={cn(hull.alive > 0 ? 'text-green-400' : 'text-gray-500')}>
+                {hull.alive} alive
+              </span>
+              <span className="text-gray-600"> · </span>
+              <span className={cn(hull.lost > 0 ? 'text-red-400' : 'text-gray-500')}>
+                {hull.lost} lost
+              </span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+function sideLabel(sideId: number | null): string {
+  return sideId === null ? 'Unassigned' : `Side ${sideId}`;
+}
+
+function formatElapsed(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, Users } from 'lucide-react';
+import { Card } from '@/components/Card';
+import { Button } from '@/components/Button';
+import { Badge } from '@/components/Badge';
+import { CharacterAvatar } from '@/components/CharacterAvatar';
+import api from '@/lib/api';
+import { formatRelativeTime } from '@/lib/utils';
+import type { PasteIntel, ThreatLevel } from '@/lib/types';
+
+const THREAT_VARIANTS: Record<ThreatLevel, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  none: 'default',
+  low: 'info',
+  medium: 'warning',
+  high: 'danger',
+  critical: 'danger',
+};
+
+function ThreatBadge({ level }: { level: ThreatLevel }) {
+  return (
+    <Badge variant={THREAT_VARIANTS[level]} className={level === 'critical' ? 'animate-pulse' : undefined}>
+      {level.toUpperCase()}
+    </Badge>
+  );
+}
+
+export function LocalThreatPanel() {
+  const [text, setText] = useState('');
+  const [intel, setIntel] = useState<PasteIntel | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAssess = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.post('/api/intel/paste', { text });
+      setIntel(response.data);
+    } catch (err: any) {
+      console.error('Failed to assess local:', err);
+      setError(err.response?.data?.details?.[0]?.message || 'Failed to assess local');
+      setIntel(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card title="Local Threat Assessment" className="mb-6">
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1.5">
+            Local chat members
+          </label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={6}
+            placeholder="Select everyone in local, copy and paste them here - one name per line"
+            className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-eve-blue"
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <Button size="sm" onClick={handleAssess} isLoading={isLoading} disabled={!text.trim()}>
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Assess Threat
+          </Button>
+          {intel && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setText('');
+                setIntel(null);
+              }}
+            >
+              Clear
+            </Button>
+          )}
+          {error && <span className="text-sm text-red-400">{error}</span>}
+        </div>
+
+        {intel && (
+          <>
+            {/* Overall threat */}
+            <div className="p-4 bg-gray-900/50 rounded-lg flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <span className="text-gray-400">Threat:</span>
+                <ThreatBadge level={intel.threat.level} />
+              </div>
+              <span className="text-sm text-gray-400">
+                {intel.threat.pilots} pilots · {intel.threat.capitalPilots} capital ·{' '}
+                {intel.threat.cynoPilots} cyno
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {intel.threat.groups.slice(0, 5).map((group) => (
+                  <Badge key={group.id ?? group.name}>
+                    {group.name || 'Unknown'} × {group.pilots}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {/* Pilots, most dangerous first */}
+            <div className="space-y-2">
+              {intel.pilots.map((pilot) => (
+                <div key={pilot.characterId} className="p-3 bg-gray-900/50 rounded-lg flex items-start gap-3">
+                  <CharacterAvatar characterId={pilot.characterId} characterName={pilot.name} size={40} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-white">{pilot.name}</span>
+                      <ThreatBadge level={pilot.threat.level} />
+                    </div>
+                    <p className="text-sm text-gray-400 truncate">
+                      {[pilot.corporationName, pilot.allianceName].filter(Boolean).join(' / ') || 'Unknown corporation'}
+                    </p>
+                    {pilot.lastSeen ? (
+                      <p className="text-xs text-gray-500">
+                        Last seen in {pilot.lastSeen.shipTypeName || 'unknown ship'} in{' '}
+                        {pilot.lastSeen.systemName} {formatRelativeTime(pilot.lastSeen.at)}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-500">Never seen in a battle</p>
+                    )}
+                    {pilot.threat.reasons.length > 0 && (
+                      <p className="text-xs text-yellow-400 mt-1">{pilot.threat.reasons.join(' · ')}</p>
+                    )}
+                    {pilot.associates.length > 0 && (
+                      <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        Flies with {pilot.associates.map((a) => a.name).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {intel.unresolved.length > 0 && (
+              <p className="text-sm text-gray-500">
+                Not found: {intel.unresolved.join(', ')}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -39,6 +39,8 @@ export interface Battle {
   total_kills: number;
   total_isk_destroyed: number;
   zkill_related_url?: string;
+  classification?: string | null;
+  significance?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -54,6 +56,96 @@ export interface BattleParticipant {
   ship_type_name: string;
   side_id?: number;
   is_victim: boolean;
+  damage_dealt?: number;
+  damage_received?: number;
+  kill_involvement?: number;
+  final_blows?: number;
+  losses?: number;
+  isk_lost?: number;
+  weapons?: Array<{ weaponTypeId: number; damage: number; killmails: number }>;
+  ships?: Array<{ shipTypeId: number; shipTypeName: string | null; killmails: number; losses: number }>;
+}
+
+export interface ReplayHull {
+  shipTypeId: number;
+  shipTypeName: string | null;
+  alive: number;
+  lost: number;
+}
+
+export interface ReplaySide {
+  sideId: number | null;
+  iskLost: number;
+  losses: number;
+  pilots: number;
+  activePilots: number;
+  hulls: ReplayHull[];
+}
+
+export interface ReplayKill {
+  killmailId: number;
+  occurredAt: string;
+  sideId: number | null;
+  victimName: string | null;
+  shipTypeId: number | null;
+  shipTypeName: string | null;
+  iskValue: number;
+}
+
+export interface ReplayBucket {
+  index: number;
+  startTime: string;
+  endTime: string;
+  kills: ReplayKill[];
+  sides: ReplaySide[];
+}
+
+export interface BattleReplay {
+  battleId: string;
+  bucket: string;
+  bucketSeconds: number;
+  // Bucket sizes short enough to fit the battle
+  bucketSizes: string[];
+  buckets: ReplayBucket[];
+}
+
+// Local Threat Types
+export type ThreatLevel = 'none' | 'low' | 'medium' | 'high' | 'critical';
+
+export interface PastePilot {
+  characterId: number;
+  name: string;
+  source: 'battles' | 'search';
+  corporationId: number | null;
+  corporationName: string | null;
+  allianceId: number | null;
+  allianceName: string | null;
+  lastSeen: {
+    at: string;
+    systemId: number;
+    systemName: string;
+    regionName: string | null;
+    shipTypeId: number | null;
+    shipTypeName: string | null;
+  } | null;
+  recentKills: number;
+  capitalShips: string[];
+  cynoShips: string[];
+  associates: Array<{ characterId: number; name: string; sharedBattles: number }>;
+  threat: { level: ThreatLevel; reasons: string[] };
+}
+
+export interface PasteIntel {
+  threat: {
+    level: ThreatLevel;
+    pilots: number;
+    byLevel: Record<ThreatLevel, number>;
+    capitalPilots: number;
+    cynoPilots: number;
+    groups: Array<{ id: number | null; name: string | null; pilots: number }>;
+  };
+  pilots: PastePilot[];
+  unresolved: string[];
 }
 
 // Killmail Types
@@ -69,20 +69,7 @@ export class EventBus {
         if (!message.value) return;
 
         try {
-          const raw = JSON.parse(message.value.toString());
-          const event: Event = {
-            ...raw,
-            timestamp: new Date(raw.timestamp),
-            data: {
-              ...raw.data,
-              // Convert date strings back to Date objects if needed
-              ...(raw.data.killmailTime && { killmailTime: new Date(raw.data.killmailTime) }),
-              ...(raw.data.startTime && { startTime: new Date(raw.data.startTime) }),
-              ...(raw.data.endTime && { endTime: new Date(raw.data.endTime) }),
-            },
-          };
-
-          await handler(event);
+          await handler(parseEvent(message.value));
         } catch (error) {
           console.error('Failed to process event:', error);
         }
@@ -90,6 +77,44 @@ export class EventBus {
     });
   }
 
+  /**
+   * Like `subscribe`, but hands the handler the fetched messages in batches
+   * of up to `maxBatchSize` events, sending a heartbeat after each batch.
+   */
+  async subscribeBatch(
+    topic: string,
+    groupId: string,
+    handler: (events: Event[]) => Promise<void>,
+    maxBatchSize = 100
+  ): Promise<void> {
+    const consumer = await this.getConsumer(groupId);
+    await consumer.subscribe({ topic, fromBeginning: true });
+
+    await consumer.run({
+      eachBatch: async ({ batch, heartbeat }) => {
+        const events: Event[] = [];
+        for (const message of batch.messages) {
+          if (!message.value) continue;
+
+          try {
+            events.push(parseEvent(message.value));
+          } catch (error) {
+            console.error('Failed to parse event:', error);
+          }
+        }
+
+        for (let i = 0; i < events.length; i += maxBatchSize) {
+          try {
+            await handler(events.slice(i, i + maxBatchSize));
+          } catch (error) {
+            console.error('Failed to process event batch:', error);
+          }
+          await heartbeat();
+        }
+      },
+    });
+  }
+
   async disconnect(): Promise<void> {
     if (this.producer) {
       await this.producer.disconnect();
@@ -102,6 +127,22 @@ export class EventBus {
   }
 }
 
+function parseEvent(value: Buffer): Event {
+  const raw = JSON.parse(value.toString());
+  return {
+    ...raw,
+    timestamp: new Date(raw.timestamp),
+    data: {
+      ...raw.data,
+      // Convert date strings back to Date objects if needed
+      ...(raw.data.killmailTime && { killmailTime: new Date(raw.data.killmailTime) }),
+      ...(raw.data.startTime && { startTime: new Date(raw.data.startTime) }),
+      ...(raw.data.endTime && { endTime: new Date(raw.data.endTime) }),
+      ...(raw.data.lastKillmailAt && { lastKillmailAt: new Date(raw.data.lastKillmailAt) }),
+    },
+  };
+}
+
 export function getEventBusConfigFromEnv(): EventBusConfig {
   const brokers = process.env.KAFKA_BROKERS?.split(',') || ['localhost:9092'];
   const clientId = process.env.KAFKA_CLIENT_ID || 'battlescope';
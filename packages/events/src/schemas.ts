@@ -54,15 +54,21 @@ export const BattleSchema = z.object({
   id: z.string(),
   systemId: z.number(),
   systemName: z.string(),
-  regionId: z.number(),
+  regionId: z.number().nullable(),
   regionName: z.string(),
+  systemIds: z.array(z.number()),
+  regionIds: z.array(z.number()),
+  securityType: z.string(),
   startTime: z.date(),
-  endTime: z.date(),
+  endTime: z.date().nullable(),
+  lastKillmailAt: z.date(),
   totalKills: z.number(),
   totalValue: z.number(),
   participants: z.number(),
   alliances: z.array(z.string()),
   corporations: z.array(z.string()),
+  classification: z.string().nullable(),
+  significance: z.number().nullable(),
 });
 
 // Event schemas
@@ -78,13 +84,9 @@ export const KillmailEnrichedEventSchema = z.object({
   timestamp: z.date(),
 });
 
-export const BattleDetectedEventSchema = z.object({
-  type: z.literal('battle.detected'),
-  data: z.object({
-    battleId: z.string(),
-    systemId: z.number(),
-    startTime: z.date(),
-  }),
+export const BattleCreatedEventSchema = z.object({
+  type: z.literal('battle.created'),
+  data: BattleSchema,
   timestamp: z.date(),
 });
 
@@ -94,6 +96,12 @@ export const BattleUpdatedEventSchema = z.object({
   timestamp: z.date(),
 });
 
+export const BattleEndedEventSchema = z.object({
+  type: z.literal('battle.ended'),
+  data: BattleSchema,
+  timestamp: z.date(),
+});
+
 export const NotificationEventSchema = z.object({
   type: z.literal('notification.created'),
   data: z.object({
@@ -109,7 +117,8 @@ export const NotificationEventSchema = z.object({
 export const EventSchema = z.union([
   KillmailEventSchema,
   KillmailEnrichedEventSchema,
-  BattleDetectedEventSchema,
+  BattleCreatedEventSchema,
   BattleUpdatedEventSchema,
+  BattleEndedEventSchema,
   NotificationEventSchema,
 ]);
@@ -64,17 +64,26 @@ export interface KillmailAttacker {
 // Battle types
 export interface Battle {
   id: string;
+  // System and region the battle started in
   systemId: number;
   systemName: string;
-  regionId: number;
+  regionId: number | null;
   regionName: string;
+  // Every system and region the battle spilled into
+  systemIds: number[];
+  regionIds: number[];
+  securityType: string;
   startTime: Date;
-  endTime: Date;
+  endTime: Date | null;
+  lastKillmailAt: Date;
   totalKills: number;
   totalValue: number;
   participants: number;
   alliances: string[];
   corporations: string[];
+  // gank, small_gang, fleet_fight, capital_escalation, structure_bash or gate_camp
+  classification: string | null;
+  significance: number | null;
 }
 
 // ESI types
@@ -98,13 +107,9 @@ export interface KillmailEnrichedEvent {
   timestamp: Date;
 }
 
-export interface BattleDetectedEvent {
-  type: 'battle.detected';
-  data: {
-    battleId: string;
-    systemId: number;
-    startTime: Date;
-  };
+export interface BattleCreatedEvent {
+  type: 'battle.created';
+  data: Battle;
   timestamp: Date;
 }
 
@@ -114,6 +119,12 @@ export interface BattleUpdatedEvent {
   timestamp: Date;
 }
 
+export interface BattleEndedEvent {
+  type: 'battle.ended';
+  data: Battle;
+  timestamp: Date;
+}
+
 export interface NotificationEvent {
   type: 'notification.created';
   data: {
@@ -129,8 +140,9 @@ export interface NotificationEvent {
 export type Event =
   | KillmailEvent
   | KillmailEnrichedEvent
-  | BattleDetectedEvent
+  | BattleCreatedEvent
   | BattleUpdatedEvent
+  | BattleEndedEvent
   | NotificationEvent;
 
 // Search types
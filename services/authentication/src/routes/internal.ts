@@ -1,7 +1,9 @@
 import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
 import { getDatabase } from '../database/client';
 import { decryptToken, encryptToken } from '../lib/crypto';
 import * as esi from '../lib/esi';
+import * as session from '../lib/session';
 
 export interface ESIToken {
   characterId: number;
@@ -11,6 +13,19 @@ export interface ESIToken {
   scopes: string[];
 }
 
+const AuthorizeQuerySchema = z.object({
+  feature: z.string(),
+  role: z.string(),
+});
+
+const AuditLogSchema = z.object({
+  actorAccountId: z.string().uuid().nullable(),
+  action: z.string(),
+  targetType: z.string(),
+  targetId: z.string(),
+  metadata: z.record(z.unknown()).optional().default({}),
+});
+
 /**
  * Internal routes for service-to-service communication
  * These endpoints should only be accessible from within the cluster
@@ -142,6 +157,90 @@ export async function internalRoutes(app: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /internal/authorize?feature=battle-reports&role=admin
+   * Checks whether the session in the forwarded cookie holds at least the
+   * given role for a feature, for services that gate their own endpoints
+   *
+   * Response:
+   * {
+   *   accountId: string,
+   *   allowed: boolean
+   * }
+   */
+  app.get('/internal/authorize', async (request, reply) => {
+    const parsed = AuthorizeQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.errors });
+    }
+
+    const cookieName = process.env.SESSION_COOKIE_NAME || 'battlescope_session';
+    const sessionId = request.cookies[cookieName];
+    const sessionData = sessionId ? await session.getSession(sessionId) : null;
+    if (!sessionData) {
+      return reply.code(401).send({ error: 'Authentication required' });
+    }
+
+    const { accountId } = sessionData;
+
+    const account = await db
+      .selectFrom('accounts')
+      .select('is_super_admin')
+      .where('id', '=', accountId)
+      .executeTakeFirst();
+
+    if (account?.is_super_admin) {
+      return reply.send({ accountId, allowed: true });
+    }
+
+    const required = await db
+      .selectFrom('roles')
+      .select('rank')
+      .where('key', '=', parsed.data.role)
+      .executeTakeFirst();
+
+    const granted = await db
+      .selectFrom('account_feature_roles')
+      .innerJoin('features', 'account_feature_roles.feature_id', 'features.id')
+      .innerJoin('roles', 'account_feature_roles.role_id', 'roles.id')
+      .select('roles.rank')
+      .where('account_feature_roles.account_id', '=', accountId)
+      .where('features.key', '=', parsed.data.feature)
+      .executeTakeFirst();
+
+    return reply.send({
+      accountId,
+      allowed: !!required && !!granted && granted.rank >= required.rank,
+    });
+  });
+
+  /**
+   * POST /internal/audit-logs
+   * Records a change made through another service in the audit log
+   */
+  app.post('/internal/audit-logs', async (request, reply) => {
+    const parsed = AuditLogSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid audit log entry', details: parsed.error.errors });
+    }
+
+    const { actorAccountId, action, targetType, targetId, metadata } = parsed.data;
+
+    const entry = await db
+      .insertInto('audit_logs')
+      .values({
+        actor_account_id: actorAccountId,
+        action,
+        target_type: targetType,
+        target_id: targetId,
+        metadata: JSON.stringify(metadata),
+      })
+      .returning('id')
+      .executeTakeFirstOrThrow();
+
+    return reply.code(201).send({ id: entry.id });
+  });
+
   /**
    * GET /internal/health
    * Health check for internal service communication
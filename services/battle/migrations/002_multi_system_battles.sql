@@ -0,0 +1,11 @@
+-- Multi-system battles
+-- Migration: 002_multi_system_battles
+-- Description: Track every solar system a battle spilled into via stargates
+-- Created: 2025-11-27
+
+alter table battles add column if not exists system_ids bigint[] not null default array[]::bigint[];
+
+-- Existing battles only ever covered their primary system
+update battles set system_ids = array[system_id] where cardinality(system_ids) = 0;
+
+create index if not exists idx_battles_system_ids on battles using gin (system_ids);
@@ -0,0 +1,12 @@
+-- Side inference
+-- Migration: 003_side_inference
+-- Description: Keep the victim groups and attacker list of every battle killmail so sides can be
+--              re-inferred from the whole battle instead of a single killmail
+-- Created: 2025-11-28
+
+alter table battle_killmails add column if not exists victim_corp_id bigint;
+alter table battle_killmails add column if not exists victim_alliance_id bigint;
+alter table battle_killmails add column if not exists attackers jsonb;
+
+create index if not exists idx_battle_killmails_victim_alliance_id on battle_killmails(battle_id, victim_alliance_id);
+create index if not exists idx_battle_participants_corp_id on battle_participants(battle_id, corp_id);
@@ -0,0 +1,10 @@
+-- Re-clustering support
+-- Migration: 004_recluster
+-- Description: Keep the victim character and ship on battle killmails so their pilot_ship_history
+--              contributions can be reverted when battles are rebuilt
+-- Created: 2025-11-29
+
+alter table battle_killmails add column if not exists victim_character_id bigint;
+alter table battle_killmails add column if not exists victim_ship_type_id bigint;
+
+create index if not exists idx_battle_killmails_victim_character_id on battle_killmails(victim_character_id);
@@ -0,0 +1,32 @@
+-- Manual battle corrections
+-- Migration: 005_battle_overrides
+-- Description: Killmail-to-battle and side overrides set by analysts. They reference battles by ID
+--              without a foreign key, so they survive battles being deleted and rebuilt.
+-- Created: 2025-11-30
+
+create table if not exists battle_killmail_overrides (
+  killmail_id bigint primary key,
+  battle_id uuid not null,
+  created_by uuid,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_battle_killmail_overrides_battle_id on battle_killmail_overrides(battle_id);
+
+-- entity_id is an alliance ID, or a corporation ID for corporations without an alliance
+create table if not exists battle_side_overrides (
+  battle_id uuid not null,
+  entity_id bigint not null,
+  side_id int not null,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  primary key (battle_id, entity_id)
+);
+
+-- Splitting a multi-system battle needs to know where each killmail happened
+alter table battle_killmails add column if not exists system_id bigint;
+
+update battle_killmails bk
+set system_id = b.system_id
+from battles b
+where b.id = bk.battle_id and bk.system_id is null;
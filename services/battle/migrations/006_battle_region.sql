@@ -0,0 +1,9 @@
+-- Battle region IDs
+-- Migration: 006_battle_region
+-- Description: Store the region ID of the system a battle started in, so battle events can be
+--              matched against region subscriptions. Older battles are left without one.
+-- Created: 2025-12-01
+
+alter table battles add column if not exists region_id bigint;
+
+create index if not exists idx_battles_region_id on battles(region_id);
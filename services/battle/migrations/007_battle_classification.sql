@@ -0,0 +1,12 @@
+-- Battle classification
+-- Migration: 007_battle_classification
+-- Description: Store the kind of fight (gank, small gang, fleet fight, ...) and a significance score
+--              on battles. Both are recomputed as killmails arrive; older battles get them once they
+--              change again or are re-clustered.
+-- Created: 2025-12-02
+
+alter table battles add column if not exists classification text;
+alter table battles add column if not exists significance real;
+
+create index if not exists idx_battles_classification on battles(classification);
+create index if not exists idx_battles_significance on battles(significance desc nulls last);
@@ -0,0 +1,47 @@
+-- Campaigns
+-- Migration: 008_campaigns
+-- Description: Group battles between the same coalitions into campaigns. Automatic campaigns are
+--              rebuilt from recent battles; manual ones list their battles explicitly. Battles are
+--              referenced by ID without a foreign key, so campaigns survive re-clustering.
+-- Created: 2025-12-03
+
+create table if not exists campaigns (
+  id uuid primary key,
+  name text not null,
+  description text,
+  -- 'auto' or 'manual'
+  kind text not null,
+  region_id bigint,
+  region_name text,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  total_battles int not null default 0,
+  total_kills int not null default 0,
+  total_isk_destroyed bigint not null default 0,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_campaigns_kind_end_time on campaigns(kind, end_time desc);
+create index if not exists idx_campaigns_region_id on campaigns(region_id);
+
+create table if not exists campaign_battles (
+  campaign_id uuid not null references campaigns(id) on delete cascade,
+  battle_id uuid not null,
+  primary key (campaign_id, battle_id)
+);
+
+create index if not exists idx_campaign_battles_battle_id on campaign_battles(battle_id);
+
+-- Campaign side of every alliance (or alliance-less corporation) seen in the campaign's battles
+create table if not exists campaign_entities (
+  campaign_id uuid not null references campaigns(id) on delete cascade,
+  entity_id bigint not null,
+  entity_name text,
+  side_id int not null,
+  pilots int not null default 0,
+  primary key (campaign_id, entity_id)
+);
+
+create index if not exists idx_campaign_entities_entity_id on campaign_entities(entity_id);
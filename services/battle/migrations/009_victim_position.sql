@@ -0,0 +1,9 @@
+-- Victim positions
+-- Migration: 009_victim_position
+-- Description: Store where in the system each victim died, so separate fights on different grids of
+--              one system become separate battles. Older killmails are left without a position.
+-- Created: 2025-12-04
+
+alter table battle_killmails add column if not exists position_x double precision;
+alter table battle_killmails add column if not exists position_y double precision;
+alter table battle_killmails add column if not exists position_z double precision;
@@ -0,0 +1,44 @@
+-- Gate Camps
+-- Migration: 010_camps
+-- Description: Record gate camps - one attacker group picking off lone victims in a system over
+--              hours - apart from battles. Camps are rebuilt from recent killmails on a timer and
+--              reference killmails and battles by ID without a foreign key, like campaigns.
+-- Created: 2025-12-05
+
+create table if not exists camps (
+  id uuid primary key,
+  system_id bigint not null,
+  system_name text not null,
+  region_id bigint,
+  region_name text,
+  start_time timestamptz not null,
+  last_kill_at timestamptz not null,
+  total_kills int not null default 0,
+  total_isk_destroyed bigint not null default 0,
+  -- Pilots on the camp's kills, with their groups, kills and ships
+  campers jsonb,
+  -- Camper pilots per ship type
+  ships jsonb,
+  -- Kills per hour of the day (UTC), 24 entries
+  active_hours jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_camps_last_kill_at on camps(last_kill_at desc);
+create index if not exists idx_camps_system_id on camps(system_id, last_kill_at desc);
+
+create table if not exists camp_killmails (
+  camp_id uuid not null references camps(id) on delete cascade,
+  killmail_id bigint not null,
+  battle_id uuid not null,
+  occurred_at timestamptz not null,
+  primary key (camp_id, killmail_id)
+);
+
+create index if not exists idx_camp_killmails_killmail_id on camp_killmails(killmail_id);
+
+-- Set on battles made up entirely of a camp's kills, so they can be left out of battle lists
+alter table battles add column if not exists camp_id uuid;
+
+create index if not exists idx_battles_camp_id on battles(camp_id);
@@ -0,0 +1,36 @@
+-- Roams
+-- Migration: 011_roams
+-- Description: Record roams - a gang's trail of kills across systems - so scouts can see where a
+--              hostile gang is heading. Roams are rebuilt from recent killmails on a timer and
+--              reference killmails and battles by ID without a foreign key, like camps.
+-- Created: 2025-12-06
+
+create table if not exists roams (
+  id uuid primary key,
+  start_time timestamptz not null,
+  last_kill_at timestamptz not null,
+  total_kills int not null default 0,
+  total_isk_destroyed bigint not null default 0,
+  pilots int not null default 0,
+  -- Alliances of the gang's pilots, for looking roams up by alliance
+  alliance_ids bigint[] not null default array[]::bigint[],
+  -- Pilots per alliance (or alliance-less corporation) in the gang
+  groups jsonb,
+  -- Systems in the order the gang killed something in them, with times and kills
+  trail jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_roams_last_kill_at on roams(last_kill_at desc);
+create index if not exists idx_roams_alliance_ids on roams using gin (alliance_ids);
+
+create table if not exists roam_killmails (
+  roam_id uuid not null references roams(id) on delete cascade,
+  killmail_id bigint not null,
+  battle_id uuid not null,
+  occurred_at timestamptz not null,
+  primary key (roam_id, killmail_id)
+);
+
+create index if not exists idx_roam_killmails_killmail_id on roam_killmails(killmail_id);
@@ -0,0 +1,24 @@
+-- Battle list
+-- Migration: 012_battle_list
+-- Description: Count each battle's pilots so battles can be sorted by size, and index every sort
+--              order of the battle list together with the battle ID, which breaks ties for
+--              cursor pagination.
+-- Created: 2025-12-07
+
+alter table battles add column if not exists total_pilots int not null default 0;
+
+update battles
+set total_pilots = (select count(*) from battle_participants where battle_participants.battle_id = battles.id);
+
+create index if not exists idx_battles_list_start_time on battles(start_time desc, id desc);
+create index if not exists idx_battles_list_significance on battles(coalesce(significance, -1) desc, id desc);
+create index if not exists idx_battles_list_isk on battles(total_isk_destroyed desc, id desc);
+create index if not exists idx_battles_list_kills on battles(total_kills desc, id desc);
+create index if not exists idx_battles_list_pilots on battles(total_pilots desc, id desc);
+create index if not exists idx_battles_list_duration
+  on battles(extract(epoch from last_killmail_at - start_time) desc, id desc);
+
+-- Battles involving a corporation or seeing a ship type
+create index if not exists idx_battle_participants_by_corp_id on battle_participants(corp_id);
+create index if not exists idx_battle_participants_ship_type_id on battle_participants(ship_type_id);
+create index if not exists idx_battle_killmails_victim_ship_type_id on battle_killmails(victim_ship_type_id);
@@ -0,0 +1,33 @@
+-- Fleet Doctrines
+-- Migration: 013_doctrines
+-- Description: Record the fleet doctrines of alliances - ship compositions they bring to fleet
+--              fights again and again. Doctrines are rebuilt from recent fleet fights on a timer
+--              and reference battles by ID without a foreign key, like camps.
+-- Created: 2025-12-08
+
+create table if not exists doctrines (
+  id uuid primary key,
+  alliance_id bigint not null,
+  name text not null,
+  -- Ship types of the doctrine, with their role and share of its pilots
+  ships jsonb,
+  times_seen int not null default 0,
+  first_seen timestamptz not null,
+  last_seen timestamptz not null,
+  average_pilots int not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_doctrines_alliance_id on doctrines(alliance_id, last_seen desc);
+
+create table if not exists doctrine_battles (
+  doctrine_id uuid not null references doctrines(id) on delete cascade,
+  battle_id uuid not null,
+  -- Pilots of the alliance in the doctrine's ships
+  pilots int not null,
+  start_time timestamptz not null,
+  primary key (doctrine_id, battle_id)
+);
+
+create index if not exists idx_doctrine_battles_battle_id on doctrine_battles(battle_id);
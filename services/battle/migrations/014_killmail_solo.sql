@@ -0,0 +1,11 @@
+-- Solo kills
+-- Migration: 014_killmail_solo
+-- Description: Keep zKillboard's solo flag on each killmail, so character profiles can tell solo
+--              kills from gang kills. Older killmails are marked solo when they had one attacker.
+-- Created: 2025-12-09
+
+alter table battle_killmails add column if not exists is_solo boolean not null default false;
+
+update battle_killmails
+set is_solo = true
+where attackers is not null and jsonb_array_length(attackers) = 1;
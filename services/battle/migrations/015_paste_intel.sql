@@ -0,0 +1,8 @@
+-- Local chat paste
+-- Migration: 015_paste_intel
+-- Description: Look up battle participants by name, ignoring case, to resolve the character names
+--              pasted from local chat.
+-- Created: 2025-12-10
+
+create index if not exists idx_battle_participants_character_name
+  on battle_participants(lower(character_name));
@@ -0,0 +1,14 @@
+-- Audit log outbox
+-- Migration: 016_audit_log_outbox
+-- Description: Audit log entries of corrections and manual campaign changes, stored in the same
+--              transaction as the change and sent to the authentication service once it is
+--              committed. Entries stay here until the authentication service takes them.
+-- Created: 2025-12-11
+
+create table if not exists audit_log_outbox (
+  id bigserial primary key,
+  entry jsonb not null,
+  attempts int not null default 0,
+  last_error text,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countSharedKills,
+  findLikelyAlts,
+  getCorpHops,
+  rankAssociates,
+  type CorpStint,
+  type PilotHistory,
+} from '../lib/associates';
+
+const PILOT = 1;
+
+// Battles per hour, with `battles` in each of `hours`
+const hoursOf = (hours: number[], battles = 5) => {
+  const activeHours = new Array(24).fill(0);
+  for (const hour of hours) activeHours[hour] = battles;
+  return activeHours;
+};
+
+// Stints in corporations, each joined on the given day of 2025
+const stints = (...joins: Array<[number, string]>): CorpStint[] =>
+  joins.map(([corporationId, joined]) => ({
+    corporationId,
+    firstSeen: new Date(`2025-${joined}T00:00:00Z`),
+    lastSeen: new Date(`2025-${joined}T12:00:00Z`),
+  }));
+
+describe('associates', () => {
+  it('counts shared kills and ranks associates by shared battles, then kills', () => {
+    const attacker = (characterId: number) => ({ characterId, damageDone: 100, finalBlow: false });
+    const sharedKills = countSharedKills(
+      [
+        { killmail_id: 1, attackers: [attacker(PILOT), attacker(2), attacker(3)] },
+        { killmail_id: 2, attackers: [attacker(PILOT), attacker(3), attacker(3)] },
+        // Killmails the pilot wasn't on don't count
+        { killmail_id: 3, attackers: [attacker(2), attacker(4)] },
+        { killmail_id: 4, attackers: null },
+      ],
+      PILOT
+    );
+
+    expect([...sharedKills]).toEqual([
+      [2, 1],
+      [3, 2],
+    ]);
+    expect(rankAssociates(new Map([[2, 4], [4, 4], [5, 1]]), sharedKills)).toEqual([
+      { characterId: 2, sharedBattles: 4, sharedKills: 1 },
+      { characterId: 4, sharedBattles: 4, sharedKills: 0 },
+      { characterId: 5, sharedBattles: 1, sharedKills: 0 },
+      { characterId: 3, sharedBattles: 0, sharedKills: 2 },
+    ]);
+  });
+
+  it('orders corporation moves by when the pilot was first seen in each corporation', () => {
+    expect(getCorpHops(stints([20, '03-01'], [10, '01-01'], [30, '06-01']))).toEqual([
+      { fromCorporationId: 10, toCorporationId: 20, at: new Date('2025-03-01T00:00:00Z') },
+      { fromCorporationId: 20, toCorporationId: 30, at: new Date('2025-06-01T00:00:00Z') },
+    ]);
+    expect(getCorpHops(stints([10, '01-01']))).toEqual([]);
+  });
+
+  it('finds pilots who move with the pilot and play the same hours, but are never seen together', () => {
+    const pilot: PilotHistory = {
+      characterId: PILOT,
+      stints: stints([10, '01-01'], [20, '03-01'], [30, '06-01']),
+      activeHours: hoursOf([19, 20, 21]),
+    };
+    const candidate = (characterId: number, history: CorpStint[], activeHours = hoursOf([20, 21, 22])) => ({
+      characterId,
+      stints: history,
+      activeHours,
+    });
+
+    const alts = findLikelyAlts(
+      pilot,
+      [
+        candidate(2, stints([10, '01-05'], [20, '03-04'], [30, '06-10'])),
+        candidate(3, stints([20, '03-10'], [30, '06-02'])),
+        // Flies with the pilot
+        candidate(4, stints([10, '01-01'], [20, '03-01'], [30, '06-01'])),
+        // Moved months apart
+        candidate(5, stints([10, '01-01'], [20, '05-01'])),
+        // Plays in another timezone
+        candidate(6, stints([20, '03-01'], [30, '06-01']), hoursOf([4, 5, 6])),
+      ],
+      new Set([4])
+    );
+
+    expect(alts.map((a) => [a.characterId, a.sharedHops])).toEqual([
+      [2, 2],
+      [3, 1],
+    ]);
+    expect(alts[0].activitySimilarity).toBeCloseTo(2 / 3);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { BattleProfile, type ProfileKillmail } from '../lib/battle-classification';
+import { ShipTypes } from '../lib/ship-types';
+
+const RIFTER = 587;
+const NAGLFAR = 19722;
+const AVATAR = 11567;
+const ASTRAHUS = 35832;
+
+const shipTypes = new ShipTypes({
+  groups: {
+    '25': { name: 'Frigate', categoryId: 6 },
+    '30': { name: 'Titan', categoryId: 6 },
+    '485': { name: 'Dreadnought', categoryId: 6 },
+    '1657': { name: 'Citadel', categoryId: 65 },
+  },
+  types: {
+    [RIFTER]: { name: 'Rifter', groupId: 25 },
+    [NAGLFAR]: { name: 'Naglfar', groupId: 485 },
+    [AVATAR]: { name: 'Avatar', groupId: 30 },
+    [ASTRAHUS]: { name: 'Astrahus', groupId: 1657 },
+  },
+});
+
+const killmail = (
+  victim: { characterId?: number; allianceId: number; shipTypeId?: number },
+  attackers: Array<{ characterId: number; allianceId: number; shipTypeId?: number }>,
+  iskValue = 10_000_000,
+  solarSystemId = 30000142
+): ProfileKillmail => ({
+  solarSystemId,
+  iskValue,
+  victim: { shipTypeId: RIFTER, ...victim },
+  attackers: attackers.map((a) => ({ shipTypeId: RIFTER, ...a })),
+});
+
+// `count` pilots from one alliance, with character IDs starting at `from`
+const pilots = (count: number, allianceId: number, from: number, shipTypeId = RIFTER) =>
+  Array.from({ length: count }, (_, i) => ({ characterId: from + i, allianceId, shipTypeId }));
+
+const classify = (killmails: ProfileKillmail[]) => {
+  const profile = new BattleProfile(shipTypes);
+  killmails.forEach((km) => profile.addKillmail(km));
+  return profile.classify();
+};
+
+describe('BattleProfile', () => {
+  it('classifies a lone victim with nobody shooting back as a gank', () => {
+    const result = classify([killmail({ characterId: 1, allianceId: 100 }, pilots(5, 200, 10))]);
+
+    expect(result.classification).toBe('gank');
+  });
+
+  it('classifies one-sided kills of unrelated groups in one system as a gate camp', () => {
+    const campers = pilots(6, 200, 10);
+    const result = classify([
+      killmail({ characterId: 1, allianceId: 101 }, campers),
+      killmail({ characterId: 2, allianceId: 102 }, campers),
+      killmail({ characterId: 3, allianceId: 103 }, campers),
+    ]);
+
+    expect(result.classification).toBe('gate_camp');
+  });
+
+  it('tells small gangs from fleet fights by pilot count', () => {
+    const small = classify([
+      killmail({ characterId: 1, allianceId: 100 }, pilots(5, 200, 10)),
+      killmail({ characterId: 10, allianceId: 200 }, pilots(4, 100, 1)),
+    ]);
+    const fleet = classify([
+      killmail({ characterId: 1, allianceId: 100 }, pilots(40, 200, 1000)),
+      killmail({ characterId: 1000, allianceId: 200 }, pilots(40, 100, 2000)),
+    ]);
+
+    expect(small.classification).toBe('small_gang');
+    expect(fleet.classification).toBe('fleet_fight');
+    expect(fleet.significance).toBeGreaterThan(small.significance);
+  });
+
+  it('classifies fights with supercapitals or several capitals as capital escalations', () => {
+    const titan = classify([
+      killmail({ characterId: 1, allianceId: 100 }, [{ characterId: 10, allianceId: 200, shipTypeId: AVATAR }]),
+      killmail({ characterId: 10, allianceId: 200 }, pilots(3, 100, 1)),
+    ]);
+    const dreads = classify([
+      killmail({ characterId: 1, allianceId: 100 }, pilots(5, 200, 10, NAGLFAR)),
+      killmail({ characterId: 10, allianceId: 200, shipTypeId: NAGLFAR }, pilots(3, 100, 1)),
+    ]);
+
+    expect(titan.classification).toBe('capital_escalation');
+    expect(dreads.classification).toBe('capital_escalation');
+  });
+
+  it('classifies fights where most of the ISK is structures as a structure bash', () => {
+    const result = classify([
+      killmail({ allianceId: 100, shipTypeId: ASTRAHUS }, pilots(20, 200, 10, NAGLFAR), 5_000_000_000),
+      killmail({ characterId: 1, allianceId: 100 }, pilots(2, 200, 10)),
+    ]);
+
+    expect(result.classification).toBe('structure_bash');
+  });
+
+  it('scores one-sided fights lower than even ones of the same size', () => {
+    const gank = classify([killmail({ characterId: 1, allianceId: 100 }, pilots(9, 200, 10))]);
+    const fight = classify([
+      killmail({ characterId: 1, allianceId: 100 }, pilots(5, 200, 10)),
+      killmail({ characterId: 10, allianceId: 200 }, pilots(4, 100, 2)),
+    ]);
+
+    expect(gank.significance).toBeLessThan(fight.significance);
+  });
+});
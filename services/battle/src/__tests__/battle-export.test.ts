@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { computeBattleExport, toExportCsv, toExportText } from '../lib/battle-export';
+import { computeBattleReport } from '../lib/battle-report';
+import { ShipRoles } from '../lib/ship-roles';
+import { ShipTypes } from '../lib/ship-types';
+
+const shipTypes = new ShipTypes({
+  groups: { '25': { name: 'Frigate', categoryId: 6 }, '832': { name: 'Logistics', categoryId: 6 } },
+  types: { '587': { name: 'Rifter', groupId: 25 }, '11985': { name: 'Basilisk', groupId: 832 } },
+});
+const shipRoles = new ShipRoles({ groups: { '25': 'dps', '832': 'logi' }, weapons: {} });
+
+const START = new Date('2025-11-01T18:00:00Z');
+
+const battle = {
+  id: 'b7c1e0de-0000-4000-8000-000000000001',
+  system_id: 30004759,
+  system_ids: [30004759],
+  system_name: '1DQ1-A',
+  region_id: 10000060,
+  region_name: 'Delve',
+  security_type: 'nullsec',
+  start_time: START,
+  end_time: new Date(START.getTime() + 102 * 60 * 1000),
+  last_killmail_at: new Date(START.getTime() + 72 * 60 * 1000),
+  total_kills: 2,
+  total_isk_destroyed: BigInt(1_540_000_000),
+  total_pilots: 3,
+  zkill_related_url: 'https://zkillboard.com/related/30004759/202511011800/',
+  created_at: START,
+  updated_at: START,
+  classification: 'small_gang',
+  significance: 12,
+  camp_id: null,
+};
+
+const participant = (characterId: number, allianceId: number, sideId: number, shipTypeId: number) => ({
+  battle_id: battle.id,
+  character_id: characterId,
+  character_name: `Pilot ${characterId}`,
+  alliance_id: allianceId,
+  alliance_name: `Alliance, ${allianceId}`,
+  corp_id: allianceId * 10,
+  corp_name: `Corp ${allianceId}`,
+  ship_type_id: shipTypeId,
+  ship_type_name: null,
+  side_id: sideId,
+  is_victim: false,
+});
+
+const killmail = (killmailId: number, minute: number, victim: number, isk: number, attacker: number) => ({
+  killmail_id: killmailId,
+  occurred_at: new Date(START.getTime() + minute * 60 * 1000),
+  system_id: 30004759,
+  side_id: victim === 3 ? 2 : 1,
+  isk_value: BigInt(isk),
+  ship_type_name: victim === 2 ? 'Basilisk' : 'Rifter',
+  victim_character_id: victim,
+  victim_name: `Pilot ${victim}`,
+  victim_alliance_name: victim === 3 ? 'Alliance, 200' : 'Alliance, 100',
+  victim_ship_type_id: victim === 2 ? 11985 : 587,
+  victim_corp_id: victim === 3 ? 2000 : 1000,
+  victim_alliance_id: victim === 3 ? 200 : 100,
+  attackers: [
+    { characterId: attacker, allianceId: attacker === 3 ? 200 : 100, corporationId: 0, damageDone: 100, finalBlow: true },
+  ],
+});
+
+const killmails = [killmail(1, 0, 3, 40_000_000, 1), killmail(2, 72, 2, 1_500_000_000, 3)];
+const report = computeBattleReport(
+  battle.id,
+  killmails,
+  [participant(1, 100, 1, 587), participant(2, 100, 1, 11985), participant(3, 200, 2, 587)],
+  shipTypes,
+  shipRoles
+);
+const data = computeBattleExport(battle, report.sides, killmails);
+
+describe('computeBattleExport', () => {
+  it('puts the battle, report sides and killmails in one versioned document', () => {
+    expect(data.schemaVersion).toBe(1);
+    expect(data.battle).toMatchObject({ systemName: '1DQ1-A', totalIskDestroyed: 1_540_000_000 });
+    expect(data.sides.map((s) => s.sideId)).toEqual([1, 2]);
+    expect(data.killmails[1]).toMatchObject({
+      killmailId: 2,
+      occurredAt: '2025-11-01T19:12:00.000Z',
+      victim: { characterId: 2, shipTypeName: 'Basilisk' },
+      iskValue: 1_500_000_000,
+      attackers: 1,
+    });
+  });
+});
+
+describe('toExportCsv', () => {
+  it('writes a participant table and a killmail table, quoting where needed', () => {
+    const [participants, kills] = toExportCsv(data).split('\r\n\r\n');
+
+    expect(participants.split('\r\n')).toEqual([
+      'side_id,character_id,character_name,corporation_name,alliance_name,ship_type_name,role,kills,final_blows,losses,isk_lost',
+      '1,1,Pilot 1,Corp 100,"Alliance, 100",,dps,1,1,0,0',
+      '1,2,Pilot 2,Corp 100,"Alliance, 100",,logi,0,0,1,1500000000',
+      '2,3,Pilot 3,Corp 200,"Alliance, 200",,dps,1,1,1,40000000',
+    ]);
+    expect(kills.split('\r\n')[1]).toBe(
+      '1,2025-11-01T18:00:00.000Z,30004759,2,3,Pilot 3,"Alliance, 200",Rifter,40000000,1'
+    );
+  });
+});
+
+describe('toExportText', () => {
+  it('summarises the battle and each side for pasting', () => {
+    expect(toExportText(data).split('\n')).toEqual([
+      'Small gang in 1DQ1-A (Delve)',
+      '2025-11-01 18:00 - 2025-11-01 19:12 UTC (1h 12m)',
+      '2 kills, 1.5b ISK destroyed',
+      '',
+      'Side 1: 2 pilots',
+      '  Killed 40m, lost 1.5b (3% efficiency), 1 kills, 1 losses',
+      '  Groups: Alliance, 100 (2)',
+      '  Roles: 1 logi, 1 dps',
+      '  Lost: 1x Basilisk',
+      '',
+      'Side 2: 1 pilots',
+      '  Killed 1.5b, lost 40m (97% efficiency), 1 kills, 1 losses',
+      '  Groups: Alliance, 200 (1)',
+      '  Roles: 1 dps',
+      '  Lost: 1x Rifter',
+      '',
+      'https://zkillboard.com/related/30004759/202511011800/',
+      '',
+    ]);
+  });
+});
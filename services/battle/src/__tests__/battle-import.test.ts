@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { BattleImportSchema } from '../lib/battle-import';
+
+const HASH = '0123456789abcdef0123456789abcdef01234567';
+
+describe('BattleImportSchema', () => {
+  it('accepts killmails in every supported format', () => {
+    const result = BattleImportSchema.parse({
+      killmails: [{ killmailId: 1, hash: HASH }, [2, HASH], { killmail_id: 3, zkb: { hash: HASH } }, { killmailId: 4 }],
+    });
+
+    expect(result.killmails).toEqual([
+      { killmailId: 1, hash: HASH },
+      { killmailId: 2, hash: HASH },
+      { killmailId: 3, hash: HASH },
+      { killmailId: 4, hash: null },
+    ]);
+    expect(result.sides).toEqual([]);
+  });
+
+  it('pins the groups of a battle report side by side', () => {
+    const result = BattleImportSchema.parse({
+      sides: [
+        {
+          alliances: [{ allianceId: 100 }],
+          corporations: [
+            { corporationId: 1000, allianceId: 100 },
+            { corporationId: 2000, allianceId: null },
+          ],
+          killmails: [{ killmailId: 1 }],
+        },
+        { sideId: 5, entityIds: [300], killmails: [[1, HASH], [2, HASH]] },
+        // Unassigned pilots in a BattleScope export
+        { sideId: null, alliances: [{ allianceId: 400 }] },
+      ],
+    });
+
+    expect(result.sides).toEqual([
+      { entityId: 100, sideId: 1 },
+      { entityId: 2000, sideId: 1 },
+      { entityId: 300, sideId: 5 },
+    ]);
+    // The hash is kept whichever side listed it
+    expect(result.killmails).toEqual([
+      { killmailId: 1, hash: HASH },
+      { killmailId: 2, hash: HASH },
+    ]);
+  });
+
+  it('rejects imports without killmails or with a group on both sides', () => {
+    expect(BattleImportSchema.safeParse({ sides: [{ entityIds: [100] }] }).success).toBe(false);
+    expect(
+      BattleImportSchema.safeParse({
+        killmails: [[1, HASH]],
+        sides: [{ entityIds: [100] }, { alliances: [{ allianceId: 100 }] }],
+      }).success
+    ).toBe(false);
+    expect(BattleImportSchema.safeParse({ killmails: [[1, 'not-a-hash']] }).success).toBe(false);
+  });
+});
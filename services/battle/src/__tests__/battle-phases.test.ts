@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { computeBattlePhases } from '../lib/battle-phases';
+
+const START = new Date('2025-11-01T20:00:00Z').getTime();
+
+const participants = [
+  { alliance_id: 100, alliance_name: 'Alpha', corp_id: 1000, corp_name: 'Alpha Corp', side_id: 1 },
+  { alliance_id: 200, alliance_name: 'Bravo', corp_id: 2000, corp_name: 'Bravo Corp', side_id: 2 },
+  { alliance_id: 300, alliance_name: 'Charlie', corp_id: 3000, corp_name: 'Charlie Corp', side_id: 1 },
+];
+
+let nextKillmailId = 1;
+
+// A kill `seconds` into the battle of a pilot from `victimAllianceId` by pilots from `attackers`
+const kill = (seconds: number, victimAllianceId: number, attackers: Array<[allianceId: number, characterId: number]>) => {
+  const killmailId = nextKillmailId++;
+  return {
+    killmail_id: killmailId,
+    occurred_at: new Date(START + seconds * 1000),
+    side_id: null,
+    isk_value: BigInt(100_000_000),
+    victim_character_id: 90000 + killmailId,
+    victim_corp_id: victimAllianceId * 10,
+    victim_alliance_id: victimAllianceId,
+    attackers: attackers.map(([allianceId, characterId]) => ({
+      characterId,
+      allianceId,
+      corporationId: allianceId * 10,
+      damageDone: 100,
+      finalBlow: false,
+    })),
+  };
+};
+
+describe('computeBattlePhases', () => {
+  it('returns no phases for a battle without killmails', () => {
+    expect(computeBattlePhases([], participants)).toEqual([]);
+  });
+
+  it('starts a new phase after a lull', () => {
+    const phases = computeBattlePhases(
+      [
+        kill(0, 200, [[100, 1]]),
+        kill(60, 100, [[200, 2]]),
+        kill(120, 200, [[100, 1]]),
+        kill(20 * 60, 100, [[200, 2]]),
+      ],
+      participants
+    );
+
+    expect(phases.map((p) => [p.reason, p.kills])).toEqual([
+      ['start', 3],
+      ['lull', 1],
+    ]);
+    expect(phases[0].sides).toEqual([
+      { sideId: 1, kills: 2, losses: 1, iskKilled: 200_000_000, iskLost: 100_000_000 },
+      { sideId: 2, kills: 1, losses: 2, iskKilled: 100_000_000, iskLost: 200_000_000 },
+    ]);
+  });
+
+  it('starts a new phase when reinforcements arrive', () => {
+    const reinforcements: Array<[number, number]> = [1, 2, 3, 4, 5].map((i) => [300, 30 + i]);
+    const phases = computeBattlePhases(
+      [
+        kill(0, 200, [[100, 1]]),
+        kill(30, 100, [[200, 2]]),
+        kill(60, 200, [[100, 1]]),
+        kill(90, 200, reinforcements),
+        kill(120, 200, [[300, 31]]),
+      ],
+      participants
+    );
+
+    expect(phases.map((p) => [p.reason, p.kills])).toEqual([
+      ['start', 3],
+      ['reinforcements', 2],
+    ]);
+    expect(phases[1].joined).toEqual([{ entityId: 300, name: 'Charlie', sideId: 1, pilots: 5 }]);
+  });
+
+  it('starts a new phase when the fight swings to the other side', () => {
+    const killmails = [
+      ...[0, 1, 2, 3, 4].map((i) => kill(i * 30, 200, [[100, 1]])),
+      ...[5, 6, 7, 8, 9].map((i) => kill(i * 30, 100, [[200, 2]])),
+    ];
+    const phases = computeBattlePhases(killmails, participants);
+
+    expect(phases.map((p) => [p.reason, p.kills])).toEqual([
+      ['start', 5],
+      ['swing', 5],
+    ]);
+    expect(phases[1].startTime).toEqual(new Date(START + 150 * 1000));
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { DummyDriver, Kysely, PostgresAdapter, PostgresIntrospector, PostgresQueryCompiler } from 'kysely';
+import type { Database } from '../database/types';
+import { decodeCursor, encodeCursor, getNextCursor, sortBattles } from '../lib/battle-query';
+
+const ID = 'b7c1e0de-0000-4000-8000-000000000001';
+
+describe('battle list cursors', () => {
+  it('carries the last battle of a page over to the next request', () => {
+    const cursor = getNextCursor({ id: ID, sort_value: new Date('2025-11-01T18:00:00Z') }, 'start_time', 'desc');
+
+    expect(decodeCursor(cursor, 'start_time', 'desc')).toEqual({
+      sort: 'start_time',
+      order: 'desc',
+      value: '2025-11-01T18:00:00.000Z',
+      id: ID,
+    });
+    // pg returns bigint and numeric sort values as strings
+    expect(decodeCursor(getNextCursor({ id: ID, sort_value: '1540000000' }, 'isk', 'asc'), 'isk', 'asc')?.value).toBe(
+      '1540000000'
+    );
+  });
+
+  it('rejects cursors for another sort order, and malformed ones', () => {
+    const cursor = encodeCursor({ sort: 'kills', order: 'desc', value: '12', id: ID });
+
+    expect(decodeCursor(cursor, 'pilots', 'desc')).toBeNull();
+    expect(decodeCursor(cursor, 'kills', 'asc')).toBeNull();
+    expect(decodeCursor('not a cursor', 'kills', 'desc')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"sort":"kills"}').toString('base64url'), 'kills', 'desc')).toBeNull();
+  });
+});
+
+describe('sortBattles', () => {
+  // Compiles queries without a database
+  const db = new Kysely<Database>({
+    dialect: {
+      createAdapter: () => new PostgresAdapter(),
+      createDriver: () => new DummyDriver(),
+      createIntrospector: (db) => new PostgresIntrospector(db),
+      createQueryCompiler: () => new PostgresQueryCompiler(),
+    },
+  });
+
+  it('starts after a fractional significance cursor', () => {
+    // pg returns real columns as numbers
+    const cursor = decodeCursor(getNextCursor({ id: ID, sort_value: 42.7 }, 'significance', 'desc'), 'significance', 'desc');
+    const query = sortBattles(db.selectFrom('battles').select('battles.id'), 'significance', 'desc', cursor).compile();
+
+    expect(query.sql).toContain('(coalesce(battles.significance, -1), battles.id) < ($1::real, $2::uuid)');
+    expect(query.parameters).toEqual(['42.7', ID]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { computeBattleReplay, getBucketSizes, parseBucket } from '../lib/battle-replay';
+import { ShipTypes } from '../lib/ship-types';
+
+const RIFTER = 587;
+const HYPERION = 24690;
+const START = new Date('2025-11-01T20:00:00Z').getTime();
+
+const shipTypes = new ShipTypes({
+  groups: { '25': { name: 'Frigate', categoryId: 6 }, '27': { name: 'Battleship', categoryId: 6 } },
+  types: { [RIFTER]: { name: 'Rifter', groupId: 25 }, [HYPERION]: { name: 'Hyperion', groupId: 27 } },
+});
+
+const participants = [
+  { alliance_id: 100, corp_id: 1000, side_id: 1 },
+  { alliance_id: 200, corp_id: 2000, side_id: 2 },
+];
+
+const killmail = (
+  killmailId: number,
+  seconds: number,
+  victim: { characterId: number; allianceId: number; shipTypeId: number },
+  isk: number,
+  attackers: Array<{ characterId: number; allianceId: number; shipTypeId: number }>
+) => ({
+  killmail_id: killmailId,
+  occurred_at: new Date(START + seconds * 1000),
+  side_id: null,
+  isk_value: BigInt(isk),
+  ship_type_name: null,
+  victim_name: `Pilot ${victim.characterId}`,
+  victim_character_id: victim.characterId,
+  victim_ship_type_id: victim.shipTypeId,
+  victim_corp_id: victim.allianceId * 10,
+  victim_alliance_id: victim.allianceId,
+  attackers: attackers.map((a) => ({ ...a, corporationId: a.allianceId * 10, damageDone: 100, finalBlow: false })),
+});
+
+describe('parseBucket', () => {
+  it('parses seconds and minutes', () => {
+    expect(parseBucket('30s')).toBe(30_000);
+    expect(parseBucket('5m')).toBe(300_000);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseBucket('0s')).toBeNull();
+    expect(parseBucket('1h')).toBeNull();
+    expect(parseBucket('abc')).toBeNull();
+  });
+});
+
+describe('getBucketSizes', () => {
+  it('offers the sizes that fit the battle in 1000 buckets', () => {
+    expect(getBucketSizes(10 * 60_000)).toEqual(['30s', '1m', '5m', '15m', '60m']);
+    // Too long for 30s buckets
+    expect(getBucketSizes(10 * 60 * 60_000)).toEqual(['1m', '5m', '15m', '60m']);
+    expect(getBucketSizes(48 * 60 * 60_000)).toEqual(['5m', '15m', '60m']);
+  });
+});
+
+describe('computeBattleReplay', () => {
+  const replay = computeBattleReplay(
+    'battle',
+    [
+      // Pilots 1 and 2 (side 1, Rifters) kill pilot 3 (side 2, Hyperion)
+      killmail(1, 0, { characterId: 3, allianceId: 200, shipTypeId: HYPERION }, 200_000_000, [
+        { characterId: 1, allianceId: 100, shipTypeId: RIFTER },
+        { characterId: 2, allianceId: 100, shipTypeId: RIFTER },
+      ]),
+      // Pilot 4 (side 2, Hyperion) kills pilot 1
+      killmail(2, 70, { characterId: 1, allianceId: 100, shipTypeId: RIFTER }, 10_000_000, [
+        { characterId: 4, allianceId: 200, shipTypeId: HYPERION },
+      ]),
+    ],
+    participants,
+    30_000,
+    shipTypes
+  );
+
+  it('covers the battle with buckets, including empty ones', () => {
+    expect(replay.bucketSeconds).toBe(30);
+    expect(replay.buckets.map((b) => b.kills.map((k) => k.killmailId))).toEqual([[1], [], [2]]);
+  });
+
+  it('carries cumulative per-side state forward', () => {
+    const [first, second, third] = replay.buckets;
+
+    expect(first.sides.map((s) => [s.sideId, s.iskLost, s.pilots, s.activePilots])).toEqual([
+      [1, 0, 2, 2],
+      [2, 200_000_000, 1, 1],
+    ]);
+    expect(second.sides.map((s) => [s.sideId, s.iskLost, s.activePilots])).toEqual([
+      [1, 0, 0],
+      [2, 200_000_000, 0],
+    ]);
+    expect(third.sides.map((s) => [s.sideId, s.iskLost, s.pilots])).toEqual([
+      [1, 10_000_000, 2],
+      [2, 200_000_000, 2],
+    ]);
+  });
+
+  it('tracks ships alive versus lost by hull', () => {
+    const first = replay.buckets[0];
+    const last = replay.buckets[2];
+
+    expect(first.sides[0].hulls).toEqual([{ shipTypeId: RIFTER, shipTypeName: 'Rifter', alive: 2, lost: 0 }]);
+    expect(last.sides[0].hulls).toEqual([{ shipTypeId: RIFTER, shipTypeName: 'Rifter', alive: 1, lost: 1 }]);
+    expect(last.sides[1].hulls).toEqual([{ shipTypeId: HYPERION, shipTypeName: 'Hyperion', alive: 1, lost: 1 }]);
+  });
+});
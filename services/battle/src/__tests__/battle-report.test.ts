@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { computeBattleReport } from '../lib/battle-report';
+import { ShipTypes } from '../lib/ship-types';
+
+const shipTypes = new ShipTypes({
+  groups: {
+    '25': { name: 'Frigate', categoryId: 6 },
+    '27': { name: 'Battleship', categoryId: 6 },
+  },
+  types: {
+    '587': { name: 'Rifter', groupId: 25 },
+    '24690': { name: 'Hyperion', groupId: 27 },
+  },
+});
+
+const participant = (characterId: number, allianceId: number, corpId: number, sideId: number, shipTypeId: number) => ({
+  battle_id: 'battle',
+  character_id: characterId,
+  character_name: `Pilot ${characterId}`,
+  alliance_id: allianceId,
+  alliance_name: `Alliance ${allianceId}`,
+  corp_id: corpId,
+  corp_name: `Corp ${corpId}`,
+  ship_type_id: shipTypeId,
+  ship_type_name: null,
+  side_id: sideId,
+  is_victim: false,
+});
+
+const killmail = (
+  killmailId: number,
+  victim: { characterId: number; allianceId: number; corpId: number; shipTypeId: number; sideId: number },
+  isk: number,
+  attackers: Array<{ characterId?: number; allianceId?: number; corporationId?: number; finalBlow?: boolean }>
+) => ({
+  killmail_id: killmailId,
+  side_id: victim.sideId,
+  isk_value: BigInt(isk),
+  ship_type_name: null,
+  victim_character_id: victim.characterId,
+  victim_ship_type_id: victim.shipTypeId,
+  victim_corp_id: victim.corpId,
+  victim_alliance_id: victim.allianceId,
+  attackers: attackers.map((a) => ({ damageDone: 100, finalBlow: false, ...a })),
+});
+
+// Side 1: alliance 100 (pilots 1, 2). Side 2: alliance 200 (pilot 3)
+const participants = [
+  participant(1, 100, 1000, 1, 24690),
+  participant(2, 100, 1001, 1, 587),
+  participant(3, 200, 2000, 2, 587),
+];
+
+const killmails = [
+  killmail(10, { characterId: 3, allianceId: 200, corpId: 2000, shipTypeId: 587, sideId: 2 }, 30_000_000, [
+    { characterId: 1, allianceId: 100, corporationId: 1000, finalBlow: true },
+    { characterId: 2, allianceId: 100, corporationId: 1001 },
+  ]),
+  killmail(11, { characterId: 2, allianceId: 100, corpId: 1001, shipTypeId: 587, sideId: 1 }, 10_000_000, [
+    { characterId: 3, allianceId: 200, corporationId: 2000, finalBlow: true },
+  ]),
+  killmail(12, { characterId: 1, allianceId: 100, corpId: 1000, shipTypeId: 24690, sideId: 1 }, 200_000_000, [
+    { characterId: 3, allianceId: 200, corporationId: 2000 },
+    // NPC, no character
+    { corporationId: 500021, finalBlow: true },
+  ]),
+];
+
+describe('computeBattleReport', () => {
+  const report = computeBattleReport('battle', killmails, participants, shipTypes);
+  const [side1, side2] = report.sides;
+
+  it('should total ISK killed and lost per side', () => {
+    expect(side1.sideId).toBe(1);
+    expect(side1.iskKilled).toBe(30_000_000);
+    expect(side1.iskLost).toBe(210_000_000);
+    expect(side2.iskKilled).toBe(210_000_000);
+    expect(side2.iskLost).toBe(30_000_000);
+    expect(side2.iskEfficiency).toBeCloseTo(0.875);
+  });
+
+  it('should break losses down by hull and ship group', () => {
+    expect(side1.lossesByHull).toEqual([
+      { shipTypeId: 24690, shipTypeName: 'Hyperion', groupName: 'Battleship', count: 1, iskLost: 200_000_000 },
+      { shipTypeId: 587, shipTypeName: 'Rifter', groupName: 'Frigate', count: 1, iskLost: 10_000_000 },
+    ]);
+    expect(side1.lossesByGroup.map((g) => g.groupName)).toEqual(['Battleship', 'Frigate']);
+  });
+
+  it('should list the alliance and corporation roster', () => {
+    expect(side1.pilotCount).toBe(2);
+    expect(side1.alliances).toEqual([{ allianceId: 100, allianceName: 'Alliance 100', pilots: 2 }]);
+    expect(side1.corporations.map((c) => c.corporationId).sort()).toEqual([1000, 1001]);
+    expect(side1.roles).toMatchObject({ dps: 2, logi: 0, capital: 0 });
+  });
+
+  it('should count kills, losses and final blows per pilot', () => {
+    const pilot1 = side1.pilots.find((p) => p.characterId === 1)!;
+    expect(pilot1).toMatchObject({ kills: 1, finalBlows: 1, losses: 1, iskLost: 200_000_000 });
+
+    const pilot3 = side2.pilots[0];
+    expect(pilot3).toMatchObject({ characterId: 3, kills: 2, finalBlows: 1, losses: 1 });
+  });
+});
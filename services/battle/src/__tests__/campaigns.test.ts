@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { buildCampaignGroup, groupCampaignBattles, type CampaignBattle } from '../lib/campaigns';
+import { computeCampaignReport } from '../lib/campaign-report';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2025-11-01T20:00:00Z').getTime();
+
+let nextBattle = 1;
+
+// A battle `day` days in, with each side given as [allianceId, pilots] pairs
+const battle = (day: number, sides: Array<Array<[number, number]>>, regionName = 'Delve'): CampaignBattle => ({
+  id: `battle-${nextBattle++}`,
+  regionId: null,
+  regionName,
+  startTime: new Date(START + day * DAY),
+  lastKillmailAt: new Date(START + day * DAY + 60 * 60 * 1000),
+  totalKills: 10,
+  totalIsk: 1_000_000_000,
+  sides: sides.map((entities, i) => ({
+    sideId: i + 1,
+    entities: entities.map(([entityId, pilots]) => ({ entityId, name: `Alliance ${entityId}`, pilots })),
+  })),
+});
+
+describe('groupCampaignBattles', () => {
+  it('groups battles between the same coalitions, whatever their side numbers', () => {
+    const battles = [
+      battle(0, [[[100, 50]], [[200, 40]]]),
+      // Side numbers swapped, and a new ally on the first coalition's side
+      battle(1, [[[200, 30]], [[100, 20], [300, 10]]]),
+      battle(2, [[[300, 25], [100, 25]], [[200, 45]]]),
+    ];
+
+    const groups = groupCampaignBattles(battles);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].battles.map((b) => b.id)).toEqual(battles.map((b) => b.id));
+    expect([...groups[0].entities.values()].map((e) => [e.entityId, e.sideId, e.pilots])).toEqual([
+      [100, 1, 50],
+      [200, 2, 45],
+      [300, 1, 25],
+    ]);
+    expect(groups[0].getName()).toBe('Alliance 100 vs Alliance 200 in Delve');
+  });
+
+  it('keeps battles in other regions, after a long gap or with other enemies apart', () => {
+    const groups = groupCampaignBattles([
+      battle(0, [[[100, 50]], [[200, 40]]]),
+      battle(1, [[[100, 50]], [[200, 40]]]),
+      battle(1, [[[100, 50]], [[200, 40]]], 'Fountain'),
+      // Only one of the coalitions shows up again
+      battle(2, [[[100, 50]], [[400, 40]]]),
+      battle(2, [[[100, 50]], [[200, 40]]]),
+      // Too long after the last battle to be the same campaign
+      battle(10, [[[100, 50]], [[200, 40]]]),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].battles).toHaveLength(3);
+    expect(groups[0].battles.every((b) => b.regionName === 'Delve')).toBe(true);
+  });
+
+  it('drops groups with too few battles and one-sided battles', () => {
+    expect(
+      groupCampaignBattles([
+        battle(0, [[[100, 50]], [[200, 40]]]),
+        battle(1, [[[100, 50]]]),
+        battle(2, [[[100, 50]], [[200, 40]]]),
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe('computeCampaignReport', () => {
+  const [first, second] = [battle(0, [[[100, 50]], [[200, 40]]]), battle(1, [[[200, 30]], [[100, 20]]])];
+  const entities = buildCampaignGroup([first, second]);
+
+  const killmail = (battleId: string, victimAllianceId: number, attackerAllianceId: number, isk: number) => ({
+    battle_id: battleId,
+    isk_value: BigInt(isk),
+    victim_corp_id: victimAllianceId * 10,
+    victim_alliance_id: victimAllianceId,
+    attackers: [
+      {
+        characterId: 1,
+        allianceId: attackerAllianceId,
+        corporationId: attackerAllianceId * 10,
+        damageDone: 100,
+        finalBlow: true,
+      },
+    ],
+  });
+
+  const report = computeCampaignReport(
+    'campaign',
+    [
+      { id: second.id, start_time: second.startTime },
+      { id: first.id, start_time: first.startTime },
+    ],
+    [
+      killmail(first.id, 200, 100, 300_000_000),
+      killmail(first.id, 100, 200, 100_000_000),
+      killmail(second.id, 100, 200, 400_000_000),
+    ],
+    [...entities.entities.values()].map((e) => ({
+      entity_id: e.entityId,
+      entity_name: e.name,
+      side_id: e.sideId,
+      pilots: e.pilots,
+    }))
+  );
+
+  it('adds up ISK killed and lost per campaign side across battles', () => {
+    expect(report.sides.map((s) => [s.sideId, s.iskKilled, s.iskLost, s.battles])).toEqual([
+      [1, 300_000_000, 500_000_000, 2],
+      [2, 500_000_000, 300_000_000, 2],
+    ]);
+    expect(report.sides[0].iskEfficiency).toBeCloseTo(0.375);
+    expect(report.sides[0].entities).toEqual([{ entityId: 100, name: 'Alliance 100', pilots: 50 }]);
+  });
+
+  it('tracks cumulative efficiency battle by battle', () => {
+    expect(report.sides[0].trend.map((p) => [p.battleId, p.iskKilled, p.iskLost, p.iskEfficiency])).toEqual([
+      [first.id, 300_000_000, 100_000_000, 0.75],
+      [second.id, 0, 400_000_000, 0.375],
+    ]);
+    expect(report.battles.map((b) => b.battleId)).toEqual([first.id, second.id]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { detectCamps, summarizeCamp, type CampKillmail } from '../lib/camps';
+import { ShipTypes } from '../lib/ship-types';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2025-11-01T18:00:00Z').getTime();
+const SYSTEM = 30002813;
+
+let nextKillmail = 1;
+let nextCharacter = 1000;
+
+// A kill `minute` minutes in of a lone pilot from `victimAllianceId` by pilots of `attackerAllianceId`
+const kill = (
+  minute: number,
+  victimAllianceId: number,
+  attackerAllianceId = 100,
+  attackers: Array<[number, number]> = [
+    [1, 11176],
+    [2, 29988],
+  ]
+): CampKillmail => ({
+  battle_id: `battle-${nextKillmail}`,
+  killmail_id: nextKillmail++,
+  occurred_at: new Date(START + minute * MINUTE),
+  system_id: SYSTEM,
+  isk_value: BigInt(50_000_000),
+  victim_character_id: nextCharacter++,
+  victim_corp_id: victimAllianceId * 10,
+  victim_alliance_id: victimAllianceId,
+  attackers: attackers.map(([characterId, shipTypeId]) => ({
+    characterId,
+    corporationId: attackerAllianceId * 10,
+    allianceId: attackerAllianceId,
+    shipTypeId,
+    damageDone: 100,
+    finalBlow: characterId === attackers[0][0],
+  })),
+});
+
+describe('detectCamps', () => {
+  it('groups lone kills by the same attackers in one system over time', () => {
+    const kills = [kill(0, 200), kill(20, 300), kill(45, 400), kill(80, 200), kill(130, 500)];
+
+    const camps = detectCamps(kills);
+
+    expect(camps).toHaveLength(1);
+    expect(camps[0].systemId).toBe(SYSTEM);
+    expect(camps[0].kills.map((k) => k.killmail_id)).toEqual(kills.map((k) => k.killmail_id));
+    expect([...camps[0].victimGroups]).toEqual([200, 300, 400, 500]);
+  });
+
+  it('leaves out fleets that lose several ships or shoot back', () => {
+    const fleet = [kill(60, 600), kill(61, 600), kill(62, 600)];
+    const fightBack = [kill(90, 700), kill(91, 100, 700)];
+    const kills = [kill(0, 200), kill(20, 300), kill(40, 400), ...fleet, ...fightBack, kill(100, 500), kill(150, 800)];
+
+    const [camp] = detectCamps(kills);
+
+    const campKills = new Set(camp.kills.map((k) => k.killmail_id));
+    expect([...fleet, ...fightBack].some((k) => campKills.has(k.killmail_id))).toBe(false);
+    expect(camp.kills).toHaveLength(5);
+  });
+
+  it('splits camps on a long quiet spell and drops ones that are too small', () => {
+    const camps = detectCamps([
+      kill(0, 200),
+      kill(20, 300),
+      kill(40, 400),
+      // Over an hour later, so a new camp that never gets big enough
+      kill(150, 500),
+      kill(160, 600),
+    ]);
+
+    expect(camps).toEqual([]);
+  });
+});
+
+describe('summarizeCamp', () => {
+  const shipTypes = new ShipTypes({
+    groups: { '831': { name: 'Interceptor', categoryId: 6 }, '894': { name: 'Heavy Interdiction Cruiser', categoryId: 6 } },
+    types: { '11176': { name: 'Crow', groupId: 831 }, '29988': { name: 'Proteus', groupId: 894 } },
+  });
+
+  it('builds the campers roster, ship composition and active hours', () => {
+    const [camp] = detectCamps([
+      kill(0, 200),
+      kill(20, 300),
+      kill(45, 400),
+      kill(80, 200, 100, [[1, 11176]]),
+      kill(130, 500, 100, [[3, 11176]]),
+    ]);
+    const names = new Map([[1, { character_name: 'Camper One', corp_name: 'Corp', alliance_name: 'Campers' }]]);
+
+    const summary = summarizeCamp(camp, names, shipTypes);
+
+    expect(summary.totalKills).toBe(5);
+    expect(summary.totalIsk).toBe(250_000_000);
+    expect(summary.campers.map((c) => [c.characterId, c.name, c.kills, c.shipTypeIds])).toEqual([
+      [1, 'Camper One', 4, [11176]],
+      [2, null, 3, [29988]],
+      [3, null, 1, [11176]],
+    ]);
+    expect(summary.ships).toEqual([
+      { shipTypeId: 11176, shipTypeName: 'Crow', pilots: 2 },
+      { shipTypeId: 29988, shipTypeName: 'Proteus', pilots: 1 },
+    ]);
+    expect(summary.activeHours[18]).toBe(3);
+    expect(summary.activeHours[19]).toBe(1);
+    expect(summary.activeHours[20]).toBe(1);
+  });
+});
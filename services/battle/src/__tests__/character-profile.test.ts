@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { getTimezone, summarizeCharacterActivity, type CharacterKillmail } from '../lib/character-profile';
+import { ShipTypes } from '../lib/ship-types';
+import { StargateGraph } from '../lib/stargate-graph';
+
+const graph = new StargateGraph({
+  regions: { '10': 'Delve', '20': 'Querious' },
+  systems: {
+    '1': { name: '1DQ1-A', regionId: 10, security: -0.4, neighbours: [2] },
+    '2': { name: 'T5ZI-S', regionId: 10, security: -0.3, neighbours: [1, 3] },
+    '3': { name: 'Q-02UL', regionId: 20, security: -0.2, neighbours: [2] },
+  },
+});
+
+const shipTypes = new ShipTypes({
+  groups: { '25': { name: 'Frigate', categoryId: 6 }, '358': { name: 'Heavy Assault Cruiser', categoryId: 6 } },
+  types: { '587': { name: 'Rifter', groupId: 25 }, '12015': { name: 'Muninn', groupId: 358 } },
+});
+
+const PILOT = 1;
+const [RIFTER, MUNINN] = [587, 12015];
+
+let nextKillmail = 1;
+
+// A killmail in `systemId` at `time` with `attackers` pilots, the first of them the pilot unless it's their loss
+const killmail = (
+  time: string,
+  systemId: number,
+  { attackers = 1, loss = false, solo = false, isk = 100_000_000 } = {}
+): CharacterKillmail => ({
+  killmail_id: nextKillmail++,
+  occurred_at: new Date(time),
+  system_id: systemId,
+  isk_value: BigInt(isk),
+  victim_character_id: loss ? PILOT : 99,
+  victim_ship_type_id: loss ? MUNINN : RIFTER,
+  attackers: Array.from({ length: attackers }, (_, i) => ({
+    characterId: loss ? 100 + i : PILOT + i,
+    shipTypeId: RIFTER,
+    damageDone: 100,
+    finalBlow: i === 0,
+  })),
+  is_solo: solo,
+});
+
+describe('summarizeCharacterActivity', () => {
+  const killmails = [
+    // Monday evenings in Europe
+    killmail('2025-11-03T19:10:00Z', 1, { solo: true, isk: 50_000_000 }),
+    killmail('2025-11-03T20:30:00Z', 1, { attackers: 5 }),
+    killmail('2025-11-03T21:00:00Z', 2, { attackers: 40, isk: 450_000_000 }),
+    killmail('2025-11-10T20:15:00Z', 3, { attackers: 30, loss: true, isk: 300_000_000 }),
+    // A kill the pilot wasn't on
+    { ...killmail('2025-11-11T03:00:00Z', 3, { attackers: 3 }), attackers: [] },
+  ];
+
+  it('sums up kills, losses and how the pilot gets their kills', () => {
+    const activity = summarizeCharacterActivity(killmails, PILOT, graph, shipTypes);
+
+    expect(activity).toMatchObject({
+      kills: 3,
+      losses: 1,
+      averageIskPerKill: 200_000_000,
+      averageIskPerLoss: 300_000_000,
+      engagements: { solo: 1, smallGang: 1, fleet: 1 },
+    });
+    expect(activity.engagementRatio?.solo).toBeCloseTo(1 / 3);
+    expect(activity.topSystems.map((s) => [s.systemName, s.kills, s.losses])).toEqual([
+      ['1DQ1-A', 2, 0],
+      ['T5ZI-S', 1, 0],
+      ['Q-02UL', 0, 1],
+    ]);
+    expect(activity.topRegions.map((r) => r.regionName)).toEqual(['Delve', 'Querious']);
+  });
+
+  it('finds when the pilot plays, and where they were last seen', () => {
+    const activity = summarizeCharacterActivity(killmails, PILOT, graph, shipTypes);
+
+    expect(activity.hours[20]).toBe(2);
+    expect(activity.weekdays).toEqual([4, 0, 0, 0, 0, 0, 0]);
+    expect(activity.primeTime).toEqual({ startHour: 18, endHour: 22 });
+    expect(activity.timezone).toBe('EUTZ');
+    expect(activity.lastSeen).toEqual({
+      at: new Date('2025-11-10T20:15:00Z'),
+      systemId: 3,
+      systemName: 'Q-02UL',
+      regionName: 'Querious',
+      shipTypeId: MUNINN,
+      shipTypeName: 'Muninn',
+    });
+  });
+
+  it('has no averages, prime time or last location without killmails', () => {
+    expect(summarizeCharacterActivity([], PILOT, graph, shipTypes)).toMatchObject({
+      averageIskPerKill: null,
+      averageIskPerLoss: null,
+      primeTime: null,
+      timezone: null,
+      engagementRatio: null,
+      lastSeen: null,
+    });
+    expect([0, 8, 16, 22].map(getTimezone)).toEqual(['USTZ', 'AUTZ', 'EUTZ', 'USTZ']);
+  });
+});
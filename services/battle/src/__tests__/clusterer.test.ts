@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { DB } from '../database/types';
+import { BattleClusterer, type EnrichedKillmail } from '../lib/clusterer';
+import { SideGraph } from '../lib/side-inference';
+import { createTestDatabase } from './helpers/database';
+
+const JITA = 30000142;
+
+// A frigate kill in Jita at `time`, between two alliances
+const killmail = (killmailId: number, time: string): EnrichedKillmail => ({
+  killmailId,
+  killmailTime: new Date(time),
+  solarSystemId: JITA,
+  systemName: 'Jita',
+  regionName: 'The Forge',
+  securityStatus: 0.9,
+  victim: { characterId: 1000 + killmailId, corporationId: 10, allianceId: 100, shipTypeId: 587, damageTaken: 1000 },
+  attackers: [
+    { characterId: 2000, corporationId: 20, allianceId: 200, shipTypeId: 587, damageDone: 1000, finalBlow: true },
+  ],
+  zkb: { totalValue: 1_000_000, points: 1, npc: false, solo: true, awox: false },
+});
+
+describe('BattleClusterer', () => {
+  let db: DB;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  it('counts a redelivered killmail once', async () => {
+    const clusterer = new BattleClusterer(db);
+    await clusterer.processKillmails([killmail(1, '2025-11-01T18:00:00Z'), killmail(2, '2025-11-01T18:01:00Z')]);
+    // Redelivered on its own and within a batch
+    await clusterer.processKillmail(killmail(2, '2025-11-01T18:01:00Z'));
+    await clusterer.processKillmails([killmail(1, '2025-11-01T18:00:00Z'), killmail(3, '2025-11-01T18:02:00Z')]);
+
+    const battles = await db.selectFrom('battles').select(['total_kills', 'total_isk_destroyed']).execute();
+    expect(battles).toEqual([{ total_kills: 3, total_isk_destroyed: 3_000_000 }]);
+
+    const attacker = await db
+      .selectFrom('pilot_ship_history')
+      .select(['kill_count', 'loss_count'])
+      .where('character_id', '=', 2000)
+      .executeTakeFirst();
+    expect(attacker).toEqual({ kill_count: 3, loss_count: 0 });
+  });
+
+  it('counts a killmail redelivered after its battle ended once, when another battle would take it', async () => {
+    const clusterer = new BattleClusterer(db);
+    // The first battle ends with the second killmail; a late third killmail moves the second battle's start back
+    await clusterer.processKillmails([
+      killmail(1, '2025-11-01T18:00:00Z'),
+      killmail(2, '2025-11-01T18:31:00Z'),
+      killmail(3, '2025-11-01T18:15:00Z'),
+    ]);
+    await clusterer.processKillmail(killmail(1, '2025-11-01T18:00:00Z'));
+
+    const battles = await db
+      .selectFrom('battles')
+      .select(['start_time', 'total_kills'])
+      .orderBy('start_time')
+      .execute();
+    expect(battles).toEqual([
+      { start_time: new Date('2025-11-01T18:00:00Z'), total_kills: 1 },
+      { start_time: new Date('2025-11-01T18:15:00Z'), total_kills: 2 },
+    ]);
+
+    const attacker = await db
+      .selectFrom('pilot_ship_history')
+      .select('kill_count')
+      .where('character_id', '=', 2000)
+      .executeTakeFirst();
+    expect(attacker).toEqual({ kill_count: 3 });
+  });
+
+  it('infers sides once per batch, and puts groups new to the battle on one', async () => {
+    const partition = vi.spyOn(SideGraph.prototype, 'partition');
+    const clusterer = new BattleClusterer(db);
+    await clusterer.processKillmails([
+      killmail(1, '2025-11-01T18:00:00Z'),
+      killmail(2, '2025-11-01T18:01:00Z'),
+      killmail(3, '2025-11-01T18:02:00Z'),
+    ]);
+
+    expect(partition).toHaveBeenCalledTimes(1);
+    partition.mockRestore();
+
+    const killmails = await db.selectFrom('battle_killmails').select('side_id').execute();
+    expect(killmails.every((km) => km.side_id !== null)).toBe(true);
+    const participants = await db.selectFrom('battle_participants').select('side_id').execute();
+    expect(participants.every((p) => p.side_id !== null)).toBe(true);
+  });
+});
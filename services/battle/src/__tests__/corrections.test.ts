@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { DB } from '../database/types';
+import { AuthClient } from '../lib/auth-client';
+import { sendAuditLog } from '../lib/audited-change';
+import { BattleClusterer, getBattleId, type EnrichedKillmail } from '../lib/clusterer';
+import { importBattle, mergeBattles } from '../lib/corrections';
+import { EnrichmentClient } from '../lib/enrichment-client';
+import { IngestionClient } from '../lib/ingestion-client';
+import { reclusterRange } from '../lib/recluster';
+import { createTestDatabase } from './helpers/database';
+
+const [JITA, AMARR] = [30000142, 30002187];
+
+// A frigate kill in `systemId` at `time`, between two alliances
+const killmail = (killmailId: number, systemId: number, time: string): EnrichedKillmail => ({
+  killmailId,
+  killmailTime: new Date(time),
+  solarSystemId: systemId,
+  systemName: String(systemId),
+  regionName: 'Region',
+  securityStatus: 0.9,
+  victim: { characterId: 1000 + killmailId, corporationId: 10, allianceId: 100, shipTypeId: 587, damageTaken: 1000 },
+  attackers: [
+    { characterId: 2000 + killmailId, corporationId: 20, allianceId: 200, shipTypeId: 587, damageDone: 1000, finalBlow: true },
+  ],
+  zkb: { totalValue: 1_000_000, points: 1, npc: false, solo: true, awox: false },
+});
+
+describe('merged battles', () => {
+  // The source battle starts before the target it's merged into
+  const killmails = [
+    killmail(1, JITA, '2025-11-01T18:00:00Z'),
+    killmail(2, JITA, '2025-11-01T18:01:00Z'),
+    killmail(3, AMARR, '2025-11-01T18:10:00Z'),
+    killmail(4, AMARR, '2025-11-01T18:11:00Z'),
+  ];
+  const [sourceId, targetId] = [getBattleId(1), getBattleId(3)];
+
+  let db: DB;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  it('stay merged when their range is re-clustered', async () => {
+    const clusterer = new BattleClusterer(db);
+    await clusterer.processKillmails(killmails);
+    await clusterer.closeAllBattles();
+
+    const auth = new AuthClient();
+    vi.spyOn(auth, 'writeAuditLog').mockResolvedValue();
+    await mergeBattles({ db, actorAccountId: null, auth }, targetId, sourceId);
+
+    const enrichment = new EnrichmentClient();
+    vi.spyOn(enrichment, 'listKillmails').mockImplementation(async function* () {
+      yield { killmails, total: killmails.length };
+    });
+    const progress = await reclusterRange(
+      db,
+      { from: new Date('2025-11-01T17:00:00Z'), to: new Date('2025-11-01T19:00:00Z') },
+      undefined,
+      enrichment
+    );
+
+    expect(progress).toMatchObject({ battlesDeleted: 1, battlesCreated: 1, killmailsProcessed: 4 });
+    const battles = await db.selectFrom('battles').select('id').execute();
+    expect(battles).toEqual([{ id: targetId }]);
+    const moved = await db.selectFrom('battle_killmails').select('battle_id').distinct().execute();
+    expect(moved).toEqual([{ battle_id: targetId }]);
+  });
+
+  it('are kept when the audit log is down, and audited once it is back', async () => {
+    const clusterer = new BattleClusterer(db);
+    await clusterer.processKillmails(killmails);
+    await clusterer.closeAllBattles();
+
+    const auth = new AuthClient();
+    const writeAuditLog = vi.spyOn(auth, 'writeAuditLog').mockRejectedValue(new Error('connect ECONNREFUSED'));
+    await mergeBattles({ db, actorAccountId: null, auth }, targetId, sourceId);
+
+    expect(await db.selectFrom('battles').select('id').execute()).toEqual([{ id: targetId }]);
+    expect(await db.selectFrom('audit_log_outbox').select(['attempts', 'last_error']).execute()).toEqual([
+      { attempts: 1, last_error: 'connect ECONNREFUSED' },
+    ]);
+
+    writeAuditLog.mockResolvedValue();
+    expect(await sendAuditLog(db, auth)).toEqual({ sent: 1 });
+    expect(writeAuditLog).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: 'battle.merge', targetId, actorAccountId: null })
+    );
+    expect(await db.selectFrom('audit_log_outbox').selectAll().execute()).toEqual([]);
+  });
+});
+
+describe('imported battles', () => {
+  let db: DB;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  it('list the killmails ingestion failed to queue apart from those it already had', async () => {
+    const auth = new AuthClient();
+    vi.spyOn(auth, 'writeAuditLog').mockResolvedValue();
+    const ingestion = new IngestionClient();
+    vi.spyOn(ingestion, 'queueKillmails').mockResolvedValue({ queued: [1], skipped: [2], failed: [3] });
+
+    const result = await importBattle(
+      { db, actorAccountId: null, auth, ingestion },
+      {
+        killmails: [1, 2, 3].map((killmailId) => ({ killmailId, hash: `hash-${killmailId}` })),
+        sides: [],
+      }
+    );
+
+    expect(result).toMatchObject({ moved: [], queued: [1], skipped: [2], failed: [3], unresolved: [] });
+  });
+});
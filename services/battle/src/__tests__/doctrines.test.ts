@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAllianceFleets,
+  detectDoctrines,
+  nameDoctrine,
+  summarizeDoctrine,
+  type AllianceFleet,
+} from '../lib/doctrines';
+import { computeParticipantStats } from '../lib/participant-stats';
+import { ShipRoles } from '../lib/ship-roles';
+import { ShipTypes } from '../lib/ship-types';
+
+const shipTypes = new ShipTypes({
+  groups: {
+    '29': { name: 'Capsule', categoryId: 6 },
+    '358': { name: 'Heavy Assault Cruiser', categoryId: 6 },
+    '419': { name: 'Combat Battlecruiser', categoryId: 6 },
+    '831': { name: 'Interceptor', categoryId: 6 },
+    '832': { name: 'Logistics', categoryId: 6 },
+  },
+  types: {
+    '670': { name: 'Capsule', groupId: 29 },
+    '12011': { name: 'Eagle', groupId: 358 },
+    '12015': { name: 'Muninn', groupId: 358 },
+    '16227': { name: 'Ferox', groupId: 419 },
+    '11176': { name: 'Crow', groupId: 831 },
+    '11985': { name: 'Basilisk', groupId: 832 },
+    '11978': { name: 'Scimitar', groupId: 832 },
+  },
+});
+
+const shipRoles = new ShipRoles({
+  groups: { '29': 'other', '358': 'dps', '419': 'dps', '831': 'tackle', '832': 'logi' },
+  weapons: {},
+});
+
+const [CAPSULE, EAGLE, MUNINN, FEROX, CROW, BASILISK, SCIMITAR] = [670, 12011, 12015, 16227, 11176, 11985, 11978];
+
+let nextBattle = 1;
+
+// An alliance's fleet in a battle on `day` of November, with pilots per ship type
+const fleet = (allianceId: number, day: number, ships: Record<number, number>): AllianceFleet => ({
+  battleId: `battle-${nextBattle++}`,
+  allianceId,
+  startTime: new Date(`2025-11-${String(day).padStart(2, '0')}T19:00:00Z`),
+  ships: Object.entries(ships).map(([shipTypeId, pilots]) => ({
+    shipTypeId: Number(shipTypeId),
+    shipTypeName: null,
+    pilots,
+  })),
+});
+
+describe('detectDoctrines', () => {
+  it('groups similar fleets of an alliance into one doctrine', () => {
+    const doctrines = detectDoctrines(
+      [
+        fleet(100, 1, { [EAGLE]: 30, [BASILISK]: 6, [CROW]: 2 }),
+        fleet(100, 4, { [FEROX]: 40, [SCIMITAR]: 8 }),
+        fleet(100, 8, { [EAGLE]: 22, [BASILISK]: 5, [CAPSULE]: 12 }),
+        // Another alliance's fleet in the same ships
+        fleet(200, 8, { [EAGLE]: 25, [BASILISK]: 5 }),
+        // Too small to count as a fleet without its pods
+        fleet(100, 9, { [EAGLE]: 6, [CAPSULE]: 20 }),
+      ],
+      shipTypes,
+      shipRoles
+    );
+
+    expect(doctrines.map((d) => [d.allianceId, d.fleets.length])).toEqual([
+      [100, 2],
+      [100, 1],
+      [200, 1],
+    ]);
+    expect(doctrines[0].hulls.get(EAGLE)?.pilots).toBe(52);
+    expect(doctrines[0].hulls.has(CAPSULE)).toBe(false);
+
+    const summary = summarizeDoctrine(doctrines[0], shipTypes, shipRoles);
+    expect(summary).toMatchObject({
+      name: 'Eagle fleet with Basilisk logi',
+      timesSeen: 2,
+      firstSeen: new Date('2025-11-01T19:00:00Z'),
+      lastSeen: new Date('2025-11-08T19:00:00Z'),
+      averagePilots: 33,
+    });
+    expect(summary.ships.map((s) => [s.shipTypeName, s.role])).toEqual([
+      ['Eagle', 'dps'],
+      ['Basilisk', 'logi'],
+      ['Crow', 'tackle'],
+    ]);
+    expect(summarizeDoctrine(doctrines[1], shipTypes, shipRoles).name).toBe('Ferox fleet with Scimitar logi');
+  });
+});
+
+describe('buildAllianceFleets', () => {
+  it('counts each pilot once, in the hull they fought in rather than their pod', () => {
+    const attacker = (characterId: number, shipTypeId: number) => ({
+      characterId,
+      allianceId: 100,
+      shipTypeId,
+      damageDone: 100,
+      finalBlow: false,
+    });
+    const loss = (victimId: number, shipTypeId: number, attackers: ReturnType<typeof attacker>[]) => ({
+      isk_value: BigInt(1_000_000),
+      ship_type_name: null,
+      victim_character_id: victimId,
+      victim_ship_type_id: shipTypeId,
+      attackers,
+    });
+    const stats = computeParticipantStats(
+      [
+        // Pilot 1 loses their Eagle, then their pod
+        loss(1, EAGLE, [attacker(3, EAGLE), attacker(4, BASILISK)]),
+        loss(1, CAPSULE, [attacker(3, EAGLE)]),
+        // Pilot 2 is only seen in their pod
+        loss(2, CAPSULE, [attacker(3, EAGLE)]),
+      ],
+      shipTypes
+    );
+
+    const fleets = buildAllianceFleets(
+      { id: 'battle', startTime: new Date('2025-11-01T19:00:00Z') },
+      [
+        { characterId: 1, allianceId: 200 },
+        { characterId: 2, allianceId: 200 },
+        { characterId: 3, allianceId: 100 },
+        { characterId: 4, allianceId: 100 },
+      ],
+      stats,
+      shipTypes,
+      shipRoles
+    );
+
+    expect(fleets.map((f) => [f.allianceId, f.ships.map((s) => [s.shipTypeId, s.pilots])])).toEqual([
+      [
+        200,
+        [
+          [EAGLE, 1],
+          [CAPSULE, 1],
+        ],
+      ],
+      [
+        100,
+        [
+          [EAGLE, 1],
+          [BASILISK, 1],
+        ],
+      ],
+    ]);
+  });
+});
+
+describe('nameDoctrine', () => {
+  const ship = (shipTypeId: number, shipTypeName: string, role: 'dps' | 'logi' | 'tackle', share: number) => ({
+    shipTypeId,
+    shipTypeName,
+    role,
+    share,
+  });
+
+  it('names a second mainline hull only when it makes up a good share of the fleet', () => {
+    expect(nameDoctrine([ship(FEROX, 'Ferox', 'dps', 0.5), ship(MUNINN, 'Muninn', 'dps', 0.4)])).toBe(
+      'Ferox/Muninn fleet'
+    );
+    expect(
+      nameDoctrine([
+        ship(MUNINN, 'Muninn', 'dps', 0.8),
+        ship(FEROX, 'Ferox', 'dps', 0.1),
+        ship(SCIMITAR, 'Scimitar', 'logi', 0.04),
+      ])
+    ).toBe('Muninn fleet');
+    expect(nameDoctrine([ship(CROW, 'Crow', 'tackle', 1)])).toBe('Crow fleet');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { addToGrids, getDistance, isOnGrid, type BattleGrids } from '../lib/grids';
+
+const SYSTEM = 30002187;
+const OTHER_SYSTEM = 30002188;
+const AU = 149_597_870_700;
+
+// A station at the origin and a gate 5 AU away
+const station = { x: 0, y: 0, z: 0 };
+const nearStation = { x: 3_000_000, y: 4_000_000, z: 0 };
+const gate = { x: 5 * AU, y: 0, z: 0 };
+
+describe('grids', () => {
+  it('measures straight-line distance in metres', () => {
+    expect(getDistance(station, nearStation)).toBe(5_000_000);
+  });
+
+  it('puts killmails near one of the battle victims on its grid', () => {
+    const grids: BattleGrids = new Map();
+    addToGrids(grids, SYSTEM, station);
+
+    expect(isOnGrid(grids, SYSTEM, nearStation)).toBe(true);
+    expect(isOnGrid(grids, SYSTEM, gate)).toBe(false);
+  });
+
+  it('follows a fight that drifts across the grid', () => {
+    const grids: BattleGrids = new Map();
+    addToGrids(grids, SYSTEM, station);
+    addToGrids(grids, SYSTEM, { x: 9_000_000, y: 0, z: 0 });
+
+    expect(isOnGrid(grids, SYSTEM, { x: 18_000_000, y: 0, z: 0 })).toBe(true);
+  });
+
+  it('falls back to accepting killmails it cannot place', () => {
+    const grids: BattleGrids = new Map();
+    addToGrids(grids, SYSTEM, station);
+    addToGrids(grids, SYSTEM, undefined);
+
+    // No victim position on the killmail
+    expect(isOnGrid(grids, SYSTEM, undefined)).toBe(true);
+    // No victim positions for the battle in that system
+    expect(isOnGrid(grids, OTHER_SYSTEM, gate)).toBe(true);
+    expect(grids.get(SYSTEM)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeGroupActivity, type GroupKillmail } from '../lib/group-profile';
+import { StargateGraph } from '../lib/stargate-graph';
+
+const graph = new StargateGraph({
+  regions: { '10': 'Delve', '20': 'Querious' },
+  systems: {
+    '1': { name: '1DQ1-A', regionId: 10, security: -0.4, neighbours: [2] },
+    '2': { name: 'T5ZI-S', regionId: 10, security: -0.3, neighbours: [1, 3] },
+    '3': { name: 'Q-02UL', regionId: 20, security: -0.2, neighbours: [2] },
+  },
+});
+
+let nextKillmail = 1;
+
+// A killmail in `systemId` at `time`, of a victim in `victimAlliance`, by attackers of `attackerAlliances`
+const killmail = (
+  time: string,
+  systemId: number,
+  victimAlliance: number,
+  attackerAlliances: number[],
+  isk = 100_000_000
+): GroupKillmail => ({
+  killmail_id: nextKillmail++,
+  occurred_at: new Date(time),
+  system_id: systemId,
+  isk_value: BigInt(isk),
+  victim_alliance_id: victimAlliance,
+  victim_corp_id: victimAlliance * 10,
+  attackers: attackerAlliances.map((allianceId, i) => ({
+    characterId: i + 1,
+    allianceId,
+    corporationId: allianceId * 10,
+    damageDone: 100,
+    finalBlow: i === 0,
+  })),
+});
+
+describe('summarizeGroupActivity', () => {
+  const killmails = [
+    // Monday 20:xx UTC
+    killmail('2025-11-03T20:05:00Z', 1, 200, [100, 300], 300_000_000),
+    killmail('2025-11-03T20:40:00Z', 1, 200, [100]),
+    killmail('2025-11-03T21:10:00Z', 2, 100, [200]),
+    // Sunday
+    killmail('2025-11-09T03:00:00Z', 3, 300, [100]),
+    // Shooting their own, and a fight the alliance wasn't in
+    killmail('2025-11-09T04:00:00Z', 3, 100, [100]),
+    killmail('2025-11-09T05:00:00Z', 3, 200, [300]),
+  ];
+
+  it('credits kills to the attackers and losses to the victim', () => {
+    const activity = summarizeGroupActivity(killmails, { type: 'alliance', id: 100 }, graph);
+
+    expect(activity).toMatchObject({ kills: 3, losses: 2, iskKilled: 500_000_000, iskLost: 200_000_000 });
+    expect(activity.iskEfficiency).toBeCloseTo(5 / 7);
+    expect(activity.heatmap[0][20]).toBe(2);
+    expect(activity.heatmap[0][21]).toBe(1);
+    expect(activity.heatmap[6][3]).toBe(1);
+    expect(activity.heatmap.flat().reduce((a, b) => a + b, 0)).toBe(5);
+  });
+
+  it('ranks systems and regions by activity', () => {
+    const activity = summarizeGroupActivity(killmails, { type: 'alliance', id: 100 }, graph);
+
+    expect(activity.topSystems).toEqual([
+      { systemId: 1, systemName: '1DQ1-A', regionName: 'Delve', kills: 2, losses: 0 },
+      { systemId: 3, systemName: 'Q-02UL', regionName: 'Querious', kills: 1, losses: 1 },
+      { systemId: 2, systemName: 'T5ZI-S', regionName: 'Delve', kills: 0, losses: 1 },
+    ]);
+    expect(activity.topRegions).toEqual([
+      { regionId: 10, regionName: 'Delve', kills: 2, losses: 1 },
+      { regionId: 20, regionName: 'Querious', kills: 1, losses: 1 },
+    ]);
+  });
+
+  it('matches corporations by corporation ID', () => {
+    const activity = summarizeGroupActivity(killmails, { type: 'corporation', id: 3000 }, graph);
+
+    expect(activity).toMatchObject({ kills: 2, losses: 1 });
+    expect(summarizeGroupActivity([], { type: 'corporation', id: 3000 }, graph).iskEfficiency).toBeNull();
+  });
+});
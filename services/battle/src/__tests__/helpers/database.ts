@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import {
+  CompiledQuery,
+  Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  type DatabaseConnection,
+  type Driver,
+  type QueryResult,
+} from 'kysely';
+import type { DB, Database } from '../../database/types';
+
+/**
+ * An in-process Postgres (PGlite) with the service's migrations applied, for
+ * tests that need the real queries to run. Every database is separate.
+ */
+
+const MIGRATIONS_PATH = path.join(__dirname, '../../../migrations');
+
+class PGliteConnection implements DatabaseConnection {
+  constructor(private pg: PGlite) {}
+
+  async executeQuery<R>(compiledQuery: CompiledQuery): Promise<QueryResult<R>> {
+    const result = await this.pg.query<R>(compiledQuery.sql, [...compiledQuery.parameters]);
+    return {
+      rows: result.rows,
+      numAffectedRows: result.affectedRows === undefined ? undefined : BigInt(result.affectedRows),
+    };
+  }
+
+  // eslint-disable-next-line require-yield
+  async *streamQuery<R>(): AsyncIterableIterator<QueryResult<R>> {
+    throw new Error('Streaming is not supported');
+  }
+}
+
+// PGlite has a single connection, so transactions run on it one at a time
+class PGliteDriver implements Driver {
+  private connection: PGliteConnection;
+
+  constructor(private pg: PGlite) {
+    this.connection = new PGliteConnection(pg);
+  }
+
+  async init(): Promise<void> {}
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    return this.connection;
+  }
+
+  async beginTransaction(connection: DatabaseConnection): Promise<void> {
+    await connection.executeQuery(CompiledQuery.raw('begin'));
+  }
+
+  async commitTransaction(connection: DatabaseConnection): Promise<void> {
+    await connection.executeQuery(CompiledQuery.raw('commit'));
+  }
+
+  async rollbackTransaction(connection: DatabaseConnection): Promise<void> {
+    await connection.executeQuery(CompiledQuery.raw('rollback'));
+  }
+
+  async releaseConnection(): Promise<void> {}
+
+  async destroy(): Promise<void> {
+    await this.pg.close();
+  }
+}
+
+export async function createTestDatabase(): Promise<DB> {
+  const pg = new PGlite();
+  // PGlite ships uuid-ossp separately; gen_random_uuid() stands in for it
+  await pg.exec(`create function uuid_generate_v4() returns uuid language sql as 'select gen_random_uuid()'`);
+
+  const files = (await fs.readdir(MIGRATIONS_PATH)).filter((file) => file.endsWith('.sql')).sort();
+  for (const file of files) {
+    const migration = await fs.readFile(path.join(MIGRATIONS_PATH, file), 'utf8');
+    await pg.exec(migration.replace('create extension if not exists "uuid-ossp";', ''));
+  }
+
+  return new Kysely<Database>({
+    dialect: {
+      createAdapter: () => new PostgresAdapter(),
+      createDriver: () => new PGliteDriver(pg),
+      createIntrospector: (db) => new PostgresIntrospector(db),
+      createQueryCompiler: () => new PostgresQueryCompiler(),
+    },
+  });
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { inferParticipantRoles, inferRole } from '../lib/participant-roles';
+import { ShipRoles } from '../lib/ship-roles';
+import { ShipTypes } from '../lib/ship-types';
+
+const shipTypes = new ShipTypes({
+  groups: {
+    '25': { name: 'Frigate', categoryId: 6 },
+    '30': { name: 'Titan', categoryId: 6 },
+    '540': { name: 'Command Ship', categoryId: 6 },
+    '831': { name: 'Interceptor', categoryId: 6 },
+    '832': { name: 'Logistics', categoryId: 6 },
+  },
+  types: {
+    '587': { name: 'Rifter', groupId: 25 },
+    '671': { name: 'Erebus', groupId: 30 },
+    '22474': { name: 'Damnation', groupId: 540 },
+    '11176': { name: 'Crow', groupId: 831 },
+    '11985': { name: 'Basilisk', groupId: 832 },
+  },
+});
+
+const shipRoles = new ShipRoles({
+  groups: { '25': 'dps', '30': 'capital', '540': 'command', '831': 'tackle', '832': 'logi' },
+  weapons: { '3242': 'tackle', '526': 'tackle' },
+});
+
+// Warp Disruptor I, Stasis Webifier I, 200mm AutoCannon I
+const [POINT, WEB, AUTOCANNON] = [3242, 526, 2873];
+
+describe('inferRole', () => {
+  it('takes the role of the ship group', () => {
+    expect(inferRole(11985, [], shipTypes, shipRoles)).toBe('logi');
+    expect(inferRole(671, [], shipTypes, shipRoles)).toBe('capital');
+    expect(inferRole(22474, [], shipTypes, shipRoles)).toBe('command');
+    expect(inferRole(11176, [AUTOCANNON], shipTypes, shipRoles)).toBe('tackle');
+  });
+
+  it('counts damage ships only seen with tackle modules as tackle', () => {
+    expect(inferRole(587, [POINT, WEB], shipTypes, shipRoles)).toBe('tackle');
+    expect(inferRole(587, [POINT, AUTOCANNON], shipTypes, shipRoles)).toBe('dps');
+    // The ship itself as the weapon says nothing about the pilot's role
+    expect(inferRole(587, [587], shipTypes, shipRoles)).toBe('dps');
+    // Logi keep their role whatever they point
+    expect(inferRole(11985, [POINT], shipTypes, shipRoles)).toBe('logi');
+  });
+
+  it('falls back to other for unknown ships', () => {
+    expect(inferRole(null, [], shipTypes, shipRoles)).toBe('other');
+    expect(inferRole(99999, [AUTOCANNON], shipTypes, shipRoles)).toBe('other');
+  });
+});
+
+describe('inferParticipantRoles', () => {
+  it('uses the weapons each pilot was seen with across the killmails', () => {
+    const attacker = (characterId: number, weaponTypeId: number) => ({
+      characterId,
+      weaponTypeId,
+      damageDone: 0,
+      finalBlow: false,
+    });
+
+    const roles = inferParticipantRoles(
+      [
+        { character_id: 1, ship_type_id: 587 },
+        { character_id: 2, ship_type_id: 587 },
+        { character_id: 3, ship_type_id: 11985 },
+      ],
+      [
+        { attackers: [attacker(1, POINT), attacker(2, POINT)] },
+        { attackers: [attacker(1, WEB), attacker(2, AUTOCANNON)] },
+      ],
+      shipTypes,
+      shipRoles
+    );
+
+    expect([...roles]).toEqual([
+      [1, 'tackle'],
+      [2, 'dps'],
+      [3, 'logi'],
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { computeParticipantStats } from '../lib/participant-stats';
+import { ShipTypes } from '../lib/ship-types';
+
+const RIFTER = 587;
+const HYPERION = 24690;
+const CAPSULE = 670;
+const AUTOCANNON = 2889;
+const DRONE = 2488;
+
+const shipTypes = new ShipTypes({
+  groups: {
+    '25': { name: 'Frigate', categoryId: 6 },
+    '27': { name: 'Battleship', categoryId: 6 },
+    '29': { name: 'Capsule', categoryId: 6 },
+  },
+  types: {
+    [RIFTER]: { name: 'Rifter', groupId: 25 },
+    [HYPERION]: { name: 'Hyperion', groupId: 27 },
+    [CAPSULE]: { name: 'Capsule', groupId: 29 },
+  },
+});
+
+const killmail = (
+  victim: { characterId: number; shipTypeId: number },
+  isk: number,
+  attackers: Array<{ characterId?: number; shipTypeId?: number; weaponTypeId?: number; damageDone: number; finalBlow?: boolean }>
+) => ({
+  isk_value: BigInt(isk),
+  ship_type_name: null,
+  victim_character_id: victim.characterId,
+  victim_ship_type_id: victim.shipTypeId,
+  attackers: attackers.map((a) => ({ finalBlow: false, ...a })),
+});
+
+describe('computeParticipantStats', () => {
+  const stats = computeParticipantStats(
+    [
+      killmail({ characterId: 1, shipTypeId: RIFTER }, 10_000_000, [
+        { characterId: 2, shipTypeId: HYPERION, weaponTypeId: AUTOCANNON, damageDone: 900, finalBlow: true },
+        { characterId: 3, shipTypeId: RIFTER, weaponTypeId: AUTOCANNON, damageDone: 300 },
+        // NPC
+        { damageDone: 100 },
+      ]),
+      killmail({ characterId: 1, shipTypeId: CAPSULE }, 5_000_000, [
+        { characterId: 3, shipTypeId: RIFTER, weaponTypeId: AUTOCANNON, damageDone: 200, finalBlow: true },
+      ]),
+      killmail({ characterId: 2, shipTypeId: HYPERION }, 200_000_000, [
+        { characterId: 1, shipTypeId: RIFTER, weaponTypeId: DRONE, damageDone: 50 },
+        { characterId: 3, shipTypeId: RIFTER, weaponTypeId: DRONE, damageDone: 4000, finalBlow: true },
+      ]),
+    ],
+    shipTypes
+  );
+
+  it('totals damage dealt and received, including damage from NPCs', () => {
+    expect(stats.get(1)).toMatchObject({ damageDealt: 50, damageReceived: 1500, losses: 2, iskLost: 15_000_000 });
+    expect(stats.get(2)).toMatchObject({ damageDealt: 900, damageReceived: 4050, losses: 1, iskLost: 200_000_000 });
+    expect(stats.get(3)).toMatchObject({ damageDealt: 4500, damageReceived: 0, losses: 0 });
+  });
+
+  it('counts kill involvement and final blows', () => {
+    expect(stats.get(3)).toMatchObject({ killInvolvement: 3, finalBlows: 2 });
+    expect(stats.get(2)).toMatchObject({ killInvolvement: 1, finalBlows: 1 });
+  });
+
+  it('breaks damage down by weapon type, highest first', () => {
+    expect(stats.get(3)?.weapons).toEqual([
+      { weaponTypeId: DRONE, damage: 4000, killmails: 1 },
+      { weaponTypeId: AUTOCANNON, damage: 500, killmails: 2 },
+    ]);
+  });
+
+  it('lists every ship a pilot flew, including the ones they lost', () => {
+    expect(stats.get(1)?.ships).toEqual([
+      { shipTypeId: RIFTER, shipTypeName: 'Rifter', killmails: 2, losses: 1 },
+      { shipTypeId: CAPSULE, shipTypeName: 'Capsule', killmails: 1, losses: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessPaste,
+  assessPilot,
+  classifyHulls,
+  countKills,
+  parsePaste,
+  type PilotIntel,
+} from '../lib/paste-intel';
+import { ShipRoles } from '../lib/ship-roles';
+import { ShipTypes } from '../lib/ship-types';
+
+const shipTypes = new ShipTypes({
+  groups: {
+    '25': { name: 'Frigate', categoryId: 6 },
+    '485': { name: 'Dreadnought', categoryId: 6 },
+    '833': { name: 'Force Recon Ship', categoryId: 6 },
+  },
+  types: {
+    '587': { name: 'Rifter', groupId: 25 },
+    '19722': { name: 'Naglfar', groupId: 485 },
+    '11957': { name: 'Falcon', groupId: 833 },
+  },
+});
+
+const shipRoles = new ShipRoles({
+  groups: { '25': 'dps', '485': 'capital', '833': 'ewar' },
+  weapons: {},
+});
+
+// A pilot in local, in alliance `allianceId`
+const pilot = (characterId: number, allianceId: number, intel: Partial<PilotIntel> = {}): PilotIntel => ({
+  characterId,
+  name: `Pilot ${characterId}`,
+  source: 'battles',
+  corporationId: allianceId * 10,
+  corporationName: null,
+  allianceId,
+  allianceName: `Alliance ${allianceId}`,
+  lastSeen: null,
+  recentKills: 0,
+  capitalShips: [],
+  cynoShips: [],
+  associates: [],
+  ...intel,
+});
+
+describe('parsePaste', () => {
+  it('takes one character name per line', () => {
+    expect(parsePaste('Pilot One\r\n  pilot two \n\nPILOT ONE\nJoe\n<a href="x">spam</a>\nX')).toEqual({
+      names: ['Pilot One', 'pilot two', 'Joe'],
+      invalid: ['<a href="x">spam</a>', 'X'],
+    });
+  });
+});
+
+describe('pilot intel', () => {
+  it('picks out capital and cyno hulls, and counts kills of pasted pilots', () => {
+    const hulls = classifyHulls(
+      [
+        { character_id: 1, ship_type_id: 587, ship_type_name: 'Rifter' },
+        { character_id: 1, ship_type_id: 19722, ship_type_name: 'Naglfar' },
+        { character_id: 2, ship_type_id: 11957, ship_type_name: 'Falcon' },
+      ],
+      shipTypes,
+      shipRoles
+    );
+    expect(hulls.get(1)).toEqual({ capitalShips: ['Naglfar'], cynoShips: [] });
+    expect(hulls.get(2)).toEqual({ capitalShips: [], cynoShips: ['Falcon'] });
+
+    const attacker = (characterId: number) => ({ characterId, damageDone: 100, finalBlow: false });
+    const kills = countKills(
+      [
+        { killmail_id: 1, attackers: [attacker(1), attacker(2), attacker(3)] },
+        { killmail_id: 2, attackers: [attacker(1), attacker(1)] },
+        { killmail_id: 3, attackers: null },
+      ],
+      new Set([1, 2])
+    );
+    expect([...kills]).toEqual([
+      [1, 2],
+      [2, 1],
+    ]);
+  });
+
+  it('rates pilots on recent kills, capitals and cynos', () => {
+    expect(assessPilot(pilot(1, 100))).toEqual({ level: 'none', reasons: [] });
+    expect(assessPilot(pilot(1, 100, { recentKills: 1 })).level).toBe('low');
+    expect(assessPilot(pilot(1, 100, { recentKills: 4 })).level).toBe('low');
+    expect(assessPilot(pilot(1, 100, { recentKills: 12 })).level).toBe('medium');
+    expect(assessPilot(pilot(1, 100, { recentKills: 3, capitalShips: ['Naglfar'] })).level).toBe('medium');
+    expect(assessPilot(pilot(1, 100, { recentKills: 10, capitalShips: ['Naglfar'] }))).toEqual({
+      level: 'high',
+      reasons: ['10 kills in the last 7 days', 'Flies capitals (Naglfar)'],
+    });
+    expect(
+      assessPilot(pilot(1, 100, { recentKills: 10, capitalShips: ['Naglfar'], cynoShips: ['Falcon'] })).level
+    ).toBe('critical');
+  });
+});
+
+describe('assessPaste', () => {
+  const assessed = (p: PilotIntel) => ({ ...p, threat: assessPilot(p) });
+
+  it('takes the most dangerous pilot, and groups local by alliance', () => {
+    const threat = assessPaste([
+      assessed(pilot(1, 100, { recentKills: 12 })),
+      assessed(pilot(2, 100)),
+      assessed(pilot(3, 200, { recentKills: 1 })),
+    ]);
+
+    expect(threat).toMatchObject({
+      level: 'medium',
+      pilots: 3,
+      byLevel: { none: 1, low: 1, medium: 1, high: 0, critical: 0 },
+      groups: [
+        { id: 100, name: 'Alliance 100', pilots: 2 },
+        { id: 200, name: 'Alliance 200', pilots: 1 },
+      ],
+    });
+  });
+
+  it('groups pilots only the search index knows by name', () => {
+    const searchOnly = (characterId: number, allianceName: string | null) =>
+      assessed(pilot(characterId, 0, { source: 'search', corporationId: null, allianceId: null, allianceName }));
+
+    const threat = assessPaste([
+      assessed(pilot(1, 100)),
+      searchOnly(2, 'Alliance 100'),
+      searchOnly(3, 'Alliance A'),
+      searchOnly(4, 'Alliance B'),
+      searchOnly(5, 'Alliance B'),
+      searchOnly(6, null),
+    ]);
+
+    expect(threat.pilots).toBe(6);
+    expect(threat.groups).toEqual([
+      { id: 100, name: 'Alliance 100', pilots: 2 },
+      { id: null, name: 'Alliance B', pilots: 2 },
+      { id: null, name: 'Alliance A', pilots: 1 },
+    ]);
+  });
+
+  it('raises the threat for a gang, or capitals with a cyno in local', () => {
+    const gang = Array.from({ length: 5 }, (_, i) => assessed(pilot(i + 1, 100, { recentKills: 12 })));
+    expect(assessPaste(gang).level).toBe('high');
+
+    const hotDrop = assessPaste([
+      assessed(pilot(1, 100, { capitalShips: ['Naglfar'] })),
+      assessed(pilot(2, 100, { cynoShips: ['Falcon'] })),
+    ]);
+    expect(hotDrop).toMatchObject({ level: 'medium', capitalPilots: 1, cynoPilots: 1 });
+  });
+});
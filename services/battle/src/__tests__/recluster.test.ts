@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { DB } from '../database/types';
+import { BattleClusterer, type EnrichedKillmail } from '../lib/clusterer';
+import { EnrichmentClient } from '../lib/enrichment-client';
+import { reclusterRange } from '../lib/recluster';
+import { createTestDatabase } from './helpers/database';
+
+const JITA = 30000142;
+
+// A frigate kill in Jita at `time`, between two alliances
+const killmail = (killmailId: number, time: string): EnrichedKillmail => ({
+  killmailId,
+  killmailTime: new Date(time),
+  solarSystemId: JITA,
+  systemName: 'Jita',
+  regionName: 'The Forge',
+  securityStatus: 0.9,
+  victim: { characterId: 1000 + killmailId, corporationId: 10, allianceId: 100, shipTypeId: 587, damageTaken: 1000 },
+  attackers: [
+    { characterId: 2000, corporationId: 20, allianceId: 200, shipTypeId: 587, damageDone: 1000, finalBlow: true },
+  ],
+  zkb: { totalValue: 1_000_000, points: 1, npc: false, solo: true, awox: false },
+});
+
+describe('reclusterRange', () => {
+  const killmails = [killmail(1, '2025-11-01T18:00:00Z'), killmail(2, '2025-11-01T18:01:00Z')];
+  const range = { from: new Date('2025-11-01T17:00:00Z'), to: new Date('2025-11-01T19:00:00Z') };
+
+  let db: DB;
+  let enrichment: EnrichmentClient;
+
+  beforeEach(async () => {
+    db = await createTestDatabase();
+
+    const clusterer = new BattleClusterer(db);
+    await clusterer.processKillmails(killmails);
+    await clusterer.closeAllBattles();
+
+    enrichment = new EnrichmentClient();
+    vi.spyOn(enrichment, 'listKillmails').mockImplementation(async function* () {
+      yield { killmails, total: killmails.length };
+    });
+  });
+
+  afterEach(async () => {
+    await db.destroy();
+  });
+
+  const getShipHistory = () =>
+    db.selectFrom('pilot_ship_history').select(['character_id', 'kill_count', 'loss_count']).orderBy('character_id').execute();
+
+  it('rebuilds battles without changing ship history', async () => {
+    const before = await getShipHistory();
+    await reclusterRange(db, range, undefined, enrichment);
+
+    expect(await getShipHistory()).toEqual(before);
+  });
+
+  it('leaves the ship history of killmails stored without attackers alone', async () => {
+    const before = await getShipHistory();
+    // Stored before attackers were kept
+    await db.updateTable('battle_killmails').set({ attackers: null }).where('killmail_id', '=', 1).execute();
+    await reclusterRange(db, range, undefined, enrichment);
+
+    expect(await getShipHistory()).toEqual(before);
+  });
+});
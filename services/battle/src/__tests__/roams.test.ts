@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { detectRoams, summarizeRoam, type RoamKillmail } from '../lib/roams';
+import { StargateGraph } from '../lib/stargate-graph';
+
+const MINUTE = 60 * 1000;
+const START = new Date('2025-11-01T18:00:00Z').getTime();
+
+// A chain of systems 1 - 2 - 3 - 4, and system 9 that no gate leads to
+const graph = new StargateGraph({
+  regions: { '10': 'Curse' },
+  systems: {
+    '1': { name: 'Alpha', regionId: 10, security: -0.4, neighbours: [2] },
+    '2': { name: 'Bravo', regionId: 10, security: -0.3, neighbours: [1, 3] },
+    '3': { name: 'Charlie', regionId: 10, security: -0.2, neighbours: [2, 4] },
+    '4': { name: 'Delta', regionId: 10, security: -0.1, neighbours: [3] },
+    '9': { name: 'Island', regionId: 10, security: -0.5, neighbours: [] },
+  },
+});
+
+let nextKillmail = 1;
+
+// A kill `minute` minutes in, in `systemId`, by the given pilots of alliance 100
+const kill = (minute: number, systemId: number, pilots: number[], allianceId = 100): RoamKillmail => ({
+  battle_id: `battle-${nextKillmail}`,
+  killmail_id: nextKillmail++,
+  occurred_at: new Date(START + minute * MINUTE),
+  system_id: systemId,
+  isk_value: BigInt(100_000_000),
+  attackers: pilots.map((characterId) => ({
+    characterId,
+    corporationId: allianceId * 10,
+    allianceId,
+    damageDone: 100,
+    finalBlow: characterId === pilots[0],
+  })),
+});
+
+describe('detectRoams', () => {
+  it('links kills by the same pilots across systems into a trail', () => {
+    const kills = [kill(0, 1, [1, 2]), kill(10, 2, [2, 3]), kill(12, 2, [1]), kill(30, 4, [3, 4])];
+
+    const roams = detectRoams(kills, graph);
+
+    expect(roams).toHaveLength(1);
+    expect(roams[0].kills.map((k) => k.killmail_id)).toEqual(kills.map((k) => k.killmail_id));
+    expect([...roams[0].pilots]).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps other gangs, unreachable systems and long gaps apart', () => {
+    const roams = detectRoams(
+      [
+        kill(0, 1, [1]),
+        // Other pilots of the same alliance
+        kill(5, 2, [50]),
+        kill(10, 2, [1]),
+        // No gate leads there
+        kill(15, 9, [1]),
+        kill(20, 3, [1]),
+        // Over an hour after the last kill
+        kill(90, 4, [1]),
+      ],
+      graph
+    );
+
+    expect(roams).toHaveLength(1);
+    expect(roams[0].kills.map((k) => Number(k.system_id))).toEqual([1, 2, 3]);
+  });
+
+  it('searches the gate graph from each system once', () => {
+    const search = vi.spyOn(graph, 'getSystemsWithinJumps');
+    detectRoams(
+      [kill(0, 1, [1]), kill(5, 2, [1]), kill(10, 1, [1]), kill(15, 2, [1]), kill(20, 3, [1]), kill(25, 2, [1])],
+      graph
+    );
+
+    expect(search.mock.calls.map(([systemId]) => systemId).sort()).toEqual([1, 2, 3]);
+    search.mockRestore();
+  });
+
+  it('drops gangs that killed in fewer than three systems', () => {
+    expect(detectRoams([kill(0, 1, [1]), kill(10, 2, [1]), kill(20, 2, [1])], graph)).toEqual([]);
+  });
+});
+
+describe('summarizeRoam', () => {
+  it('builds one trail stop per visit to a system, and the groups in the gang', () => {
+    const [roam] = detectRoams(
+      [kill(0, 1, [1, 2]), kill(5, 1, [1]), kill(15, 2, [2, 3], 200), kill(25, 1, [1]), kill(40, 3, [1])],
+      graph
+    );
+
+    const summary = summarizeRoam(roam, new Map([[100, 'Roamers']]), graph);
+
+    expect(summary.trail.map((s) => [s.systemName, s.kills])).toEqual([
+      ['Alpha', 2],
+      ['Bravo', 1],
+      ['Alpha', 1],
+      ['Charlie', 1],
+    ]);
+    expect(summary.trail[0]).toMatchObject({
+      regionName: 'Curse',
+      firstKillAt: '2025-11-01T18:00:00.000Z',
+      lastKillAt: '2025-11-01T18:05:00.000Z',
+    });
+    expect(summary.groups).toEqual([
+      { entityId: 100, name: 'Roamers', pilots: 2 },
+      { entityId: 200, name: null, pilots: 2 },
+    ]);
+    expect(summary.allianceIds).toEqual([100, 200]);
+    expect(summary.pilots).toBe(3);
+    expect(summary.totalIsk).toBe(500_000_000);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { SideGraph, type SideKillmail } from '../lib/side-inference';
+
+function kill(victimAllianceId: number, attackerAllianceIds: number[]): SideKillmail {
+  return {
+    victim: { corporationId: victimAllianceId + 1000, allianceId: victimAllianceId },
+    attackers: attackerAllianceIds.map((allianceId, i) => ({
+      characterId: allianceId * 100 + i,
+      corporationId: allianceId + 1000,
+      allianceId,
+    })),
+  };
+}
+
+describe('SideGraph', () => {
+  it('should put groups that shoot together on the same side', () => {
+    const graph = new SideGraph();
+    graph.addKillmail(kill(1, [2, 3]));
+    graph.addKillmail(kill(2, [1, 4]));
+    graph.addKillmail(kill(3, [4]));
+
+    const sides = graph.partition();
+    expect(sides.get(2)).toBe(sides.get(3));
+    expect(sides.get(1)).toBe(sides.get(4));
+    expect(sides.get(1)).not.toBe(sides.get(2));
+  });
+
+  it('should not let a single awox split an alliance', () => {
+    const graph = new SideGraph();
+    graph.addKillmail(kill(1, [2]));
+    graph.addKillmail(kill(2, [1]));
+    graph.addKillmail(kill(1, [1]));
+
+    const sides = graph.partition();
+    expect(new Set(sides.values()).size).toBe(2);
+    expect(sides.get(1)).not.toBe(sides.get(2));
+  });
+
+  it('should give a third party that shoots everyone its own side', () => {
+    const graph = new SideGraph();
+    graph.addKillmail(kill(1, [2]));
+    graph.addKillmail(kill(2, [1]));
+    graph.addKillmail(kill(1, [3]));
+    graph.addKillmail(kill(2, [3]));
+
+    const sides = graph.partition();
+    expect(new Set([sides.get(1), sides.get(2), sides.get(3)]).size).toBe(3);
+  });
+
+  it('should keep previous side numbers when the partition is unchanged', () => {
+    const graph = new SideGraph();
+    graph.addKillmail(kill(1, [2]));
+
+    const previous = new Map([
+      [1, 2],
+      [2, 1],
+    ]);
+    const sides = graph.partition(previous);
+    expect(sides.get(1)).toBe(2);
+    expect(sides.get(2)).toBe(1);
+  });
+
+  it('should respect pinned groups', () => {
+    const graph = new SideGraph();
+    graph.addKillmail(kill(1, [2, 3]));
+
+    const sides = graph.partition(new Map(), new Map([[3, 1]]));
+    expect(sides.get(3)).toBe(1);
+    expect(sides.get(1)).not.toBe(1);
+  });
+
+  it('should ignore NPC attackers', () => {
+    const graph = new SideGraph();
+    graph.addKillmail({
+      victim: { corporationId: 1001, allianceId: 1 },
+      attackers: [{ corporationId: 1000125 }],
+    });
+
+    expect(graph.entities).toEqual([1]);
+  });
+});
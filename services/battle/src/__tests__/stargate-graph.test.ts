@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { StargateGraph, loadStargateGraph } from '../lib/stargate-graph';
+
+// A -- B -- C -- D, with E hanging off B
+const graph = new StargateGraph({
+  regions: { '1': 'Test Region' },
+  systems: {
+    '1': { name: 'A', regionId: 1, security: 0.5, neighbours: [2] },
+    '2': { name: 'B', regionId: 1, security: 0.4, neighbours: [1, 3, 5] },
+    '3': { name: 'C', regionId: 1, security: 0.0, neighbours: [2, 4] },
+    '4': { name: 'D', regionId: 1, security: -0.2, neighbours: [3] },
+    '5': { name: 'E', regionId: 1, security: 0.3, neighbours: [2] },
+  },
+});
+
+describe('StargateGraph', () => {
+  it('should include the origin system at distance 0', () => {
+    const systems = graph.getSystemsWithinJumps(1, 0);
+    expect([...systems.entries()]).toEqual([[1, 0]]);
+  });
+
+  it('should return systems within the jump range with their distances', () => {
+    const systems = graph.getSystemsWithinJumps(1, 2);
+    expect(systems.get(2)).toBe(1);
+    expect(systems.get(3)).toBe(2);
+    expect(systems.get(5)).toBe(2);
+    expect(systems.has(4)).toBe(false);
+  });
+
+  it('should compute jump distances between systems', () => {
+    expect(graph.jumpsBetween(1, 4, 5)).toBe(3);
+    expect(graph.jumpsBetween(1, 4, 2)).toBeNull();
+  });
+
+  it('should treat systems outside the graph as isolated', () => {
+    const systems = graph.getSystemsWithinJumps(31000005, 3);
+    expect([...systems.keys()]).toEqual([31000005]);
+  });
+
+  it('should load the shipped stargate data', () => {
+    const shipped = loadStargateGraph(path.join(__dirname, '../../data/stargates.json'));
+
+    // Jita and Perimeter are one jump apart
+    expect(shipped.getSystem(30000142)?.name).toBe('Jita');
+    expect(shipped.jumpsBetween(30000142, 30000144, 1)).toBe(1);
+    expect(shipped.getRegionName(10000002)).toBe('The Forge');
+  });
+});
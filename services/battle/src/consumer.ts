@@ -1,10 +1,12 @@
 import { EventBus, Topics } from '@battlescope/events';
 import { createLogger } from '@battlescope/logger';
-import { BattleClusterer } from './lib/clusterer';
-import type { DB } from './database/types';
+import type { BattleClusterer } from './lib/clusterer';
 
 const logger = createLogger({ serviceName: 'battle-consumer' });
 
+// Most killmails clustered in one transaction
+const KILLMAIL_BATCH_SIZE = parseInt(process.env.KILLMAIL_BATCH_SIZE || '50', 10);
+
 interface EnrichedKillmailEvent {
   type: 'killmail.enriched';
   data: {
@@ -13,6 +15,7 @@ interface EnrichedKillmailEvent {
     killmailTime: string | Date;
     solarSystemId: number;
     systemName: string;
+    regionId?: number;
     regionName: string;
     securityStatus: number;
     victim: {
@@ -25,6 +28,7 @@ interface EnrichedKillmailEvent {
       shipTypeId: number;
       shipTypeName?: string;
       damageTaken: number;
+      position?: { x: number; y: number; z: number };
     };
     attackers: Array<{
       characterId?: number;
@@ -35,6 +39,7 @@ interface EnrichedKillmailEvent {
       allianceName?: string;
       shipTypeId?: number;
       shipTypeName?: string;
+      weaponTypeId?: number;
       damageDone: number;
       finalBlow: boolean;
     }>;
@@ -54,9 +59,9 @@ export class KillmailConsumer {
   private clusterer: BattleClusterer;
   private isRunning = false;
 
-  constructor(eventBus: EventBus, db: DB) {
+  constructor(eventBus: EventBus, clusterer: BattleClusterer) {
     this.eventBus = eventBus;
-    this.clusterer = new BattleClusterer(db);
+    this.clusterer = clusterer;
   }
 
   async start(): Promise<void> {
@@ -70,20 +75,22 @@ export class KillmailConsumer {
 
     logger.info('Starting killmail consumer...');
 
-    // Subscribe to killmail.enriched events
-    await this.eventBus.subscribe(
+    // Subscribe to killmail.enriched events, clustering each batch in one transaction
+    await this.eventBus.subscribeBatch(
       Topics.KILLMAILS_ENRICHED,
       'battle-clusterer',
-      async (event) => {
-        try {
+      async (events) => {
+        const killmails: EnrichedKillmailEvent['data'][] = [];
+
+        for (const event of events) {
           if (!event || event.type !== 'killmail.enriched') {
             logger.warn('Received invalid event format');
-            return;
+            continue;
           }
 
           // Extract enriched data - the enrichment service sends system info separately
           // We need to add systemName, regionName, securityStatus which aren't in the base killmail
-          const killmail: EnrichedKillmailEvent['data'] = {
+          killmails.push({
             ...event.data,
             killmailTime: new Date(event.data.killmailTime),
             // These fields should be added by enrichment service but are missing
@@ -91,15 +98,21 @@ export class KillmailConsumer {
             systemName: (event.data as any).systemName || 'Unknown System',
             regionName: (event.data as any).regionName || 'Unknown Region',
             securityStatus: (event.data as any).securityStatus || 0,
-          };
+          });
+        }
 
-          logger.info({ killmailId: killmail.killmailId, systemName: killmail.systemName }, 'Processing killmail');
+        if (killmails.length === 0) {
+          return;
+        }
 
-          await this.clusterer.processKillmail(killmail as any);
+        try {
+          logger.info({ count: killmails.length }, 'Processing killmails');
+          await this.clusterer.processKillmails(killmails as any);
         } catch (error) {
-          logger.error({ error }, 'Error processing killmail');
+          logger.error({ error }, 'Error processing killmails');
         }
-      }
+      },
+      KILLMAIL_BATCH_SIZE
     );
 
     // Start periodic check for inactive battles (every 5 minutes)
@@ -1,30 +1,62 @@
-import { Kysely } from 'kysely';
+import { Kysely, ColumnType, Generated } from 'kysely';
+import type { AuditLogEntry } from '../lib/auth-client';
+import type { ParticipantRole } from '../lib/ship-roles';
 
 export interface BattlesTable {
   id: string;
   system_id: number;
+  system_ids: number[];
   system_name: string;
+  region_id: number | null;
   region_name: string;
   security_type: string;
   start_time: Date;
   end_time: Date | null;
   total_kills: number;
   total_isk_destroyed: bigint;
+  // Distinct pilots on the battle's killmails
+  total_pilots: Generated<number>;
   zkill_related_url: string | null;
   created_at: Date;
   updated_at: Date;
   last_killmail_at: Date;
+  classification: string | null;
+  significance: number | null;
+  // Camp the battle's kills all belong to
+  camp_id: string | null;
 }
 
 export interface BattleKillmailsTable {
   battle_id: string;
   killmail_id: number;
   occurred_at: Date;
+  system_id: number | null;
   ship_type_name: string | null;
   victim_name: string | null;
   victim_alliance_name: string | null;
   isk_value: bigint | null;
   side_id: number | null;
+  victim_character_id: number | null;
+  victim_ship_type_id: number | null;
+  victim_corp_id: number | null;
+  victim_alliance_id: number | null;
+  attackers: ColumnType<BattleKillmailAttacker[] | null, string | null, string | null>;
+  // Where the victim died, in metres from the system's star
+  position_x: number | null;
+  position_y: number | null;
+  position_z: number | null;
+  // zKillboard's solo flag
+  is_solo: Generated<boolean>;
+}
+
+export interface BattleKillmailAttacker {
+  characterId?: number;
+  corporationId?: number;
+  allianceId?: number;
+  shipTypeId?: number;
+  weaponTypeId?: number;
+  damageDone: number;
+  finalBlow: boolean;
 }
 
 export interface BattleParticipantsTable {
@@ -51,11 +83,185 @@ export interface PilotShipHistoryTable {
   loss_count: number;
 }
 
+// Manual corrections, kept apart from the battles so they survive re-clustering
+export interface BattleKillmailOverridesTable {
+  killmail_id: number;
+  battle_id: string;
+  created_by: string | null;
+  created_at: Generated<Date>;
+}
+
+export interface BattleSideOverridesTable {
+  battle_id: string;
+  entity_id: number;
+  side_id: number;
+  created_by: string | null;
+  created_at: Generated<Date>;
+}
+
+export interface CampaignsTable {
+  id: string;
+  name: string;
+  description: string | null;
+  kind: string;
+  region_id: number | null;
+  region_name: string | null;
+  start_time: Date;
+  end_time: Date;
+  total_battles: number;
+  total_kills: number;
+  total_isk_destroyed: bigint;
+  created_by: string | null;
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+export interface CampaignBattlesTable {
+  campaign_id: string;
+  battle_id: string;
+}
+
+export interface CampaignEntitiesTable {
+  campaign_id: string;
+  entity_id: number;
+  entity_name: string | null;
+  side_id: number;
+  pilots: number;
+}
+
+export interface CampCamper {
+  characterId: number;
+  name: string | null;
+  corporationId: number | null;
+  corporationName: string | null;
+  allianceId: number | null;
+  allianceName: string | null;
+  kills: number;
+  shipTypeIds: number[];
+}
+
+export interface CampShip {
+  shipTypeId: number;
+  shipTypeName: string | null;
+  pilots: number;
+}
+
+export interface CampsTable {
+  id: string;
+  system_id: number;
+  system_name: string;
+  region_id: number | null;
+  region_name: string | null;
+  start_time: Date;
+  last_kill_at: Date;
+  total_kills: number;
+  total_isk_destroyed: bigint;
+  campers: ColumnType<CampCamper[] | null, string | null, string | null>;
+  ships: ColumnType<CampShip[] | null, string | null, string | null>;
+  active_hours: ColumnType<number[] | null, string | null, string | null>;
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+export interface CampKillmailsTable {
+  camp_id: string;
+  killmail_id: number;
+  battle_id: string;
+  occurred_at: Date;
+}
+
+export interface RoamGroup {
+  // Alliance ID, or corporation ID for corporations without an alliance
+  entityId: number;
+  name: string | null;
+  pilots: number;
+}
+
+export interface RoamStop {
+  systemId: number;
+  systemName: string;
+  regionName: string | null;
+  // ISO timestamps, as stored in jsonb
+  firstKillAt: string;
+  lastKillAt: string;
+  kills: number;
+}
+
+export interface RoamsTable {
+  id: string;
+  start_time: Date;
+  last_kill_at: Date;
+  total_kills: number;
+  total_isk_destroyed: bigint;
+  pilots: number;
+  alliance_ids: number[];
+  groups: ColumnType<RoamGroup[] | null, string | null, string | null>;
+  trail: ColumnType<RoamStop[] | null, string | null, string | null>;
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+export interface RoamKillmailsTable {
+  roam_id: string;
+  killmail_id: number;
+  battle_id: string;
+  occurred_at: Date;
+}
+
+export interface DoctrineShip {
+  shipTypeId: number;
+  shipTypeName: string | null;
+  role: ParticipantRole;
+  // Share of the doctrine's pilots flying the ship type
+  share: number;
+}
+
+export interface DoctrinesTable {
+  id: string;
+  alliance_id: number;
+  name: string;
+  ships: ColumnType<DoctrineShip[] | null, string | null, string | null>;
+  times_seen: number;
+  first_seen: Date;
+  last_seen: Date;
+  average_pilots: number;
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+export interface DoctrineBattlesTable {
+  doctrine_id: string;
+  battle_id: string;
+  pilots: number;
+  start_time: Date;
+}
+
+// Audit log entries waiting to be sent to the authentication service
+export interface AuditLogOutboxTable {
+  id: Generated<number>;
+  entry: ColumnType<AuditLogEntry, string, string>;
+  attempts: Generated<number>;
+  last_error: string | null;
+  created_at: Generated<Date>;
+}
+
 export interface Database {
   battles: BattlesTable;
   battle_killmails: BattleKillmailsTable;
   battle_participants: BattleParticipantsTable;
   pilot_ship_history: PilotShipHistoryTable;
+  battle_killmail_overrides: BattleKillmailOverridesTable;
+  battle_side_overrides: BattleSideOverridesTable;
+  campaigns: CampaignsTable;
+  campaign_battles: CampaignBattlesTable;
+  campaign_entities: CampaignEntitiesTable;
+  camps: CampsTable;
+  camp_killmails: CampKillmailsTable;
+  roams: RoamsTable;
+  roam_killmails: RoamKillmailsTable;
+  doctrines: DoctrinesTable;
+  doctrine_battles: DoctrineBattlesTable;
+  audit_log_outbox: AuditLogOutboxTable;
 }
 
 export type DB = Kysely<Database>;
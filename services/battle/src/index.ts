@@ -5,6 +5,14 @@ import { EventBus, getEventBusConfigFromEnv } from '@battlescope/events';
 import { buildServer } from './server';
 import { getDatabase, closeDatabase } from './database/client';
 import { KillmailConsumer } from './consumer';
+import { AUDIT_LOG_RETRY_INTERVAL, sendAuditLog } from './lib/audited-change';
+import { BattleClusterer } from './lib/clusterer';
+import { BattleEventPublisher } from './lib/battle-events';
+import { CAMP_REFRESH_INTERVAL, refreshCamps } from './lib/camps';
+import { CAMPAIGN_REFRESH_INTERVAL, refreshCampaigns } from './lib/campaigns';
+import { DOCTRINE_REFRESH_INTERVAL, refreshDoctrines } from './lib/doctrines';
+import { RefreshJob } from './lib/refresh-job';
+import { ROAM_REFRESH_INTERVAL, refreshRoams } from './lib/roams';
 
 const logger = createLogger({ serviceName: 'battle' });
 
@@ -25,12 +33,29 @@ async function start() {
     logger.info('Event bus initialized');
 
     // Start killmail consumer
-    const consumer = new KillmailConsumer(eventBus, db);
+    const battleEvents = new BattleEventPublisher(eventBus, db);
+    const clusterer = new BattleClusterer(db, { events: battleEvents });
+    const consumer = new KillmailConsumer(eventBus, clusterer);
     await consumer.start();
     logger.info('Killmail consumer started');
 
+    // Rebuild automatic campaigns from recent battles, and camps and roams from recent killmails
+    const campaignJob = new RefreshJob('campaigns', CAMPAIGN_REFRESH_INTERVAL, () => refreshCampaigns(db));
+    campaignJob.start();
+    const campJob = new RefreshJob('camps', CAMP_REFRESH_INTERVAL, () => refreshCamps(db));
+    campJob.start();
+    const roamJob = new RefreshJob('roams', ROAM_REFRESH_INTERVAL, () => refreshRoams(db));
+    roamJob.start();
+    // Regroup alliances' fleets in recent fleet fights into doctrines
+    const doctrineJob = new RefreshJob('doctrines', DOCTRINE_REFRESH_INTERVAL, () => refreshDoctrines(db));
+    doctrineJob.start();
+    // Resend audit log entries of corrections the authentication service didn't take
+    const auditLogJob = new RefreshJob('audit log', AUDIT_LOG_RETRY_INTERVAL, () => sendAuditLog(db));
+    auditLogJob.start();
+    logger.info('Campaign, camp, roam and doctrine refresh and audit log retries started');
+
     // Build and start server
-    const server = await buildServer();
+    const server = await buildServer({ clusterer });
     const port = parseInt(process.env.PORT || '3003', 10);
     const host = process.env.HOST || '0.0.0.0';
 
@@ -43,6 +68,12 @@ async function start() {
       process.on(signal, async () => {
         logger.info(`Received ${signal}, shutting down gracefully...`);
         await consumer.stop();
+        campaignJob.stop();
+        campJob.stop();
+        roamJob.stop();
+        doctrineJob.stop();
+        auditLogJob.stop();
+        battleEvents.stop();
         await server.close();
         await closeDatabase();
         logger.info('Server closed');
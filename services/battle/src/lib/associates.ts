@@ -0,0 +1,359 @@
+import { sql, type Selectable } from 'kysely';
+import type { BattleKillmailsTable, DB } from '../database/types';
+
+/**
+ * Who a pilot flies with. Associates are pilots seen on the same side of the
+ * pilot's battles, or attacking the same victims. Likely alts are pilots never
+ * seen in a battle with the pilot at all who moved between the same
+ * corporations at about the same time and are active at the same hours.
+ */
+
+const TOP_ASSOCIATES = 20;
+const LIKELY_ALTS = 10;
+// Pilots who were in the pilot's corporations checked for being alts
+const ALT_CANDIDATES = 500;
+// How far apart two pilots may join the same corporation and still count as moving together
+const ALT_HOP_WINDOW = 14 * 24 * 60 * 60 * 1000;
+// Corporation moves in common and similarity of active hours a likely alt needs
+const ALT_MIN_SHARED_HOPS = 1;
+const ALT_MIN_ACTIVITY_SIMILARITY = 0.6;
+
+export interface AssociateCounts {
+  characterId: number;
+  // Battles on the same side as the pilot
+  sharedBattles: number;
+  // Killmails both were attackers on
+  sharedKills: number;
+}
+
+// A corporation a pilot was seen in, between the first and last battle they were seen in it
+export interface CorpStint {
+  corporationId: number;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export interface CorpHop {
+  fromCorporationId: number;
+  toCorporationId: number;
+  at: Date;
+}
+
+export interface PilotHistory {
+  characterId: number;
+  stints: CorpStint[];
+  // Battles per UTC hour, 24 entries
+  activeHours: number[];
+}
+
+export interface AltMatch {
+  characterId: number;
+  sharedHops: number;
+  activitySimilarity: number;
+}
+
+type AssociateKillmail = Pick<Selectable<BattleKillmailsTable>, 'killmail_id' | 'attackers'>;
+
+/**
+ * Counts the killmails each other pilot was an attacker on alongside
+ * `characterId`.
+ */
+export function countSharedKills(killmails: AssociateKillmail[], characterId: number): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const km of killmails) {
+    const attackers = new Set<number>();
+    for (const attacker of km.attackers || []) {
+      if (attacker.characterId) attackers.add(Number(attacker.characterId));
+    }
+    if (!attackers.delete(characterId)) continue;
+    for (const other of attackers) {
+      counts.set(other, (counts.get(other) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Merges shared battles and shared kills into one list of associates, ranked
+ * by shared battles and then shared kills.
+ */
+export function rankAssociates(
+  sharedBattles: Map<number, number>,
+  sharedKills: Map<number, number>,
+  limit: number = TOP_ASSOCIATES
+): AssociateCounts[] {
+  const ids = new Set([...sharedBattles.keys(), ...sharedKills.keys()]);
+  return [...ids]
+    .map((characterId) => ({
+      characterId,
+      sharedBattles: sharedBattles.get(characterId) || 0,
+      sharedKills: sharedKills.get(characterId) || 0,
+    }))
+    .sort(
+      (a, b) => b.sharedBattles - a.sharedBattles || b.sharedKills - a.sharedKills || a.characterId - b.characterId
+    )
+    .slice(0, limit);
+}
+
+/**
+ * The corporation moves of a pilot: each stint after the first, in order of
+ * when the pilot was first seen in it, is a move from the one before.
+ */
+export function getCorpHops(stints: CorpStint[]): CorpHop[] {
+  const sorted = [...stints].sort((a, b) => a.firstSeen.getTime() - b.firstSeen.getTime());
+  const hops: CorpHop[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    hops.push({
+      fromCorporationId: sorted[i - 1].corporationId,
+      toCorporationId: sorted[i].corporationId,
+      at: sorted[i].firstSeen,
+    });
+  }
+  return hops;
+}
+
+// Moves between the same two corporations within `ALT_HOP_WINDOW` of each other
+function countSharedHops(a: CorpHop[], b: CorpHop[]): number {
+  return a.filter((hop) =>
+    b.some(
+      (other) =>
+        other.fromCorporationId === hop.fromCorporationId &&
+        other.toCorporationId === hop.toCorporationId &&
+        Math.abs(other.at.getTime() - hop.at.getTime()) <= ALT_HOP_WINDOW
+    )
+  ).length;
+}
+
+// Cosine similarity of two pilots' active hours
+function activitySimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let hour = 0; hour < 24; hour++) {
+    dot += (a[hour] || 0) * (b[hour] || 0);
+    normA += (a[hour] || 0) ** 2;
+    normB += (b[hour] || 0) ** 2;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Picks the likely alts of a pilot among `candidates`: pilots never seen in a
+ * battle with the pilot who made at least one of the same corporation moves
+ * at about the same time, and whose active hours are similar. Ranked by
+ * shared moves, then activity similarity.
+ */
+export function findLikelyAlts(
+  pilot: PilotHistory,
+  candidates: PilotHistory[],
+  seenTogether: Set<number>,
+  limit: number = LIKELY_ALTS
+): AltMatch[] {
+  const hops = getCorpHops(pilot.stints);
+  if (hops.length === 0) return [];
+
+  const matches: AltMatch[] = [];
+  for (const candidate of candidates) {
+    if (candidate.characterId === pilot.characterId || seenTogether.has(candidate.characterId)) continue;
+
+    const sharedHops = countSharedHops(hops, getCorpHops(candidate.stints));
+    const similarity = activitySimilarity(pilot.activeHours, candidate.activeHours);
+    if (sharedHops >= ALT_MIN_SHARED_HOPS && similarity >= ALT_MIN_ACTIVITY_SIMILARITY) {
+      matches.push({ characterId: candidate.characterId, sharedHops, activitySimilarity: similarity });
+    }
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        b.sharedHops - a.sharedHops || b.activitySimilarity - a.activitySimilarity || a.characterId - b.characterId
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Loads the corporation stints and active hours of pilots from the battles
+ * they were seen in since `since`.
+ */
+async function loadPilotHistories(db: DB, characterIds: number[], since: Date): Promise<PilotHistory[]> {
+  const histories = new Map<number, PilotHistory>(
+    characterIds.map((characterId) => [characterId, { characterId, stints: [], activeHours: new Array(24).fill(0) }])
+  );
+  if (characterIds.length === 0) return [];
+
+  const stints = await db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select([
+      'battle_participants.character_id',
+      'battle_participants.corp_id',
+      (eb) => eb.fn.min('battles.start_time').as('first_seen'),
+      (eb) => eb.fn.max('battles.start_time').as('last_seen'),
+    ])
+    .where('battle_participants.character_id', 'in', characterIds)
+    .where('battle_participants.corp_id', 'is not', null)
+    .where('battles.start_time', '>=', since)
+    .groupBy(['battle_participants.character_id', 'battle_participants.corp_id'])
+    .execute();
+
+  const hours = await db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select([
+      'battle_participants.character_id',
+      sql<string>`extract(hour from battles.start_time at time zone 'UTC')`.as('hour'),
+      (eb) => eb.fn.countAll<string>().as('battles'),
+    ])
+    .where('battle_participants.character_id', 'in', characterIds)
+    .where('battles.start_time', '>=', since)
+    .groupBy(['battle_participants.character_id', sql`extract(hour from battles.start_time at time zone 'UTC')`])
+    .execute();
+
+  for (const row of stints) {
+    // bigint columns come back from pg as strings
+    histories.get(Number(row.character_id))?.stints.push({
+      corporationId: Number(row.corp_id),
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+    });
+  }
+  for (const row of hours) {
+    const history = histories.get(Number(row.character_id));
+    if (history) history.activeHours[Number(row.hour)] = Number(row.battles);
+  }
+  return [...histories.values()];
+}
+
+/**
+ * Builds the associates and likely alts of a pilot over the last
+ * `windowDays`. Returns null if the pilot was never seen in a battle.
+ */
+export async function buildAssociates(db: DB, characterId: number, windowDays: number, now: Date = new Date()) {
+  const since = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000);
+
+  const latest = await db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select(['battle_participants.character_name'])
+    .where('battle_participants.character_id', '=', characterId)
+    .orderBy('battles.start_time', 'desc')
+    .limit(1)
+    .executeTakeFirst();
+  if (!latest) {
+    return null;
+  }
+
+  // The pilot's battles in the window
+  const pilotBattles = db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select(['battle_participants.battle_id', 'battle_participants.side_id', 'battles.start_time'])
+    .where('battle_participants.character_id', '=', characterId)
+    .where('battles.start_time', '>=', since);
+
+  const sideRows = await db
+    .selectFrom(pilotBattles.as('p'))
+    .innerJoin('battle_participants as o', (join) =>
+      join.onRef('o.battle_id', '=', 'p.battle_id').onRef('o.side_id', '=', 'p.side_id')
+    )
+    .select([
+      'o.character_id',
+      (eb) => eb.fn.count<string>('o.battle_id').distinct().as('battles'),
+      (eb) => eb.fn.max('p.start_time').as('last_seen_together'),
+    ])
+    .where('o.character_id', '!=', characterId)
+    .groupBy('o.character_id')
+    .execute();
+
+  const attackerFilter = JSON.stringify([{ characterId }]);
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select(['killmail_id', 'attackers'])
+    .where('battle_id', 'in', db.selectFrom(pilotBattles.as('p')).select('p.battle_id'))
+    .where(sql<boolean>`attackers @> ${attackerFilter}::jsonb`)
+    .execute();
+
+  const sharedBattles = new Map(sideRows.map((r) => [Number(r.character_id), Number(r.battles)]));
+  const lastSeenTogether = new Map(sideRows.map((r) => [Number(r.character_id), r.last_seen_together]));
+  const associates = rankAssociates(sharedBattles, countSharedKills(killmails, characterId));
+
+  // Pilots who were in two or more of the pilot's corporations are checked for being alts
+  const [pilot] = await loadPilotHistories(db, [characterId], since);
+  const corporationIds = pilot.stints.map((s) => s.corporationId);
+  let likelyAlts: AltMatch[] = [];
+  if (corporationIds.length >= 2) {
+    const candidateRows = await db
+      .selectFrom('battle_participants')
+      .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+      .select('battle_participants.character_id')
+      .where('battle_participants.corp_id', 'in', corporationIds)
+      .where('battle_participants.character_id', '!=', characterId)
+      .where('battles.start_time', '>=', since)
+      .groupBy('battle_participants.character_id')
+      .having((eb) => eb.fn.count('battle_participants.corp_id').distinct(), '>=', 2)
+      .limit(ALT_CANDIDATES)
+      .execute();
+    const candidateIds = candidateRows.map((r) => Number(r.character_id));
+
+    if (candidateIds.length > 0) {
+      // Candidates in any battle with the pilot, on either side, aren't alts
+      const together = await db
+        .selectFrom('battle_participants')
+        .select('character_id')
+        .distinct()
+        .where(
+          'battle_id',
+          'in',
+          db.selectFrom('battle_participants').select('battle_id').where('character_id', '=', characterId)
+        )
+        .where('character_id', 'in', candidateIds)
+        .execute();
+      const candidates = await loadPilotHistories(db, candidateIds, since);
+      likelyAlts = findLikelyAlts(pilot, candidates, new Set(together.map((r) => Number(r.character_id))));
+    }
+  }
+
+  // Latest name and groups of every pilot listed
+  const listedIds = [...associates.map((a) => a.characterId), ...likelyAlts.map((a) => a.characterId)];
+  const affiliations =
+    listedIds.length > 0
+      ? await db
+          .selectFrom('battle_participants')
+          .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+          .distinctOn('battle_participants.character_id')
+          .select([
+            'battle_participants.character_id',
+            'battle_participants.character_name',
+            'battle_participants.corp_id',
+            'battle_participants.corp_name',
+            'battle_participants.alliance_id',
+            'battle_participants.alliance_name',
+          ])
+          .where('battle_participants.character_id', 'in', listedIds)
+          .orderBy('battle_participants.character_id')
+          .orderBy('battles.start_time', 'desc')
+          .execute()
+      : [];
+  const affiliationOf = (id: number) => {
+    const row = affiliations.find((a) => Number(a.character_id) === id);
+    return {
+      name: row?.character_name ?? null,
+      corporationId: row?.corp_id ? Number(row.corp_id) : null,
+      corporationName: row?.corp_name ?? null,
+      allianceId: row?.alliance_id ? Number(row.alliance_id) : null,
+      allianceName: row?.alliance_name ?? null,
+    };
+  };
+
+  return {
+    characterId,
+    name: latest.character_name,
+    windowDays,
+    associates: associates.map((a) => ({
+      ...a,
+      ...affiliationOf(a.characterId),
+      lastSeenTogether: lastSeenTogether.get(a.characterId) ?? null,
+    })),
+    likelyAlts: likelyAlts.map((a) => ({ ...a, ...affiliationOf(a.characterId) })),
+  };
+}
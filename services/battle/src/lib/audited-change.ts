@@ -0,0 +1,92 @@
+import { createLogger } from '@battlescope/logger';
+import type { DB } from '../database/types';
+import { getAuthClient, type AuditLogEntry, type AuthClient } from './auth-client';
+
+const logger = createLogger({ serviceName: 'battle-audit-log' });
+
+/**
+ * Changes made by hand (corrections, manual campaigns) and their audit log
+ * entries. An entry is stored in the `audit_log_outbox` table in the same
+ * transaction as its change, and sent to the authentication service after
+ * the commit. Entries it doesn't take stay in the outbox and are retried on
+ * a timer, so the authentication service never holds up or rolls back a
+ * change.
+ */
+
+// How often entries the authentication service didn't take are retried
+export const AUDIT_LOG_RETRY_INTERVAL = parseInt(process.env.AUDIT_LOG_RETRY_INTERVAL_SECONDS || '60', 10) * 1000;
+
+// A change that can't be made as asked, with the HTTP status to answer with
+export class ChangeError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'ChangeError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Runs a change in a transaction that also stores its audit log entry. Call
+ * `sendAuditLog` once it returns.
+ */
+export async function runAuditedChange<T>(db: DB, entry: AuditLogEntry, change: (trx: DB) => Promise<T>): Promise<T> {
+  return db.transaction().execute(async (trx) => {
+    const result = await change(trx);
+    await trx
+      .insertInto('audit_log_outbox')
+      .values({ entry: JSON.stringify(entry) })
+      .execute();
+    return result;
+  });
+}
+
+/**
+ * Sends the outbox to the authentication service, oldest entry first, and
+ * stops at the first one it doesn't take. Each entry is locked while it's
+ * sent, so two instances never send the same one. Never throws.
+ */
+export async function sendAuditLog(db: DB, auth: AuthClient = getAuthClient()): Promise<{ sent: number }> {
+  let sent = 0;
+
+  try {
+    for (;;) {
+      const delivered = await db.transaction().execute(async (trx) => {
+        const row = await trx
+          .selectFrom('audit_log_outbox')
+          .select(['id', 'entry'])
+          .orderBy('id')
+          .limit(1)
+          .forUpdate()
+          .skipLocked()
+          .executeTakeFirst();
+        if (!row) return null;
+
+        try {
+          await auth.writeAuditLog(row.entry);
+        } catch (error) {
+          logger.warn({ error, action: row.entry.action, targetId: row.entry.targetId }, 'Failed to send audit log entry');
+          await trx
+            .updateTable('audit_log_outbox')
+            .set((eb) => ({
+              attempts: eb('attempts', '+', 1),
+              last_error: error instanceof Error ? error.message : String(error),
+            }))
+            .where('id', '=', row.id)
+            .execute();
+          return null;
+        }
+
+        await trx.deleteFrom('audit_log_outbox').where('id', '=', row.id).execute();
+        return row;
+      });
+      if (!delivered) break;
+      sent++;
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to read the audit log outbox');
+  }
+
+  return { sent };
+}
@@ -0,0 +1,89 @@
+import axios from 'axios';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { createLogger } from '@battlescope/logger';
+
+const logger = createLogger({ serviceName: 'auth-client' });
+
+// Feature role required for endpoints that change battles
+export const BATTLE_ADMIN_FEATURE = 'battle-reports';
+export const BATTLE_ADMIN_ROLE = 'admin';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Set by requireFeatureRole for the account making the request
+    accountId?: string;
+  }
+}
+
+export interface AuditLogEntry {
+  actorAccountId: string | null;
+  action: string;
+  targetType: string;
+  targetId: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Client for the authentication service, which owns sessions, feature roles
+ * and the audit log.
+ */
+export class AuthClient {
+  private baseUrl: string;
+
+  constructor(baseUrl = process.env.AUTH_SERVICE_URL || 'http://authentication:3007') {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Checks the session in a cookie header against a feature role. Returns
+   * null when there is no valid session.
+   */
+  async authorize(
+    cookie: string | undefined,
+    feature: string,
+    role: string
+  ): Promise<{ accountId: string; allowed: boolean } | null> {
+    if (!cookie) {
+      return null;
+    }
+
+    const response = await axios.get<{ accountId: string; allowed: boolean }>(`${this.baseUrl}/internal/authorize`, {
+      params: { feature, role },
+      headers: { Cookie: cookie },
+      timeout: 10000,
+      validateStatus: (status) => status === 200 || status === 401,
+    });
+
+    return response.status === 200 ? response.data : null;
+  }
+
+  async writeAuditLog(entry: AuditLogEntry): Promise<void> {
+    await axios.post(`${this.baseUrl}/internal/audit-logs`, entry, { timeout: 10000 });
+    logger.debug({ action: entry.action, targetId: entry.targetId }, 'Wrote audit log entry');
+  }
+}
+
+const authClient = new AuthClient();
+
+export function getAuthClient(): AuthClient {
+  return authClient;
+}
+
+/**
+ * Fastify preHandler that only lets through accounts holding at least `role`
+ * for `feature` (super admins always pass).
+ */
+export function requireFeatureRole(feature: string, role: string, client: AuthClient = authClient) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = await client.authorize(request.headers.cookie, feature, role);
+
+    if (!result) {
+      return reply.status(401).send({ error: 'Authentication required' });
+    }
+    if (!result.allowed) {
+      return reply.status(403).send({ error: `Requires the ${role} role for ${feature}` });
+    }
+
+    request.accountId = result.accountId;
+  };
+}
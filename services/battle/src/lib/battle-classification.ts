@@ -0,0 +1,192 @@
+import type { DB } from '../database/types';
+import { getEntityId } from './side-inference';
+import { getShipTypes, type ShipTypes } from './ship-types';
+
+/**
+ * Battle classification.
+ *
+ * Sorts battles into the kind of fight they were, from the pilots involved,
+ * the ship groups they flew and lost, and the ISK destroyed, and gives each a
+ * significance score so a 2,000-pilot titan brawl ranks above a frigate gank.
+ */
+
+export const BATTLE_CLASSIFICATIONS = [
+  'gank',
+  'small_gang',
+  'fleet_fight',
+  'capital_escalation',
+  'structure_bash',
+  'gate_camp',
+] as const;
+
+export type BattleClassification = (typeof BATTLE_CLASSIFICATIONS)[number];
+
+// Titan, Dreadnought, Carrier, Supercarrier, Force Auxiliary, Lancer Dreadnought
+const CAPITAL_GROUPS = new Set([30, 485, 547, 659, 1538, 4594]);
+// Titan, Supercarrier
+const SUPERCAPITAL_GROUPS = new Set([30, 659]);
+// Starbase, Sovereignty Structures, Structure (Upwell)
+const STRUCTURE_CATEGORIES = new Set([23, 40, 65]);
+
+// Capital pilots needed to call a fight a capital escalation, unless supers are on field
+const CAPITAL_ESCALATION_PILOTS = 5;
+const FLEET_FIGHT_PILOTS = 50;
+// At most this many pilots lose ships in a gank
+const GANK_MAX_VICTIMS = 2;
+// Distinct groups a camp has to catch before it counts as one
+const GATE_CAMP_MIN_VICTIM_GROUPS = 3;
+// Share of the ISK destroyed that has to be structures for a structure bash
+const STRUCTURE_BASH_ISK_SHARE = 0.5;
+// Fights where nobody shot back count for less
+const ONE_SIDED_WEIGHT = 0.5;
+
+export interface ProfileKillmail {
+  solarSystemId?: number | null;
+  iskValue: number;
+  victim: {
+    characterId?: number | null;
+    corporationId?: number | null;
+    allianceId?: number | null;
+    shipTypeId?: number | null;
+  };
+  attackers: Array<{
+    characterId?: number | null;
+    corporationId?: number | null;
+    allianceId?: number | null;
+    shipTypeId?: number | null;
+  }>;
+}
+
+export interface BattleClassificationResult {
+  classification: BattleClassification;
+  // Roughly 0-100, from pilot count, ISK destroyed and capitals on field
+  significance: number;
+}
+
+/**
+ * Running totals of a battle that its classification is computed from,
+ * updated one killmail at a time like the side graph.
+ */
+export class BattleProfile {
+  private shipTypes: ShipTypes;
+  private kills = 0;
+  private iskDestroyed = 0;
+  private structureKills = 0;
+  private structureIsk = 0;
+  private systems: Set<number> = new Set();
+  private pilots: Set<number> = new Set();
+  private victims: Set<number> = new Set();
+  private capitalPilots: Set<number> = new Set();
+  private supercapitalPilots: Set<number> = new Set();
+  private attackerGroups: Set<number> = new Set();
+  private victimGroups: Set<number> = new Set();
+
+  constructor(shipTypes: ShipTypes = getShipTypes()) {
+    this.shipTypes = shipTypes;
+  }
+
+  addKillmail(killmail: ProfileKillmail): void {
+    const { victim } = killmail;
+
+    this.kills++;
+    this.iskDestroyed += killmail.iskValue;
+    if (killmail.solarSystemId) this.systems.add(Number(killmail.solarSystemId));
+
+    const victimGroup = victim.shipTypeId ? this.shipTypes.getGroupOf(Number(victim.shipTypeId)) : undefined;
+    if (victimGroup && STRUCTURE_CATEGORIES.has(victimGroup.categoryId)) {
+      this.structureKills++;
+      this.structureIsk += killmail.iskValue;
+    }
+
+    const victimEntity = getEntityId(victim.allianceId, victim.corporationId);
+    if (victimEntity) this.victimGroups.add(victimEntity);
+
+    if (victim.characterId) {
+      this.addPilot(Number(victim.characterId), victim.shipTypeId);
+      this.victims.add(Number(victim.characterId));
+    }
+
+    for (const attacker of killmail.attackers) {
+      // NPCs and structures have no character
+      if (!attacker.characterId) continue;
+
+      this.addPilot(attacker.characterId, attacker.shipTypeId);
+      const entityId = getEntityId(attacker.allianceId, attacker.corporationId);
+      if (entityId) this.attackerGroups.add(entityId);
+    }
+  }
+
+  classify(): BattleClassificationResult {
+    // Nobody who lost a ship was on an attacker list: ganks and camps, not fights
+    const oneSided = ![...this.victimGroups].some((entityId) => this.attackerGroups.has(entityId));
+
+    let classification: BattleClassification;
+    if (this.structureKills > 0 && this.structureIsk >= this.iskDestroyed * STRUCTURE_BASH_ISK_SHARE) {
+      classification = 'structure_bash';
+    } else if (this.capitalPilots.size >= CAPITAL_ESCALATION_PILOTS || this.supercapitalPilots.size > 0) {
+      classification = 'capital_escalation';
+    } else if (oneSided && this.victims.size <= GANK_MAX_VICTIMS) {
+      classification = 'gank';
+    } else if (oneSided && this.systems.size <= 1 && this.victimGroups.size >= GATE_CAMP_MIN_VICTIM_GROUPS) {
+      classification = 'gate_camp';
+    } else if (this.pilots.size >= FLEET_FIGHT_PILOTS) {
+      classification = 'fleet_fight';
+    } else {
+      classification = 'small_gang';
+    }
+
+    // Log scales so each tenfold increase adds a similar amount
+    const pilotScore = Math.min(40, 15 * Math.log10(1 + this.pilots.size));
+    const iskScore = Math.min(35, 10 * Math.log10(1 + this.iskDestroyed / 1e8));
+    const capitalScore = Math.min(25, 5 * Math.log2(1 + this.capitalPilots.size));
+
+    let significance = pilotScore + iskScore + capitalScore;
+    if (oneSided) significance *= ONE_SIDED_WEIGHT;
+
+    return { classification, significance: Math.round(significance * 10) / 10 };
+  }
+
+  private addPilot(characterId: number, shipTypeId?: number | null): void {
+    this.pilots.add(characterId);
+
+    const group = shipTypeId ? this.shipTypes.getGroupOf(Number(shipTypeId)) : undefined;
+    if (group && CAPITAL_GROUPS.has(group.id)) this.capitalPilots.add(characterId);
+    if (group && SUPERCAPITAL_GROUPS.has(group.id)) this.supercapitalPilots.add(characterId);
+  }
+}
+
+/**
+ * Rebuilds a battle's profile from its stored killmails.
+ */
+export async function loadBattleProfile(db: DB, battleId: string): Promise<BattleProfile> {
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select([
+      'system_id',
+      'isk_value',
+      'victim_character_id',
+      'victim_corp_id',
+      'victim_alliance_id',
+      'victim_ship_type_id',
+      'attackers',
+    ])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  const profile = new BattleProfile();
+  for (const km of killmails) {
+    profile.addKillmail({
+      solarSystemId: km.system_id,
+      iskValue: Number(km.isk_value || 0),
+      victim: {
+        characterId: km.victim_character_id,
+        corporationId: km.victim_corp_id,
+        allianceId: km.victim_alliance_id,
+        shipTypeId: km.victim_ship_type_id,
+      },
+      attackers: km.attackers || [],
+    });
+  }
+
+  return profile;
+}
@@ -0,0 +1,146 @@
+import { Topics, type EventBus } from '@battlescope/events';
+import { createLogger } from '@battlescope/logger';
+import type { Battle, Event } from '@battlescope/types';
+import type { DB } from '../database/types';
+import { getStargateGraph } from './stargate-graph';
+
+const logger = createLogger({ serviceName: 'battle-events' });
+
+export type BattleEventType = 'battle.created' | 'battle.updated' | 'battle.ended';
+
+// Minimum time between two battle.updated events for the same battle
+const BATTLE_UPDATE_INTERVAL = parseInt(process.env.BATTLE_UPDATE_INTERVAL_SECONDS || '60', 10) * 1000;
+
+/**
+ * Builds the battle summary carried by every battle event, with running
+ * totals and the IDs of every system and region the battle touched.
+ */
+export async function buildBattleSummary(db: DB, battleId: string): Promise<Battle | null> {
+  const battle = await db.selectFrom('battles').selectAll().where('id', '=', battleId).executeTakeFirst();
+  if (!battle) {
+    return null;
+  }
+
+  const participants = await db
+    .selectFrom('battle_participants')
+    .select(['alliance_name', 'corp_name'])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  const graph = getStargateGraph();
+  // bigint columns come back from pg as strings
+  const systemId = Number(battle.system_id);
+  const systemIds = (battle.system_ids?.length ? battle.system_ids : [systemId]).map(Number);
+  const regionId = battle.region_id ? Number(battle.region_id) : graph.getSystem(systemId)?.regionId ?? null;
+
+  const regionIds = new Set<number>(regionId ? [regionId] : []);
+  for (const id of systemIds) {
+    const system = graph.getSystem(id);
+    if (system) regionIds.add(system.regionId);
+  }
+
+  const unique = (names: Array<string | null>) => [...new Set(names.filter((name): name is string => !!name))].sort();
+
+  return {
+    id: battle.id,
+    systemId,
+    systemName: battle.system_name,
+    regionId,
+    regionName: battle.region_name,
+    systemIds,
+    regionIds: [...regionIds],
+    securityType: battle.security_type,
+    startTime: battle.start_time,
+    endTime: battle.end_time,
+    lastKillmailAt: battle.last_killmail_at,
+    totalKills: battle.total_kills,
+    totalValue: Number(battle.total_isk_destroyed),
+    participants: participants.length,
+    alliances: unique(participants.map((p) => p.alliance_name)),
+    corporations: unique(participants.map((p) => p.corp_name)),
+    classification: battle.classification,
+    significance: battle.significance,
+  };
+}
+
+/**
+ * Publishes battle.created, battle.updated and battle.ended events to the
+ * battles topic, keyed by battle ID so consumers see them in order.
+ * battle.updated is throttled to one event per battle per interval; updates
+ * within the interval are folded into one trailing event carrying the totals
+ * at the time it goes out.
+ */
+export class BattleEventPublisher {
+  private eventBus: EventBus;
+  private db: DB;
+  private lastUpdate: Map<string, number> = new Map();
+  private pendingUpdates: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(eventBus: EventBus, db: DB) {
+    this.eventBus = eventBus;
+    this.db = db;
+  }
+
+  async battleCreated(battleId: string): Promise<void> {
+    this.lastUpdate.set(battleId, Date.now());
+    await this.publish('battle.created', battleId);
+  }
+
+  async battleUpdated(battleId: string): Promise<void> {
+    if (this.pendingUpdates.has(battleId)) {
+      return;
+    }
+
+    const wait = (this.lastUpdate.get(battleId) || 0) + BATTLE_UPDATE_INTERVAL - Date.now();
+    if (wait <= 0) {
+      this.lastUpdate.set(battleId, Date.now());
+      await this.publish('battle.updated', battleId);
+      return;
+    }
+
+    this.pendingUpdates.set(
+      battleId,
+      setTimeout(() => {
+        this.pendingUpdates.delete(battleId);
+        this.lastUpdate.set(battleId, Date.now());
+        void this.publish('battle.updated', battleId);
+      }, wait)
+    );
+  }
+
+  async battleEnded(battleId: string): Promise<void> {
+    this.cancelUpdate(battleId);
+    this.lastUpdate.delete(battleId);
+    await this.publish('battle.ended', battleId);
+  }
+
+  stop(): void {
+    for (const battleId of [...this.pendingUpdates.keys()]) {
+      this.cancelUpdate(battleId);
+    }
+  }
+
+  private cancelUpdate(battleId: string): void {
+    const pending = this.pendingUpdates.get(battleId);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingUpdates.delete(battleId);
+    }
+  }
+
+  private async publish(type: BattleEventType, battleId: string): Promise<void> {
+    try {
+      const battle = await buildBattleSummary(this.db, battleId);
+      if (!battle) {
+        return;
+      }
+
+      const event: Event = { type, data: battle, timestamp: new Date() };
+      await this.eventBus.publish(Topics.BATTLES, event, battleId);
+      logger.debug({ battleId, type }, 'Published battle event');
+    } catch (error) {
+      // Clustering must carry on even when the event bus is unavailable
+      logger.error({ error, battleId, type }, 'Failed to publish battle event');
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import type { Selectable } from 'kysely';
+import type { BattleKillmailsTable, BattlesTable, DB } from '../database/types';
+import { buildBattleReport, type SideReport } from './battle-report';
+
+/**
+ * Battle exports for sharing outside BattleScope: a structured JSON battle
+ * report, a CSV of participants and killmails, and a plain-text after-action
+ * summary to paste into forum or chat posts. The CSV and text are both
+ * rendered from the JSON export, so all three always agree.
+ */
+
+export const EXPORT_FORMATS = ['csv', 'json', 'text'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Bumped whenever a field of the JSON export is renamed, removed or changes meaning
+export const EXPORT_SCHEMA_VERSION = 1;
+
+// Groups, hulls and roles listed per side in the text summary
+const TEXT_LIST_LIMIT = 5;
+
+export interface ExportKillmail {
+  killmailId: number;
+  occurredAt: string;
+  systemId: number | null;
+  sideId: number | null;
+  victim: {
+    characterId: number | null;
+    name: string | null;
+    allianceName: string | null;
+    shipTypeId: number | null;
+    shipTypeName: string | null;
+  };
+  iskValue: number;
+  // Pilots on the attacker list
+  attackers: number;
+}
+
+export interface BattleExport {
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  battle: {
+    id: string;
+    systemId: number;
+    systemName: string;
+    systemIds: number[];
+    regionName: string;
+    securityType: string;
+    classification: string | null;
+    significance: number | null;
+    startTime: string;
+    lastKillmailAt: string;
+    endTime: string | null;
+    totalKills: number;
+    totalIskDestroyed: number;
+    zkillRelatedUrl: string | null;
+  };
+  // As in the battle report
+  sides: SideReport[];
+  killmails: ExportKillmail[];
+}
+
+type ExportBattle = Selectable<BattlesTable>;
+
+type ExportKillmailRow = Pick<
+  Selectable<BattleKillmailsTable>,
+  | 'killmail_id'
+  | 'occurred_at'
+  | 'system_id'
+  | 'side_id'
+  | 'victim_character_id'
+  | 'victim_name'
+  | 'victim_alliance_name'
+  | 'victim_ship_type_id'
+  | 'ship_type_name'
+  | 'isk_value'
+  | 'attackers'
+>;
+
+// bigint columns come back from pg as strings
+const toId = (value: number | string | null | undefined) => (value ? Number(value) : null);
+
+export function computeBattleExport(battle: ExportBattle, sides: SideReport[], killmails: ExportKillmailRow[]): BattleExport {
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    battle: {
+      id: battle.id,
+      systemId: Number(battle.system_id),
+      systemName: battle.system_name,
+      systemIds: (battle.system_ids || []).map(Number),
+      regionName: battle.region_name,
+      securityType: battle.security_type,
+      classification: battle.classification,
+      significance: battle.significance,
+      startTime: battle.start_time.toISOString(),
+      lastKillmailAt: battle.last_killmail_at.toISOString(),
+      endTime: battle.end_time?.toISOString() ?? null,
+      totalKills: battle.total_kills,
+      totalIskDestroyed: Number(battle.total_isk_destroyed),
+      zkillRelatedUrl: battle.zkill_related_url,
+    },
+    sides,
+    killmails: killmails.map((km) => ({
+      killmailId: Number(km.killmail_id),
+      occurredAt: km.occurred_at.toISOString(),
+      systemId: toId(km.system_id),
+      sideId: km.side_id,
+      victim: {
+        characterId: toId(km.victim_character_id),
+        name: km.victim_name,
+        allianceName: km.victim_alliance_name,
+        shipTypeId: toId(km.victim_ship_type_id),
+        shipTypeName: km.ship_type_name,
+      },
+      iskValue: Number(km.isk_value || 0),
+      attackers: new Set((km.attackers || []).map((a) => a.characterId).filter(Boolean)).size,
+    })),
+  };
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvRow = (values: Array<string | number | null | undefined>) => values.map(csvField).join(',');
+
+/**
+ * Participants, then killmails, as two tables with their own header rows
+ * separated by a blank line.
+ */
+export function toExportCsv(data: BattleExport): string {
+  const lines = [
+    csvRow([
+      'side_id',
+      'character_id',
+      'character_name',
+      'corporation_name',
+      'alliance_name',
+      'ship_type_name',
+      'role',
+      'kills',
+      'final_blows',
+      'losses',
+      'isk_lost',
+    ]),
+  ];
+  for (const side of data.sides) {
+    for (const pilot of side.pilots) {
+      lines.push(
+        csvRow([
+          side.sideId,
+          pilot.characterId,
+          pilot.characterName,
+          pilot.corporationName,
+          pilot.allianceName,
+          pilot.shipTypeName,
+          pilot.role,
+          pilot.kills,
+          pilot.finalBlows,
+          pilot.losses,
+          pilot.iskLost,
+        ])
+      );
+    }
+  }
+
+  lines.push(
+    '',
+    csvRow([
+      'killmail_id',
+      'occurred_at',
+      'system_id',
+      'side_id',
+      'victim_character_id',
+      'victim_name',
+      'victim_alliance_name',
+      'ship_type_name',
+      'isk_value',
+      'attackers',
+    ])
+  );
+  for (const km of data.killmails) {
+    lines.push(
+      csvRow([
+        km.killmailId,
+        km.occurredAt,
+        km.systemId,
+        km.sideId,
+        km.victim.characterId,
+        km.victim.name,
+        km.victim.allianceName,
+        km.victim.shipTypeName,
+        km.iskValue,
+        km.attackers,
+      ])
+    );
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+// 45300000000 -> "45.3b"
+function formatIsk(isk: number): string {
+  const units: Array<[number, string]> = [
+    [1e12, 't'],
+    [1e9, 'b'],
+    [1e6, 'm'],
+    [1e3, 'k'],
+  ];
+  for (const [size, unit] of units) {
+    if (isk >= size) return `${(isk / size).toFixed(1).replace(/\.0$/, '')}${unit}`;
+  }
+  return String(Math.round(isk));
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+// "2025-11-01T18:00:00.000Z" -> "2025-11-01 18:00"
+const formatTime = (iso: string) => iso.slice(0, 16).replace('T', ' ');
+
+/**
+ * A short after-action report: where and when, then per side its pilots,
+ * results, biggest groups, roles and worst losses.
+ */
+export function toExportText(data: BattleExport): string {
+  const { battle } = data;
+  const kind = battle.classification ? battle.classification.replace(/_/g, ' ') : 'battle';
+  const systems = battle.systemIds.length > 1 ? `, ${battle.systemIds.length} systems` : '';
+
+  const lines = [
+    `${kind[0].toUpperCase()}${kind.slice(1)} in ${battle.systemName} (${battle.regionName})`,
+    `${formatTime(battle.startTime)} - ${formatTime(battle.lastKillmailAt)} UTC ` +
+      `(${formatDuration(Date.parse(battle.lastKillmailAt) - Date.parse(battle.startTime))}${systems})`,
+    `${battle.totalKills} kills, ${formatIsk(battle.totalIskDestroyed)} ISK destroyed`,
+  ];
+
+  for (const side of data.sides) {
+    const efficiency = side.iskEfficiency === null ? '' : ` (${Math.round(side.iskEfficiency * 100)}% efficiency)`;
+    const groups = side.alliances.length > 0 ? side.alliances : side.corporations;
+    const roles = Object.entries(side.roles)
+      .filter(([, count]) => count > 0)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, TEXT_LIST_LIMIT);
+
+    lines.push(
+      '',
+      `${side.sideId === null ? 'Unassigned' : `Side ${side.sideId}`}: ${side.pilotCount} pilots`,
+      `  Killed ${formatIsk(side.iskKilled)}, lost ${formatIsk(side.iskLost)}${efficiency}, ` +
+        `${side.kills} kills, ${side.losses} losses`
+    );
+    if (groups.length > 0) {
+      const names = groups
+        .slice(0, TEXT_LIST_LIMIT)
+        .map((g) => `${('allianceName' in g ? g.allianceName : g.corporationName) || 'Unknown'} (${g.pilots})`);
+      lines.push(`  Groups: ${names.join(', ')}`);
+    }
+    if (roles.length > 0) {
+      lines.push(`  Roles: ${roles.map(([role, count]) => `${count} ${role}`).join(', ')}`);
+    }
+    if (side.lossesByHull.length > 0) {
+      const hulls = side.lossesByHull
+        .slice(0, TEXT_LIST_LIMIT)
+        .map((h) => `${h.count}x ${h.shipTypeName || `Type ${h.shipTypeId}`}`);
+      lines.push(`  Lost: ${hulls.join(', ')}`);
+    }
+  }
+
+  if (battle.zkillRelatedUrl) {
+    lines.push('', battle.zkillRelatedUrl);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export async function buildBattleExport(db: DB, battle: ExportBattle): Promise<BattleExport> {
+  const report = await buildBattleReport(db, battle.id);
+
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select([
+      'killmail_id',
+      'occurred_at',
+      'system_id',
+      'side_id',
+      'victim_character_id',
+      'victim_name',
+      'victim_alliance_name',
+      'victim_ship_type_id',
+      'ship_type_name',
+      'isk_value',
+      'attackers',
+    ])
+    .where('battle_id', '=', battle.id)
+    .orderBy('occurred_at', 'asc')
+    .execute();
+
+  return computeBattleExport(battle, report.sides, killmails);
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import type { SidePin } from './corrections';
+
+/**
+ * Parsing of battles imported from outside BattleScope. An import is a list
+ * of killmails, a battle report with sides, or both:
+ *
+ * - killmails as `{ killmailId, hash }`, `[killmailId, hash]` (the zKillboard
+ *   history format) or zKillboard API killmails (`{ killmail_id, zkb: { hash } }`)
+ * - sides listing their alliances, corporations or entity IDs, and optionally
+ *   their killmails. BattleScope's own JSON export has this shape.
+ *
+ * Hashes are only needed for killmails BattleScope hasn't seen yet.
+ */
+
+export const MAX_IMPORT_KILLMAILS = 5000;
+
+const HASH_PATTERN = /^[0-9a-f]{40}$/i;
+
+const IdSchema = z.number().int().positive();
+const HashSchema = z.string().regex(HASH_PATTERN);
+
+const KillmailRefSchema = z.union([
+  z.object({ killmailId: IdSchema, hash: HashSchema.optional() }).transform((km) => ({
+    killmailId: km.killmailId,
+    hash: km.hash ?? null,
+  })),
+  z.tuple([IdSchema, HashSchema]).transform(([killmailId, hash]) => ({ killmailId, hash })),
+  z
+    .object({ killmail_id: IdSchema, zkb: z.object({ hash: HashSchema }) })
+    .transform((km) => ({ killmailId: km.killmail_id, hash: km.zkb.hash })),
+]);
+
+const ImportSideSchema = z.object({
+  // Defaults to the side's position in the list; null (unassigned) pins nothing
+  sideId: IdSchema.nullable().optional(),
+  // Alliance IDs, or corporation IDs for corporations without an alliance
+  entityIds: z.array(IdSchema).optional(),
+  alliances: z.array(z.object({ allianceId: IdSchema })).optional(),
+  corporations: z.array(z.object({ corporationId: IdSchema, allianceId: IdSchema.nullable().optional() })).optional(),
+  killmails: z.array(KillmailRefSchema).optional(),
+});
+
+export interface ImportKillmail {
+  killmailId: number;
+  hash: string | null;
+}
+
+export interface BattleImport {
+  killmails: ImportKillmail[];
+  sides: Array<SidePin & { sideId: number }>;
+}
+
+export const BattleImportSchema = z
+  .object({
+    killmails: z.array(KillmailRefSchema).optional(),
+    sides: z.array(ImportSideSchema).optional(),
+  })
+  .transform((body, ctx): BattleImport => {
+    const killmails = new Map<number, string | null>();
+    const addKillmails = (refs: ImportKillmail[] = []) => {
+      for (const { killmailId, hash } of refs) {
+        killmails.set(killmailId, hash ?? killmails.get(killmailId) ?? null);
+      }
+    };
+    addKillmails(body.killmails);
+
+    const pins = new Map<number, number>();
+    (body.sides || []).forEach((side, index) => {
+      addKillmails(side.killmails);
+
+      const sideId = side.sideId === undefined ? index + 1 : side.sideId;
+      if (sideId === null) return;
+
+      const entityIds = [
+        ...(side.entityIds || []),
+        ...(side.alliances || []).map((a) => a.allianceId),
+        // Corporations in an alliance are pinned through it
+        ...(side.corporations || []).filter((c) => !c.allianceId).map((c) => c.corporationId),
+      ];
+      for (const entityId of entityIds) {
+        if (pins.has(entityId) && pins.get(entityId) !== sideId) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Entity ${entityId} is on more than one side` });
+        }
+        pins.set(entityId, sideId);
+      }
+    });
+
+    if (killmails.size === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'An import needs at least one killmail' });
+    }
+    if (killmails.size > MAX_IMPORT_KILLMAILS) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `An import can have at most ${MAX_IMPORT_KILLMAILS} killmails`,
+      });
+    }
+
+    return {
+      killmails: [...killmails].map(([killmailId, hash]) => ({ killmailId, hash })),
+      sides: [...pins].map(([entityId, sideId]) => ({ entityId, sideId })),
+    };
+  });
@@ -0,0 +1,249 @@
+import type { Selectable } from 'kysely';
+import type { BattleKillmailsTable, BattleParticipantsTable, DB } from '../database/types';
+import { getEntityId } from './side-inference';
+
+/**
+ * Splits a battle into engagement phases. A new phase starts after a lull in
+ * the killing, when a different side starts losing most of the ships, or when
+ * reinforcements (groups not seen in the battle before) arrive.
+ */
+
+// Shortest gap that counts as a lull, and how many median gaps it has to be
+const LULL_MIN_GAP = 2 * 60 * 1000;
+const LULL_MEDIAN_GAPS = 5;
+// Kills compared against the rest of the phase when looking for a swing
+const SWING_WINDOW = 5;
+// Share of the window's losses one side must take for the fight to have swung
+const SWING_SHARE = 0.8;
+// Pilots from new groups on a single killmail that make a reinforcement wave
+const REINFORCEMENT_MIN_PILOTS = 5;
+// Kills a phase needs before reinforcements can start a new one
+const MIN_PHASE_KILLS = 3;
+
+export type PhaseStart = 'start' | 'lull' | 'swing' | 'reinforcements';
+
+export interface PhaseSide {
+  sideId: number | null;
+  kills: number;
+  losses: number;
+  iskKilled: number;
+  iskLost: number;
+}
+
+export interface BattlePhase {
+  index: number;
+  // What started the phase
+  reason: PhaseStart;
+  startTime: Date;
+  endTime: Date;
+  kills: number;
+  iskDestroyed: number;
+  sides: PhaseSide[];
+  // Groups that first appear in the battle during this phase
+  joined: Array<{ entityId: number; name: string | null; sideId: number | null; pilots: number }>;
+}
+
+type PhaseKillmail = Pick<
+  Selectable<BattleKillmailsTable>,
+  | 'killmail_id'
+  | 'occurred_at'
+  | 'side_id'
+  | 'isk_value'
+  | 'victim_character_id'
+  | 'victim_corp_id'
+  | 'victim_alliance_id'
+  | 'attackers'
+>;
+
+type PhaseParticipant = Pick<
+  Selectable<BattleParticipantsTable>,
+  'alliance_id' | 'alliance_name' | 'corp_id' | 'corp_name' | 'side_id'
+>;
+
+interface KillmailSummary {
+  time: Date;
+  isk: number;
+  victimSideId: number | null;
+  killerSideIds: Set<number | null>;
+  // Pilots per group on the killmail, victim included
+  pilots: Map<number, Set<number>>;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Side that lost the most ships, or undefined if no side clearly did
+function mainLoser(kills: KillmailSummary[], minShare = 0): number | null | undefined {
+  const losses = new Map<number | null, number>();
+  for (const km of kills) {
+    losses.set(km.victimSideId, (losses.get(km.victimSideId) || 0) + 1);
+  }
+
+  let loser: number | null | undefined;
+  let most = 0;
+  for (const [sideId, count] of losses) {
+    if (count > most) {
+      loser = sideId;
+      most = count;
+    } else if (count === most) {
+      loser = undefined;
+    }
+  }
+
+  return most >= kills.length * minShare ? loser : undefined;
+}
+
+export function computeBattlePhases(killmails: PhaseKillmail[], participants: PhaseParticipant[]): BattlePhase[] {
+  const entitySides = new Map<number, number>();
+  const entityNames = new Map<number, string | null>();
+  for (const p of participants) {
+    const entityId = getEntityId(p.alliance_id, p.corp_id);
+    if (!entityId) continue;
+    if (p.side_id) entitySides.set(entityId, p.side_id);
+    entityNames.set(entityId, p.alliance_id ? p.alliance_name : p.corp_name);
+  }
+  const getSideId = (entityId: number | null) => (entityId ? entitySides.get(entityId) ?? null : null);
+
+  const summaries: KillmailSummary[] = [...killmails]
+    .sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime() || Number(a.killmail_id) - Number(b.killmail_id))
+    .map((km) => {
+      const victimEntity = getEntityId(km.victim_alliance_id, km.victim_corp_id);
+      const victimSideId = km.side_id ?? getSideId(victimEntity);
+      const pilots = new Map<number, Set<number>>();
+      const addPilot = (entityId: number | null, characterId?: number | null) => {
+        if (!entityId || !characterId) return;
+        // bigint columns come back from pg as strings
+        pilots.set(entityId, (pilots.get(entityId) || new Set()).add(Number(characterId)));
+      };
+
+      addPilot(victimEntity, km.victim_character_id);
+      const killerSideIds = new Set<number | null>();
+      for (const attacker of km.attackers || []) {
+        if (!attacker.characterId) continue;
+        const entityId = getEntityId(attacker.allianceId, attacker.corporationId);
+        addPilot(entityId, attacker.characterId);
+        killerSideIds.add(getSideId(entityId));
+      }
+      killerSideIds.delete(victimSideId);
+
+      return { time: km.occurred_at, isk: Number(km.isk_value || 0), victimSideId, killerSideIds, pilots };
+    });
+
+  if (summaries.length === 0) {
+    return [];
+  }
+
+  const gaps = summaries.slice(1).map((km, i) => km.time.getTime() - summaries[i].time.getTime());
+  const lullGap = Math.max(LULL_MIN_GAP, LULL_MEDIAN_GAPS * median(gaps));
+
+  // Find where each phase starts
+  const starts: Array<{ index: number; reason: PhaseStart }> = [{ index: 0, reason: 'start' }];
+  const seen = new Set<number>();
+  for (const entityId of summaries[0].pilots.keys()) seen.add(entityId);
+
+  for (let i = 1; i < summaries.length; i++) {
+    const phaseStart = starts[starts.length - 1].index;
+    const km = summaries[i];
+
+    let newPilots = 0;
+    for (const [entityId, pilots] of km.pilots) {
+      if (!seen.has(entityId)) newPilots += pilots.size;
+      seen.add(entityId);
+    }
+
+    if (gaps[i - 1] >= lullGap) {
+      starts.push({ index: i, reason: 'lull' });
+    } else if (newPilots >= REINFORCEMENT_MIN_PILOTS && i - phaseStart >= MIN_PHASE_KILLS) {
+      starts.push({ index: i, reason: 'reinforcements' });
+    } else if (i - phaseStart + 1 >= 2 * SWING_WINDOW) {
+      // Compare the latest kills with everything before them in the phase
+      const windowStart = i - SWING_WINDOW + 1;
+      const before = mainLoser(summaries.slice(phaseStart, windowStart));
+      const after = mainLoser(summaries.slice(windowStart, i + 1), SWING_SHARE);
+      if (before !== undefined && after !== undefined && after !== null && after !== before) {
+        starts.push({ index: windowStart, reason: 'swing' });
+      }
+    }
+  }
+
+  // Build the phases, crediting groups to the phase they first appear in
+  const firstSeen = new Set<number>();
+  return starts.map(({ index, reason }, phaseIndex) => {
+    const end = phaseIndex + 1 < starts.length ? starts[phaseIndex + 1].index : summaries.length;
+    const kills = summaries.slice(index, end);
+
+    const sides = new Map<number | null, PhaseSide>();
+    const getSide = (sideId: number | null) => {
+      const side = sides.get(sideId) || { sideId, kills: 0, losses: 0, iskKilled: 0, iskLost: 0 };
+      sides.set(sideId, side);
+      return side;
+    };
+
+    const joined = new Map<number, Set<number>>();
+    for (const km of kills) {
+      const victimSide = getSide(km.victimSideId);
+      victimSide.losses++;
+      victimSide.iskLost += km.isk;
+
+      for (const sideId of km.killerSideIds) {
+        const side = getSide(sideId);
+        side.kills++;
+        side.iskKilled += km.isk;
+      }
+
+      for (const [entityId, pilots] of km.pilots) {
+        if (firstSeen.has(entityId) && !joined.has(entityId)) continue;
+        firstSeen.add(entityId);
+        joined.set(entityId, new Set([...(joined.get(entityId) || []), ...pilots]));
+      }
+    }
+
+    return {
+      index: phaseIndex,
+      reason,
+      startTime: kills[0].time,
+      endTime: kills[kills.length - 1].time,
+      kills: kills.length,
+      iskDestroyed: kills.reduce((sum, km) => sum + km.isk, 0),
+      // Numbered sides first, unassigned (NPCs, unknown groups) last
+      sides: [...sides.values()].sort((a, b) => (a.sideId ?? Infinity) - (b.sideId ?? Infinity)),
+      joined: [...joined]
+        .map(([entityId, pilots]) => ({
+          entityId,
+          name: entityNames.get(entityId) ?? null,
+          sideId: getSideId(entityId),
+          pilots: pilots.size,
+        }))
+        .sort((a, b) => b.pilots - a.pilots),
+    };
+  });
+}
+
+export async function buildBattlePhases(db: DB, battleId: string): Promise<BattlePhase[]> {
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select([
+      'killmail_id',
+      'occurred_at',
+      'side_id',
+      'isk_value',
+      'victim_character_id',
+      'victim_corp_id',
+      'victim_alliance_id',
+      'attackers',
+    ])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  const participants = await db
+    .selectFrom('battle_participants')
+    .select(['alliance_id', 'alliance_name', 'corp_id', 'corp_name', 'side_id'])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  return computeBattlePhases(killmails, participants);
+}
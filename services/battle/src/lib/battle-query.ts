@@ -0,0 +1,168 @@
+import { sql, type RawBuilder, type SelectQueryBuilder } from 'kysely';
+import type { Database } from '../database/types';
+
+/**
+ * The battle list's filters, sort orders and cursors, shared by the list and
+ * its count so the two always agree. Pages are cut with a keyset cursor on
+ * the sort value and battle ID, so new battles don't shift later pages.
+ */
+
+export const BATTLE_SORTS = ['start_time', 'significance', 'isk', 'kills', 'pilots', 'duration'] as const;
+export type BattleSort = (typeof BATTLE_SORTS)[number];
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface BattleFilters {
+  systemId?: number;
+  regionId?: number;
+  securityType?: string;
+  classification?: string;
+  minKills?: number;
+  minIsk?: number;
+  minSignificance?: number;
+  // Battles any pilot of the alliance or corporation took part in
+  allianceId?: number;
+  corporationId?: number;
+  // Battles where the ship type was flown or lost
+  shipTypeId?: number;
+  activeOnly?: boolean;
+  // Leave out battles that are just kills of a gate camp
+  excludeCamps?: boolean;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface BattleCursor {
+  sort: BattleSort;
+  order: SortOrder;
+  // Sort value of the last battle on the previous page, as text
+  value: string;
+  id: string;
+}
+
+// Each sort's expression, matching the list indexes, and the type its cursor value is cast back to
+const SORT_EXPRESSIONS: Record<BattleSort, { expression: RawBuilder<unknown>; type: string }> = {
+  start_time: { expression: sql`battles.start_time`, type: 'timestamptz' },
+  // Battles from before classification have no significance yet. Scores are fractional
+  significance: { expression: sql`coalesce(battles.significance, -1)`, type: 'real' },
+  isk: { expression: sql`battles.total_isk_destroyed`, type: 'bigint' },
+  kills: { expression: sql`battles.total_kills`, type: 'int' },
+  pilots: { expression: sql`battles.total_pilots`, type: 'int' },
+  duration: { expression: sql`extract(epoch from battles.last_killmail_at - battles.start_time)`, type: 'numeric' },
+};
+
+export function encodeCursor(cursor: BattleCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor from the previous page. Returns null for cursors that are
+ * malformed or were issued for another sort order.
+ */
+export function decodeCursor(encoded: string, sort: BattleSort, order: SortOrder): BattleCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    if (
+      cursor?.sort !== sort ||
+      cursor.order !== order ||
+      typeof cursor.value !== 'string' ||
+      typeof cursor.id !== 'string'
+    ) {
+      return null;
+    }
+    return cursor as BattleCursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The cursor for the page after `battle`, the last battle of a page selected
+ * with `selectSortValue`.
+ */
+export function getNextCursor(battle: { id: string; sort_value: unknown }, sort: BattleSort, order: SortOrder): string {
+  const value = battle.sort_value instanceof Date ? battle.sort_value.toISOString() : String(battle.sort_value);
+  return encodeCursor({ sort, order, value, id: battle.id });
+}
+
+export function filterBattles<O>(
+  query: SelectQueryBuilder<Database, 'battles', O>,
+  filters: BattleFilters
+): SelectQueryBuilder<Database, 'battles', O> {
+  if (filters.systemId) {
+    query = query.where('battles.system_id', '=', filters.systemId);
+  }
+  if (filters.regionId) {
+    query = query.where('battles.region_id', '=', filters.regionId);
+  }
+  if (filters.securityType) {
+    query = query.where('battles.security_type', '=', filters.securityType);
+  }
+  if (filters.classification) {
+    query = query.where('battles.classification', '=', filters.classification);
+  }
+  if (filters.minKills) {
+    query = query.where('battles.total_kills', '>=', filters.minKills);
+  }
+  if (filters.minIsk) {
+    query = query.where('battles.total_isk_destroyed', '>=', BigInt(filters.minIsk));
+  }
+  if (filters.minSignificance) {
+    query = query.where('battles.significance', '>=', filters.minSignificance);
+  }
+  if (filters.allianceId) {
+    query = query.where(
+      sql<boolean>`exists (select 1 from battle_participants p where p.battle_id = battles.id and p.alliance_id = ${filters.allianceId})`
+    );
+  }
+  if (filters.corporationId) {
+    query = query.where(
+      sql<boolean>`exists (select 1 from battle_participants p where p.battle_id = battles.id and p.corp_id = ${filters.corporationId})`
+    );
+  }
+  if (filters.shipTypeId) {
+    // Participants only keep the last ship each pilot was seen in, so losses are checked as well
+    query = query.where(
+      sql<boolean>`(
+        exists (select 1 from battle_participants p where p.battle_id = battles.id and p.ship_type_id = ${filters.shipTypeId})
+        or exists (select 1 from battle_killmails k where k.battle_id = battles.id and k.victim_ship_type_id = ${filters.shipTypeId})
+      )`
+    );
+  }
+  if (filters.activeOnly) {
+    query = query.where('battles.end_time', 'is', null);
+  }
+  if (filters.excludeCamps) {
+    query = query.where('battles.camp_id', 'is', null);
+  }
+  if (filters.startDate) {
+    query = query.where('battles.start_time', '>=', filters.startDate);
+  }
+  if (filters.endDate) {
+    query = query.where('battles.start_time', '<=', filters.endDate);
+  }
+  return query;
+}
+
+/**
+ * Orders battles by `sort`, breaking ties by ID, and starts after `cursor`
+ * if given. The sort value is selected as `sort_value` for the next cursor.
+ */
+export function sortBattles<O>(
+  query: SelectQueryBuilder<Database, 'battles', O>,
+  sort: BattleSort,
+  order: SortOrder,
+  cursor: BattleCursor | null
+) {
+  const { expression, type } = SORT_EXPRESSIONS[sort];
+  const direction = sql.raw(order);
+
+  let sorted = query.select(expression.as('sort_value')).orderBy(sql`${expression} ${direction}, battles.id ${direction}`);
+  if (cursor) {
+    const comparison = sql.raw(order === 'desc' ? '<' : '>');
+    sorted = sorted.where(
+      sql<boolean>`(${expression}, battles.id) ${comparison} (${cursor.value}::${sql.raw(type)}, ${cursor.id}::uuid)`
+    );
+  }
+  return sorted;
+}
@@ -0,0 +1,261 @@
+import type { Selectable } from 'kysely';
+import type { BattleKillmailsTable, BattleParticipantsTable, DB } from '../database/types';
+import { getEntityId } from './side-inference';
+import { getShipTypes, type ShipTypes } from './ship-types';
+
+/**
+ * Battle replay: the state of a battle at the end of every time bucket, so a
+ * client can scrub through the fight. Each bucket carries cumulative per-side
+ * ISK lost and ships alive versus lost by hull, the pilots active in the
+ * bucket, and the kills that happened in it.
+ */
+
+// Keeps replays of long battles with short buckets to a sensible size
+export const MAX_REPLAY_BUCKETS = 1000;
+// Bucket sizes clients can pick from, finest first
+export const REPLAY_BUCKET_SIZES = ['30s', '1m', '5m', '15m', '60m'];
+
+export interface ReplayHull {
+  shipTypeId: number;
+  shipTypeName: string | null;
+  // Ships of this hull seen on the field and not (yet) destroyed
+  alive: number;
+  lost: number;
+}
+
+export interface ReplaySide {
+  sideId: number | null;
+  iskLost: number;
+  losses: number;
+  // Pilots seen on a killmail so far, and within this bucket
+  pilots: number;
+  activePilots: number;
+  hulls: ReplayHull[];
+}
+
+export interface ReplayKill {
+  killmailId: number;
+  occurredAt: Date;
+  sideId: number | null;
+  victimName: string | null;
+  shipTypeId: number | null;
+  shipTypeName: string | null;
+  iskValue: number;
+}
+
+export interface ReplayBucket {
+  index: number;
+  startTime: Date;
+  endTime: Date;
+  kills: ReplayKill[];
+  sides: ReplaySide[];
+}
+
+export interface BattleReplay {
+  battleId: string;
+  bucketSeconds: number;
+  buckets: ReplayBucket[];
+}
+
+type ReplayKillmail = Pick<
+  Selectable<BattleKillmailsTable>,
+  | 'killmail_id'
+  | 'occurred_at'
+  | 'side_id'
+  | 'isk_value'
+  | 'ship_type_name'
+  | 'victim_name'
+  | 'victim_character_id'
+  | 'victim_ship_type_id'
+  | 'victim_corp_id'
+  | 'victim_alliance_id'
+  | 'attackers'
+>;
+
+type ReplayParticipant = Pick<Selectable<BattleParticipantsTable>, 'alliance_id' | 'corp_id' | 'side_id'>;
+
+interface SideState {
+  iskLost: number;
+  losses: number;
+  pilots: Set<number>;
+  hulls: Map<number, { alive: number; lost: number }>;
+}
+
+/**
+ * Parses a bucket size such as `30s` or `5m` into milliseconds.
+ */
+export function parseBucket(bucket: string): number | null {
+  const match = /^(\d+)(s|m)$/.exec(bucket);
+  if (!match) return null;
+  const ms = Number(match[1]) * (match[2] === 'm' ? 60_000 : 1000);
+  return ms > 0 ? ms : null;
+}
+
+/**
+ * The bucket sizes that cut a battle lasting `durationMs` into at most
+ * `MAX_REPLAY_BUCKETS` buckets, finest first.
+ */
+export function getBucketSizes(durationMs: number): string[] {
+  return REPLAY_BUCKET_SIZES.filter((size) => durationMs / (parseBucket(size) as number) + 1 <= MAX_REPLAY_BUCKETS);
+}
+
+export function computeBattleReplay(
+  battleId: string,
+  killmails: ReplayKillmail[],
+  participants: ReplayParticipant[],
+  bucketMs: number,
+  shipTypes: ShipTypes = getShipTypes()
+): BattleReplay {
+  const replay: BattleReplay = { battleId, bucketSeconds: bucketMs / 1000, buckets: [] };
+  if (killmails.length === 0) {
+    return replay;
+  }
+
+  const entitySides = new Map<number, number>();
+  for (const p of participants) {
+    const entityId = getEntityId(p.alliance_id, p.corp_id);
+    if (entityId && p.side_id) entitySides.set(entityId, p.side_id);
+  }
+  const getSideId = (allianceId?: number | null, corporationId?: number | null) => {
+    const entityId = getEntityId(allianceId, corporationId);
+    return entityId ? entitySides.get(entityId) ?? null : null;
+  };
+
+  const sorted = [...killmails].sort(
+    (a, b) => a.occurred_at.getTime() - b.occurred_at.getTime() || Number(a.killmail_id) - Number(b.killmail_id)
+  );
+  const start = sorted[0].occurred_at.getTime();
+  const bucketCount = Math.floor((sorted[sorted.length - 1].occurred_at.getTime() - start) / bucketMs) + 1;
+
+  const sides = new Map<number | null, SideState>();
+  const getSide = (sideId: number | null) => {
+    let side = sides.get(sideId);
+    if (!side) {
+      side = { iskLost: 0, losses: 0, pilots: new Set(), hulls: new Map() };
+      sides.set(sideId, side);
+    }
+    return side;
+  };
+  const getHull = (side: SideState, shipTypeId: number) => {
+    const hull = side.hulls.get(shipTypeId) || { alive: 0, lost: 0 };
+    side.hulls.set(shipTypeId, hull);
+    return hull;
+  };
+
+  // Ship each pilot currently has on the field; a pilot who reships shows up again
+  const onField = new Map<number, number>();
+  const shipNames = new Map<number, string>();
+
+  let next = 0;
+  for (let index = 0; index < bucketCount; index++) {
+    const bucketStart = start + index * bucketMs;
+    const bucketEnd = bucketStart + bucketMs;
+    const kills: ReplayKill[] = [];
+    const active = new Map<number | null, Set<number>>();
+    const markActive = (sideId: number | null, characterId: number) => {
+      active.set(sideId, (active.get(sideId) || new Set()).add(characterId));
+      getSide(sideId).pilots.add(characterId);
+    };
+
+    for (; next < sorted.length && sorted[next].occurred_at.getTime() < bucketEnd; next++) {
+      const km = sorted[next];
+      const isk = Number(km.isk_value || 0);
+      const victimSideId = km.side_id ?? getSideId(km.victim_alliance_id, km.victim_corp_id);
+      const victimSide = getSide(victimSideId);
+      // bigint columns come back from pg as strings
+      const victimId = Number(km.victim_character_id) || null;
+      const victimShip = Number(km.victim_ship_type_id) || null;
+
+      for (const attacker of km.attackers || []) {
+        if (!attacker.characterId) continue;
+        const sideId = getSideId(attacker.allianceId, attacker.corporationId);
+        markActive(sideId, attacker.characterId);
+
+        if (attacker.shipTypeId && onField.get(attacker.characterId) !== attacker.shipTypeId) {
+          const previous = onField.get(attacker.characterId);
+          if (previous) getHull(getSide(sideId), previous).alive--;
+          getHull(getSide(sideId), attacker.shipTypeId).alive++;
+          onField.set(attacker.characterId, attacker.shipTypeId);
+        }
+      }
+
+      victimSide.iskLost += isk;
+      victimSide.losses++;
+      if (victimShip) {
+        if (km.ship_type_name) shipNames.set(victimShip, km.ship_type_name);
+        getHull(victimSide, victimShip).lost++;
+      }
+      if (victimId) {
+        markActive(victimSideId, victimId);
+        // Whatever the pilot was last seen in is off the field now, lost or swapped
+        const current = onField.get(victimId);
+        if (current) getHull(victimSide, current).alive--;
+        onField.delete(victimId);
+      }
+
+      kills.push({
+        killmailId: Number(km.killmail_id),
+        occurredAt: km.occurred_at,
+        sideId: victimSideId,
+        victimName: km.victim_name,
+        shipTypeId: victimShip,
+        shipTypeName: km.ship_type_name,
+        iskValue: isk,
+      });
+    }
+
+    replay.buckets.push({
+      index,
+      startTime: new Date(bucketStart),
+      endTime: new Date(bucketEnd),
+      kills,
+      sides: [...sides]
+        // Numbered sides first, unassigned (NPCs, unknown groups) last
+        .sort(([a], [b]) => (a ?? Infinity) - (b ?? Infinity))
+        .map(([sideId, side]) => ({
+          sideId,
+          iskLost: side.iskLost,
+          losses: side.losses,
+          pilots: side.pilots.size,
+          activePilots: active.get(sideId)?.size ?? 0,
+          hulls: [...side.hulls]
+            .map(([shipTypeId, hull]) => ({
+              shipTypeId,
+              shipTypeName: shipNames.get(shipTypeId) || shipTypes.getType(shipTypeId)?.name || null,
+              ...hull,
+            }))
+            .sort((a, b) => b.alive + b.lost - (a.alive + a.lost)),
+        })),
+    });
+  }
+
+  return replay;
+}
+
+export async function buildBattleReplay(db: DB, battleId: string, bucketMs: number): Promise<BattleReplay> {
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select([
+      'killmail_id',
+      'occurred_at',
+      'side_id',
+      'isk_value',
+      'ship_type_name',
+      'victim_name',
+      'victim_character_id',
+      'victim_ship_type_id',
+      'victim_corp_id',
+      'victim_alliance_id',
+      'attackers',
+    ])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  const participants = await db
+    .selectFrom('battle_participants')
+    .select(['alliance_id', 'corp_id', 'side_id'])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  return computeBattleReplay(battleId, killmails, participants, bucketMs);
+}
@@ -0,0 +1,310 @@
+import type { Selectable } from 'kysely';
+import type { BattleKillmailsTable, BattleParticipantsTable, DB } from '../database/types';
+import { emptyRoleCounts, inferParticipantRoles, type RoleCounts } from './participant-roles';
+import { getEntityId } from './side-inference';
+import { getShipRoles, type ParticipantRole, type ShipRoles } from './ship-roles';
+import { getShipTypes, type ShipTypes } from './ship-types';
+
+/**
+ * Per-side battle report: ISK killed and lost, efficiency, losses by hull and
+ * ship group, fleet roles, alliance/corporation roster and per-pilot stats, computed from
+ * a battle's stored killmails and participants.
+ */
+
+export interface HullLosses {
+  shipTypeId: number;
+  shipTypeName: string | null;
+  groupName: string | null;
+  count: number;
+  iskLost: number;
+}
+
+export interface GroupLosses {
+  groupId: number | null;
+  groupName: string;
+  count: number;
+  iskLost: number;
+}
+
+export interface PilotStats {
+  characterId: number;
+  characterName: string | null;
+  corporationId: number | null;
+  corporationName: string | null;
+  allianceId: number | null;
+  allianceName: string | null;
+  shipTypeId: number | null;
+  shipTypeName: string | null;
+  role: ParticipantRole;
+  kills: number;
+  finalBlows: number;
+  losses: number;
+  iskLost: number;
+}
+
+export interface SideReport {
+  sideId: number | null;
+  pilotCount: number;
+  kills: number;
+  losses: number;
+  iskKilled: number;
+  iskLost: number;
+  // Share of the ISK destroyed on both ends that was the enemy's, null without any
+  iskEfficiency: number | null;
+  lossesByHull: HullLosses[];
+  lossesByGroup: GroupLosses[];
+  // Pilots per fleet role
+  roles: RoleCounts;
+  alliances: Array<{ allianceId: number; allianceName: string | null; pilots: number }>;
+  corporations: Array<{
+    corporationId: number;
+    corporationName: string | null;
+    allianceId: number | null;
+    pilots: number;
+  }>;
+  pilots: PilotStats[];
+}
+
+export interface BattleReport {
+  battleId: string;
+  sides: SideReport[];
+}
+
+type ReportKillmail = Pick<
+  Selectable<BattleKillmailsTable>,
+  | 'killmail_id'
+  | 'side_id'
+  | 'isk_value'
+  | 'ship_type_name'
+  | 'victim_character_id'
+  | 'victim_ship_type_id'
+  | 'victim_corp_id'
+  | 'victim_alliance_id'
+  | 'attackers'
+>;
+
+type ReportParticipant = Selectable<BattleParticipantsTable>;
+
+interface SideAccumulator
+  extends Omit<SideReport, 'lossesByHull' | 'lossesByGroup' | 'roles' | 'pilots' | 'iskEfficiency'> {
+  hulls: Map<number, HullLosses>;
+  groups: Map<number | null, GroupLosses>;
+  pilotStats: Map<number, PilotStats>;
+}
+
+// bigint columns come back from pg as strings
+function toId(value: number | string | null | undefined): number | null {
+  return value ? Number(value) : null;
+}
+
+export function computeBattleReport(
+  battleId: string,
+  killmails: ReportKillmail[],
+  participants: ReportParticipant[],
+  shipTypes: ShipTypes = getShipTypes(),
+  shipRoles: ShipRoles = getShipRoles()
+): BattleReport {
+  const sides = new Map<number | null, SideAccumulator>();
+  const getSide = (sideId: number | null) => {
+    let side = sides.get(sideId);
+    if (!side) {
+      side = {
+        sideId,
+        pilotCount: 0,
+        kills: 0,
+        losses: 0,
+        iskKilled: 0,
+        iskLost: 0,
+        alliances: [],
+        corporations: [],
+        hulls: new Map(),
+        groups: new Map(),
+        pilotStats: new Map(),
+      };
+      sides.set(sideId, side);
+    }
+    return side;
+  };
+
+  // Sides come from the participants, as written by side inference
+  const entitySides = new Map<number, number>();
+  const pilots = new Map<number, PilotStats>();
+  const roles = inferParticipantRoles(participants, killmails, shipTypes, shipRoles);
+
+  for (const p of participants) {
+    const characterId = Number(p.character_id);
+    const entityId = getEntityId(toId(p.alliance_id), toId(p.corp_id));
+    if (entityId && p.side_id) {
+      entitySides.set(entityId, p.side_id);
+    }
+
+    const pilot: PilotStats = {
+      characterId,
+      characterName: p.character_name,
+      corporationId: toId(p.corp_id),
+      corporationName: p.corp_name,
+      allianceId: toId(p.alliance_id),
+      allianceName: p.alliance_name,
+      shipTypeId: toId(p.ship_type_id),
+      shipTypeName: p.ship_type_name,
+      role: roles.get(characterId) ?? 'other',
+      kills: 0,
+      finalBlows: 0,
+      losses: 0,
+      iskLost: 0,
+    };
+    pilots.set(characterId, pilot);
+
+    const side = getSide(p.side_id);
+    side.pilotCount++;
+    side.pilotStats.set(characterId, pilot);
+  }
+
+  const getSideId = (allianceId?: number | string | null, corporationId?: number | string | null) => {
+    const entityId = getEntityId(toId(allianceId), toId(corporationId));
+    return entityId ? entitySides.get(entityId) ?? null : null;
+  };
+
+  for (const km of killmails) {
+    const isk = Number(km.isk_value || 0);
+    const victimSideId = km.side_id ?? getSideId(km.victim_alliance_id, km.victim_corp_id);
+
+    const victimSide = getSide(victimSideId);
+    victimSide.losses++;
+    victimSide.iskLost += isk;
+
+    const shipTypeId = toId(km.victim_ship_type_id);
+    if (shipTypeId) {
+      const group = shipTypes.getGroupOf(shipTypeId);
+
+      const hull = victimSide.hulls.get(shipTypeId) || {
+        shipTypeId,
+        shipTypeName: km.ship_type_name || shipTypes.getType(shipTypeId)?.name || null,
+        groupName: group?.name || null,
+        count: 0,
+        iskLost: 0,
+      };
+      hull.count++;
+      hull.iskLost += isk;
+      victimSide.hulls.set(shipTypeId, hull);
+
+      const groupId = group?.id ?? null;
+      const groupLosses = victimSide.groups.get(groupId) || {
+        groupId,
+        groupName: group?.name || 'Unknown',
+        count: 0,
+        iskLost: 0,
+      };
+      groupLosses.count++;
+      groupLosses.iskLost += isk;
+      victimSide.groups.set(groupId, groupLosses);
+    }
+
+    const victim = pilots.get(Number(km.victim_character_id));
+    if (victim) {
+      victim.losses++;
+      victim.iskLost += isk;
+    }
+
+    // Every side with a pilot on the killmail shares the kill
+    const killerSides = new Set<number | null>();
+    for (const attacker of km.attackers || []) {
+      if (!attacker.characterId) continue;
+
+      killerSides.add(getSideId(attacker.allianceId, attacker.corporationId));
+
+      const pilot = pilots.get(attacker.characterId);
+      if (pilot) {
+        pilot.kills++;
+        if (attacker.finalBlow) pilot.finalBlows++;
+      }
+    }
+    killerSides.delete(victimSideId);
+
+    for (const sideId of killerSides) {
+      const side = getSide(sideId);
+      side.kills++;
+      side.iskKilled += isk;
+    }
+  }
+
+  const report: SideReport[] = [...sides.values()].map(({ hulls, groups, pilotStats, ...side }) => {
+    const sidePilots = [...pilotStats.values()];
+
+    const roleCounts = emptyRoleCounts();
+    for (const pilot of sidePilots) {
+      roleCounts[pilot.role]++;
+    }
+
+    const alliances = new Map<number, SideReport['alliances'][number]>();
+    const corporations = new Map<number, SideReport['corporations'][number]>();
+    for (const pilot of sidePilots) {
+      if (pilot.allianceId) {
+        const alliance = alliances.get(pilot.allianceId) || {
+          allianceId: pilot.allianceId,
+          allianceName: pilot.allianceName,
+          pilots: 0,
+        };
+        alliance.pilots++;
+        alliances.set(pilot.allianceId, alliance);
+      }
+      if (pilot.corporationId) {
+        const corporation = corporations.get(pilot.corporationId) || {
+          corporationId: pilot.corporationId,
+          corporationName: pilot.corporationName,
+          allianceId: pilot.allianceId,
+          pilots: 0,
+        };
+        corporation.pilots++;
+        corporations.set(pilot.corporationId, corporation);
+      }
+    }
+
+    const destroyed = side.iskKilled + side.iskLost;
+
+    return {
+      ...side,
+      iskEfficiency: destroyed > 0 ? side.iskKilled / destroyed : null,
+      lossesByHull: [...hulls.values()].sort((a, b) => b.count - a.count || b.iskLost - a.iskLost),
+      lossesByGroup: [...groups.values()].sort((a, b) => b.count - a.count || b.iskLost - a.iskLost),
+      roles: roleCounts,
+      alliances: [...alliances.values()].sort((a, b) => b.pilots - a.pilots),
+      corporations: [...corporations.values()].sort((a, b) => b.pilots - a.pilots),
+      pilots: sidePilots.sort(
+        (a, b) => b.kills - a.kills || b.finalBlows - a.finalBlows || a.losses - b.losses || a.characterId - b.characterId
+      ),
+    };
+  });
+
+  // Numbered sides first, unassigned (NPCs, unknown groups) last
+  report.sort((a, b) => (a.sideId ?? Infinity) - (b.sideId ?? Infinity));
+
+  return { battleId, sides: report };
+}
+
+export async function buildBattleReport(db: DB, battleId: string): Promise<BattleReport> {
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select([
+      'killmail_id',
+      'side_id',
+      'isk_value',
+      'ship_type_name',
+      'victim_character_id',
+      'victim_ship_type_id',
+      'victim_corp_id',
+      'victim_alliance_id',
+      'attackers',
+    ])
+    .where('battle_id', '=', battleId)
+    .orderBy('occurred_at', 'asc')
+    .execute();
+
+  const participants = await db
+    .selectFrom('battle_participants')
+    .selectAll()
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  return computeBattleReport(battleId, killmails, participants);
+}
@@ -0,0 +1,112 @@
+import type { DB } from '../database/types';
+import { SideGraph, getEntityId } from './side-inference';
+
+export interface BattleSideState {
+  // Current side of every alliance/corporation in the battle
+  sides: Map<number, number>;
+  sideGraph: SideGraph;
+  // Sides set by hand through the corrections API
+  pinnedSides: Map<number, number>;
+}
+
+/**
+ * Rebuilds the side graph of a battle from its stored killmails, together
+ * with the side assignment currently persisted on its participants and any
+ * manually pinned sides.
+ */
+export async function loadBattleSideState(db: DB, battleId: string): Promise<BattleSideState> {
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select(['victim_corp_id', 'victim_alliance_id', 'attackers'])
+    .where('battle_id', '=', battleId)
+    .orderBy('occurred_at', 'asc')
+    .orderBy('killmail_id', 'asc')
+    .execute();
+
+  const sideGraph = new SideGraph();
+  for (const km of killmails) {
+    sideGraph.addKillmail({
+      victim: { corporationId: km.victim_corp_id, allianceId: km.victim_alliance_id },
+      attackers: km.attackers || [],
+    });
+  }
+
+  const participants = await db
+    .selectFrom('battle_participants')
+    .select(['alliance_id', 'corp_id', 'side_id'])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  const sides = new Map<number, number>();
+  for (const p of participants) {
+    const entityId = getEntityId(p.alliance_id, p.corp_id);
+    if (entityId && p.side_id) {
+      sides.set(entityId, p.side_id);
+    }
+  }
+
+  const overrides = await db
+    .selectFrom('battle_side_overrides')
+    .select(['entity_id', 'side_id'])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  const pinnedSides = new Map<number, number>();
+  for (const override of overrides) {
+    pinnedSides.set(Number(override.entity_id), override.side_id);
+  }
+
+  return { sides, sideGraph, pinnedSides };
+}
+
+/**
+ * Groups the entities whose side differs between two assignments by their new
+ * side. Entities without a previous side are only included when `includeNew`
+ * is set.
+ */
+export function diffSides(
+  previous: Map<number, number>,
+  next: Map<number, number>,
+  includeNew = false
+): Map<number, number[]> {
+  const moved = new Map<number, number[]>();
+  for (const [entityId, sideId] of next) {
+    const previousSide = previous.get(entityId);
+    if ((previousSide !== undefined || includeNew) && previousSide !== sideId) {
+      moved.set(sideId, [...(moved.get(sideId) || []), entityId]);
+    }
+  }
+  return moved;
+}
+
+/**
+ * Moves groups to a new side on both the battle's participants and the
+ * killmails they lost.
+ */
+export async function writeBattleSides(db: DB, battleId: string, moved: Map<number, number[]>): Promise<void> {
+  for (const [sideId, entityIds] of moved) {
+    await db
+      .updateTable('battle_participants')
+      .set({ side_id: sideId })
+      .where('battle_id', '=', battleId)
+      .where((eb) =>
+        eb.or([
+          eb('alliance_id', 'in', entityIds),
+          eb.and([eb('alliance_id', 'is', null), eb('corp_id', 'in', entityIds)]),
+        ])
+      )
+      .execute();
+
+    await db
+      .updateTable('battle_killmails')
+      .set({ side_id: sideId })
+      .where('battle_id', '=', battleId)
+      .where((eb) =>
+        eb.or([
+          eb('victim_alliance_id', 'in', entityIds),
+          eb.and([eb('victim_alliance_id', 'is', null), eb('victim_corp_id', 'in', entityIds)]),
+        ])
+      )
+      .execute();
+  }
+}
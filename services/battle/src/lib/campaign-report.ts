@@ -0,0 +1,185 @@
+import type { Selectable } from 'kysely';
+import type { BattleKillmailsTable, BattlesTable, CampaignEntitiesTable, DB } from '../database/types';
+import { getEntityId } from './side-inference';
+
+/**
+ * Per-side campaign report: ISK killed and lost and ISK efficiency over the
+ * whole campaign, how those built up battle by battle, and each battle's
+ * results per campaign side. Kills are credited the same way as in the
+ * battle report, with groups on the side the campaign put them on.
+ */
+
+export interface SideTotals {
+  sideId: number | null;
+  kills: number;
+  losses: number;
+  iskKilled: number;
+  iskLost: number;
+}
+
+export interface CampaignTrendPoint {
+  battleId: string;
+  startTime: Date;
+  iskKilled: number;
+  iskLost: number;
+  // Efficiency over the campaign up to and including this battle, null without any ISK destroyed yet
+  iskEfficiency: number | null;
+}
+
+export interface CampaignSideReport extends SideTotals {
+  iskEfficiency: number | null;
+  // Battles the side killed or lost anything in
+  battles: number;
+  entities: Array<{ entityId: number; name: string | null; pilots: number }>;
+  trend: CampaignTrendPoint[];
+}
+
+export interface CampaignBattleReport {
+  battleId: string;
+  startTime: Date;
+  sides: SideTotals[];
+}
+
+export interface CampaignReport {
+  campaignId: string;
+  sides: CampaignSideReport[];
+  battles: CampaignBattleReport[];
+}
+
+type ReportBattle = Pick<Selectable<BattlesTable>, 'id' | 'start_time'>;
+
+type ReportKillmail = Pick<
+  Selectable<BattleKillmailsTable>,
+  'battle_id' | 'isk_value' | 'victim_corp_id' | 'victim_alliance_id' | 'attackers'
+>;
+
+type ReportEntity = Pick<Selectable<CampaignEntitiesTable>, 'entity_id' | 'entity_name' | 'side_id' | 'pilots'>;
+
+const efficiency = (killed: number, lost: number) => (killed + lost > 0 ? killed / (killed + lost) : null);
+
+// Numbered sides first, unassigned (third parties, NPCs) last
+const bySide = (a: { sideId: number | null }, b: { sideId: number | null }) =>
+  (a.sideId ?? Infinity) - (b.sideId ?? Infinity);
+
+export function computeCampaignReport(
+  campaignId: string,
+  battles: ReportBattle[],
+  killmails: ReportKillmail[],
+  entities: ReportEntity[]
+): CampaignReport {
+  const entitySides = new Map<number, number>();
+  for (const e of entities) {
+    // bigint columns come back from pg as strings
+    entitySides.set(Number(e.entity_id), e.side_id);
+  }
+  const getSideId = (allianceId?: number | null, corporationId?: number | null) => {
+    const entityId = getEntityId(allianceId, corporationId);
+    return entityId ? entitySides.get(entityId) ?? null : null;
+  };
+
+  const sideIds = new Set<number | null>(entitySides.values());
+  const battleSides = new Map<string, Map<number | null, SideTotals>>();
+  const getTotals = (battleId: string, sideId: number | null) => {
+    const sides = battleSides.get(battleId) || new Map<number | null, SideTotals>();
+    battleSides.set(battleId, sides);
+    const totals = sides.get(sideId) || { sideId, kills: 0, losses: 0, iskKilled: 0, iskLost: 0 };
+    sides.set(sideId, totals);
+    sideIds.add(sideId);
+    return totals;
+  };
+
+  for (const km of killmails) {
+    const isk = Number(km.isk_value || 0);
+    const victimSideId = getSideId(km.victim_alliance_id, km.victim_corp_id);
+
+    const victimSide = getTotals(km.battle_id, victimSideId);
+    victimSide.losses++;
+    victimSide.iskLost += isk;
+
+    // Every side with a pilot on the killmail shares the kill
+    const killerSides = new Set<number | null>();
+    for (const attacker of km.attackers || []) {
+      if (!attacker.characterId) continue;
+      killerSides.add(getSideId(attacker.allianceId, attacker.corporationId));
+    }
+    killerSides.delete(victimSideId);
+
+    for (const sideId of killerSides) {
+      const side = getTotals(km.battle_id, sideId);
+      side.kills++;
+      side.iskKilled += isk;
+    }
+  }
+
+  const sorted = [...battles].sort((a, b) => a.start_time.getTime() - b.start_time.getTime());
+
+  const sides: CampaignSideReport[] = [...sideIds].map((sideId) => {
+    const side: CampaignSideReport = {
+      sideId,
+      kills: 0,
+      losses: 0,
+      iskKilled: 0,
+      iskLost: 0,
+      iskEfficiency: null,
+      battles: 0,
+      entities: entities
+        .filter((e) => sideId !== null && e.side_id === sideId)
+        .map((e) => ({ entityId: Number(e.entity_id), name: e.entity_name, pilots: e.pilots }))
+        .sort((a, b) => b.pilots - a.pilots),
+      trend: [],
+    };
+
+    for (const battle of sorted) {
+      const totals = battleSides.get(battle.id)?.get(sideId);
+      if (totals) {
+        side.kills += totals.kills;
+        side.losses += totals.losses;
+        side.iskKilled += totals.iskKilled;
+        side.iskLost += totals.iskLost;
+        side.battles++;
+      }
+
+      side.trend.push({
+        battleId: battle.id,
+        startTime: battle.start_time,
+        iskKilled: totals?.iskKilled ?? 0,
+        iskLost: totals?.iskLost ?? 0,
+        iskEfficiency: efficiency(side.iskKilled, side.iskLost),
+      });
+    }
+
+    side.iskEfficiency = efficiency(side.iskKilled, side.iskLost);
+    return side;
+  });
+
+  return {
+    campaignId,
+    sides: sides.sort(bySide),
+    battles: sorted.map((battle) => ({
+      battleId: battle.id,
+      startTime: battle.start_time,
+      sides: [...(battleSides.get(battle.id)?.values() || [])].sort(bySide),
+    })),
+  };
+}
+
+export async function buildCampaignReport(db: DB, campaignId: string, battles: ReportBattle[]): Promise<CampaignReport> {
+  const battleIds = battles.map((b) => b.id);
+
+  const killmails =
+    battleIds.length > 0
+      ? await db
+          .selectFrom('battle_killmails')
+          .select(['battle_id', 'isk_value', 'victim_corp_id', 'victim_alliance_id', 'attackers'])
+          .where('battle_id', 'in', battleIds)
+          .execute()
+      : [];
+
+  const entities = await db
+    .selectFrom('campaign_entities')
+    .select(['entity_id', 'entity_name', 'side_id', 'pilots'])
+    .where('campaign_id', '=', campaignId)
+    .execute();
+
+  return computeCampaignReport(campaignId, battles, killmails, entities);
+}
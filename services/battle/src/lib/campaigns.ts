@@ -0,0 +1,570 @@
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import type { Selectable } from 'kysely';
+import { createLogger } from '@battlescope/logger';
+import type { BattlesTable, DB } from '../database/types';
+import type { AuditLogEntry, AuthClient } from './auth-client';
+import { ChangeError, runAuditedChange, sendAuditLog } from './audited-change';
+import { getEntityId } from './side-inference';
+
+const logger = createLogger({ serviceName: 'battle-campaigns' });
+
+/**
+ * Campaigns group the battles of a war or deployment: battles in the same
+ * region, close together in time, between largely the same coalitions.
+ * Automatic campaigns are rebuilt from recent battles on a timer; manual
+ * campaigns list their battles explicitly. Either way every alliance (or
+ * alliance-less corporation) in a campaign is put on one campaign side, so
+ * results can be added up across battles whose own side numbers differ.
+ */
+
+export const CAMPAIGN_KINDS = ['auto', 'manual'] as const;
+export type CampaignKind = (typeof CAMPAIGN_KINDS)[number];
+
+// Longest quiet spell between two battles of the same campaign
+export const CAMPAIGN_MAX_GAP = 3 * 24 * 60 * 60 * 1000;
+// Share of a battle side's pilots that must already be on a campaign side for the two to match
+const SIDE_OVERLAP_SHARE = 0.3;
+// Battles an automatic campaign needs before it's kept
+const MIN_CAMPAIGN_BATTLES = 3;
+// One-sided fights aren't part of a war between coalitions
+const IGNORED_CLASSIFICATIONS = ['gank', 'gate_camp'];
+// How far back automatic campaigns are rebuilt, and how often
+const CAMPAIGN_LOOKBACK = parseInt(process.env.CAMPAIGN_LOOKBACK_DAYS || '30', 10) * 24 * 60 * 60 * 1000;
+export const CAMPAIGN_REFRESH_INTERVAL = parseInt(process.env.CAMPAIGN_REFRESH_INTERVAL_MINUTES || '15', 10) * 60 * 1000;
+// Keeps the battle IDs in one query well under the bind parameter limit
+const BATTLE_QUERY_CHUNK = 1000;
+
+const CAMPAIGN_ID_NAMESPACE = '55e6dd54-3de1-487b-83fc-2f3c61a951cc';
+
+export interface CampaignBattleSide {
+  sideId: number;
+  entities: Array<{ entityId: number; name: string | null; pilots: number }>;
+}
+
+export interface CampaignBattle {
+  id: string;
+  regionId: number | null;
+  regionName: string;
+  startTime: Date;
+  lastKillmailAt: Date;
+  totalKills: number;
+  totalIsk: number;
+  sides: CampaignBattleSide[];
+}
+
+export interface CampaignEntity {
+  entityId: number;
+  name: string | null;
+  sideId: number;
+  // Most pilots the group fielded in a single battle of the campaign
+  pilots: number;
+}
+
+interface SideAlignment {
+  // Battle side -> campaign side
+  sides: Map<number, number>;
+  // Pilots of the battle already on the campaign sides they were matched to
+  pilots: number;
+}
+
+const sidePilots = (side: CampaignBattleSide) => side.entities.reduce((sum, e) => sum + e.pilots, 0);
+
+/**
+ * The battles of one campaign and the campaign side of every group in them.
+ * Campaign sides are numbered from 1 in order of first appearance, and a
+ * group stays on the side it was first seen on.
+ */
+export class CampaignGroup {
+  readonly battles: CampaignBattle[] = [];
+  readonly entities: Map<number, CampaignEntity> = new Map();
+  private sideCount = 0;
+
+  get regionName(): string | undefined {
+    return this.battles[0]?.regionName;
+  }
+
+  get lastKillmailAt(): number {
+    return Math.max(...this.battles.map((b) => b.lastKillmailAt.getTime()));
+  }
+
+  /**
+   * Maps each side of a battle onto the campaign side most of its pilots are
+   * already on. Larger battle sides pick first, and no two battle sides share
+   * a campaign side.
+   */
+  alignSides(battle: CampaignBattle): SideAlignment {
+    const sides = new Map<number, number>();
+    let pilots = 0;
+
+    for (const side of [...battle.sides].sort((a, b) => sidePilots(b) - sidePilots(a))) {
+      const overlap = new Map<number, number>();
+      for (const e of side.entities) {
+        const known = this.entities.get(e.entityId);
+        if (known && ![...sides.values()].includes(known.sideId)) {
+          overlap.set(known.sideId, (overlap.get(known.sideId) || 0) + e.pilots);
+        }
+      }
+
+      let best: number | undefined;
+      let most = 0;
+      for (const [sideId, count] of overlap) {
+        if (count > most) {
+          best = sideId;
+          most = count;
+        }
+      }
+
+      if (best !== undefined && most >= sidePilots(side) * SIDE_OVERLAP_SHARE) {
+        sides.set(side.sideId, best);
+        pilots += most;
+      }
+    }
+
+    return { sides, pilots };
+  }
+
+  addBattle(battle: CampaignBattle, alignment: SideAlignment = this.alignSides(battle)): void {
+    this.battles.push(battle);
+
+    for (const side of [...battle.sides].sort((a, b) => a.sideId - b.sideId)) {
+      const sideId = alignment.sides.get(side.sideId) ?? ++this.sideCount;
+      for (const e of side.entities) {
+        const entity = this.entities.get(e.entityId) || { entityId: e.entityId, name: e.name, sideId, pilots: 0 };
+        entity.name = e.name || entity.name;
+        entity.pilots = Math.max(entity.pilots, e.pilots);
+        this.entities.set(e.entityId, entity);
+      }
+    }
+  }
+
+  /**
+   * Names the campaign after the biggest group on each of its two main sides.
+   */
+  getName(): string {
+    const leaders = new Map<number, CampaignEntity>();
+    const sideSizes = new Map<number, number>();
+    for (const entity of this.entities.values()) {
+      sideSizes.set(entity.sideId, (sideSizes.get(entity.sideId) || 0) + entity.pilots);
+      const leader = leaders.get(entity.sideId);
+      if (!leader || entity.pilots > leader.pilots) leaders.set(entity.sideId, entity);
+    }
+
+    const names = [...sideSizes]
+      .sort(([a, sizeA], [b, sizeB]) => sizeB - sizeA || a - b)
+      .slice(0, 2)
+      .map(([sideId]) => leaders.get(sideId)?.name || `Side ${sideId}`);
+    return `${names.join(' vs ')} in ${this.regionName}`;
+  }
+}
+
+/**
+ * Groups battles into automatic campaigns. A battle joins the campaign in its
+ * region whose last battle ended at most CAMPAIGN_MAX_GAP before it started
+ * and whose sides match at least two of its own, preferring the campaign that
+ * matches the most of its pilots. Groups with fewer than MIN_CAMPAIGN_BATTLES
+ * battles are dropped.
+ */
+export function groupCampaignBattles(battles: CampaignBattle[]): CampaignGroup[] {
+  const groups: CampaignGroup[] = [];
+
+  const sorted = [...battles].sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || a.id.localeCompare(b.id));
+  for (const battle of sorted) {
+    if (battle.sides.length < 2) continue;
+
+    let best: { group: CampaignGroup; alignment: SideAlignment } | undefined;
+    for (const group of groups) {
+      if (group.regionName !== battle.regionName) continue;
+      if (battle.startTime.getTime() - group.lastKillmailAt > CAMPAIGN_MAX_GAP) continue;
+
+      // The same coalitions have to meet again, not just one of them turn up
+      const alignment = group.alignSides(battle);
+      if (alignment.sides.size < 2) continue;
+      if (!best || alignment.pilots > best.alignment.pilots) best = { group, alignment };
+    }
+
+    if (best) {
+      best.group.addBattle(battle, best.alignment);
+    } else {
+      const group = new CampaignGroup();
+      group.addBattle(battle);
+      groups.push(group);
+    }
+  }
+
+  return groups.filter((group) => group.battles.length >= MIN_CAMPAIGN_BATTLES);
+}
+
+/**
+ * Puts the given battles, in order, into one campaign regardless of how well
+ * their sides match, as for a manual campaign.
+ */
+export function buildCampaignGroup(battles: CampaignBattle[]): CampaignGroup {
+  const group = new CampaignGroup();
+  for (const battle of [...battles].sort((a, b) => a.startTime.getTime() - b.startTime.getTime())) {
+    group.addBattle(battle);
+  }
+  return group;
+}
+
+/**
+ * Automatic campaigns are named after their first battle, so rebuilding them
+ * keeps their IDs as long as that battle stays first.
+ */
+export function getCampaignId(firstBattleId: string): string {
+  return uuidv5(firstBattleId, CAMPAIGN_ID_NAMESPACE);
+}
+
+type CampaignBattleRow = Pick<
+  Selectable<BattlesTable>,
+  'id' | 'region_id' | 'region_name' | 'start_time' | 'last_killmail_at' | 'total_kills' | 'total_isk_destroyed'
+>;
+
+const BATTLE_COLUMNS = [
+  'id',
+  'region_id',
+  'region_name',
+  'start_time',
+  'last_killmail_at',
+  'total_kills',
+  'total_isk_destroyed',
+] as const;
+
+/**
+ * Adds the groups on each side of the battles, with their pilot counts.
+ * Participants without a side (NPCs, third parties) are left out.
+ */
+async function loadCampaignBattles(db: DB, battles: CampaignBattleRow[]): Promise<CampaignBattle[]> {
+  const sides = new Map<string, Map<number, CampaignBattleSide>>();
+
+  for (let i = 0; i < battles.length; i += BATTLE_QUERY_CHUNK) {
+    const rows = await db
+      .selectFrom('battle_participants')
+      .select([
+        'battle_id',
+        'side_id',
+        'alliance_id',
+        'alliance_name',
+        'corp_id',
+        'corp_name',
+        db.fn.count<number>('character_id').as('pilots'),
+      ])
+      .where('battle_id', 'in', battles.slice(i, i + BATTLE_QUERY_CHUNK).map((b) => b.id))
+      .where('side_id', 'is not', null)
+      .groupBy(['battle_id', 'side_id', 'alliance_id', 'alliance_name', 'corp_id', 'corp_name'])
+      .execute();
+
+    for (const row of rows) {
+      const entityId = getEntityId(row.alliance_id, row.corp_id);
+      if (!entityId || !row.side_id) continue;
+
+      const battleSides = sides.get(row.battle_id) || new Map<number, CampaignBattleSide>();
+      sides.set(row.battle_id, battleSides);
+      const side = battleSides.get(row.side_id) || { sideId: row.side_id, entities: [] };
+      battleSides.set(row.side_id, side);
+
+      // Corporations of one alliance come back as separate rows
+      const name = row.alliance_id ? row.alliance_name : row.corp_name;
+      const entity = side.entities.find((e) => e.entityId === entityId);
+      if (entity) {
+        entity.pilots += Number(row.pilots);
+      } else {
+        side.entities.push({ entityId, name, pilots: Number(row.pilots) });
+      }
+    }
+  }
+
+  return battles.map((b) => ({
+    id: b.id,
+    // bigint columns come back from pg as strings
+    regionId: b.region_id ? Number(b.region_id) : null,
+    regionName: b.region_name,
+    startTime: b.start_time,
+    lastKillmailAt: b.last_killmail_at,
+    totalKills: b.total_kills,
+    totalIsk: Number(b.total_isk_destroyed),
+    sides: [...(sides.get(b.id)?.values() || [])],
+  }));
+}
+
+/**
+ * Totals and time range of a campaign. Its region is the one most of its
+ * battles were fought in.
+ */
+function getCampaignTotals(group: CampaignGroup) {
+  const regions = new Map<string, { regionId: number | null; battles: number }>();
+  for (const battle of group.battles) {
+    const region = regions.get(battle.regionName) || { regionId: battle.regionId, battles: 0 };
+    region.battles++;
+    regions.set(battle.regionName, region);
+  }
+  const [regionName, region] = [...regions].sort(([, a], [, b]) => b.battles - a.battles)[0];
+
+  return {
+    region_id: region.regionId,
+    region_name: regionName,
+    start_time: new Date(Math.min(...group.battles.map((b) => b.startTime.getTime()))),
+    end_time: new Date(group.lastKillmailAt),
+    total_battles: group.battles.length,
+    total_kills: group.battles.reduce((sum, b) => sum + b.totalKills, 0),
+    total_isk_destroyed: group.battles.reduce((sum, b) => sum + BigInt(b.totalIsk), BigInt(0)),
+  };
+}
+
+async function writeCampaignMembers(db: DB, campaignId: string, group: CampaignGroup): Promise<void> {
+  await db.deleteFrom('campaign_battles').where('campaign_id', '=', campaignId).execute();
+  await db.deleteFrom('campaign_entities').where('campaign_id', '=', campaignId).execute();
+
+  if (group.battles.length > 0) {
+    await db
+      .insertInto('campaign_battles')
+      .values(group.battles.map((b) => ({ campaign_id: campaignId, battle_id: b.id })))
+      .execute();
+  }
+  if (group.entities.size > 0) {
+    await db
+      .insertInto('campaign_entities')
+      .values(
+        [...group.entities.values()].map((e) => ({
+          campaign_id: campaignId,
+          entity_id: e.entityId,
+          entity_name: e.name,
+          side_id: e.sideId,
+          pilots: e.pilots,
+        }))
+      )
+      .execute();
+  }
+}
+
+/**
+ * Rebuilds a manual campaign's sides and totals from its battles, which may
+ * have been corrected or re-clustered since. Battles that no longer exist
+ * drop out.
+ */
+async function recomputeManualCampaign(db: DB, campaignId: string): Promise<void> {
+  const rows = await db
+    .selectFrom('battles')
+    .innerJoin('campaign_battles', 'campaign_battles.battle_id', 'battles.id')
+    .select(BATTLE_COLUMNS.map((column) => `battles.${column}` as const))
+    .where('campaign_battles.campaign_id', '=', campaignId)
+    .execute();
+
+  const group = buildCampaignGroup(await loadCampaignBattles(db, rows));
+  if (group.battles.length > 0) {
+    await db
+      .updateTable('campaigns')
+      .set({ ...getCampaignTotals(group), updated_at: new Date() })
+      .where('id', '=', campaignId)
+      .execute();
+  } else {
+    await db
+      .updateTable('campaigns')
+      .set({ total_battles: 0, total_kills: 0, total_isk_destroyed: BigInt(0), updated_at: new Date() })
+      .where('id', '=', campaignId)
+      .execute();
+  }
+  await writeCampaignMembers(db, campaignId, group);
+}
+
+/**
+ * Rebuilds the automatic campaigns from the battles of the last
+ * CAMPAIGN_LOOKBACK, and recomputes the manual campaigns with battles in that
+ * time. Campaigns still open at the start of the window are rebuilt whole;
+ * older ones are left as they are.
+ */
+export async function refreshCampaigns(db: DB, now: Date = new Date()): Promise<{ campaigns: number; battles: number }> {
+  const cutoff = new Date(now.getTime() - CAMPAIGN_LOOKBACK - CAMPAIGN_MAX_GAP);
+  const existing = await db
+    .selectFrom('campaigns')
+    .select(['id', 'start_time'])
+    .where('kind', '=', 'auto')
+    .where('end_time', '>=', cutoff)
+    .execute();
+
+  let windowStart = new Date(now.getTime() - CAMPAIGN_LOOKBACK);
+  for (const campaign of existing) {
+    if (campaign.start_time < windowStart) windowStart = campaign.start_time;
+  }
+
+  const rows = await db
+    .selectFrom('battles')
+    .select(BATTLE_COLUMNS)
+    .where('start_time', '>=', windowStart)
+    .where('end_time', 'is not', null)
+    .where((eb) =>
+      eb.or([eb('classification', 'is', null), eb('classification', 'not in', IGNORED_CLASSIFICATIONS)])
+    )
+    // Battles of campaigns that closed before the window stay where they are
+    .where(
+      'id',
+      'not in',
+      db
+        .selectFrom('campaign_battles')
+        .innerJoin('campaigns', 'campaigns.id', 'campaign_battles.campaign_id')
+        .select('campaign_battles.battle_id')
+        .where('campaigns.kind', '=', 'auto')
+        .where('campaigns.end_time', '<', cutoff)
+    )
+    .execute();
+
+  const groups = groupCampaignBattles(await loadCampaignBattles(db, rows));
+
+  await db.transaction().execute(async (trx) => {
+    const kept = new Set<string>();
+    for (const group of groups) {
+      const id = getCampaignId(group.battles[0].id);
+      const values = { name: group.getName(), ...getCampaignTotals(group) };
+      kept.add(id);
+
+      await trx
+        .insertInto('campaigns')
+        .values({ id, kind: 'auto', ...values })
+        .onConflict((oc) => oc.column('id').doUpdateSet({ ...values, updated_at: new Date() }))
+        .execute();
+      await writeCampaignMembers(trx, id, group);
+    }
+
+    const stale = existing.map((c) => c.id).filter((id) => !kept.has(id));
+    if (stale.length > 0) {
+      await trx.deleteFrom('campaigns').where('id', 'in', stale).execute();
+    }
+
+    const manual = await trx
+      .selectFrom('campaigns')
+      .select('id')
+      .where('kind', '=', 'manual')
+      .where('end_time', '>=', windowStart)
+      .execute();
+    for (const campaign of manual) {
+      await recomputeManualCampaign(trx, campaign.id);
+    }
+  });
+
+  return { campaigns: groups.length, battles: groups.reduce((sum, g) => sum + g.battles.length, 0) };
+}
+
+export interface CampaignContext {
+  db: DB;
+  actorAccountId: string | null;
+  auth?: AuthClient;
+}
+
+export interface CampaignInput {
+  name: string;
+  description?: string | null;
+  battleIds: string[];
+}
+
+/**
+ * Runs a change to a manual campaign in a transaction that stores its audit
+ * log entry, and sends the entry once it's committed.
+ */
+async function runCampaignChange<T>(
+  ctx: CampaignContext,
+  audit: Omit<AuditLogEntry, 'actorAccountId'>,
+  change: (trx: DB) => Promise<T>
+): Promise<T> {
+  const entry = { ...audit, actorAccountId: ctx.actorAccountId };
+  const result = await runAuditedChange(ctx.db, entry, change);
+
+  logger.info(entry, 'Applied campaign change');
+  await sendAuditLog(ctx.db, ctx.auth);
+  return result;
+}
+
+async function loadManualCampaignGroup(db: DB, battleIds: string[]): Promise<CampaignGroup> {
+  const rows = await db.selectFrom('battles').select(BATTLE_COLUMNS).where('id', 'in', battleIds).execute();
+
+  const found = new Set(rows.map((b) => b.id));
+  const missing = battleIds.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    throw new ChangeError(`Battles not found: ${missing.join(', ')}`, 404);
+  }
+
+  return buildCampaignGroup(await loadCampaignBattles(db, rows));
+}
+
+async function getManualCampaign(db: DB, campaignId: string) {
+  const campaign = await db.selectFrom('campaigns').selectAll().where('id', '=', campaignId).executeTakeFirst();
+  if (!campaign) {
+    throw new ChangeError(`Campaign ${campaignId} not found`, 404);
+  }
+  if (campaign.kind !== 'manual') {
+    throw new ChangeError('Automatic campaigns are rebuilt from battles and cannot be edited', 409);
+  }
+  return campaign;
+}
+
+export async function createCampaign(ctx: CampaignContext, input: CampaignInput): Promise<string> {
+  const id = uuidv4();
+
+  return runCampaignChange(
+    ctx,
+    { action: 'campaign.create', targetType: 'campaign', targetId: id, metadata: { ...input } },
+    async (trx) => {
+      const group = await loadManualCampaignGroup(trx, input.battleIds);
+
+      await trx
+        .insertInto('campaigns')
+        .values({
+          id,
+          name: input.name,
+          description: input.description ?? null,
+          kind: 'manual',
+          created_by: ctx.actorAccountId,
+          ...getCampaignTotals(group),
+        })
+        .execute();
+      await writeCampaignMembers(trx, id, group);
+      return id;
+    }
+  );
+}
+
+/**
+ * Renames a manual campaign or replaces its battles.
+ */
+export async function updateCampaign(
+  ctx: CampaignContext,
+  campaignId: string,
+  input: Partial<CampaignInput>
+): Promise<string> {
+  return runCampaignChange(
+    ctx,
+    { action: 'campaign.update', targetType: 'campaign', targetId: campaignId, metadata: { ...input } },
+    async (trx) => {
+      await getManualCampaign(trx, campaignId);
+
+      if (input.name !== undefined || input.description !== undefined) {
+        await trx
+          .updateTable('campaigns')
+          .set({ name: input.name, description: input.description, updated_at: new Date() })
+          .where('id', '=', campaignId)
+          .execute();
+      }
+
+      if (input.battleIds) {
+        const group = await loadManualCampaignGroup(trx, input.battleIds);
+        await trx
+          .updateTable('campaigns')
+          .set({ ...getCampaignTotals(group), updated_at: new Date() })
+          .where('id', '=', campaignId)
+          .execute();
+        await writeCampaignMembers(trx, campaignId, group);
+      }
+
+      return campaignId;
+    }
+  );
+}
+
+export async function deleteCampaign(ctx: CampaignContext, campaignId: string): Promise<void> {
+  await runCampaignChange(
+    ctx,
+    { action: 'campaign.delete', targetType: 'campaign', targetId: campaignId },
+    async (trx) => {
+      await getManualCampaign(trx, campaignId);
+      await trx.deleteFrom('campaigns').where('id', '=', campaignId).execute();
+    }
+  );
+}
@@ -0,0 +1,391 @@
+import { v5 as uuidv5 } from 'uuid';
+import type { Selectable } from 'kysely';
+import type {
+  BattleKillmailsTable,
+  BattleParticipantsTable,
+  CampCamper,
+  CampShip,
+  DB,
+} from '../database/types';
+import { getEntityId } from './side-inference';
+import { getShipTypes, type ShipTypes } from './ship-types';
+import { getStargateGraph } from './stargate-graph';
+
+/**
+ * Gate camps: one group of attackers picking off lone victims in a system,
+ * often for hours. Each kill of a camp is its own tiny battle, so camps are
+ * recorded apart from battles, rebuilt from recent killmails on a timer.
+ *
+ * A victim is lone when its group loses at most a couple of ships around the
+ * kill and doesn't shoot anyone. Lone kills in one system join a camp when
+ * they share an attacking group with it and come soon enough after its last
+ * kill; a camp is kept once it has caught enough victims from enough groups
+ * over a long enough time.
+ */
+
+// Longest quiet spell between two kills of the same camp
+export const CAMP_MAX_GAP = 60 * 60 * 1000;
+// Killmails either side of a kill that tell whether its victim was alone
+const LONE_WINDOW = 5 * 60 * 1000;
+// Ships a victim's group may lose in the window and still count as alone
+const LONE_MAX_LOSSES = 2;
+// Kills, distinct victim groups and duration a camp needs before it's kept
+const CAMP_MIN_KILLS = 5;
+const CAMP_MIN_VICTIM_GROUPS = 3;
+const CAMP_MIN_DURATION = 30 * 60 * 1000;
+// How far back camps are rebuilt, and how often
+const CAMP_LOOKBACK = parseInt(process.env.CAMP_LOOKBACK_HOURS || '24', 10) * 60 * 60 * 1000;
+export const CAMP_REFRESH_INTERVAL = parseInt(process.env.CAMP_REFRESH_INTERVAL_MINUTES || '5', 10) * 60 * 1000;
+// Keeps the battle IDs in one query well under the bind parameter limit
+const BATTLE_QUERY_CHUNK = 1000;
+
+const CAMP_ID_NAMESPACE = '0b8f3c1e-6d2a-4f57-9e41-7c3a5d9b2e60';
+
+const KILLMAIL_COLUMNS = [
+  'battle_id',
+  'killmail_id',
+  'occurred_at',
+  'system_id',
+  'isk_value',
+  'victim_character_id',
+  'victim_corp_id',
+  'victim_alliance_id',
+  'attackers',
+] as const;
+
+export type CampKillmail = Pick<Selectable<BattleKillmailsTable>, (typeof KILLMAIL_COLUMNS)[number]>;
+
+export type CamperNames = Map<
+  number,
+  Pick<Selectable<BattleParticipantsTable>, 'character_name' | 'corp_name' | 'alliance_name'>
+>;
+
+export interface DetectedCamp {
+  systemId: number;
+  kills: CampKillmail[];
+  // Attacking alliances (or alliance-less corporations) seen on the camp's kills
+  entities: Set<number>;
+  victimGroups: Set<number>;
+}
+
+export interface CampSummary {
+  startTime: Date;
+  lastKillAt: Date;
+  totalKills: number;
+  totalIsk: number;
+  campers: CampCamper[];
+  ships: CampShip[];
+  // Kills per hour of the day (UTC)
+  activeHours: number[];
+}
+
+export function getCampId(firstKillmailId: number): string {
+  return uuidv5(String(firstKillmailId), CAMP_ID_NAMESPACE);
+}
+
+const victimEntity = (km: CampKillmail) => getEntityId(km.victim_alliance_id, km.victim_corp_id);
+
+function attackerEntities(km: CampKillmail): Set<number> {
+  const entities = new Set<number>();
+  for (const attacker of km.attackers || []) {
+    if (!attacker.characterId) continue;
+    const entityId = getEntityId(attacker.allianceId, attacker.corporationId);
+    if (entityId) entities.add(entityId);
+  }
+  return entities;
+}
+
+/**
+ * Whether the victim of `killmails[index]` was alone, judged by the other
+ * killmails of its system (sorted by time) around it.
+ */
+function isLoneVictim(killmails: CampKillmail[], index: number): boolean {
+  const km = killmails[index];
+  const victimId = victimEntity(km);
+  // Structures, deployables and NPC kills aren't travellers
+  if (!km.victim_character_id || !victimId) return false;
+
+  const time = km.occurred_at.getTime();
+  let losses = 0;
+  for (let i = index; i >= 0 && time - killmails[i].occurred_at.getTime() <= LONE_WINDOW; i--) {
+    if (victimEntity(killmails[i]) === victimId) losses++;
+    if (attackerEntities(killmails[i]).has(victimId)) return false;
+  }
+  for (let i = index + 1; i < killmails.length && killmails[i].occurred_at.getTime() - time <= LONE_WINDOW; i++) {
+    if (victimEntity(killmails[i]) === victimId) losses++;
+    if (attackerEntities(killmails[i]).has(victimId)) return false;
+  }
+
+  return losses <= LONE_MAX_LOSSES;
+}
+
+const isCamp = (camp: DetectedCamp) =>
+  camp.kills.length >= CAMP_MIN_KILLS &&
+  camp.victimGroups.size >= CAMP_MIN_VICTIM_GROUPS &&
+  camp.kills[camp.kills.length - 1].occurred_at.getTime() - camp.kills[0].occurred_at.getTime() >= CAMP_MIN_DURATION;
+
+/**
+ * Finds the camps among a set of killmails, oldest first. Killmails that
+ * aren't lone kills (fleet fights, structure kills) are left out of camps
+ * without breaking them up.
+ */
+export function detectCamps(killmails: CampKillmail[]): DetectedCamp[] {
+  const systems = new Map<number, CampKillmail[]>();
+  for (const km of killmails) {
+    if (!km.system_id) continue;
+    // bigint columns come back from pg as strings
+    const systemId = Number(km.system_id);
+    const list = systems.get(systemId) || [];
+    list.push(km);
+    systems.set(systemId, list);
+  }
+
+  const camps: DetectedCamp[] = [];
+  for (const [systemId, list] of systems) {
+    list.sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime());
+    const open: DetectedCamp[] = [];
+
+    list.forEach((km, index) => {
+      const attackers = attackerEntities(km);
+      if (attackers.size === 0 || !isLoneVictim(list, index)) return;
+
+      const time = km.occurred_at.getTime();
+      const camp = open.find(
+        (c) =>
+          time - c.kills[c.kills.length - 1].occurred_at.getTime() <= CAMP_MAX_GAP &&
+          [...attackers].some((entityId) => c.entities.has(entityId))
+      );
+
+      if (camp) {
+        camp.kills.push(km);
+        attackers.forEach((entityId) => camp.entities.add(entityId));
+        camp.victimGroups.add(victimEntity(km) as number);
+      } else {
+        open.push({ systemId, kills: [km], entities: attackers, victimGroups: new Set([victimEntity(km) as number]) });
+      }
+    });
+
+    camps.push(...open.filter(isCamp));
+  }
+
+  return camps.sort((a, b) => a.kills[0].occurred_at.getTime() - b.kills[0].occurred_at.getTime());
+}
+
+/**
+ * The campers roster, their ship composition and when the camp is active.
+ * Every pilot on one of the camp's kills counts as a camper.
+ */
+export function summarizeCamp(
+  camp: DetectedCamp,
+  names: CamperNames = new Map(),
+  shipTypes: ShipTypes = getShipTypes()
+): CampSummary {
+  const campers = new Map<number, CampCamper>();
+  const shipPilots = new Map<number, Set<number>>();
+  const activeHours: number[] = new Array(24).fill(0);
+  let totalIsk = 0;
+
+  for (const km of camp.kills) {
+    totalIsk += Number(km.isk_value || 0);
+    activeHours[km.occurred_at.getUTCHours()]++;
+
+    for (const attacker of km.attackers || []) {
+      if (!attacker.characterId) continue;
+
+      const name = names.get(attacker.characterId);
+      const camper = campers.get(attacker.characterId) || {
+        characterId: attacker.characterId,
+        name: name?.character_name ?? null,
+        corporationId: null,
+        corporationName: name?.corp_name ?? null,
+        allianceId: null,
+        allianceName: name?.alliance_name ?? null,
+        kills: 0,
+        shipTypeIds: [],
+      };
+      camper.corporationId = attacker.corporationId ?? camper.corporationId;
+      camper.allianceId = attacker.allianceId ?? camper.allianceId;
+      camper.kills++;
+      campers.set(attacker.characterId, camper);
+
+      if (attacker.shipTypeId) {
+        if (!camper.shipTypeIds.includes(attacker.shipTypeId)) camper.shipTypeIds.push(attacker.shipTypeId);
+        const pilots = shipPilots.get(attacker.shipTypeId) || new Set<number>();
+        pilots.add(attacker.characterId);
+        shipPilots.set(attacker.shipTypeId, pilots);
+      }
+    }
+  }
+
+  return {
+    startTime: camp.kills[0].occurred_at,
+    lastKillAt: camp.kills[camp.kills.length - 1].occurred_at,
+    totalKills: camp.kills.length,
+    totalIsk,
+    campers: [...campers.values()].sort((a, b) => b.kills - a.kills || a.characterId - b.characterId),
+    ships: [...shipPilots]
+      .map(([shipTypeId, pilots]) => ({
+        shipTypeId,
+        shipTypeName: shipTypes.getType(shipTypeId)?.name ?? null,
+        pilots: pilots.size,
+      }))
+      .sort((a, b) => b.pilots - a.pilots || a.shipTypeId - b.shipTypeId),
+    activeHours,
+  };
+}
+
+async function loadCamperNames(db: DB, camps: DetectedCamp[]): Promise<CamperNames> {
+  const battleIds = [...new Set(camps.flatMap((camp) => camp.kills.map((km) => km.battle_id)))];
+  const names: CamperNames = new Map();
+
+  for (let i = 0; i < battleIds.length; i += BATTLE_QUERY_CHUNK) {
+    const rows = await db
+      .selectFrom('battle_participants')
+      .select(['character_id', 'character_name', 'corp_name', 'alliance_name'])
+      .where('battle_id', 'in', battleIds.slice(i, i + BATTLE_QUERY_CHUNK))
+      .where('is_victim', '=', false)
+      .execute();
+    for (const row of rows) {
+      names.set(Number(row.character_id), row);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Marks the battles made up entirely of one camp's kills with that camp, and
+ * clears the mark from battles of the given camps that no longer are.
+ */
+async function markCampBattles(db: DB, campIds: string[]): Promise<void> {
+  if (campIds.length === 0) return;
+
+  await db.updateTable('battles').set({ camp_id: null }).where('camp_id', 'in', campIds).execute();
+
+  const campBattles = await db
+    .selectFrom('camp_killmails')
+    .select(['camp_id', 'battle_id', db.fn.count('killmail_id').as('kills')])
+    .where('camp_id', 'in', campIds)
+    .groupBy(['camp_id', 'battle_id'])
+    .execute();
+  const battleIds = [...new Set(campBattles.map((b) => b.battle_id))];
+
+  const battleKills = new Map<string, number>();
+  for (let i = 0; i < battleIds.length; i += BATTLE_QUERY_CHUNK) {
+    const rows = await db
+      .selectFrom('battle_killmails')
+      .select(['battle_id', db.fn.count('killmail_id').as('kills')])
+      .where('battle_id', 'in', battleIds.slice(i, i + BATTLE_QUERY_CHUNK))
+      .groupBy('battle_id')
+      .execute();
+    for (const row of rows) {
+      battleKills.set(row.battle_id, Number(row.kills));
+    }
+  }
+
+  const whole = new Map<string, string[]>();
+  for (const b of campBattles) {
+    if (Number(b.kills) !== battleKills.get(b.battle_id)) continue;
+    whole.set(b.camp_id, [...(whole.get(b.camp_id) || []), b.battle_id]);
+  }
+
+  for (const [campId, ids] of whole) {
+    for (let i = 0; i < ids.length; i += BATTLE_QUERY_CHUNK) {
+      await db
+        .updateTable('battles')
+        .set({ camp_id: campId })
+        .where('id', 'in', ids.slice(i, i + BATTLE_QUERY_CHUNK))
+        .execute();
+    }
+  }
+}
+
+/**
+ * Rebuilds the camps of the last `CAMP_LOOKBACK_HOURS`. Camps still running at
+ * the start of the window are rebuilt whole; older ones no longer change.
+ */
+export async function refreshCamps(db: DB, now: Date = new Date()): Promise<{ camps: number; killmails: number }> {
+  const cutoff = new Date(now.getTime() - CAMP_LOOKBACK - CAMP_MAX_GAP);
+  const existing = await db
+    .selectFrom('camps')
+    .select(['id', 'start_time'])
+    .where('last_kill_at', '>=', cutoff)
+    .execute();
+
+  let windowStart = new Date(now.getTime() - CAMP_LOOKBACK);
+  for (const camp of existing) {
+    if (camp.start_time < windowStart) windowStart = camp.start_time;
+  }
+
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select(KILLMAIL_COLUMNS)
+    .where('occurred_at', '>=', windowStart)
+    .where('system_id', 'is not', null)
+    // Kills of camps that ended before the window stay where they are
+    .where(
+      'killmail_id',
+      'not in',
+      db
+        .selectFrom('camp_killmails')
+        .innerJoin('camps', 'camps.id', 'camp_killmails.camp_id')
+        .select('camp_killmails.killmail_id')
+        .where('camps.last_kill_at', '<', cutoff)
+    )
+    .execute();
+
+  const camps = detectCamps(killmails);
+  const names = await loadCamperNames(db, camps);
+  const graph = getStargateGraph();
+
+  await db.transaction().execute(async (trx) => {
+    const kept = new Set<string>();
+    for (const camp of camps) {
+      // bigint columns come back from pg as strings
+      const id = getCampId(Number(camp.kills[0].killmail_id));
+      const summary = summarizeCamp(camp, names);
+      const system = graph.getSystem(camp.systemId);
+      const values = {
+        system_id: camp.systemId,
+        system_name: system?.name ?? String(camp.systemId),
+        region_id: system?.regionId ?? null,
+        region_name: (system && graph.getRegionName(system.regionId)) ?? null,
+        start_time: summary.startTime,
+        last_kill_at: summary.lastKillAt,
+        total_kills: summary.totalKills,
+        total_isk_destroyed: BigInt(summary.totalIsk),
+        campers: JSON.stringify(summary.campers),
+        ships: JSON.stringify(summary.ships),
+        active_hours: JSON.stringify(summary.activeHours),
+      };
+      kept.add(id);
+
+      await trx
+        .insertInto('camps')
+        .values({ id, ...values })
+        .onConflict((oc) => oc.column('id').doUpdateSet({ ...values, updated_at: new Date() }))
+        .execute();
+      await trx.deleteFrom('camp_killmails').where('camp_id', '=', id).execute();
+      await trx
+        .insertInto('camp_killmails')
+        .values(
+          camp.kills.map((km) => ({
+            camp_id: id,
+            killmail_id: Number(km.killmail_id),
+            battle_id: km.battle_id,
+            occurred_at: km.occurred_at,
+          }))
+        )
+        .execute();
+    }
+
+    const stale = existing.map((c) => c.id).filter((id) => !kept.has(id));
+    if (stale.length > 0) {
+      await trx.deleteFrom('camps').where('id', 'in', stale).execute();
+    }
+
+    await markCampBattles(trx, [...stale, ...kept]);
+  });
+
+  return { camps: camps.length, killmails: camps.reduce((sum, c) => sum + c.kills.length, 0) };
+}
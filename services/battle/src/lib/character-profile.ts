@@ -0,0 +1,273 @@
+import { sql, type Selectable } from 'kysely';
+import type { BattleKillmailsTable, DB } from '../database/types';
+import { addActivity, rankLocations, type ActivityCounts, type TopLocations } from './group-profile';
+import { getShipTypes, type ShipTypes } from './ship-types';
+import { getStargateGraph, type StargateGraph } from './stargate-graph';
+
+/**
+ * Intel profiles of single pilots, the first look at a recruit: when they
+ * play, where they fight, whether they fly alone, in small gangs or in
+ * fleets, what their kills and losses are worth and where they were last
+ * seen.
+ */
+
+// Most attackers a kill can have and still count as a small gang kill
+const SMALL_GANG_MAX_ATTACKERS = 10;
+// Length of a pilot's prime time, in hours
+const PRIME_TIME_HOURS = 4;
+const TOP_SHIPS = 10;
+
+export const TIMEZONES = ['USTZ', 'AUTZ', 'EUTZ'] as const;
+export type Timezone = (typeof TIMEZONES)[number];
+
+export type CharacterKillmail = Pick<
+  Selectable<BattleKillmailsTable>,
+  | 'killmail_id'
+  | 'occurred_at'
+  | 'system_id'
+  | 'isk_value'
+  | 'victim_character_id'
+  | 'victim_ship_type_id'
+  | 'attackers'
+  | 'is_solo'
+>;
+
+export interface EngagementCounts {
+  solo: number;
+  smallGang: number;
+  fleet: number;
+}
+
+export interface CharacterActivity extends TopLocations {
+  kills: number;
+  losses: number;
+  iskKilled: number;
+  iskLost: number;
+  averageIskPerKill: number | null;
+  averageIskPerLoss: number | null;
+  // Killmails per UTC hour, and per UTC weekday (0 = Monday)
+  hours: number[];
+  weekdays: number[];
+  // The stretch of `PRIME_TIME_HOURS` UTC hours with the most killmails, and the timezone it falls in
+  primeTime: { startHour: number; endHour: number } | null;
+  timezone: Timezone | null;
+  // Kills by the number of attackers on them, and their share of all kills
+  engagements: EngagementCounts;
+  engagementRatio: EngagementCounts | null;
+  lastSeen: {
+    at: Date;
+    systemId: number | null;
+    systemName: string | null;
+    regionName: string | null;
+    shipTypeId: number | null;
+    shipTypeName: string | null;
+  } | null;
+}
+
+/**
+ * The timezone a prime time falls in, by the UTC hour it's centred on: US
+ * evenings are 00:00-08:00 UTC, Australian ones 08:00-16:00 and European ones
+ * 16:00-24:00.
+ */
+export function getTimezone(startHour: number): Timezone {
+  const centre = (startHour + PRIME_TIME_HOURS / 2) % 24;
+  return TIMEZONES[Math.floor(centre / 8)];
+}
+
+function getPrimeTime(hours: number[]): CharacterActivity['primeTime'] {
+  let best: number | null = null;
+  let bestCount = 0;
+  for (let start = 0; start < 24; start++) {
+    let count = 0;
+    for (let i = 0; i < PRIME_TIME_HOURS; i++) count += hours[(start + i) % 24];
+    if (count > bestCount) {
+      best = start;
+      bestCount = count;
+    }
+  }
+  return best === null ? null : { startHour: best, endHour: (best + PRIME_TIME_HOURS) % 24 };
+}
+
+/**
+ * Sums up the killmails a pilot was on. A killmail is a loss when the pilot
+ * is the victim and a kill when they're one of the attackers. Kills flagged
+ * solo by zKillboard count as solo, others as small gang or fleet kills by
+ * their number of attackers.
+ */
+export function summarizeCharacterActivity(
+  killmails: CharacterKillmail[],
+  characterId: number,
+  graph: StargateGraph = getStargateGraph(),
+  shipTypes: ShipTypes = getShipTypes()
+): CharacterActivity {
+  const activity: CharacterActivity = {
+    kills: 0,
+    losses: 0,
+    iskKilled: 0,
+    iskLost: 0,
+    averageIskPerKill: null,
+    averageIskPerLoss: null,
+    hours: new Array(24).fill(0),
+    weekdays: new Array(7).fill(0),
+    primeTime: null,
+    timezone: null,
+    engagements: { solo: 0, smallGang: 0, fleet: 0 },
+    engagementRatio: null,
+    lastSeen: null,
+    topSystems: [],
+    topRegions: [],
+  };
+  const systems = new Map<number, ActivityCounts>();
+  const regions = new Map<number, ActivityCounts>();
+  let latest: { km: CharacterKillmail; shipTypeId: number | null } | null = null;
+
+  for (const km of killmails) {
+    // bigint columns come back from pg as strings
+    const isLoss = Number(km.victim_character_id) === characterId;
+    const attacker = isLoss ? undefined : (km.attackers || []).find((a) => Number(a.characterId) === characterId);
+    if (!isLoss && !attacker) continue;
+
+    const isk = Number(km.isk_value || 0);
+    if (isLoss) {
+      activity.losses++;
+      activity.iskLost += isk;
+    } else {
+      activity.kills++;
+      activity.iskKilled += isk;
+      const attackers = (km.attackers || []).length;
+      if (km.is_solo) activity.engagements.solo++;
+      else if (attackers <= SMALL_GANG_MAX_ATTACKERS) activity.engagements.smallGang++;
+      else activity.engagements.fleet++;
+    }
+
+    activity.hours[km.occurred_at.getUTCHours()]++;
+    // getUTCDay() starts the week on Sunday
+    activity.weekdays[(km.occurred_at.getUTCDay() + 6) % 7]++;
+
+    if (km.system_id) {
+      const systemId = Number(km.system_id);
+      addActivity(systems, systemId, isLoss);
+      const regionId = graph.getSystem(systemId)?.regionId;
+      if (regionId) addActivity(regions, regionId, isLoss);
+    }
+
+    if (!latest || km.occurred_at > latest.km.occurred_at) {
+      const shipTypeId = isLoss ? km.victim_ship_type_id : attacker?.shipTypeId;
+      latest = { km, shipTypeId: shipTypeId ? Number(shipTypeId) : null };
+    }
+  }
+
+  activity.averageIskPerKill = activity.kills > 0 ? activity.iskKilled / activity.kills : null;
+  activity.averageIskPerLoss = activity.losses > 0 ? activity.iskLost / activity.losses : null;
+  activity.primeTime = getPrimeTime(activity.hours);
+  activity.timezone = activity.primeTime && getTimezone(activity.primeTime.startHour);
+  if (activity.kills > 0) {
+    const { solo, smallGang, fleet } = activity.engagements;
+    activity.engagementRatio = {
+      solo: solo / activity.kills,
+      smallGang: smallGang / activity.kills,
+      fleet: fleet / activity.kills,
+    };
+  }
+
+  if (latest) {
+    const systemId = latest.km.system_id ? Number(latest.km.system_id) : null;
+    const system = systemId ? graph.getSystem(systemId) : undefined;
+    activity.lastSeen = {
+      at: latest.km.occurred_at,
+      systemId,
+      systemName: system?.name ?? (systemId ? String(systemId) : null),
+      regionName: (system && graph.getRegionName(system.regionId)) ?? null,
+      shipTypeId: latest.shipTypeId,
+      shipTypeName: latest.shipTypeId ? (shipTypes.getType(latest.shipTypeId)?.name ?? null) : null,
+    };
+  }
+
+  return { ...activity, ...rankLocations(systems, regions, graph) };
+}
+
+/**
+ * Builds the profile of a pilot over the last `windowDays`. Returns null if
+ * the pilot was never seen in a battle.
+ */
+export async function buildCharacterProfile(db: DB, characterId: number, windowDays: number, now: Date = new Date()) {
+  const since = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000);
+
+  const latest = await db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select([
+      'battle_participants.character_name',
+      'battle_participants.corp_id',
+      'battle_participants.corp_name',
+      'battle_participants.alliance_id',
+      'battle_participants.alliance_name',
+    ])
+    .where('battle_participants.character_id', '=', characterId)
+    .orderBy('battles.start_time', 'desc')
+    .limit(1)
+    .executeTakeFirst();
+  if (!latest) {
+    return null;
+  }
+
+  const pilotBattles = db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select('battle_participants.battle_id')
+    .where('battle_participants.character_id', '=', characterId)
+    .where('battles.start_time', '>=', since);
+
+  const battles = await db
+    .selectFrom(pilotBattles.as('p'))
+    .select((eb) => eb.fn.countAll<string>().as('count'))
+    .executeTakeFirst();
+
+  const attackerFilter = JSON.stringify([{ characterId }]);
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select([
+      'killmail_id',
+      'occurred_at',
+      'system_id',
+      'isk_value',
+      'victim_character_id',
+      'victim_ship_type_id',
+      'attackers',
+      'is_solo',
+    ])
+    .where('battle_id', 'in', pilotBattles)
+    .where('occurred_at', '>=', since)
+    .where((eb) =>
+      eb.or([eb('victim_character_id', '=', characterId), sql<boolean>`attackers @> ${attackerFilter}::jsonb`])
+    )
+    .execute();
+
+  const ships = await db
+    .selectFrom('pilot_ship_history')
+    .select(['ship_type_id', 'ship_type_name', 'kill_count', 'loss_count', 'last_seen'])
+    .where('character_id', '=', characterId)
+    .where('last_seen', '>=', since)
+    .orderBy(sql`kill_count + loss_count`, 'desc')
+    .limit(TOP_SHIPS)
+    .execute();
+
+  return {
+    characterId,
+    name: latest.character_name,
+    corporationId: latest.corp_id ? Number(latest.corp_id) : null,
+    corporationName: latest.corp_name,
+    allianceId: latest.alliance_id ? Number(latest.alliance_id) : null,
+    allianceName: latest.alliance_name,
+    windowDays,
+    battles: Number(battles?.count || 0),
+    ...summarizeCharacterActivity(killmails, characterId),
+    ships: ships.map((s) => ({
+      shipTypeId: Number(s.ship_type_id),
+      shipTypeName: s.ship_type_name,
+      kills: s.kill_count,
+      losses: s.loss_count,
+      lastSeen: s.last_seen,
+    })),
+  };
+}
@@ -1,14 +1,22 @@
-import { v4 as uuidv4 } from 'uuid';
-import type { DB } from '../database/types';
+import { v5 as uuidv5 } from 'uuid';
+import { sql, type Insertable, type Selectable } from 'kysely';
+import type { BattleParticipantsTable, BattlesTable, DB } from '../database/types';
 import { createLogger } from '@battlescope/logger';
+import { getStargateGraph, type StargateGraph } from './stargate-graph';
+import { SideGraph, getEntityId } from './side-inference';
+import { diffSides, loadBattleSideState, writeBattleSides } from './battle-sides';
+import { BattleProfile, loadBattleProfile } from './battle-classification';
+import { addToGrids, isOnGrid, loadBattleGrids, type BattleGrids, type Position } from './grids';
+import type { BattleEventPublisher, BattleEventType } from './battle-events';
 
 const logger = createLogger({ serviceName: 'battle-clusterer' });
 
-interface EnrichedKillmail {
+export interface EnrichedKillmail {
   killmailId: number;
   killmailTime: Date;
   solarSystemId: number;
   systemName: string;
+  regionId?: number;
   regionName: string;
   securityStatus: number;
   victim: {
@@ -21,6 +29,7 @@ interface EnrichedKillmail {
     shipTypeId: number;
     shipTypeName?: string;
     damageTaken: number;
+    position?: Position;
   };
   attackers: Array<{
     characterId?: number;
@@ -31,6 +40,7 @@ interface EnrichedKillmail {
     allianceName?: string;
     shipTypeId?: number;
     shipTypeName?: string;
+    weaponTypeId?: number;
     damageDone: number;
     finalBlow: boolean;
   }>;
@@ -45,49 +55,116 @@ interface EnrichedKillmail {
 
 // Battle clustering configuration
 const BATTLE_TIME_WINDOW = 5 * 60 * 1000; // 5 minutes (kills within 5 min of each other)
-const BATTLE_INACTIVITY_TIMEOUT = 30 * 60 * 1000; // 30 minutes (battle ends after 30 min of no kills)
+export const BATTLE_INACTIVITY_TIMEOUT = 30 * 60 * 1000; // 30 minutes (battle ends after 30 min of no kills)
+const BATTLE_MAX_JUMPS = parseInt(process.env.BATTLE_MAX_JUMPS || '1', 10); // gate jumps a battle may spill over
+// How far behind the watermark a battle may be and still be reopened by late killmails
+const BATTLE_LATE_GRACE_PERIOD = parseInt(process.env.BATTLE_LATE_GRACE_PERIOD_MINUTES || '120', 10) * 60 * 1000;
+
+const BATTLE_ID_NAMESPACE = '6f1c3a5e-2b7d-4c59-9a0e-8d3f4b2e1c7a';
+
+// Advisory lock key guarding the battle tables against clustering and re-clustering at once
+const CLUSTERING_LOCK_ID = 7304511;
+
+export interface ClustererOptions {
+  graph?: StargateGraph;
+  // Publishes battle lifecycle events; left out when replaying history
+  events?: BattleEventPublisher;
+  // Whether recently ended battles stored in the database may be picked up again
+  reopenStoredBattles?: boolean;
+  // Killmails whose pilot_ship_history counts are left as they are
+  skipShipHistory?: Set<number>;
+}
+
+interface ActiveBattle {
+  battleId: string;
+  startTime: Date;
+  lastKillmail: Date;
+  sides: Map<number, number>;
+  sideGraph: SideGraph;
+  pinnedSides: Map<number, number>;
+  systemIds: Set<number>;
+  grids: BattleGrids;
+  profile: BattleProfile;
+}
+
+/**
+ * Takes the clustering lock until the transaction ends. Live batches share
+ * it; re-clustering holds it alone, so it never rebuilds battles the live
+ * clusterer is extending.
+ */
+export async function lockClustering(db: DB, exclusive = false): Promise<void> {
+  if (exclusive) {
+    await sql`select pg_advisory_xact_lock(${CLUSTERING_LOCK_ID})`.execute(db);
+  } else {
+    await sql`select pg_advisory_xact_lock_shared(${CLUSTERING_LOCK_ID})`.execute(db);
+  }
+}
 
-function getSecurityType(securityStatus: number): string {
+export function getSecurityType(securityStatus: number): string {
   if (securityStatus >= 0.5) return 'highsec';
   if (securityStatus > 0.0) return 'lowsec';
   if (securityStatus <= 0.0 && securityStatus > -1.0) return 'nullsec';
   return 'wormhole';
 }
 
-function determineSideId(
-  victim: EnrichedKillmail['victim'],
-  attacker: EnrichedKillmail['attackers'][0],
-  existingSides: Map<number, number>
-): number {
-  // Use alliance if available, otherwise corporation
-  const victimAllianceId = victim.allianceId || victim.corporationId;
-  const attackerAllianceId = attacker.allianceId || attacker.corporationId || 0;
-
-  // Check if we've seen these alliances before
-  if (existingSides.has(victimAllianceId)) {
-    return existingSides.get(victimAllianceId)!;
-  }
-  if (existingSides.has(attackerAllianceId)) {
-    // Victim is on opposite side
-    const attackerSide = existingSides.get(attackerAllianceId)!;
-    return attackerSide === 1 ? 2 : 1;
+/**
+ * Whether a killmail falls within a battle's time window. Battles in the same
+ * system accept killmails up to the inactivity timeout either side of their
+ * kills; battles in neighbouring systems only within the battle time window.
+ * Within the same system, a killmail with a victim position must also be on
+ * one of the battle's grids.
+ */
+function battleAccepts(
+  battle: Pick<ActiveBattle, 'systemIds' | 'startTime' | 'lastKillmail' | 'grids'>,
+  systemId: number,
+  killmailTime: Date,
+  nearbySystems: Map<number, number>,
+  position?: Position
+): boolean {
+  let window: number;
+  if (battle.systemIds.has(systemId)) {
+    window = BATTLE_INACTIVITY_TIMEOUT;
+  } else if ([...battle.systemIds].some((id) => nearbySystems.has(id))) {
+    window = BATTLE_TIME_WINDOW;
+  } else {
+    return false;
   }
 
-  // New sides - assign victim to side 1, attackers to side 2
-  existingSides.set(victimAllianceId, 1);
-  if (attackerAllianceId) {
-    existingSides.set(attackerAllianceId, 2);
+  const time = killmailTime.getTime();
+  if (time < battle.startTime.getTime() - window || time > battle.lastKillmail.getTime() + window) {
+    return false;
   }
 
-  return 1; // Default to side 1 for victim
+  return isOnGrid(battle.grids, systemId, position);
+}
+
+function getSideId(sides: Map<number, number>, allianceId?: number | null, corporationId?: number | null): number | null {
+  const entityId = getEntityId(allianceId, corporationId);
+  return entityId ? sides.get(entityId) ?? null : null;
 }
 
 export class BattleClusterer {
   private db: DB;
-  private activeBattles: Map<string, { battleId: string; lastKillmail: Date; sides: Map<number, number> }> = new Map();
-
-  constructor(db: DB) {
+  private graph: StargateGraph;
+  private reopenStoredBattles: boolean;
+  private skipShipHistory: Set<number>;
+  private events: BattleEventPublisher | null;
+  private activeBattles: Map<string, ActiveBattle> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+  private maxEventTime: Date | null = null;
+  private lastEventReceivedAt = Date.now();
+  // Battle events and battles touched by the transaction in progress
+  private pendingEvents: Array<{ type: BattleEventType; battleId: string }> = [];
+  private touchedBattles: Set<string> = new Set();
+  // Battles with new killmails, re-partitioned into sides before the transaction commits
+  private staleSides: Set<ActiveBattle> = new Set();
+
+  constructor(db: DB, options: ClustererOptions = {}) {
     this.db = db;
+    this.graph = options.graph || getStargateGraph();
+    this.reopenStoredBattles = options.reopenStoredBattles ?? true;
+    this.skipShipHistory = options.skipShipHistory || new Set();
+    this.events = options.events || null;
   }
 
   async initialize(): Promise<void> {
@@ -99,163 +176,439 @@ export class BattleClusterer {
       .execute();
 
     for (const battle of activeBattles) {
-      const key = `${battle.system_id}`;
-      this.activeBattles.set(key, {
-        battleId: battle.id,
-        lastKillmail: new Date(battle.last_killmail_at),
-        sides: new Map(),
-      });
+      await this.activateBattle(this.db, battle);
+    }
 
-      // Load existing sides for this battle
-      const participants = await this.db
-        .selectFrom('battle_participants')
-        .select(['alliance_id', 'side_id'])
-        .where('battle_id', '=', battle.id)
-        .where('alliance_id', 'is not', null)
-        .execute();
+    // Resume the watermark from the latest killmail we've clustered
+    const latest = await this.db
+      .selectFrom('battles')
+      .select((eb) => eb.fn.max('last_killmail_at').as('last_killmail_at'))
+      .executeTakeFirst();
+    if (latest?.last_killmail_at) {
+      this.maxEventTime = new Date(latest.last_killmail_at);
+    }
 
-      const sidesMap = new Map<number, number>();
-      for (const p of participants) {
-        if (p.alliance_id && p.side_id) {
-          sidesMap.set(p.alliance_id, p.side_id);
+    logger.info(`Loaded ${activeBattles.length} active battles`);
+  }
+
+  /**
+   * Event-time watermark: the latest killmail time seen. While no killmails
+   * arrive at all it advances with the wall clock, so battles still end when
+   * the stream is idle, but it never runs ahead during a backfill or while
+   * working through a backlog.
+   */
+  getWatermark(): Date {
+    if (!this.maxEventTime) {
+      return new Date();
+    }
+    const idle = Math.max(0, Date.now() - this.lastEventReceivedAt);
+    return new Date(this.maxEventTime.getTime() + idle);
+  }
+
+  /**
+   * Runs a task once every killmail and correction queued before it has
+   * finished, so manual corrections never interleave with clustering.
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  processKillmail(killmail: EnrichedKillmail): Promise<void> {
+    return this.processKillmails([killmail]);
+  }
+
+  /**
+   * Clusters a batch of killmails in a single transaction. If the batch
+   * fails, each killmail is retried in its own transaction so one bad
+   * killmail doesn't hold up the rest.
+   */
+  processKillmails(killmails: EnrichedKillmail[]): Promise<void> {
+    return this.runExclusive(async () => {
+      try {
+        await this.inTransaction(async (db) => {
+          for (const killmail of killmails) {
+            await this.clusterKillmail(db, killmail);
+          }
+        });
+      } catch (error) {
+        // Inside someone else's transaction there's nothing left to retry in
+        if (killmails.length === 1 || this.db.isTransaction) {
+          throw error;
         }
+
+        logger.warn({ error, count: killmails.length }, 'Killmail batch failed, retrying one by one');
+        for (const killmail of killmails) {
+          try {
+            await this.inTransaction((db) => this.clusterKillmail(db, killmail));
+          } catch (error) {
+            logger.error({ error, killmailId: killmail.killmailId }, 'Failed to cluster killmail');
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Runs clustering work in a transaction, or in the one the clusterer was
+   * created with. Its own transactions share the clustering lock. Sides of
+   * the battles it added killmails to are inferred once, after the work.
+   * Battle events are held back until the work has committed. If it rolls
+   * back, the in-memory state of every battle it touched is reloaded from the
+   * database.
+   */
+  private async inTransaction(work: (db: DB) => Promise<void>): Promise<void> {
+    this.pendingEvents = [];
+    this.touchedBattles = new Set();
+    this.staleSides = new Set();
+
+    const run = async (db: DB) => {
+      await work(db);
+      for (const battle of this.staleSides) {
+        await this.updateSides(db, battle);
+      }
+    };
+
+    try {
+      if (this.db.isTransaction) {
+        await run(this.db);
+      } else {
+        await this.db.transaction().execute(async (trx) => {
+          await lockClustering(trx);
+          await run(trx);
+        });
       }
-      this.activeBattles.get(key)!.sides = sidesMap;
+    } catch (error) {
+      // A transaction we were handed is the caller's to roll back and clean up after
+      if (!this.db.isTransaction) {
+        await this.restoreBattles([...this.touchedBattles]);
+      }
+      throw error;
     }
 
-    logger.info(`Loaded ${activeBattles.length} active battles`);
+    for (const { type, battleId } of this.pendingEvents) {
+      if (type === 'battle.created') await this.events?.battleCreated(battleId);
+      if (type === 'battle.updated') await this.events?.battleUpdated(battleId);
+      if (type === 'battle.ended') await this.events?.battleEnded(battleId);
+    }
+  }
+
+  private queueEvent(type: BattleEventType, battleId: string): void {
+    this.pendingEvents.push({ type, battleId });
+  }
+
+  private async restoreBattles(battleIds: string[]): Promise<void> {
+    for (const battleId of battleIds) {
+      this.activeBattles.delete(battleId);
+
+      const battle = await this.db.selectFrom('battles').selectAll().where('id', '=', battleId).executeTakeFirst();
+      if (battle && battle.end_time === null) {
+        await this.activateBattle(this.db, battle);
+      }
+    }
   }
 
-  async processKillmail(killmail: EnrichedKillmail): Promise<void> {
-    const systemKey = `${killmail.solarSystemId}`;
+  private async clusterKillmail(db: DB, killmail: EnrichedKillmail): Promise<void> {
+    // A redelivered killmail may no longer match the battle it's stored in, which has ended since
+    const stored = await db
+      .selectFrom('battle_killmails')
+      .select('battle_id')
+      .where('killmail_id', '=', killmail.killmailId)
+      .executeTakeFirst();
+    if (stored) {
+      logger.debug(`Killmail ${killmail.killmailId} is already in battle ${stored.battle_id}, skipping`);
+      return;
+    }
+
     const killmailTime = new Date(killmail.killmailTime);
+    const nearbySystems = this.graph.getSystemsWithinJumps(killmail.solarSystemId, BATTLE_MAX_JUMPS);
 
-    // Check if there's an active battle for this system
-    const activeBattle = this.activeBattles.get(systemKey);
+    this.lastEventReceivedAt = Date.now();
+    if (!this.maxEventTime || killmailTime > this.maxEventTime) {
+      this.maxEventTime = killmailTime;
+    }
 
-    if (activeBattle) {
-      const timeSinceLastKill = killmailTime.getTime() - activeBattle.lastKillmail.getTime();
+    const override = await db
+      .selectFrom('battle_killmail_overrides')
+      .select('battle_id')
+      .where('killmail_id', '=', killmail.killmailId)
+      .executeTakeFirst();
 
-      // Check if battle should end (30 min inactivity)
-      if (timeSinceLastKill > BATTLE_INACTIVITY_TIMEOUT) {
-        await this.endBattle(activeBattle.battleId);
-        this.activeBattles.delete(systemKey);
-        // Create new battle
-        await this.createNewBattle(killmail);
-      } else {
-        // Add to existing battle
-        await this.addKillmailToBattle(activeBattle.battleId, killmail, activeBattle.sides);
-        activeBattle.lastKillmail = killmailTime;
-      }
+    let battle: ActiveBattle | null = null;
+    if (override) {
+      // Killmails moved by hand always go to the battle they were moved to
+      battle = await this.getPinnedBattle(db, override.battle_id);
     } else {
-      // Check if there's a recent battle we can join (within 5 minutes)
-      const recentBattle = await this.findRecentBattle(killmail.solarSystemId, killmailTime);
-
-      if (recentBattle) {
-        // Reactivate the battle
-        const sidesMap = new Map<number, number>();
-        const participants = await this.db
-          .selectFrom('battle_participants')
-          .select(['alliance_id', 'side_id'])
-          .where('battle_id', '=', recentBattle.id)
-          .where('alliance_id', 'is not', null)
-          .execute();
-
-        for (const p of participants) {
-          if (p.alliance_id && p.side_id) {
-            sidesMap.set(p.alliance_id, p.side_id);
-          }
+      // Check if there's an active battle in this system or within jump range
+      const position = killmail.victim.position;
+      battle = this.findActiveBattle(killmail.solarSystemId, killmailTime, nearbySystems, position);
+
+      if (!battle && this.reopenStoredBattles) {
+        // Late or out-of-order killmail for a battle that has already ended
+        const storedBattle = await this.findStoredBattle(
+          db,
+          killmail.solarSystemId,
+          killmailTime,
+          nearbySystems,
+          position
+        );
+        if (storedBattle) {
+          battle = await this.reopenBattle(db, storedBattle);
         }
+      }
+    }
 
-        this.activeBattles.set(systemKey, {
-          battleId: recentBattle.id,
-          lastKillmail: killmailTime,
-          sides: sidesMap,
-        });
+    if (!battle && !override) {
+      // A killmail moved into this killmail's battle by hand may have created it already
+      battle = await this.getPinnedBattle(db, getBattleId(killmail.killmailId));
+    }
 
-        await this.addKillmailToBattle(recentBattle.id, killmail, sidesMap);
-      } else {
-        // Create new battle
-        await this.createNewBattle(killmail);
-      }
+    if (battle) {
+      await this.addKillmailToBattle(db, battle, killmail);
+      this.queueEvent('battle.updated', battle.battleId);
+    } else {
+      battle = await this.createNewBattle(db, killmail, override?.battle_id);
+      this.queueEvent('battle.created', battle.battleId);
+    }
+
+    // Killmails further behind than the grace period are still clustered, but
+    // a battle that has been over for that long doesn't stay open because of them
+    if (this.getWatermark().getTime() - battle.lastKillmail.getTime() > BATTLE_LATE_GRACE_PERIOD) {
+      await this.endBattle(db, battle);
     }
   }
 
-  private async findRecentBattle(systemId: number, killmailTime: Date) {
-    const cutoffTime = new Date(killmailTime.getTime() - BATTLE_TIME_WINDOW);
+  /**
+   * Finds the active battle a killmail belongs to, preferring the one with the
+   * most recent activity.
+   */
+  private findActiveBattle(
+    systemId: number,
+    killmailTime: Date,
+    nearbySystems: Map<number, number>,
+    position?: Position
+  ): ActiveBattle | null {
+    let match: ActiveBattle | null = null;
+
+    for (const battle of this.activeBattles.values()) {
+      if (!battleAccepts(battle, systemId, killmailTime, nearbySystems, position)) {
+        continue;
+      }
+      if (!match || battle.lastKillmail > match.lastKillmail) {
+        match = battle;
+      }
+    }
+
+    return match;
+  }
 
-    return this.db
+  private async findStoredBattle(
+    db: DB,
+    systemId: number,
+    killmailTime: Date,
+    nearbySystems: Map<number, number>,
+    position?: Position
+  ) {
+    const earliest = new Date(killmailTime.getTime() - BATTLE_INACTIVITY_TIMEOUT);
+    const latest = new Date(killmailTime.getTime() + BATTLE_INACTIVITY_TIMEOUT);
+
+    const candidates = await db
       .selectFrom('battles')
       .selectAll()
-      .where('system_id', '=', systemId)
-      .where('last_killmail_at', '>=', cutoffTime)
+      .where(sql<boolean>`system_ids && ${[...nearbySystems.keys()]}::bigint[]`)
+      .where('end_time', 'is not', null)
+      .where('start_time', '<=', latest)
+      .where('last_killmail_at', '>=', earliest)
       .orderBy('last_killmail_at', 'desc')
-      .executeTakeFirst();
+      .execute();
+
+    // Grids only matter for killmails that have a position
+    const candidateIds = candidates.map((c) => c.id);
+    const grids = position ? await loadBattleGrids(db, candidateIds) : new Map<string, BattleGrids>();
+
+    return candidates.find((candidate) =>
+      battleAccepts(
+        {
+          systemIds: getBattleSystemIds(candidate),
+          startTime: new Date(candidate.start_time),
+          lastKillmail: new Date(candidate.last_killmail_at),
+          grids: grids.get(candidate.id) || new Map(),
+        },
+        systemId,
+        killmailTime,
+        nearbySystems,
+        position
+      )
+    );
   }
 
-  private async createNewBattle(killmail: EnrichedKillmail): Promise<string> {
-    const battleId = uuidv4();
-    const systemKey = `${killmail.solarSystemId}`;
+  private async getPinnedBattle(db: DB, battleId: string): Promise<ActiveBattle | null> {
+    const active = this.activeBattles.get(battleId);
+    if (active) {
+      return active;
+    }
+
+    const stored = await db.selectFrom('battles').selectAll().where('id', '=', battleId).executeTakeFirst();
+    return stored ? this.reopenBattle(db, stored) : null;
+  }
+
+  private async reopenBattle(db: DB, battle: Selectable<BattlesTable>): Promise<ActiveBattle> {
+    await db.updateTable('battles').set({ end_time: null }).where('id', '=', battle.id).execute();
+    logger.info(`Reopened battle ${battle.id}`);
+    return this.activateBattle(db, battle);
+  }
+
+  private async activateBattle(db: DB, battle: {
+    id: string;
+    system_id: number;
+    system_ids: number[] | null;
+    start_time: Date;
+    last_killmail_at: Date;
+  }): Promise<ActiveBattle> {
+    this.touchedBattles.add(battle.id);
+    const active: ActiveBattle = {
+      battleId: battle.id,
+      startTime: new Date(battle.start_time),
+      lastKillmail: new Date(battle.last_killmail_at),
+      ...(await loadBattleSideState(db, battle.id)),
+      systemIds: getBattleSystemIds(battle),
+      grids: (await loadBattleGrids(db, [battle.id])).get(battle.id) || new Map(),
+      profile: await loadBattleProfile(db, battle.id),
+    };
+    this.activeBattles.set(battle.id, active);
+    return active;
+  }
+
+  /**
+   * Re-partitions the battle after new killmails and moves every group whose
+   * side changed, on both its participants and the killmails it lost. Groups
+   * new to the battle were stored without a side and get theirs too.
+   */
+  private async updateSides(db: DB, battle: ActiveBattle): Promise<void> {
+    const next = battle.sideGraph.partition(battle.sides, battle.pinnedSides);
+    const moved = diffSides(battle.sides, next, true);
+    const reassigned = [...moved.values()].flat().filter((entityId) => battle.sides.has(entityId)).length;
+
+    battle.sides = next;
+    await writeBattleSides(db, battle.battleId, moved);
+
+    if (reassigned > 0) {
+      logger.info(`Reassigned sides for ${reassigned} groups in battle ${battle.battleId}`);
+    }
+  }
+
+  private async createNewBattle(db: DB, killmail: EnrichedKillmail, pinnedBattleId?: string): Promise<ActiveBattle> {
+    const battleId = pinnedBattleId || getBattleId(killmail.killmailId);
     const securityType = getSecurityType(killmail.securityStatus);
+    this.touchedBattles.add(battleId);
 
-    await this.db
+    await db
       .insertInto('battles')
       .values({
         id: battleId,
         system_id: killmail.solarSystemId,
+        system_ids: [killmail.solarSystemId],
         system_name: killmail.systemName,
+        region_id: killmail.regionId || this.graph.getSystem(killmail.solarSystemId)?.regionId || null,
         region_name: killmail.regionName,
         security_type: securityType,
         start_time: new Date(killmail.killmailTime),
         last_killmail_at: new Date(killmail.killmailTime),
-        total_kills: 1,
-        total_isk_destroyed: BigInt(killmail.zkb?.totalValue || 0),
+        // Counted when the killmail is added below
+        total_kills: 0,
+        total_isk_destroyed: BigInt(0),
         zkill_related_url: `https://zkillboard.com/system/${killmail.solarSystemId}/`,
         created_at: new Date(),
         updated_at: new Date(),
       })
       .execute();
 
-    const sidesMap = new Map<number, number>();
-    this.activeBattles.set(systemKey, {
+    const battle: ActiveBattle = {
       battleId,
+      startTime: new Date(killmail.killmailTime),
       lastKillmail: new Date(killmail.killmailTime),
-      sides: sidesMap,
-    });
-
-    await this.addKillmailToBattle(battleId, killmail, sidesMap);
+      sides: new Map(),
+      sideGraph: new SideGraph(),
+      // Imported battles have their sides pinned before their first killmail arrives
+      pinnedSides: pinnedBattleId ? (await loadBattleSideState(db, battleId)).pinnedSides : new Map(),
+      systemIds: new Set([killmail.solarSystemId]),
+      grids: new Map(),
+      profile: new BattleProfile(),
+    };
+    this.activeBattles.set(battleId, battle);
+
+    await this.addKillmailToBattle(db, battle, killmail);
 
     logger.info(`Created new battle ${battleId} in ${killmail.systemName}`);
-    return battleId;
+    return battle;
   }
 
-  private async addKillmailToBattle(
-    battleId: string,
-    killmail: EnrichedKillmail,
-    sides: Map<number, number>
-  ): Promise<void> {
-    const victimSideId = determineSideId(killmail.victim, killmail.attackers[0] || {}, sides);
-    const attackerSideId = victimSideId === 1 ? 2 : 1;
+  private async addKillmailToBattle(db: DB, battle: ActiveBattle, killmail: EnrichedKillmail): Promise<void> {
+    const { battleId } = battle;
+    const killmailTime = new Date(killmail.killmailTime);
+    this.touchedBattles.add(battleId);
+
+    // Sides are those before this batch; groups that move or are new get theirs once it's in
+    const victimSideId = getSideId(battle.sides, killmail.victim.allianceId, killmail.victim.corporationId);
 
     // Insert battle_killmails
-    await this.db
+    const inserted = await db
       .insertInto('battle_killmails')
       .values({
         battle_id: battleId,
         killmail_id: killmail.killmailId,
         occurred_at: new Date(killmail.killmailTime),
+        system_id: killmail.solarSystemId,
         ship_type_name: killmail.victim.shipTypeName || null,
         victim_name: killmail.victim.characterName || null,
         victim_alliance_name: killmail.victim.allianceName || null,
         isk_value: BigInt(killmail.zkb?.totalValue || 0),
         side_id: victimSideId,
+        victim_character_id: killmail.victim.characterId || null,
+        victim_ship_type_id: killmail.victim.shipTypeId,
+        victim_corp_id: killmail.victim.corporationId,
+        victim_alliance_id: killmail.victim.allianceId || null,
+        position_x: killmail.victim.position?.x ?? null,
+        position_y: killmail.victim.position?.y ?? null,
+        position_z: killmail.victim.position?.z ?? null,
+        is_solo: killmail.zkb?.solo ?? killmail.attackers.length === 1,
+        attackers: JSON.stringify(
+          killmail.attackers.map((attacker) => ({
+            characterId: attacker.characterId,
+            corporationId: attacker.corporationId,
+            allianceId: attacker.allianceId,
+            shipTypeId: attacker.shipTypeId,
+            weaponTypeId: attacker.weaponTypeId,
+            damageDone: attacker.damageDone,
+            finalBlow: attacker.finalBlow,
+          }))
+        ),
       })
       .onConflict((oc) => oc.doNothing())
-      .execute();
+      .executeTakeFirst();
+
+    // A redelivered killmail is already counted in every total below
+    if (Number(inserted.numInsertedOrUpdatedRows ?? 0) === 0) {
+      logger.debug(`Killmail ${killmail.killmailId} is already in battle ${battleId}`);
+      return;
+    }
+
+    // Sides are inferred from every killmail in the battle, not just this one
+    battle.sideGraph.addKillmail(killmail);
+    this.staleSides.add(battle);
+
+    // One bulk upsert for the victim and every attacker. A pilot can only be
+    // written once per statement, so the last ship they appear in wins.
+    const participants = new Map<number, Insertable<BattleParticipantsTable>>();
+    const shipHistory: ShipHistoryEntry[] = [];
 
-    // Insert/update victim participant
     if (killmail.victim.characterId) {
-      await this.upsertParticipant(battleId, {
+      participants.set(killmail.victim.characterId, {
+        battle_id: battleId,
         character_id: killmail.victim.characterId,
         character_name: killmail.victim.characterName || null,
         alliance_id: killmail.victim.allianceId || null,
@@ -267,21 +620,19 @@ export class BattleClusterer {
         side_id: victimSideId,
         is_victim: true,
       });
-
-      // Update ship history for victim (loss)
-      await this.updateShipHistory(
-        killmail.victim.characterId,
-        killmail.victim.shipTypeId,
-        killmail.victim.shipTypeName || 'Unknown',
-        new Date(killmail.killmailTime),
-        { isLoss: true }
-      );
+      shipHistory.push({
+        characterId: killmail.victim.characterId,
+        shipTypeId: killmail.victim.shipTypeId,
+        shipTypeName: killmail.victim.shipTypeName || 'Unknown',
+        kills: 0,
+        losses: 1,
+      });
     }
 
-    // Insert/update attacker participants
     for (const attacker of killmail.attackers) {
       if (attacker.characterId && attacker.shipTypeId) {
-        await this.upsertParticipant(battleId, {
+        participants.set(attacker.characterId, {
+          battle_id: battleId,
           character_id: attacker.characterId,
           character_name: attacker.characterName || null,
           alliance_id: attacker.allianceId || null,
@@ -290,122 +641,214 @@ export class BattleClusterer {
           corp_name: attacker.corporationName || null,
           ship_type_id: attacker.shipTypeId,
           ship_type_name: attacker.shipTypeName || null,
-          side_id: attackerSideId,
+          side_id: getSideId(battle.sides, attacker.allianceId, attacker.corporationId),
           is_victim: false,
         });
-
-        // Update ship history for attacker (kill)
-        await this.updateShipHistory(
-          attacker.characterId,
-          attacker.shipTypeId,
-          attacker.shipTypeName || 'Unknown',
-          new Date(killmail.killmailTime),
-          { isKill: true }
-        );
+        shipHistory.push({
+          characterId: attacker.characterId,
+          shipTypeId: attacker.shipTypeId,
+          shipTypeName: attacker.shipTypeName || 'Unknown',
+          kills: 1,
+          losses: 0,
+        });
       }
     }
 
+    await upsertParticipants(db, [...participants.values()]);
+    if (!this.skipShipHistory.has(killmail.killmailId)) {
+      await incrementShipHistory(db, shipHistory, killmailTime);
+    }
+
+    battle.profile.addKillmail({ ...killmail, iskValue: killmail.zkb?.totalValue || 0 });
+
     // Update battle stats
-    await this.db
+    await db
       .updateTable('battles')
       .set({
         total_kills: (eb) => eb('total_kills', '+', 1),
         total_isk_destroyed: (eb) => eb('total_isk_destroyed', '+', BigInt(killmail.zkb?.totalValue || 0)),
-        last_killmail_at: new Date(killmail.killmailTime),
+        total_pilots: countBattlePilots(battleId),
+        // Killmails can arrive out of order, so the battle may grow in either direction
+        start_time: sql`least(start_time, ${killmailTime})`,
+        last_killmail_at: sql`greatest(last_killmail_at, ${killmailTime})`,
+        ...battle.profile.classify(),
       })
       .where('id', '=', battleId)
       .execute();
-  }
 
-  private async upsertParticipant(battleId: string, participant: {
-    character_id: number;
-    character_name: string | null;
-    alliance_id: number | null;
-    alliance_name: string | null;
-    corp_id: number | null;
-    corp_name: string | null;
-    ship_type_id: number | null;
-    ship_type_name: string | null;
-    side_id: number;
-    is_victim: boolean;
-  }): Promise<void> {
-    await this.db
-      .insertInto('battle_participants')
-      .values({
-        battle_id: battleId,
-        ...participant,
-      })
-      .onConflict((oc) =>
-        oc.columns(['battle_id', 'character_id']).doUpdateSet({
-          // Update ship if they changed ships during the battle
-          ship_type_id: participant.ship_type_id,
-          ship_type_name: participant.ship_type_name,
-        })
-      )
-      .execute();
-  }
-
-  private async updateShipHistory(
-    characterId: number,
-    shipTypeId: number,
-    shipTypeName: string,
-    timestamp: Date,
-    stats: { isKill?: boolean; isLoss?: boolean }
-  ): Promise<void> {
-    const existing = await this.db
-      .selectFrom('pilot_ship_history')
-      .selectAll()
-      .where('character_id', '=', characterId)
-      .where('ship_type_id', '=', shipTypeId)
-      .executeTakeFirst();
-
-    if (existing) {
-      await this.db
-        .updateTable('pilot_ship_history')
-        .set({
-          last_seen: timestamp,
-          kill_count: stats.isKill ? existing.kill_count + 1 : existing.kill_count,
-          loss_count: stats.isLoss ? existing.loss_count + 1 : existing.loss_count,
-        })
-        .where('character_id', '=', characterId)
-        .where('ship_type_id', '=', shipTypeId)
-        .execute();
-    } else {
-      await this.db
-        .insertInto('pilot_ship_history')
-        .values({
-          character_id: characterId,
-          ship_type_id: shipTypeId,
-          ship_type_name: shipTypeName,
-          first_seen: timestamp,
-          last_seen: timestamp,
-          kill_count: stats.isKill ? 1 : 0,
-          loss_count: stats.isLoss ? 1 : 0,
-        })
+    addToGrids(battle.grids, killmail.solarSystemId, killmail.victim.position);
+    if (killmailTime < battle.startTime) battle.startTime = killmailTime;
+    if (killmailTime > battle.lastKillmail) battle.lastKillmail = killmailTime;
+
+    // Record the system if the fight spilled over a gate
+    if (!battle.systemIds.has(killmail.solarSystemId)) {
+      battle.systemIds.add(killmail.solarSystemId);
+      await db
+        .updateTable('battles')
+        .set({ system_ids: [...battle.systemIds] })
+        .where('id', '=', battleId)
         .execute();
+
+      logger.info(`Battle ${battleId} spilled over into ${killmail.systemName}`);
     }
   }
 
-  private async endBattle(battleId: string): Promise<void> {
-    await this.db
+  /**
+   * Ends a battle in event time: a battle is over one inactivity timeout
+   * after its last killmail, regardless of when we noticed.
+   */
+  private async endBattle(db: DB, battle: ActiveBattle): Promise<void> {
+    this.touchedBattles.add(battle.battleId);
+    await db
       .updateTable('battles')
-      .set({ end_time: new Date() })
-      .where('id', '=', battleId)
+      .set({ end_time: new Date(battle.lastKillmail.getTime() + BATTLE_INACTIVITY_TIMEOUT) })
+      .where('id', '=', battle.battleId)
       .execute();
+    this.activeBattles.delete(battle.battleId);
+    this.queueEvent('battle.ended', battle.battleId);
 
-    logger.info(`Ended battle ${battleId}`);
+    logger.info(`Ended battle ${battle.battleId}`);
   }
 
-  async checkInactiveBattles(): Promise<void> {
-    const now = new Date();
+  checkInactiveBattles(): Promise<void> {
+    return this.runExclusive(() =>
+      this.inTransaction(async (db) => {
+        const watermark = this.getWatermark();
 
-    for (const [systemKey, battle] of this.activeBattles.entries()) {
-      const timeSinceLastKill = now.getTime() - battle.lastKillmail.getTime();
+        for (const battle of [...this.activeBattles.values()]) {
+          const timeSinceLastKill = watermark.getTime() - battle.lastKillmail.getTime();
 
-      if (timeSinceLastKill > BATTLE_INACTIVITY_TIMEOUT) {
-        await this.endBattle(battle.battleId);
-        this.activeBattles.delete(systemKey);
+          if (timeSinceLastKill > BATTLE_INACTIVITY_TIMEOUT) {
+            await this.endBattle(db, battle);
+          }
+        }
+      })
+    );
+  }
+
+  /**
+   * Ends every active battle, used once a replay has run out of killmails.
+   */
+  closeAllBattles(): Promise<void> {
+    return this.runExclusive(() =>
+      this.inTransaction(async (db) => {
+        for (const battle of [...this.activeBattles.values()]) {
+          await this.endBattle(db, battle);
+        }
+      })
+    );
+  }
+
+  /**
+   * Reloads the in-memory state of battles changed outside the clusterer.
+   * Must be called from within `runExclusive`.
+   */
+  async reloadBattles(battleIds: string[]): Promise<void> {
+    for (const battleId of battleIds) {
+      this.activeBattles.delete(battleId);
+
+      const battle = await this.db.selectFrom('battles').selectAll().where('id', '=', battleId).executeTakeFirst();
+      if (!battle) {
+        continue;
       }
+
+      if (battle.end_time === null) {
+        await this.activateBattle(this.db, battle);
+      }
+      await this.events?.battleUpdated(battleId);
+    }
+  }
+}
+
+// Battle IDs are derived from the first killmail so re-clustering is deterministic
+export function getBattleId(killmailId: number): string {
+  return uuidv5(`${killmailId}`, BATTLE_ID_NAMESPACE);
+}
+
+// Recounts a battle's pilots from its participants, for the battles.total_pilots column
+export function countBattlePilots(battleId: string) {
+  return sql<number>`(select count(*) from battle_participants where battle_participants.battle_id = ${battleId})`;
+}
+
+function getBattleSystemIds(battle: { system_id: number; system_ids: number[] | null }): Set<number> {
+  // bigint columns come back from pg as strings
+  const systemIds = (battle.system_ids || []).map(Number);
+  return new Set(systemIds.length > 0 ? systemIds : [Number(battle.system_id)]);
+}
+
+interface ShipHistoryEntry {
+  characterId: number;
+  shipTypeId: number;
+  shipTypeName: string;
+  kills: number;
+  losses: number;
+}
+
+/**
+ * Bulk-upserts battle participants. Pilots already in the battle only get
+ * their ship updated, in case they changed ships during the battle.
+ */
+async function upsertParticipants(db: DB, participants: Insertable<BattleParticipantsTable>[]): Promise<void> {
+  if (participants.length === 0) {
+    return;
+  }
+
+  await db
+    .insertInto('battle_participants')
+    .values(participants)
+    .onConflict((oc) =>
+      oc.columns(['battle_id', 'character_id']).doUpdateSet((eb) => ({
+        ship_type_id: eb.ref('excluded.ship_type_id'),
+        ship_type_name: eb.ref('excluded.ship_type_name'),
+      }))
+    )
+    .execute();
+}
+
+/**
+ * Adds kills and losses to pilot_ship_history in one statement. Counts are
+ * incremented by the database rather than read and written back, so
+ * concurrent writers can't lose updates.
+ */
+async function incrementShipHistory(db: DB, entries: ShipHistoryEntry[], seenAt: Date): Promise<void> {
+  // A statement may only touch each row once
+  const rows = new Map<string, ShipHistoryEntry>();
+  for (const entry of entries) {
+    const key = `${entry.characterId}:${entry.shipTypeId}`;
+    const row = rows.get(key);
+    if (row) {
+      row.kills += entry.kills;
+      row.losses += entry.losses;
+    } else {
+      rows.set(key, { ...entry });
     }
   }
+
+  if (rows.size === 0) {
+    return;
+  }
+
+  await db
+    .insertInto('pilot_ship_history')
+    .values(
+      [...rows.values()].map((row) => ({
+        character_id: row.characterId,
+        ship_type_id: row.shipTypeId,
+        ship_type_name: row.shipTypeName,
+        first_seen: seenAt,
+        last_seen: seenAt,
+        kill_count: row.kills,
+        loss_count: row.losses,
+      }))
+    )
+    .onConflict((oc) =>
+      oc.columns(['character_id', 'ship_type_id']).doUpdateSet({
+        // Killmails can arrive out of order
+        first_seen: sql`least(pilot_ship_history.first_seen, excluded.first_seen)`,
+        last_seen: sql`greatest(pilot_ship_history.last_seen, excluded.last_seen)`,
+        kill_count: sql`pilot_ship_history.kill_count + excluded.kill_count`,
+        loss_count: sql`pilot_ship_history.loss_count + excluded.loss_count`,
+      })
+    )
+    .execute();
 }
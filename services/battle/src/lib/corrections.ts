@@ -0,0 +1,573 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createLogger } from '@battlescope/logger';
+import type { DB } from '../database/types';
+import {
+  BATTLE_INACTIVITY_TIMEOUT,
+  countBattlePilots,
+  getBattleId,
+  getSecurityType,
+  type BattleClusterer,
+} from './clusterer';
+import { diffSides, loadBattleSideState, writeBattleSides } from './battle-sides';
+import { loadBattleProfile } from './battle-classification';
+import type { AuditLogEntry, AuthClient } from './auth-client';
+import { ChangeError, runAuditedChange, sendAuditLog } from './audited-change';
+import type { BattleImport } from './battle-import';
+import { IngestionClient } from './ingestion-client';
+import { getStargateGraph } from './stargate-graph';
+
+const logger = createLogger({ serviceName: 'battle-corrections' });
+
+// Keeps the override rows in one insert well under the bind parameter limit
+const OVERRIDE_INSERT_CHUNK = 1000;
+
+/**
+ * Manual corrections to the clusterer's output. Every correction is stored as
+ * an override (killmail-to-battle or alliance-to-side) that the clusterer and
+ * re-clustering honour, and applied to the stored battles straight away. Its
+ * audit log entry is stored with it and sent once it's committed.
+ */
+
+export interface CorrectionContext {
+  db: DB;
+  actorAccountId: string | null;
+  // Live clusterer to keep in sync, if one runs in this process
+  clusterer?: BattleClusterer | null;
+  auth?: AuthClient;
+  ingestion?: IngestionClient;
+}
+
+export interface ImportResult {
+  battleId: string;
+  // Killmails BattleScope already had, moved into the battle
+  moved: number[];
+  // Killmails sent to ingestion, which join the battle once enriched
+  queued: number[];
+  // Killmails ingestion had already enriched, but that no battle holds
+  skipped: number[];
+  // Killmails ingestion failed to queue, which won't reach the battle until they're queued again
+  failed: number[];
+  // Killmails BattleScope doesn't have and that came without a hash
+  unresolved: number[];
+}
+
+export interface SidePin {
+  // Alliance ID, or corporation ID for corporations without an alliance
+  entityId: number;
+  // null removes the pin
+  sideId: number | null;
+}
+
+/**
+ * Runs a correction in a transaction that stores its audit log entry, then
+ * reloads the live clusterer's state for the battles it touched. The entry
+ * is sent after the clusterer is released.
+ */
+async function runCorrection(
+  ctx: CorrectionContext,
+  audit: Omit<AuditLogEntry, 'actorAccountId'>,
+  change: (trx: DB) => Promise<string[]>
+): Promise<string[]> {
+  const entry = { ...audit, actorAccountId: ctx.actorAccountId };
+
+  const apply = async () => {
+    const battleIds = await runAuditedChange(ctx.db, entry, change);
+    await ctx.clusterer?.reloadBattles(battleIds);
+    logger.info(entry, 'Applied battle correction');
+    return battleIds;
+  };
+
+  const battleIds = await (ctx.clusterer ? ctx.clusterer.runExclusive(apply) : apply());
+  await sendAuditLog(ctx.db, ctx.auth);
+  return battleIds;
+}
+
+async function getBattle(db: DB, battleId: string) {
+  const battle = await db.selectFrom('battles').selectAll().where('id', '=', battleId).executeTakeFirst();
+  if (!battle) {
+    throw new ChangeError(`Battle ${battleId} not found`, 404);
+  }
+  return battle;
+}
+
+/**
+ * Moves killmails between two battles, pinning them to the target, and
+ * carries over the participants involved.
+ */
+async function moveKillmails(
+  db: DB,
+  fromBattleId: string,
+  toBattleId: string,
+  killmailIds: number[],
+  actorAccountId: string | null
+): Promise<void> {
+  const killmails = await db
+    .updateTable('battle_killmails')
+    .set({ battle_id: toBattleId })
+    .where('battle_id', '=', fromBattleId)
+    .where('killmail_id', 'in', killmailIds)
+    .returning(['killmail_id', 'victim_character_id', 'attackers'])
+    .execute();
+
+  for (const km of killmails) {
+    await db
+      .insertInto('battle_killmail_overrides')
+      .values({ killmail_id: km.killmail_id, battle_id: toBattleId, created_by: actorAccountId })
+      .onConflict((oc) =>
+        oc.column('killmail_id').doUpdateSet({ battle_id: toBattleId, created_by: actorAccountId, created_at: new Date() })
+      )
+      .execute();
+  }
+
+  const characterIds = getCharacterIds(killmails);
+  if (characterIds.length > 0) {
+    const participants = await db
+      .selectFrom('battle_participants')
+      .selectAll()
+      .where('battle_id', '=', fromBattleId)
+      .where('character_id', 'in', characterIds)
+      .execute();
+
+    for (const participant of participants) {
+      await db
+        .insertInto('battle_participants')
+        .values({ ...participant, battle_id: toBattleId })
+        .onConflict((oc) => oc.columns(['battle_id', 'character_id']).doNothing())
+        .execute();
+    }
+  }
+
+  // Drop participants that were only in the moved killmails
+  const remaining = await db
+    .selectFrom('battle_killmails')
+    .select(['victim_character_id', 'attackers'])
+    .where('battle_id', '=', fromBattleId)
+    .execute();
+  const remainingIds = getCharacterIds(remaining);
+
+  let prune = db.deleteFrom('battle_participants').where('battle_id', '=', fromBattleId);
+  if (remainingIds.length > 0) {
+    prune = prune.where('character_id', 'not in', remainingIds);
+  }
+  await prune.execute();
+}
+
+function getCharacterIds(
+  killmails: Array<{ victim_character_id: number | null; attackers: Array<{ characterId?: number }> | null }>
+): number[] {
+  const ids = new Set<number>();
+  for (const km of killmails) {
+    if (km.victim_character_id) ids.add(Number(km.victim_character_id));
+    for (const attacker of km.attackers || []) {
+      if (attacker.characterId) ids.add(attacker.characterId);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Recomputes a battle's totals, time range, systems and sides from the
+ * killmails it holds after a correction. Battles left without killmails are
+ * deleted. Ended battles end one inactivity timeout after their last kill.
+ */
+async function recomputeBattle(db: DB, battleId: string, active: boolean): Promise<void> {
+  const battle = await getBattle(db, battleId);
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select(['occurred_at', 'system_id', 'isk_value'])
+    .where('battle_id', '=', battleId)
+    .orderBy('occurred_at', 'asc')
+    .orderBy('killmail_id', 'asc')
+    .execute();
+
+  if (killmails.length === 0) {
+    await db.deleteFrom('battles').where('id', '=', battleId).execute();
+    await db.deleteFrom('battle_side_overrides').where('battle_id', '=', battleId).execute();
+    return;
+  }
+
+  const systemIds = [...new Set(killmails.map((km) => Number(km.system_id ?? battle.system_id)))];
+  const systemId = systemIds[0];
+  const startTime = killmails[0].occurred_at;
+  const lastKillmailAt = killmails[killmails.length - 1].occurred_at;
+
+  // The battle now starts somewhere else, e.g. the later half of a split
+  let location = {};
+  const system = getStargateGraph().getSystem(systemId);
+  if (systemId !== Number(battle.system_id) && system) {
+    location = {
+      system_name: system.name,
+      region_id: system.regionId,
+      region_name: getStargateGraph().getRegionName(system.regionId) || battle.region_name,
+      security_type: getSecurityType(system.security),
+      zkill_related_url: `https://zkillboard.com/system/${systemId}/`,
+    };
+  }
+
+  const profile = await loadBattleProfile(db, battleId);
+
+  await db
+    .updateTable('battles')
+    .set({
+      ...location,
+      ...profile.classify(),
+      system_id: systemId,
+      system_ids: systemIds,
+      start_time: startTime,
+      last_killmail_at: lastKillmailAt,
+      end_time: active ? null : new Date(lastKillmailAt.getTime() + BATTLE_INACTIVITY_TIMEOUT),
+      total_kills: killmails.length,
+      total_isk_destroyed: killmails.reduce((sum, km) => sum + BigInt(km.isk_value || 0), BigInt(0)),
+      total_pilots: countBattlePilots(battleId),
+    })
+    .where('id', '=', battleId)
+    .execute();
+
+  const { sides, sideGraph, pinnedSides } = await loadBattleSideState(db, battleId);
+  await writeBattleSides(db, battleId, diffSides(sides, sideGraph.partition(sides, pinnedSides), true));
+}
+
+/**
+ * Merges `sourceBattleId` into `battleId`. Side pins of the source battle are
+ * kept unless they conflict with the target's own.
+ */
+export async function mergeBattles(ctx: CorrectionContext, battleId: string, sourceBattleId: string): Promise<string[]> {
+  if (battleId === sourceBattleId) {
+    throw new ChangeError('Cannot merge a battle into itself');
+  }
+
+  return runCorrection(
+    ctx,
+    { action: 'battle.merge', targetType: 'battle', targetId: battleId, metadata: { sourceBattleId } },
+    async (trx) => {
+      const target = await getBattle(trx, battleId);
+      const source = await getBattle(trx, sourceBattleId);
+
+      // The target's killmails are pinned too: if the source started earlier, a
+      // rebuild creates the target battle from the source's first killmail
+      const targetKillmails = await trx
+        .selectFrom('battle_killmails')
+        .select('killmail_id')
+        .where('battle_id', '=', battleId)
+        .execute();
+      for (let i = 0; i < targetKillmails.length; i += OVERRIDE_INSERT_CHUNK) {
+        await trx
+          .insertInto('battle_killmail_overrides')
+          .values(
+            targetKillmails
+              .slice(i, i + OVERRIDE_INSERT_CHUNK)
+              .map((km) => ({ killmail_id: km.killmail_id, battle_id: battleId, created_by: ctx.actorAccountId }))
+          )
+          .onConflict((oc) => oc.column('killmail_id').doNothing())
+          .execute();
+      }
+
+      const killmails = await trx
+        .selectFrom('battle_killmails')
+        .select('killmail_id')
+        .where('battle_id', '=', sourceBattleId)
+        .execute();
+      await moveKillmails(
+        trx,
+        sourceBattleId,
+        battleId,
+        killmails.map((km) => km.killmail_id),
+        ctx.actorAccountId
+      );
+
+      const sourcePins = await trx
+        .selectFrom('battle_side_overrides')
+        .selectAll()
+        .where('battle_id', '=', sourceBattleId)
+        .execute();
+      for (const pin of sourcePins) {
+        await trx
+          .insertInto('battle_side_overrides')
+          .values({ ...pin, battle_id: battleId })
+          .onConflict((oc) => oc.columns(['battle_id', 'entity_id']).doNothing())
+          .execute();
+      }
+
+      await recomputeBattle(trx, sourceBattleId, false);
+      await recomputeBattle(trx, battleId, target.end_time === null || source.end_time === null);
+      return [battleId, sourceBattleId];
+    }
+  );
+}
+
+/**
+ * Splits a battle at a point in time. Killmails at or after `at` move to a new
+ * battle, which keeps the original's side pins. Returns both battle IDs.
+ */
+export async function splitBattle(ctx: CorrectionContext, battleId: string, at: Date): Promise<string[]> {
+  let newBattleId = '';
+
+  await runCorrection(
+    ctx,
+    { action: 'battle.split', targetType: 'battle', targetId: battleId, metadata: { at: at.toISOString() } },
+    async (trx) => {
+      const battle = await getBattle(trx, battleId);
+
+      const earlier = await trx
+        .selectFrom('battle_killmails')
+        .select('killmail_id')
+        .where('battle_id', '=', battleId)
+        .where('occurred_at', '<', at)
+        .execute();
+      const later = await trx
+        .selectFrom('battle_killmails')
+        .select('killmail_id')
+        .where('battle_id', '=', battleId)
+        .where('occurred_at', '>=', at)
+        .orderBy('occurred_at', 'asc')
+        .orderBy('killmail_id', 'asc')
+        .execute();
+      if (earlier.length === 0 || later.length === 0) {
+        throw new ChangeError('Split time must leave killmails in both battles');
+      }
+
+      // Same ID the clusterer would give a battle starting with that killmail
+      newBattleId = getBattleId(later[0].killmail_id);
+      const existing = await trx.selectFrom('battles').select('id').where('id', '=', newBattleId).executeTakeFirst();
+      if (existing) {
+        throw new ChangeError(`Battle ${newBattleId} already exists`, 409);
+      }
+
+      await trx
+        .insertInto('battles')
+        .values({ ...battle, id: newBattleId, created_at: new Date(), updated_at: new Date() })
+        .execute();
+
+      const pins = await trx.selectFrom('battle_side_overrides').selectAll().where('battle_id', '=', battleId).execute();
+      for (const pin of pins) {
+        await trx
+          .insertInto('battle_side_overrides')
+          .values({ ...pin, battle_id: newBattleId })
+          .execute();
+      }
+
+      // Pin the earlier half as well, so the clusterer doesn't rejoin them
+      for (const km of earlier) {
+        await trx
+          .insertInto('battle_killmail_overrides')
+          .values({ killmail_id: km.killmail_id, battle_id: battleId, created_by: ctx.actorAccountId })
+          .onConflict((oc) => oc.column('killmail_id').doUpdateSet({ battle_id: battleId }))
+          .execute();
+      }
+
+      await moveKillmails(
+        trx,
+        battleId,
+        newBattleId,
+        later.map((km) => km.killmail_id),
+        ctx.actorAccountId
+      );
+
+      await recomputeBattle(trx, battleId, false);
+      await recomputeBattle(trx, newBattleId, battle.end_time === null);
+      return [battleId, newBattleId];
+    }
+  );
+
+  return [battleId, newBattleId];
+}
+
+/**
+ * Moves a single killmail from one battle to another.
+ */
+export async function moveKillmail(
+  ctx: CorrectionContext,
+  battleId: string,
+  killmailId: number,
+  targetBattleId: string
+): Promise<string[]> {
+  if (battleId === targetBattleId) {
+    throw new ChangeError('Killmail is already in this battle');
+  }
+
+  return runCorrection(
+    ctx,
+    {
+      action: 'battle.killmail.move',
+      targetType: 'battle',
+      targetId: battleId,
+      metadata: { killmailId, targetBattleId },
+    },
+    async (trx) => {
+      const source = await getBattle(trx, battleId);
+      const target = await getBattle(trx, targetBattleId);
+
+      const killmail = await trx
+        .selectFrom('battle_killmails')
+        .select('killmail_id')
+        .where('battle_id', '=', battleId)
+        .where('killmail_id', '=', killmailId)
+        .executeTakeFirst();
+      if (!killmail) {
+        throw new ChangeError(`Killmail ${killmailId} is not part of battle ${battleId}`, 404);
+      }
+
+      await moveKillmails(trx, battleId, targetBattleId, [killmailId], ctx.actorAccountId);
+
+      await recomputeBattle(trx, battleId, source.end_time === null);
+      await recomputeBattle(trx, targetBattleId, target.end_time === null);
+      return [battleId, targetBattleId];
+    }
+  );
+}
+
+/**
+ * Pins alliances (or alliance-less corporations) to sides and re-partitions
+ * the battle around them.
+ */
+export async function pinSides(ctx: CorrectionContext, battleId: string, pins: SidePin[]): Promise<string[]> {
+  return runCorrection(
+    ctx,
+    { action: 'battle.sides', targetType: 'battle', targetId: battleId, metadata: { sides: pins } },
+    async (trx) => {
+      const battle = await getBattle(trx, battleId);
+
+      for (const { entityId, sideId } of pins) {
+        if (sideId === null) {
+          await trx
+            .deleteFrom('battle_side_overrides')
+            .where('battle_id', '=', battleId)
+            .where('entity_id', '=', entityId)
+            .execute();
+        } else {
+          await trx
+            .insertInto('battle_side_overrides')
+            .values({ battle_id: battleId, entity_id: entityId, side_id: sideId, created_by: ctx.actorAccountId })
+            .onConflict((oc) =>
+              oc
+                .columns(['battle_id', 'entity_id'])
+                .doUpdateSet({ side_id: sideId, created_by: ctx.actorAccountId, created_at: new Date() })
+            )
+            .execute();
+        }
+      }
+
+      await recomputeBattle(trx, battleId, battle.end_time === null);
+      return [battleId];
+    }
+  );
+}
+
+/**
+ * Creates a battle from imported killmails and pins the imported sides.
+ * Killmails BattleScope already has are moved into it. The rest are pinned to
+ * it and queued for ingestion, and the clusterer adds them as they arrive,
+ * creating the battle with the first if none were stored yet.
+ */
+export async function importBattle(ctx: CorrectionContext, data: BattleImport): Promise<ImportResult> {
+  const battleId = uuidv4();
+  const killmailIds = data.killmails.map((km) => km.killmailId);
+  let moved: number[] = [];
+
+  await runCorrection(
+    ctx,
+    {
+      action: 'battle.import',
+      targetType: 'battle',
+      targetId: battleId,
+      metadata: { killmailIds, sides: data.sides },
+    },
+    async (trx) => {
+      const stored = await trx
+        .selectFrom('battle_killmails')
+        .select(['killmail_id', 'battle_id'])
+        .where('killmail_id', 'in', killmailIds)
+        .orderBy('occurred_at', 'asc')
+        .execute();
+      // bigint columns come back from pg as strings
+      moved = stored.map((km) => Number(km.killmail_id));
+
+      const storedIds = new Set(moved);
+      const missing = killmailIds.filter((id) => !storedIds.has(id));
+      for (let i = 0; i < missing.length; i += OVERRIDE_INSERT_CHUNK) {
+        await trx
+          .insertInto('battle_killmail_overrides')
+          .values(
+            missing
+              .slice(i, i + OVERRIDE_INSERT_CHUNK)
+              .map((killmailId) => ({ killmail_id: killmailId, battle_id: battleId, created_by: ctx.actorAccountId }))
+          )
+          .onConflict((oc) =>
+            oc.column('killmail_id').doUpdateSet({ battle_id: battleId, created_by: ctx.actorAccountId, created_at: new Date() })
+          )
+          .execute();
+      }
+
+      if (data.sides.length > 0) {
+        await trx
+          .insertInto('battle_side_overrides')
+          .values(
+            data.sides.map(({ entityId, sideId }) => ({
+              battle_id: battleId,
+              entity_id: entityId,
+              side_id: sideId,
+              created_by: ctx.actorAccountId,
+            }))
+          )
+          .execute();
+      }
+
+      if (stored.length === 0) {
+        // The clusterer creates the battle with the first killmail to arrive
+        return [];
+      }
+
+      const sources = new Map<string, number[]>();
+      for (const km of stored) {
+        sources.set(km.battle_id, [...(sources.get(km.battle_id) || []), Number(km.killmail_id)]);
+      }
+
+      // Starts out where the earliest stored killmail's battle is, until recomputed
+      const first = await getBattle(trx, stored[0].battle_id);
+      await trx
+        .insertInto('battles')
+        .values({ ...first, id: battleId, created_at: new Date(), updated_at: new Date() })
+        .execute();
+
+      let active = false;
+      for (const [sourceBattleId, sourceKillmailIds] of sources) {
+        const source = await getBattle(trx, sourceBattleId);
+        active = active || source.end_time === null;
+        await moveKillmails(trx, sourceBattleId, battleId, sourceKillmailIds, ctx.actorAccountId);
+        await recomputeBattle(trx, sourceBattleId, source.end_time === null);
+      }
+
+      await recomputeBattle(trx, battleId, active);
+      return [battleId, ...sources.keys()];
+    }
+  );
+
+  const storedIds = new Set(moved);
+  const missing = data.killmails.filter((km) => !storedIds.has(km.killmailId));
+  const fetchable = missing.filter((km) => km.hash);
+  const unresolved = missing.filter((km) => !km.hash).map((km) => km.killmailId);
+
+  let queued: number[] = [];
+  let skipped: number[] = [];
+  let failed: number[] = [];
+  if (fetchable.length > 0) {
+    const ingestion = ctx.ingestion || new IngestionClient();
+    try {
+      ({ queued, skipped, failed } = await ingestion.queueKillmails(
+        fetchable.map((km) => ({ killmailId: km.killmailId, hash: km.hash as string }))
+      ));
+    } catch (error) {
+      logger.error({ battleId, error }, 'Failed to queue imported killmails');
+      throw new ChangeError(
+        `Battle ${battleId} was imported, but its missing killmails could not be queued for ingestion`,
+        502
+      );
+    }
+  }
+
+  if (failed.length > 0) {
+    logger.warn({ battleId, failed }, 'Ingestion failed to queue some imported killmails');
+  }
+
+  return { battleId, moved, queued, skipped, failed, unresolved };
+}
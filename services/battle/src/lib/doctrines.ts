@@ -0,0 +1,335 @@
+import { v5 as uuidv5 } from 'uuid';
+import type { DB, DoctrineShip } from '../database/types';
+import { inferRole } from './participant-roles';
+import { computeParticipantStats, type ParticipantStats, type ShipFlown } from './participant-stats';
+import { getShipRoles, type ParticipantRole, type ShipRoles } from './ship-roles';
+import { getShipTypes, type ShipTypes } from './ship-types';
+
+/**
+ * Fleet doctrines of alliances: the ship compositions they bring to fleet
+ * fights. Each alliance's ships in a fight are reduced to the share of each
+ * hull, and fleets with close enough shares are grouped into one doctrine,
+ * named after its main hulls and logi. Doctrines are rebuilt from recent
+ * fleet fights on a timer.
+ */
+
+// Battles big enough for alliances to bring their doctrines
+const DOCTRINE_CLASSIFICATIONS = ['fleet_fight', 'capital_escalation'];
+// Pilots an alliance must field in a fight, not counting pods and haulers, for its ships to count as a fleet
+const DOCTRINE_MIN_PILOTS = 10;
+// Cosine similarity of hull shares a fleet needs to count as an earlier doctrine
+const DOCTRINE_MIN_SIMILARITY = 0.7;
+// Share of the fleet a second mainline hull and a logi hull need to be named in the doctrine
+const NAMED_HULL_SHARE = 0.25;
+const NAMED_LOGI_SHARE = 0.05;
+// Share of the fleet a hull needs to be listed in the doctrine
+const LISTED_HULL_SHARE = 0.02;
+// Roles whose hulls are a doctrine's mainline
+const MAINLINE_ROLES: ParticipantRole[] = ['dps', 'capital'];
+// How far back doctrines are rebuilt, and how often
+const DOCTRINE_LOOKBACK = parseInt(process.env.DOCTRINE_LOOKBACK_DAYS || '180', 10) * 24 * 60 * 60 * 1000;
+export const DOCTRINE_REFRESH_INTERVAL =
+  parseInt(process.env.DOCTRINE_REFRESH_INTERVAL_MINUTES || '60', 10) * 60 * 1000;
+
+// Battles whose killmails are loaded at once
+const BATTLE_QUERY_CHUNK = 50;
+
+const DOCTRINE_ID_NAMESPACE = '5e2d7a90-3c41-4b8e-a6f2-91d04c7be813';
+
+export interface FleetShip {
+  shipTypeId: number;
+  shipTypeName: string | null;
+  pilots: number;
+}
+
+// An alliance's ships in one battle
+export interface AllianceFleet {
+  battleId: string;
+  allianceId: number;
+  startTime: Date;
+  ships: FleetShip[];
+}
+
+export interface DetectedDoctrine {
+  allianceId: number;
+  // Oldest first
+  fleets: AllianceFleet[];
+  // Pilots per ship type over all fleets
+  hulls: Map<number, FleetShip>;
+}
+
+export interface DoctrineSummary {
+  name: string;
+  ships: DoctrineShip[];
+  timesSeen: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  averagePilots: number;
+}
+
+export function getDoctrineId(allianceId: number, firstBattleId: string): string {
+  return uuidv5(`${allianceId}:${firstBattleId}`, DOCTRINE_ID_NAMESPACE);
+}
+
+const fleetPilots = (ships: Iterable<FleetShip>) => {
+  let pilots = 0;
+  for (const ship of ships) pilots += ship.pilots;
+  return pilots;
+};
+
+/**
+ * Cosine similarity of the hull shares of a fleet and a doctrine. Scaling
+ * doesn't change it, so the doctrine's summed pilots stand in for its average
+ * fleet, weighted by fleet size.
+ */
+function similarity(ships: FleetShip[], hulls: Map<number, FleetShip>): number {
+  let dot = 0;
+  let fleetNorm = 0;
+  for (const ship of ships) {
+    dot += ship.pilots * (hulls.get(ship.shipTypeId)?.pilots ?? 0);
+    fleetNorm += ship.pilots * ship.pilots;
+  }
+  let doctrineNorm = 0;
+  for (const hull of hulls.values()) doctrineNorm += hull.pilots * hull.pilots;
+  return fleetNorm > 0 && doctrineNorm > 0 ? dot / Math.sqrt(fleetNorm * doctrineNorm) : 0;
+}
+
+/**
+ * Groups each alliance's fleets into doctrines. Fleets are taken oldest first
+ * and join the most similar doctrine the alliance has fielded so far, or
+ * start a new one. Pods and haulers (role "other") are left out of the
+ * composition, and so are fleets under `DOCTRINE_MIN_PILOTS` without them.
+ */
+export function detectDoctrines(
+  fleets: AllianceFleet[],
+  shipTypes: ShipTypes = getShipTypes(),
+  shipRoles: ShipRoles = getShipRoles()
+): DetectedDoctrine[] {
+  const doctrines = new Map<number, DetectedDoctrine[]>();
+  const sorted = [...fleets].sort(
+    (a, b) => a.startTime.getTime() - b.startTime.getTime() || a.battleId.localeCompare(b.battleId)
+  );
+
+  for (const fleet of sorted) {
+    const ships = fleet.ships.filter(
+      (s) => s.pilots > 0 && inferRole(s.shipTypeId, [], shipTypes, shipRoles) !== 'other'
+    );
+    if (fleetPilots(ships) < DOCTRINE_MIN_PILOTS) continue;
+
+    const known = doctrines.get(fleet.allianceId) || [];
+    let best: DetectedDoctrine | null = null;
+    let bestSimilarity = DOCTRINE_MIN_SIMILARITY;
+    for (const doctrine of known) {
+      const value = similarity(ships, doctrine.hulls);
+      if (value >= bestSimilarity) {
+        best = doctrine;
+        bestSimilarity = value;
+      }
+    }
+
+    if (!best) {
+      best = { allianceId: fleet.allianceId, fleets: [], hulls: new Map() };
+      known.push(best);
+      doctrines.set(fleet.allianceId, known);
+    }
+    best.fleets.push({ ...fleet, ships });
+    for (const ship of ships) {
+      const hull = best.hulls.get(ship.shipTypeId);
+      if (hull) {
+        hull.pilots += ship.pilots;
+        hull.shipTypeName ??= ship.shipTypeName;
+      } else {
+        best.hulls.set(ship.shipTypeId, { ...ship });
+      }
+    }
+  }
+
+  return [...doctrines.values()].flat();
+}
+
+const shipName = (ship: DoctrineShip) => ship.shipTypeName ?? `Type ${ship.shipTypeId}`;
+
+/**
+ * Names a doctrine after its mainline hulls, the second one only if it makes
+ * up a good share of the fleet, and its main logi hull, e.g. "Eagle fleet
+ * with Basilisk logi" or "Ferox/Cerberus fleet".
+ */
+export function nameDoctrine(ships: DoctrineShip[]): string {
+  const byShare = [...ships].sort((a, b) => b.share - a.share);
+  const mainline = byShare.filter((s) => MAINLINE_ROLES.includes(s.role));
+  const [first, second] = mainline.length > 0 ? mainline : byShare;
+  if (!first) return 'Unknown fleet';
+
+  const hulls = second && second.share >= NAMED_HULL_SHARE ? [first, second] : [first];
+  const logi = byShare.find((s) => s.role === 'logi' && s.share >= NAMED_LOGI_SHARE);
+
+  return `${hulls.map(shipName).join('/')} fleet${logi ? ` with ${shipName(logi)} logi` : ''}`;
+}
+
+export function summarizeDoctrine(
+  doctrine: DetectedDoctrine,
+  shipTypes: ShipTypes = getShipTypes(),
+  shipRoles: ShipRoles = getShipRoles()
+): DoctrineSummary {
+  const total = fleetPilots(doctrine.hulls.values());
+  const ships = [...doctrine.hulls.values()]
+    .map((hull) => ({
+      shipTypeId: hull.shipTypeId,
+      shipTypeName: shipTypes.getType(hull.shipTypeId)?.name ?? hull.shipTypeName,
+      role: inferRole(hull.shipTypeId, [], shipTypes, shipRoles),
+      share: hull.pilots / total,
+    }))
+    .filter((s) => s.share >= LISTED_HULL_SHARE)
+    .sort((a, b) => b.share - a.share || a.shipTypeId - b.shipTypeId);
+
+  return {
+    name: nameDoctrine(ships),
+    ships,
+    timesSeen: doctrine.fleets.length,
+    firstSeen: doctrine.fleets[0].startTime,
+    lastSeen: doctrine.fleets[doctrine.fleets.length - 1].startTime,
+    averagePilots: Math.round(total / doctrine.fleets.length),
+  };
+}
+
+/**
+ * The hull a pilot fought in: the one they were on the most killmails in,
+ * leaving out their pod (and other ships with the "other" role) unless
+ * that's all they were seen in.
+ */
+export function getFleetShip(
+  ships: ShipFlown[],
+  shipTypes: ShipTypes = getShipTypes(),
+  shipRoles: ShipRoles = getShipRoles()
+): ShipFlown | undefined {
+  return ships.find((s) => inferRole(s.shipTypeId, [], shipTypes, shipRoles) !== 'other') ?? ships[0];
+}
+
+/**
+ * Every alliance's fleet in one battle, each pilot counted once in the hull
+ * they fought in.
+ */
+export function buildAllianceFleets(
+  battle: { id: string; startTime: Date },
+  participants: { characterId: number; allianceId: number }[],
+  stats: Map<number, ParticipantStats>,
+  shipTypes: ShipTypes = getShipTypes(),
+  shipRoles: ShipRoles = getShipRoles()
+): AllianceFleet[] {
+  const fleets = new Map<number, Map<number, FleetShip>>();
+  for (const { characterId, allianceId } of participants) {
+    const ship = getFleetShip(stats.get(characterId)?.ships ?? [], shipTypes, shipRoles);
+    if (!ship) continue;
+
+    const ships = fleets.get(allianceId) || new Map<number, FleetShip>();
+    const fleetShip = ships.get(ship.shipTypeId) || {
+      shipTypeId: ship.shipTypeId,
+      shipTypeName: ship.shipTypeName,
+      pilots: 0,
+    };
+    fleetShip.pilots++;
+    ships.set(ship.shipTypeId, fleetShip);
+    fleets.set(allianceId, ships);
+  }
+
+  return [...fleets].map(([allianceId, ships]) => ({
+    battleId: battle.id,
+    allianceId,
+    startTime: battle.startTime,
+    ships: [...ships.values()],
+  }));
+}
+
+/**
+ * Loads every alliance's fleets in the fleet fights since `since`, from the
+ * ships its pilots flew according to the battles' killmails.
+ */
+async function loadAllianceFleets(db: DB, since: Date): Promise<AllianceFleet[]> {
+  const battles = await db
+    .selectFrom('battles')
+    .select(['id', 'start_time'])
+    .where('classification', 'in', DOCTRINE_CLASSIFICATIONS)
+    .where('start_time', '>=', since)
+    .execute();
+
+  const fleets: AllianceFleet[] = [];
+  for (let i = 0; i < battles.length; i += BATTLE_QUERY_CHUNK) {
+    const chunk = battles.slice(i, i + BATTLE_QUERY_CHUNK);
+    const battleIds = chunk.map((battle) => battle.id);
+    const participants = await db
+      .selectFrom('battle_participants')
+      .select(['battle_id', 'character_id', 'alliance_id'])
+      .where('battle_id', 'in', battleIds)
+      .where('alliance_id', 'is not', null)
+      .execute();
+    const killmails = await db
+      .selectFrom('battle_killmails')
+      .select(['battle_id', 'isk_value', 'ship_type_name', 'victim_character_id', 'victim_ship_type_id', 'attackers'])
+      .where('battle_id', 'in', battleIds)
+      .execute();
+
+    for (const battle of chunk) {
+      const stats = computeParticipantStats(killmails.filter((km) => km.battle_id === battle.id));
+      const pilots = participants
+        .filter((p) => p.battle_id === battle.id)
+        // bigint columns come back from pg as strings
+        .map((p) => ({ characterId: Number(p.character_id), allianceId: Number(p.alliance_id) }));
+      fleets.push(...buildAllianceFleets({ id: battle.id, startTime: battle.start_time }, pilots, stats));
+    }
+  }
+  return fleets;
+}
+
+/**
+ * Rebuilds the doctrines of every alliance from the fleet fights of the last
+ * `DOCTRINE_LOOKBACK_DAYS`. Doctrines keep their ID while the battle they
+ * were first seen in stays in the window.
+ */
+export async function refreshDoctrines(db: DB, now: Date = new Date()): Promise<{ doctrines: number; fleets: number }> {
+  const existing = await db.selectFrom('doctrines').select('id').execute();
+  const fleets = await loadAllianceFleets(db, new Date(now.getTime() - DOCTRINE_LOOKBACK));
+  const doctrines = detectDoctrines(fleets);
+
+  await db.transaction().execute(async (trx) => {
+    const kept = new Set<string>();
+    for (const doctrine of doctrines) {
+      const id = getDoctrineId(doctrine.allianceId, doctrine.fleets[0].battleId);
+      const summary = summarizeDoctrine(doctrine);
+      const values = {
+        alliance_id: doctrine.allianceId,
+        name: summary.name,
+        ships: JSON.stringify(summary.ships),
+        times_seen: summary.timesSeen,
+        first_seen: summary.firstSeen,
+        last_seen: summary.lastSeen,
+        average_pilots: summary.averagePilots,
+      };
+      kept.add(id);
+
+      await trx
+        .insertInto('doctrines')
+        .values({ id, ...values })
+        .onConflict((oc) => oc.column('id').doUpdateSet({ ...values, updated_at: new Date() }))
+        .execute();
+      await trx.deleteFrom('doctrine_battles').where('doctrine_id', '=', id).execute();
+      await trx
+        .insertInto('doctrine_battles')
+        .values(
+          doctrine.fleets.map((fleet) => ({
+            doctrine_id: id,
+            battle_id: fleet.battleId,
+            pilots: fleetPilots(fleet.ships),
+            start_time: fleet.startTime,
+          }))
+        )
+        .execute();
+    }
+
+    const stale = existing.map((d) => d.id).filter((id) => !kept.has(id));
+    if (stale.length > 0) {
+      await trx.deleteFrom('doctrines').where('id', 'in', stale).execute();
+    }
+  });
+
+  return { doctrines: doctrines.length, fleets: doctrines.reduce((sum, d) => sum + d.fleets.length, 0) };
+}
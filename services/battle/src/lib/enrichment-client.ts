@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { createLogger } from '@battlescope/logger';
+import type { EnrichedKillmail } from './clusterer';
+
+const logger = createLogger({ serviceName: 'enrichment-client' });
+
+const PAGE_SIZE = 500;
+
+interface EnrichedKillmailPage {
+  killmails: Array<Omit<EnrichedKillmail, 'killmailTime'> & { killmailTime: string }>;
+  total: number;
+  next: { afterTime: string; afterId: number } | null;
+}
+
+/**
+ * Client for the enrichment service, which stores every enriched killmail.
+ * Used to replay historical killmails when re-clustering battles.
+ */
+export class EnrichmentClient {
+  private baseUrl: string;
+
+  constructor(baseUrl = process.env.ENRICHMENT_SERVICE_URL || 'http://enrichment:3002') {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Yields pages of enriched killmails between `from` and `to`, ordered by
+   * killmail time then killmail ID.
+   */
+  async *listKillmails(
+    from: Date,
+    to: Date
+  ): AsyncGenerator<{ killmails: EnrichedKillmail[]; total: number }> {
+    let cursor: EnrichedKillmailPage['next'] = null;
+
+    do {
+      const response: { data: EnrichedKillmailPage } = await axios.get<EnrichedKillmailPage>(
+        `${this.baseUrl}/api/enriched`,
+        {
+          params: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            limit: PAGE_SIZE,
+            ...(cursor || {}),
+          },
+          timeout: 30000,
+        }
+      );
+
+      logger.debug({ count: response.data.killmails.length, cursor }, 'Fetched enriched killmails');
+
+      yield {
+        killmails: response.data.killmails.map((killmail) => ({
+          ...killmail,
+          killmailTime: new Date(killmail.killmailTime),
+        })),
+        total: response.data.total,
+      };
+
+      cursor = response.data.next;
+    } while (cursor);
+  }
+}
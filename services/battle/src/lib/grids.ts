@@ -0,0 +1,73 @@
+import type { DB } from '../database/types';
+
+/**
+ * Grids: the areas of a solar system a fight actually happens in. A station
+ * fight and a gate camp in the same system at the same time are separate
+ * battles, told apart by where their victims died. Killmails without a
+ * victim position can't be placed and fit any grid.
+ */
+
+// Victims further than this from every victim of a battle in the same system are on another grid
+const GRID_DISTANCE = parseInt(process.env.BATTLE_GRID_DISTANCE_KM || '10000', 10) * 1000;
+
+export interface Position {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Victim positions of a battle's killmails, per system
+export type BattleGrids = Map<number, Position[]>;
+
+export function getDistance(a: Position, b: Position): number {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/**
+ * Whether a killmail at `position` in `systemId` is on one of the battle's
+ * grids, i.e. within GRID_DISTANCE of one of its victims in that system. A
+ * battle with no positions in the system has no grid to compare against.
+ */
+export function isOnGrid(grids: BattleGrids, systemId: number, position?: Position | null): boolean {
+  const positions = grids.get(systemId);
+  if (!position || !positions || positions.length === 0) {
+    return true;
+  }
+  return positions.some((p) => getDistance(p, position) <= GRID_DISTANCE);
+}
+
+export function addToGrids(grids: BattleGrids, systemId: number, position?: Position | null): void {
+  if (!position) return;
+
+  const positions = grids.get(systemId);
+  if (positions) {
+    positions.push(position);
+  } else {
+    grids.set(systemId, [position]);
+  }
+}
+
+export async function loadBattleGrids(db: DB, battleIds: string[]): Promise<Map<string, BattleGrids>> {
+  const battles = new Map<string, BattleGrids>(battleIds.map((id) => [id, new Map()]));
+  if (battleIds.length === 0) {
+    return battles;
+  }
+
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select(['battle_id', 'system_id', 'position_x', 'position_y', 'position_z'])
+    .where('battle_id', 'in', battleIds)
+    .where('position_x', 'is not', null)
+    .execute();
+
+  for (const km of killmails) {
+    const grids = battles.get(km.battle_id);
+    if (!grids || !km.system_id || km.position_x === null || km.position_y === null || km.position_z === null) {
+      continue;
+    }
+    // bigint columns come back from pg as strings
+    addToGrids(grids, Number(km.system_id), { x: km.position_x, y: km.position_y, z: km.position_z });
+  }
+
+  return battles;
+}
@@ -0,0 +1,302 @@
+import { sql, type Selectable } from 'kysely';
+import type { BattleKillmailsTable, DB } from '../database/types';
+import { getEntityId } from './side-inference';
+import { getStargateGraph, type StargateGraph } from './stargate-graph';
+
+/**
+ * Intel profiles of alliances and corporations, built from the battles their
+ * pilots took part in: how they trade ISK, what they fly, where and when they
+ * fight, and who they fight with and against.
+ */
+
+export const GROUP_TYPES = ['alliance', 'corporation'] as const;
+export type GroupType = (typeof GROUP_TYPES)[number];
+
+// Windows a profile can cover, in days
+export const PROFILE_WINDOWS = { '7d': 7, '30d': 30, '90d': 90, '365d': 365 } as const;
+export type ProfileWindow = keyof typeof PROFILE_WINDOWS;
+
+// Entries in each top list
+const TOP_LIMIT = 10;
+const RECENT_BATTLES = 10;
+
+export interface Group {
+  type: GroupType;
+  id: number;
+}
+
+export type GroupKillmail = Pick<
+  Selectable<BattleKillmailsTable>,
+  'killmail_id' | 'occurred_at' | 'system_id' | 'isk_value' | 'victim_alliance_id' | 'victim_corp_id' | 'attackers'
+>;
+
+export interface ActivityCounts {
+  kills: number;
+  losses: number;
+}
+
+export interface TopLocations {
+  topSystems: Array<{ systemId: number; systemName: string; regionName: string | null } & ActivityCounts>;
+  topRegions: Array<{ regionId: number; regionName: string | null } & ActivityCounts>;
+}
+
+export interface GroupActivity extends TopLocations {
+  kills: number;
+  losses: number;
+  iskKilled: number;
+  iskLost: number;
+  // ISK killed / (ISK killed + ISK lost), null without either
+  iskEfficiency: number | null;
+  // Killmails per UTC weekday (0 = Monday) and hour
+  heatmap: number[][];
+}
+
+const groupOf = (group: Group, allianceId?: number | null, corporationId?: number | null) =>
+  Number(group.type === 'alliance' ? allianceId : corporationId) === group.id;
+
+export function addActivity<K>(totals: Map<K, ActivityCounts>, key: K, isLoss: boolean) {
+  const entry = totals.get(key) || { kills: 0, losses: 0 };
+  if (isLoss) entry.losses++;
+  else entry.kills++;
+  totals.set(key, entry);
+}
+
+const byActivity = (a: ActivityCounts, b: ActivityCounts) =>
+  b.kills + b.losses - (a.kills + a.losses);
+
+/**
+ * The systems and regions with the most kills plus losses, from the counts
+ * collected with `addActivity`.
+ */
+export function rankLocations(
+  systems: Map<number, ActivityCounts>,
+  regions: Map<number, ActivityCounts>,
+  graph: StargateGraph
+): TopLocations {
+  return {
+    topSystems: [...systems]
+      .sort(([, a], [, b]) => byActivity(a, b))
+      .slice(0, TOP_LIMIT)
+      .map(([systemId, counts]) => {
+        const system = graph.getSystem(systemId);
+        return {
+          systemId,
+          systemName: system?.name ?? String(systemId),
+          regionName: (system && graph.getRegionName(system.regionId)) ?? null,
+          ...counts,
+        };
+      }),
+    topRegions: [...regions]
+      .sort(([, a], [, b]) => byActivity(a, b))
+      .slice(0, TOP_LIMIT)
+      .map(([regionId, counts]) => ({ regionId, regionName: graph.getRegionName(regionId) ?? null, ...counts })),
+  };
+}
+
+/**
+ * Kills, losses, ISK efficiency, activity heatmap and favourite systems of a
+ * group from the killmails it was on. A killmail is a loss when the victim is
+ * in the group and a kill when one of the attackers is; a group shooting its
+ * own member only takes the loss.
+ */
+export function summarizeGroupActivity(
+  killmails: GroupKillmail[],
+  group: Group,
+  graph: StargateGraph = getStargateGraph()
+): GroupActivity {
+  const activity: GroupActivity = {
+    kills: 0,
+    losses: 0,
+    iskKilled: 0,
+    iskLost: 0,
+    iskEfficiency: null,
+    heatmap: Array.from({ length: 7 }, () => new Array(24).fill(0)),
+    topSystems: [],
+    topRegions: [],
+  };
+  const systems = new Map<number, ActivityCounts>();
+  const regions = new Map<number, ActivityCounts>();
+
+  for (const km of killmails) {
+    const isLoss = groupOf(group, km.victim_alliance_id, km.victim_corp_id);
+    const isKill = !isLoss && (km.attackers || []).some((a) => groupOf(group, a.allianceId, a.corporationId));
+    if (!isLoss && !isKill) continue;
+
+    const isk = Number(km.isk_value || 0);
+    if (isLoss) {
+      activity.losses++;
+      activity.iskLost += isk;
+    } else {
+      activity.kills++;
+      activity.iskKilled += isk;
+    }
+
+    // getUTCDay() starts the week on Sunday
+    activity.heatmap[(km.occurred_at.getUTCDay() + 6) % 7][km.occurred_at.getUTCHours()]++;
+
+    if (km.system_id) {
+      // bigint columns come back from pg as strings
+      const systemId = Number(km.system_id);
+      addActivity(systems, systemId, isLoss);
+      const regionId = graph.getSystem(systemId)?.regionId;
+      if (regionId) addActivity(regions, regionId, isLoss);
+    }
+  }
+
+  const iskTotal = activity.iskKilled + activity.iskLost;
+  activity.iskEfficiency = iskTotal > 0 ? activity.iskKilled / iskTotal : null;
+
+  return { ...activity, ...rankLocations(systems, regions, graph) };
+}
+
+/**
+ * Builds the profile of an alliance or corporation over the last
+ * `windowDays`. Returns null if none of its pilots were ever seen in a battle.
+ */
+export async function buildGroupProfile(db: DB, group: Group, windowDays: number, now: Date = new Date()) {
+  const column = group.type === 'alliance' ? 'alliance_id' : 'corp_id';
+  const since = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000);
+
+  const latest = await db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select(['battle_participants.alliance_id', 'battle_participants.alliance_name', 'battle_participants.corp_name'])
+    .where(`battle_participants.${column}`, '=', group.id)
+    .orderBy('battles.start_time', 'desc')
+    .limit(1)
+    .executeTakeFirst();
+  if (!latest) {
+    return null;
+  }
+
+  // The group's battles in the window, with the sides it fought on
+  const groupSides = db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select(['battle_participants.battle_id', 'battle_participants.side_id'])
+    .distinct()
+    .where(`battle_participants.${column}`, '=', group.id)
+    .where('battles.start_time', '>=', since);
+
+  const attackerFilter = JSON.stringify([
+    group.type === 'alliance' ? { allianceId: group.id } : { corporationId: group.id },
+  ]);
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select([
+      'killmail_id',
+      'occurred_at',
+      'system_id',
+      'isk_value',
+      'victim_alliance_id',
+      'victim_corp_id',
+      'attackers',
+    ])
+    .where('battle_id', 'in', db.selectFrom(groupSides.as('g')).select('g.battle_id'))
+    .where('occurred_at', '>=', since)
+    .where((eb) =>
+      eb.or([
+        eb(group.type === 'alliance' ? 'victim_alliance_id' : 'victim_corp_id', '=', group.id),
+        sql<boolean>`attackers @> ${attackerFilter}::jsonb`,
+      ])
+    )
+    .execute();
+
+  const pilots = await db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select((eb) => eb.fn.count<string>('battle_participants.character_id').distinct().as('count'))
+    .where(`battle_participants.${column}`, '=', group.id)
+    .where('battles.start_time', '>=', since)
+    .executeTakeFirst();
+
+  const hulls = await db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .select([
+      'battle_participants.ship_type_id',
+      'battle_participants.ship_type_name',
+      (eb) => eb.fn.countAll<string>().as('pilots'),
+    ])
+    .where(`battle_participants.${column}`, '=', group.id)
+    .where('battles.start_time', '>=', since)
+    .where('battle_participants.ship_type_id', 'is not', null)
+    .groupBy(['battle_participants.ship_type_id', 'battle_participants.ship_type_name'])
+    .orderBy('pilots', 'desc')
+    .limit(TOP_LIMIT)
+    .execute();
+
+  // Other groups in the same battles, alongside or against the group. A
+  // corporation's own alliance doesn't count as its ally.
+  const ownEntityId = getEntityId(latest.alliance_id, group.type === 'corporation' ? group.id : null);
+  const others = await db
+    .selectFrom(groupSides.as('g'))
+    .innerJoin('battle_participants as o', 'o.battle_id', 'g.battle_id')
+    .select([
+      sql<string>`coalesce(o.alliance_id, o.corp_id)`.as('entity_id'),
+      sql<string | null>`max(coalesce(o.alliance_name, o.corp_name))`.as('name'),
+      sql<boolean>`o.side_id = g.side_id`.as('allied'),
+      sql<string>`count(distinct o.battle_id)`.as('battles'),
+    ])
+    .where('g.side_id', 'is not', null)
+    .where('o.side_id', 'is not', null)
+    .where(sql<boolean>`coalesce(o.alliance_id, o.corp_id) is distinct from ${ownEntityId}`)
+    .groupBy([sql`coalesce(o.alliance_id, o.corp_id)`, sql`o.side_id = g.side_id`])
+    .execute();
+
+  const groupList = (allied: boolean) =>
+    others
+      .filter((o) => o.allied === allied)
+      .map((o) => ({ entityId: Number(o.entity_id), name: o.name, battles: Number(o.battles) }))
+      .sort((a, b) => b.battles - a.battles || a.entityId - b.entityId)
+      .slice(0, TOP_LIMIT);
+
+  const recentBattles = await db
+    .selectFrom('battles')
+    .innerJoin(
+      db
+        .selectFrom('battle_participants')
+        .select(['battle_id', (eb) => eb.fn.countAll<string>().as('pilots')])
+        .where(column, '=', group.id)
+        .groupBy('battle_id')
+        .as('p'),
+      'p.battle_id',
+      'battles.id'
+    )
+    .select([
+      'battles.id',
+      'battles.system_name',
+      'battles.region_name',
+      'battles.start_time',
+      'battles.end_time',
+      'battles.total_kills',
+      'battles.total_isk_destroyed',
+      'battles.classification',
+      'p.pilots',
+    ])
+    .where('battles.start_time', '>=', since)
+    .orderBy('battles.start_time', 'desc')
+    .limit(RECENT_BATTLES)
+    .execute();
+
+  return {
+    type: group.type,
+    id: group.id,
+    name: group.type === 'alliance' ? latest.alliance_name : latest.corp_name,
+    windowDays,
+    pilots: Number(pilots?.count || 0),
+    ...summarizeGroupActivity(killmails, group),
+    hulls: hulls.map((h) => ({
+      shipTypeId: Number(h.ship_type_id),
+      shipTypeName: h.ship_type_name,
+      pilots: Number(h.pilots),
+    })),
+    allies: groupList(true),
+    enemies: groupList(false),
+    recentBattles: recentBattles.map((b) => ({
+      ...b,
+      total_isk_destroyed: b.total_isk_destroyed.toString(),
+      pilots: Number(b.pilots),
+    })),
+  };
+}
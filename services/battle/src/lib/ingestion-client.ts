@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { createLogger } from '@battlescope/logger';
+
+const logger = createLogger({ serviceName: 'ingestion-client' });
+
+// Most killmails the ingestion service takes in one request
+const QUEUE_BATCH_SIZE = 1000;
+
+export interface KillmailRef {
+  killmailId: number;
+  hash: string;
+}
+
+export interface QueueResult {
+  queued: number[];
+  skipped: number[];
+  failed: number[];
+}
+
+/**
+ * Client for the ingestion service, the entry point of the killmail pipeline.
+ * Used to fetch killmails an imported battle needs that BattleScope hasn't
+ * seen yet.
+ */
+export class IngestionClient {
+  private baseUrl: string;
+
+  constructor(baseUrl = process.env.INGESTION_SERVICE_URL || 'http://ingestion:3001') {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Queues killmails for ingestion and enrichment. They reach the clusterer
+   * like any other killmail once enriched. Returns the killmails ingestion
+   * had already enriched, which won't be sent again, and those it failed to
+   * queue, which queueing again retries.
+   */
+  async queueKillmails(killmails: KillmailRef[]): Promise<QueueResult> {
+    const result: QueueResult = { queued: [], skipped: [], failed: [] };
+
+    for (let i = 0; i < killmails.length; i += QUEUE_BATCH_SIZE) {
+      const response = await axios.post<QueueResult>(
+        `${this.baseUrl}/api/killmails/queue`,
+        { killmails: killmails.slice(i, i + QUEUE_BATCH_SIZE) },
+        { timeout: 30000 }
+      );
+      result.queued.push(...response.data.queued);
+      result.skipped.push(...response.data.skipped);
+      result.failed.push(...response.data.failed);
+    }
+
+    logger.info(
+      { queued: result.queued.length, skipped: result.skipped.length, failed: result.failed.length },
+      'Queued killmails for ingestion'
+    );
+    return result;
+  }
+}
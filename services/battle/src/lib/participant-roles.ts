@@ -0,0 +1,94 @@
+import type { Selectable } from 'kysely';
+import type { BattleKillmailsTable, BattleParticipantsTable, DB } from '../database/types';
+import { getShipRoles, PARTICIPANT_ROLES, type ParticipantRole, type ShipRoles } from './ship-roles';
+import { getShipTypes, type ShipTypes } from './ship-types';
+
+/**
+ * Fleet roles of a battle's participants. A pilot's role comes from the
+ * group of the ship they flew; pilots in damage ships that were only ever
+ * seen with tackle modules on killmails (zero-damage points and webs) count
+ * as tackle instead.
+ */
+
+export type RoleCounts = Record<ParticipantRole, number>;
+
+export interface SideRoles {
+  sideId: number | null;
+  roles: RoleCounts;
+}
+
+type RoleParticipant = Pick<Selectable<BattleParticipantsTable>, 'character_id' | 'ship_type_id'>;
+
+type RoleKillmail = Pick<Selectable<BattleKillmailsTable>, 'attackers'>;
+
+export function emptyRoleCounts(): RoleCounts {
+  return Object.fromEntries(PARTICIPANT_ROLES.map((role) => [role, 0])) as RoleCounts;
+}
+
+export function inferRole(
+  shipTypeId: number | null,
+  weaponTypeIds: number[],
+  shipTypes: ShipTypes = getShipTypes(),
+  shipRoles: ShipRoles = getShipRoles()
+): ParticipantRole {
+  const type = shipTypeId ? shipTypes.getType(shipTypeId) : undefined;
+  const hullRole = type && shipRoles.getGroupRole(type.groupId);
+  if (!hullRole) return 'other';
+  if (hullRole !== 'dps') return hullRole;
+
+  // Killmails name the ship itself as the weapon when there isn't one
+  const weaponRoles = new Set(
+    weaponTypeIds.filter((id) => id !== shipTypeId).map((id) => shipRoles.getWeaponRole(id) ?? 'dps')
+  );
+  return weaponRoles.size === 1 ? [...weaponRoles][0] : 'dps';
+}
+
+export function inferParticipantRoles(
+  participants: RoleParticipant[],
+  killmails: RoleKillmail[],
+  shipTypes: ShipTypes = getShipTypes(),
+  shipRoles: ShipRoles = getShipRoles()
+): Map<number, ParticipantRole> {
+  const weapons = new Map<number, Set<number>>();
+  for (const km of killmails) {
+    for (const attacker of km.attackers || []) {
+      if (!attacker.characterId || !attacker.weaponTypeId) continue;
+      weapons.set(attacker.characterId, (weapons.get(attacker.characterId) || new Set()).add(attacker.weaponTypeId));
+    }
+  }
+
+  const roles = new Map<number, ParticipantRole>();
+  for (const p of participants) {
+    // bigint columns come back from pg as strings
+    const characterId = Number(p.character_id);
+    const shipTypeId = p.ship_type_id ? Number(p.ship_type_id) : null;
+    roles.set(characterId, inferRole(shipTypeId, [...(weapons.get(characterId) || [])], shipTypes, shipRoles));
+  }
+  return roles;
+}
+
+/**
+ * Role counts per side, numbered sides first and unassigned last.
+ */
+export async function loadSideRoles(db: DB, battleId: string): Promise<SideRoles[]> {
+  const participants = await db
+    .selectFrom('battle_participants')
+    .select(['character_id', 'ship_type_id', 'side_id'])
+    .where('battle_id', '=', battleId)
+    .execute();
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select('attackers')
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  const roles = inferParticipantRoles(participants, killmails);
+  const sides = new Map<number | null, SideRoles>();
+  for (const p of participants) {
+    const side = sides.get(p.side_id) || { sideId: p.side_id, roles: emptyRoleCounts() };
+    side.roles[roles.get(Number(p.character_id)) ?? 'other']++;
+    sides.set(p.side_id, side);
+  }
+
+  return [...sides.values()].sort((a, b) => (a.sideId ?? Infinity) - (b.sideId ?? Infinity));
+}
@@ -0,0 +1,151 @@
+import type { Selectable } from 'kysely';
+import type { BattleKillmailsTable, DB } from '../database/types';
+import { getShipTypes, type ShipTypes } from './ship-types';
+
+/**
+ * Per-participant damage and engagement totals for a battle, computed from the
+ * attacker records of its stored killmails: damage dealt and received, the
+ * killmails a pilot was on, final blows, losses, weapons used and every ship
+ * flown.
+ */
+
+export interface WeaponUsage {
+  weaponTypeId: number;
+  damage: number;
+  killmails: number;
+}
+
+export interface ShipFlown {
+  shipTypeId: number;
+  shipTypeName: string | null;
+  // Killmails the pilot was on, as attacker or victim, in this ship
+  killmails: number;
+  losses: number;
+}
+
+export interface ParticipantStats {
+  characterId: number;
+  damageDealt: number;
+  damageReceived: number;
+  // Killmails the pilot is on the attacker list of
+  killInvolvement: number;
+  finalBlows: number;
+  losses: number;
+  iskLost: number;
+  weapons: WeaponUsage[];
+  ships: ShipFlown[];
+}
+
+type StatsKillmail = Pick<
+  Selectable<BattleKillmailsTable>,
+  'isk_value' | 'ship_type_name' | 'victim_character_id' | 'victim_ship_type_id' | 'attackers'
+>;
+
+interface StatsAccumulator extends Omit<ParticipantStats, 'weapons' | 'ships'> {
+  weapons: Map<number, WeaponUsage>;
+  ships: Map<number, ShipFlown>;
+}
+
+export function computeParticipantStats(
+  killmails: StatsKillmail[],
+  shipTypes: ShipTypes = getShipTypes()
+): Map<number, ParticipantStats> {
+  const stats = new Map<number, StatsAccumulator>();
+  const getStats = (characterId: number) => {
+    let pilot = stats.get(characterId);
+    if (!pilot) {
+      pilot = {
+        characterId,
+        damageDealt: 0,
+        damageReceived: 0,
+        killInvolvement: 0,
+        finalBlows: 0,
+        losses: 0,
+        iskLost: 0,
+        weapons: new Map(),
+        ships: new Map(),
+      };
+      stats.set(characterId, pilot);
+    }
+    return pilot;
+  };
+
+  const addShip = (pilot: StatsAccumulator, shipTypeId: number, shipTypeName: string | null, loss: boolean) => {
+    const ship = pilot.ships.get(shipTypeId) || {
+      shipTypeId,
+      shipTypeName: shipTypeName || shipTypes.getType(shipTypeId)?.name || null,
+      killmails: 0,
+      losses: 0,
+    };
+    ship.killmails++;
+    if (loss) ship.losses++;
+    pilot.ships.set(shipTypeId, ship);
+  };
+
+  for (const km of killmails) {
+    const attackers = km.attackers || [];
+
+    // bigint columns come back from pg as strings
+    const victimId = Number(km.victim_character_id);
+    if (victimId) {
+      const victim = getStats(victimId);
+      victim.losses++;
+      victim.iskLost += Number(km.isk_value || 0);
+      // Damage taken is what the attackers dealt, NPCs and structures included
+      victim.damageReceived += attackers.reduce((sum, attacker) => sum + (attacker.damageDone || 0), 0);
+
+      if (km.victim_ship_type_id) {
+        addShip(victim, Number(km.victim_ship_type_id), km.ship_type_name, true);
+      }
+    }
+
+    // Pilots can appear more than once on an attacker list, e.g. with drones and guns
+    const seen = new Set<number>();
+    for (const attacker of attackers) {
+      if (!attacker.characterId) continue;
+
+      const pilot = getStats(attacker.characterId);
+      pilot.damageDealt += attacker.damageDone || 0;
+      if (attacker.finalBlow) pilot.finalBlows++;
+
+      if (attacker.weaponTypeId) {
+        const weapon = pilot.weapons.get(attacker.weaponTypeId) || {
+          weaponTypeId: attacker.weaponTypeId,
+          damage: 0,
+          killmails: 0,
+        };
+        weapon.damage += attacker.damageDone || 0;
+        weapon.killmails++;
+        pilot.weapons.set(attacker.weaponTypeId, weapon);
+      }
+
+      if (seen.has(attacker.characterId)) continue;
+      seen.add(attacker.characterId);
+
+      pilot.killInvolvement++;
+      if (attacker.shipTypeId) {
+        addShip(pilot, attacker.shipTypeId, null, false);
+      }
+    }
+  }
+
+  const result = new Map<number, ParticipantStats>();
+  for (const [characterId, { weapons, ships, ...pilot }] of stats) {
+    result.set(characterId, {
+      ...pilot,
+      weapons: [...weapons.values()].sort((a, b) => b.damage - a.damage),
+      ships: [...ships.values()].sort((a, b) => b.killmails - a.killmails),
+    });
+  }
+  return result;
+}
+
+export async function loadParticipantStats(db: DB, battleId: string): Promise<Map<number, ParticipantStats>> {
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select(['isk_value', 'ship_type_name', 'victim_character_id', 'victim_ship_type_id', 'attackers'])
+    .where('battle_id', '=', battleId)
+    .execute();
+
+  return computeParticipantStats(killmails);
+}
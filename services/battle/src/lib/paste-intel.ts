@@ -0,0 +1,383 @@
+import { sql, type Selectable } from 'kysely';
+import type { BattleKillmailsTable, DB, PilotShipHistoryTable } from '../database/types';
+import { inferRole } from './participant-roles';
+import { SearchClient } from './search-client';
+import { getShipRoles, type ShipRoles } from './ship-roles';
+import { getShipTypes, type ShipTypes } from './ship-types';
+
+/**
+ * Threat assessment of a local chat paste: the character names in local are
+ * resolved to pilots, each pilot is summed up from the intel tables - who
+ * they fly for, where and in what they were last seen, how much they've been
+ * killing lately and whether they fly capitals or cyno ships - and the
+ * pilots are rated one by one and together.
+ */
+
+export const THREAT_LEVELS = ['none', 'low', 'medium', 'high', 'critical'] as const;
+export type ThreatLevel = (typeof THREAT_LEVELS)[number];
+
+// Names one paste may hold, enough for a busy local
+export const MAX_PASTE_NAMES = 500;
+// Character names are 3 to 37 letters, digits, spaces, hyphens, dots and apostrophes
+const CHARACTER_NAME = /^[A-Za-z0-9][A-Za-z0-9 .'-]{1,35}[A-Za-z0-9.'-]$/;
+// How far back kills count as recent, and hulls as still flown
+const RECENT_KILLS_WINDOW = 7 * 24 * 60 * 60 * 1000;
+const HULL_WINDOW = 90 * 24 * 60 * 60 * 1000;
+// Force Recon Ship, Black Ops: the hulls covert cynos are lit and bridged from
+const CYNO_GROUPS = new Set([833, 898]);
+// Recent kills worth 1, 2 and 3 threat points
+const KILL_THRESHOLDS = [1, 3, 10];
+// Pilots rated medium or above that make a gang, raising the overall threat
+const GANG_SIZE = 5;
+const TOP_ASSOCIATES = 5;
+
+export interface ParsedPaste {
+  names: string[];
+  // Lines that can't be character names
+  invalid: string[];
+}
+
+export interface PilotIntel {
+  characterId: number;
+  name: string;
+  // Where the pilot was resolved: a battle they were in, or only the search index
+  source: 'battles' | 'search';
+  corporationId: number | null;
+  corporationName: string | null;
+  allianceId: number | null;
+  allianceName: string | null;
+  lastSeen: {
+    at: Date;
+    systemId: number;
+    systemName: string;
+    regionName: string | null;
+    shipTypeId: number | null;
+    shipTypeName: string | null;
+  } | null;
+  recentKills: number;
+  capitalShips: string[];
+  cynoShips: string[];
+  // Other pasted pilots seen on the same side of a battle, by battles shared
+  associates: Array<{ characterId: number; name: string; sharedBattles: number }>;
+}
+
+export interface PilotThreat {
+  level: ThreatLevel;
+  reasons: string[];
+}
+
+export interface PasteThreat {
+  level: ThreatLevel;
+  pilots: number;
+  byLevel: Record<ThreatLevel, number>;
+  capitalPilots: number;
+  cynoPilots: number;
+  // Alliances, or corporations without one, by pilots in local. Groups only
+  // known to the search index have no ID
+  groups: Array<{ id: number | null; name: string | null; pilots: number }>;
+}
+
+type HullHistory = Pick<Selectable<PilotShipHistoryTable>, 'character_id' | 'ship_type_id' | 'ship_type_name'>;
+
+type PasteKillmail = Pick<Selectable<BattleKillmailsTable>, 'killmail_id' | 'attackers'>;
+
+/**
+ * Splits a paste into character names, one per line, dropping blank lines
+ * and repeated names.
+ */
+export function parsePaste(text: string): ParsedPaste {
+  const names = new Map<string, string>();
+  const invalid: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const name = line.trim();
+    if (!name) continue;
+    if (!CHARACTER_NAME.test(name)) {
+      invalid.push(name);
+    } else if (!names.has(name.toLowerCase())) {
+      names.set(name.toLowerCase(), name);
+    }
+  }
+  return { names: [...names.values()], invalid };
+}
+
+/**
+ * Sorts the hulls pilots flew into capitals and cyno ships, by name.
+ */
+export function classifyHulls(
+  history: HullHistory[],
+  shipTypes: ShipTypes = getShipTypes(),
+  shipRoles: ShipRoles = getShipRoles()
+): Map<number, { capitalShips: string[]; cynoShips: string[] }> {
+  const pilots = new Map<number, { capitalShips: string[]; cynoShips: string[] }>();
+  for (const row of history) {
+    // bigint columns come back from pg as strings
+    const characterId = Number(row.character_id);
+    const shipTypeId = Number(row.ship_type_id);
+    const type = shipTypes.getType(shipTypeId);
+    const name = type?.name ?? row.ship_type_name;
+    const pilot = pilots.get(characterId) || { capitalShips: [], cynoShips: [] };
+
+    if (inferRole(shipTypeId, [], shipTypes, shipRoles) === 'capital') pilot.capitalShips.push(name);
+    if (type && CYNO_GROUPS.has(type.groupId)) pilot.cynoShips.push(name);
+    pilots.set(characterId, pilot);
+  }
+  for (const pilot of pilots.values()) {
+    pilot.capitalShips.sort();
+    pilot.cynoShips.sort();
+  }
+  return pilots;
+}
+
+/**
+ * Counts the killmails each of `characterIds` was an attacker on.
+ */
+export function countKills(killmails: PasteKillmail[], characterIds: Set<number>): Map<number, number> {
+  const kills = new Map<number, number>();
+  for (const km of killmails) {
+    const attackers = new Set((km.attackers || []).map((a) => Number(a.characterId)));
+    for (const characterId of attackers) {
+      if (characterIds.has(characterId)) kills.set(characterId, (kills.get(characterId) || 0) + 1);
+    }
+  }
+  return kills;
+}
+
+/**
+ * Rates a pilot on recent kills (up to 3 points), flying capitals (2) and
+ * flying cyno ships (2). 1-2 points is a low threat, 3-4 medium, 5-6 high and
+ * 7 critical.
+ */
+export function assessPilot(pilot: PilotIntel): PilotThreat {
+  const reasons: string[] = [];
+  let score = KILL_THRESHOLDS.filter((threshold) => pilot.recentKills >= threshold).length;
+  if (pilot.recentKills > 0) {
+    reasons.push(`${pilot.recentKills} ${pilot.recentKills === 1 ? 'kill' : 'kills'} in the last 7 days`);
+  }
+  if (pilot.capitalShips.length > 0) {
+    score += 2;
+    reasons.push(`Flies capitals (${pilot.capitalShips.join(', ')})`);
+  }
+  if (pilot.cynoShips.length > 0) {
+    score += 2;
+    reasons.push(`Flies cyno ships (${pilot.cynoShips.join(', ')})`);
+  }
+
+  const level: ThreatLevel =
+    score >= 7 ? 'critical' : score >= 5 ? 'high' : score >= 3 ? 'medium' : score >= 1 ? 'low' : 'none';
+  return { level, reasons };
+}
+
+/**
+ * Rates everyone in local together. The threat is that of the most
+ * dangerous pilot, one level higher when `GANG_SIZE` or more pilots are a
+ * medium threat or above, or when capital and cyno pilots are in local
+ * together. Pilots only the search index knows have no group IDs, so they
+ * are grouped by name, and left out of the groups without one.
+ */
+export function assessPaste(pilots: Array<PilotIntel & { threat: PilotThreat }>): PasteThreat {
+  const byLevel = Object.fromEntries(THREAT_LEVELS.map((level) => [level, 0])) as Record<ThreatLevel, number>;
+  const groupIds = new Map<string, number>();
+  for (const pilot of pilots) {
+    const id = pilot.allianceId ?? pilot.corporationId;
+    const name = pilot.allianceName ?? pilot.corporationName;
+    if (id !== null && name) groupIds.set(name, id);
+  }
+
+  const groups = new Map<number | string, { id: number | null; name: string | null; pilots: number }>();
+  let highest = 0;
+  for (const pilot of pilots) {
+    byLevel[pilot.threat.level]++;
+    highest = Math.max(highest, THREAT_LEVELS.indexOf(pilot.threat.level));
+
+    const name = pilot.allianceName ?? pilot.corporationName;
+    const id = pilot.allianceId ?? pilot.corporationId ?? (name ? groupIds.get(name) ?? null : null);
+    const key = id ?? name;
+    if (key === null) continue;
+    const group = groups.get(key) || { id, name, pilots: 0 };
+    group.pilots++;
+    groups.set(key, group);
+  }
+
+  const capitalPilots = pilots.filter((p) => p.capitalShips.length > 0).length;
+  const cynoPilots = pilots.filter((p) => p.cynoShips.length > 0).length;
+  const dangerous = byLevel.medium + byLevel.high + byLevel.critical;
+  const escalate = dangerous >= GANG_SIZE || (capitalPilots > 0 && cynoPilots > 0);
+
+  return {
+    level: THREAT_LEVELS[Math.min(highest + (escalate ? 1 : 0), THREAT_LEVELS.length - 1)],
+    pilots: pilots.length,
+    byLevel,
+    capitalPilots,
+    cynoPilots,
+    groups: [...groups.values()].sort((a, b) => b.pilots - a.pilots || (a.name ?? '').localeCompare(b.name ?? '')),
+  };
+}
+
+/**
+ * Resolves pasted names to pilots, from the battles they were in or else
+ * through the search index, and sums each up.
+ */
+async function loadPilots(db: DB, names: string[], search: SearchClient): Promise<PilotIntel[]> {
+  const latest = await db
+    .selectFrom('battle_participants')
+    .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+    .distinctOn(sql`lower(battle_participants.character_name)`)
+    .select([
+      'battle_participants.character_id',
+      'battle_participants.character_name',
+      'battle_participants.corp_id',
+      'battle_participants.corp_name',
+      'battle_participants.alliance_id',
+      'battle_participants.alliance_name',
+      'battle_participants.ship_type_id',
+      'battle_participants.ship_type_name',
+      'battles.system_id',
+      'battles.system_name',
+      'battles.region_name',
+      'battles.last_killmail_at',
+    ])
+    .where(
+      sql`lower(battle_participants.character_name)`,
+      'in',
+      names.map((n) => n.toLowerCase())
+    )
+    .orderBy(sql`lower(battle_participants.character_name)`)
+    .orderBy('battles.last_killmail_at', 'desc')
+    .execute();
+
+  const pilots: PilotIntel[] = latest.map((row) => ({
+    characterId: Number(row.character_id),
+    name: row.character_name ?? String(row.character_id),
+    source: 'battles',
+    corporationId: row.corp_id ? Number(row.corp_id) : null,
+    corporationName: row.corp_name,
+    allianceId: row.alliance_id ? Number(row.alliance_id) : null,
+    allianceName: row.alliance_name,
+    lastSeen: {
+      at: row.last_killmail_at,
+      systemId: Number(row.system_id),
+      systemName: row.system_name,
+      regionName: row.region_name,
+      shipTypeId: row.ship_type_id ? Number(row.ship_type_id) : null,
+      shipTypeName: row.ship_type_name,
+    },
+    recentKills: 0,
+    capitalShips: [],
+    cynoShips: [],
+    associates: [],
+  }));
+
+  const known = new Set(pilots.map((p) => p.name.toLowerCase()));
+  const indexed = await search.findCharacters(names.filter((n) => !known.has(n.toLowerCase())));
+  for (const character of indexed.values()) {
+    pilots.push({
+      characterId: character.characterId,
+      name: character.name,
+      source: 'search',
+      corporationId: null,
+      corporationName: character.corporationName,
+      allianceId: null,
+      allianceName: character.allianceName,
+      lastSeen: null,
+      recentKills: 0,
+      capitalShips: [],
+      cynoShips: [],
+      associates: [],
+    });
+  }
+  return pilots;
+}
+
+/**
+ * Assesses the pilots named in a local chat paste. Names that resolve to no
+ * pilot are returned as unresolved.
+ */
+export async function buildPasteIntel(
+  db: DB,
+  paste: ParsedPaste,
+  search: SearchClient = new SearchClient(),
+  now: Date = new Date()
+) {
+  const pilots = paste.names.length > 0 ? await loadPilots(db, paste.names, search) : [];
+  const ids = [...new Set(pilots.map((p) => p.characterId))];
+
+  if (ids.length > 0) {
+    const recentSince = new Date(now.getTime() - RECENT_KILLS_WINDOW);
+    const killmails = await db
+      .selectFrom('battle_killmails')
+      .select(['killmail_id', 'attackers'])
+      .where('occurred_at', '>=', recentSince)
+      .where(
+        'battle_id',
+        'in',
+        db
+          .selectFrom('battle_participants')
+          .innerJoin('battles', 'battles.id', 'battle_participants.battle_id')
+          .select('battle_participants.battle_id')
+          .where('battle_participants.character_id', 'in', ids)
+          .where('battles.last_killmail_at', '>=', recentSince)
+      )
+      .execute();
+    const kills = countKills(killmails, new Set(ids));
+
+    const hulls = classifyHulls(
+      await db
+        .selectFrom('pilot_ship_history')
+        .select(['character_id', 'ship_type_id', 'ship_type_name'])
+        .where('character_id', 'in', ids)
+        .where('last_seen', '>=', new Date(now.getTime() - HULL_WINDOW))
+        .execute()
+    );
+
+    // Pasted pilots who fought on the same side, which tells which of local fly together
+    const pairs = await db
+      .selectFrom('battle_participants as p')
+      .innerJoin('battle_participants as o', (join) =>
+        join.onRef('o.battle_id', '=', 'p.battle_id').onRef('o.side_id', '=', 'p.side_id')
+      )
+      .innerJoin('battles', 'battles.id', 'p.battle_id')
+      .select([
+        'p.character_id',
+        'o.character_id as associate_id',
+        (eb) => eb.fn.count<string>('p.battle_id').distinct().as('battles'),
+      ])
+      .where('p.character_id', 'in', ids)
+      .where('o.character_id', 'in', ids)
+      .whereRef('o.character_id', '!=', 'p.character_id')
+      .where('battles.start_time', '>=', new Date(now.getTime() - HULL_WINDOW))
+      .groupBy(['p.character_id', 'o.character_id'])
+      .execute();
+
+    const names = new Map(pilots.map((p) => [p.characterId, p.name]));
+    for (const pilot of pilots) {
+      pilot.recentKills = kills.get(pilot.characterId) || 0;
+      pilot.capitalShips = hulls.get(pilot.characterId)?.capitalShips || [];
+      pilot.cynoShips = hulls.get(pilot.characterId)?.cynoShips || [];
+      pilot.associates = pairs
+        .filter((pair) => Number(pair.character_id) === pilot.characterId)
+        .map((pair) => ({
+          characterId: Number(pair.associate_id),
+          name: names.get(Number(pair.associate_id)) ?? String(pair.associate_id),
+          sharedBattles: Number(pair.battles),
+        }))
+        .sort((a, b) => b.sharedBattles - a.sharedBattles || a.characterId - b.characterId)
+        .slice(0, TOP_ASSOCIATES);
+    }
+  }
+
+  const assessed = pilots
+    .map((pilot) => ({ ...pilot, threat: assessPilot(pilot) }))
+    .sort(
+      (a, b) =>
+        THREAT_LEVELS.indexOf(b.threat.level) - THREAT_LEVELS.indexOf(a.threat.level) ||
+        b.recentKills - a.recentKills ||
+        a.name.localeCompare(b.name)
+    );
+  const resolved = new Set(pilots.map((p) => p.name.toLowerCase()));
+
+  return {
+    threat: assessPaste(assessed),
+    pilots: assessed,
+    unresolved: [...paste.names.filter((n) => !resolved.has(n.toLowerCase())), ...paste.invalid],
+  };
+}
@@ -0,0 +1,258 @@
+import { v4 as uuidv4 } from 'uuid';
+import { sql } from 'kysely';
+import { createLogger } from '@battlescope/logger';
+import type { DB } from '../database/types';
+import { BattleClusterer, lockClustering } from './clusterer';
+import { EnrichmentClient } from './enrichment-client';
+
+const logger = createLogger({ serviceName: 'battle-recluster' });
+
+export interface ReclusterRange {
+  from: Date;
+  to: Date;
+}
+
+export interface ReclusterProgress {
+  // Range actually rebuilt, widened so no battle is cut in half
+  rangeStart: Date;
+  rangeEnd: Date;
+  battlesDeleted: number;
+  battlesCreated: number;
+  killmailsTotal: number;
+  killmailsProcessed: number;
+}
+
+export interface ReclusterJob extends ReclusterRange {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  progress: ReclusterProgress;
+  startedAt: Date;
+  finishedAt: Date | null;
+  error: string | null;
+}
+
+/**
+ * Finds the battles overlapping a range and widens the range to cover them
+ * completely, so a rebuild never keeps half of a battle.
+ */
+async function getAffectedBattles(db: DB, range: ReclusterRange) {
+  const battles = await db
+    .selectFrom('battles')
+    .select(['id', 'start_time', 'last_killmail_at', 'end_time'])
+    .where('start_time', '<=', range.to)
+    .where('last_killmail_at', '>=', range.from)
+    .execute();
+
+  let rangeStart = range.from;
+  let rangeEnd = range.to;
+  for (const battle of battles) {
+    if (battle.start_time < rangeStart) rangeStart = battle.start_time;
+    if (battle.last_killmail_at > rangeEnd) rangeEnd = battle.last_killmail_at;
+  }
+
+  return { battles, rangeStart, rangeEnd };
+}
+
+/**
+ * Battles that are still open are owned by the live clusterer and can't be
+ * rebuilt underneath it.
+ */
+export async function countActiveBattlesInRange(db: DB, range: ReclusterRange): Promise<number> {
+  const { battles } = await getAffectedBattles(db, range);
+  return battles.filter((battle) => battle.end_time === null).length;
+}
+
+/**
+ * Reverts the pilot_ship_history kill/loss counts contributed by the
+ * killmails of the given battles. Killmails stored before their victim ship
+ * and attackers were kept can't be reverted; their IDs are returned so the
+ * replay doesn't count them a second time.
+ */
+async function revertShipHistory(db: DB, battleIds: string[]): Promise<Set<number>> {
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select(['killmail_id', 'victim_character_id', 'victim_ship_type_id', 'attackers'])
+    .where('battle_id', 'in', battleIds)
+    .execute();
+
+  const unrevertable = new Set<number>();
+  const counts = new Map<string, { characterId: number; shipTypeId: number; kills: number; losses: number }>();
+  const bump = (characterId: number, shipTypeId: number, field: 'kills' | 'losses') => {
+    const key = `${characterId}:${shipTypeId}`;
+    const entry = counts.get(key) || { characterId, shipTypeId, kills: 0, losses: 0 };
+    entry[field]++;
+    counts.set(key, entry);
+  };
+
+  for (const km of killmails) {
+    if (km.victim_ship_type_id === null || km.attackers === null) {
+      // bigint columns come back from pg as strings
+      unrevertable.add(Number(km.killmail_id));
+      continue;
+    }
+    if (km.victim_character_id && km.victim_ship_type_id) {
+      bump(km.victim_character_id, km.victim_ship_type_id, 'losses');
+    }
+    for (const attacker of km.attackers || []) {
+      if (attacker.characterId && attacker.shipTypeId) {
+        bump(attacker.characterId, attacker.shipTypeId, 'kills');
+      }
+    }
+  }
+
+  for (const { characterId, shipTypeId, kills, losses } of counts.values()) {
+    await db
+      .updateTable('pilot_ship_history')
+      .set({
+        kill_count: sql`greatest(kill_count - ${kills}, 0)`,
+        loss_count: sql`greatest(loss_count - ${losses}, 0)`,
+      })
+      .where('character_id', '=', characterId)
+      .where('ship_type_id', '=', shipTypeId)
+      .execute();
+  }
+
+  // Ships only ever seen in the rebuilt battles will be re-created if still relevant
+  await db
+    .deleteFrom('pilot_ship_history')
+    .where('kill_count', '=', 0)
+    .where('loss_count', '=', 0)
+    .execute();
+
+  return unrevertable;
+}
+
+/**
+ * Wipes and rebuilds every battle in a range from the enriched killmails
+ * stored by the enrichment service. Killmails are replayed in time order
+ * through a fresh clusterer, so the same input always yields the same
+ * battles (IDs included) and sides. Runs in a single transaction, holding
+ * the clustering lock so the live clusterer waits until it's done.
+ */
+export async function reclusterRange(
+  db: DB,
+  range: ReclusterRange,
+  onProgress: (progress: ReclusterProgress) => void = () => {},
+  enrichment: EnrichmentClient = new EnrichmentClient()
+): Promise<ReclusterProgress> {
+  return db.transaction().execute(async (trx) => {
+    await lockClustering(trx, true);
+
+    const { battles, rangeStart, rangeEnd } = await getAffectedBattles(trx, range);
+    const battleIds = battles.map((battle) => battle.id);
+
+    const progress: ReclusterProgress = {
+      rangeStart,
+      rangeEnd,
+      battlesDeleted: battleIds.length,
+      battlesCreated: 0,
+      killmailsTotal: 0,
+      killmailsProcessed: 0,
+    };
+
+    logger.info(
+      `Re-clustering ${rangeStart.toISOString()} - ${rangeEnd.toISOString()} (${battleIds.length} existing battles)`
+    );
+
+    let skipShipHistory = new Set<number>();
+    if (battleIds.length > 0) {
+      skipShipHistory = await revertShipHistory(trx, battleIds);
+      if (skipShipHistory.size > 0) {
+        logger.warn(`${skipShipHistory.size} killmails predate ship history tracking and keep their counts`);
+      }
+      // battle_killmails and battle_participants cascade
+      await trx.deleteFrom('battles').where('id', 'in', battleIds).execute();
+    }
+
+    const clusterer = new BattleClusterer(trx, { reopenStoredBattles: false, skipShipHistory });
+
+    for await (const page of enrichment.listKillmails(rangeStart, rangeEnd)) {
+      progress.killmailsTotal = page.total;
+
+      await clusterer.processKillmails(page.killmails);
+      progress.killmailsProcessed += page.killmails.length;
+
+      onProgress({ ...progress });
+    }
+
+    await clusterer.closeAllBattles();
+
+    const created = await trx
+      .selectFrom('battles')
+      .select((eb) => eb.fn.countAll().as('count'))
+      .where('start_time', '>=', rangeStart)
+      .where('start_time', '<=', rangeEnd)
+      .executeTakeFirst();
+    progress.battlesCreated = Number(created?.count || 0);
+
+    onProgress({ ...progress });
+    logger.info(
+      `Re-clustered ${progress.killmailsProcessed} killmails into ${progress.battlesCreated} battles (was ${progress.battlesDeleted})`
+    );
+
+    return progress;
+  });
+}
+
+// Background jobs started from the admin API, kept in memory
+const jobs = new Map<string, ReclusterJob>();
+// Finished jobs kept for the admin API, the oldest are dropped first
+const MAX_FINISHED_JOBS = 20;
+
+function pruneFinishedJobs() {
+  const finished = [...jobs.values()].filter((job) => job.status !== 'running');
+  for (const job of finished.slice(0, Math.max(finished.length - MAX_FINISHED_JOBS, 0))) {
+    jobs.delete(job.id);
+  }
+}
+
+export function getReclusterJob(jobId: string): ReclusterJob | undefined {
+  return jobs.get(jobId);
+}
+
+export function listReclusterJobs(): ReclusterJob[] {
+  return [...jobs.values()].sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+export function getRunningReclusterJob(): ReclusterJob | undefined {
+  return [...jobs.values()].find((job) => job.status === 'running');
+}
+
+export function startReclusterJob(db: DB, range: ReclusterRange): ReclusterJob {
+  const job: ReclusterJob = {
+    id: uuidv4(),
+    ...range,
+    status: 'running',
+    progress: {
+      rangeStart: range.from,
+      rangeEnd: range.to,
+      battlesDeleted: 0,
+      battlesCreated: 0,
+      killmailsTotal: 0,
+      killmailsProcessed: 0,
+    },
+    startedAt: new Date(),
+    finishedAt: null,
+    error: null,
+  };
+  jobs.set(job.id, job);
+
+  reclusterRange(db, range, (progress) => {
+    job.progress = progress;
+  })
+    .then((progress) => {
+      job.progress = progress;
+      job.status = 'completed';
+    })
+    .catch((error) => {
+      logger.error({ error, jobId: job.id }, 'Re-clustering job failed');
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      job.finishedAt = new Date();
+      pruneFinishedJobs();
+    });
+
+  return job;
+}
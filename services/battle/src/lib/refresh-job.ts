@@ -0,0 +1,50 @@
+import { createLogger } from '@battlescope/logger';
+
+const logger = createLogger({ serviceName: 'battle-refresh' });
+
+/**
+ * Runs a rebuild (campaigns, camps) on a timer, starting straight away. Runs
+ * never overlap; a run that is still going when the next one is due makes
+ * the next one skip.
+ */
+export class RefreshJob {
+  private name: string;
+  private interval: number;
+  private run: () => Promise<object>;
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(name: string, interval: number, run: () => Promise<object>) {
+    this.name = name;
+    this.interval = interval;
+    this.run = run;
+  }
+
+  start(): void {
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), this.interval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async refresh(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const result = await this.run();
+      logger.info(result, `Refreshed ${this.name}`);
+    } catch (error) {
+      logger.error({ error }, `Failed to refresh ${this.name}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,291 @@
+import { v5 as uuidv5 } from 'uuid';
+import type { Selectable } from 'kysely';
+import type { BattleKillmailsTable, DB, RoamGroup, RoamStop } from '../database/types';
+import { getEntityId } from './side-inference';
+import { getStargateGraph, type StargateGraph } from './stargate-graph';
+
+/**
+ * Roams: a gang's trail of kills from system to system. Kills are linked
+ * into a roam when they share a pilot with it, come soon enough after its
+ * last kill, and are close enough by gate to where it last killed something.
+ * Roams are rebuilt from recent killmails on a timer, like camps.
+ */
+
+// Longest quiet spell between two kills of the same roam
+export const ROAM_MAX_GAP = 60 * 60 * 1000;
+// Furthest (in gate jumps) a gang travels between two kills
+const ROAM_MAX_JUMPS = 15;
+// Distinct systems a roam must kill something in before it's kept
+const ROAM_MIN_SYSTEMS = 3;
+// How far back roams are rebuilt, and how often
+const ROAM_LOOKBACK = parseInt(process.env.ROAM_LOOKBACK_HOURS || '24', 10) * 60 * 60 * 1000;
+export const ROAM_REFRESH_INTERVAL = parseInt(process.env.ROAM_REFRESH_INTERVAL_MINUTES || '2', 10) * 60 * 1000;
+// Keeps the battle IDs in one query well under the bind parameter limit
+const BATTLE_QUERY_CHUNK = 1000;
+
+const ROAM_ID_NAMESPACE = 'c4e1a7d2-93b5-4c8e-a6f0-2d7b9e13f845';
+
+const KILLMAIL_COLUMNS = ['battle_id', 'killmail_id', 'occurred_at', 'system_id', 'isk_value', 'attackers'] as const;
+
+export type RoamKillmail = Pick<Selectable<BattleKillmailsTable>, (typeof KILLMAIL_COLUMNS)[number]>;
+
+export interface DetectedRoam {
+  kills: RoamKillmail[];
+  pilots: Set<number>;
+}
+
+export interface RoamSummary {
+  startTime: Date;
+  lastKillAt: Date;
+  totalKills: number;
+  totalIsk: number;
+  pilots: number;
+  allianceIds: number[];
+  groups: RoamGroup[];
+  trail: RoamStop[];
+}
+
+export function getRoamId(firstKillmailId: number): string {
+  return uuidv5(String(firstKillmailId), ROAM_ID_NAMESPACE);
+}
+
+const attackerPilots = (km: RoamKillmail) =>
+  (km.attackers || []).map((a) => a.characterId).filter((id): id is number => !!id);
+
+const lastKill = (roam: DetectedRoam) => roam.kills[roam.kills.length - 1];
+
+const systemCount = (roam: DetectedRoam) => new Set(roam.kills.map((km) => Number(km.system_id))).size;
+
+/**
+ * Whether a gang could have got from one system to the other between two
+ * kills. Systems off the stargate graph (wormholes) can be reached from
+ * anywhere. `reach` caches the systems within range of each origin, so each
+ * system is searched from at most once per rebuild.
+ */
+function isReachable(
+  graph: StargateGraph,
+  reach: Map<number, Map<number, number>>,
+  fromSystemId: number,
+  toSystemId: number
+): boolean {
+  if (fromSystemId === toSystemId || !graph.getSystem(fromSystemId) || !graph.getSystem(toSystemId)) {
+    return true;
+  }
+  let nearby = reach.get(fromSystemId);
+  if (!nearby) {
+    nearby = graph.getSystemsWithinJumps(fromSystemId, ROAM_MAX_JUMPS);
+    reach.set(fromSystemId, nearby);
+  }
+  return nearby.has(toSystemId);
+}
+
+/**
+ * Finds the roams among a set of killmails, oldest first. A kill joins the
+ * roam it shares the most pilots with; kills that join none start a new one.
+ */
+export function detectRoams(killmails: RoamKillmail[], graph: StargateGraph = getStargateGraph()): DetectedRoam[] {
+  const sorted = killmails
+    .filter((km) => km.system_id)
+    .sort((a, b) => a.occurred_at.getTime() - b.occurred_at.getTime());
+
+  const roams: DetectedRoam[] = [];
+  // Roams every pilot has been on
+  const pilotRoams = new Map<number, Set<DetectedRoam>>();
+  const reach = new Map<number, Map<number, number>>();
+
+  for (const km of sorted) {
+    const pilots = attackerPilots(km);
+    if (pilots.length === 0) continue;
+
+    const time = km.occurred_at.getTime();
+    // bigint columns come back from pg as strings
+    const systemId = Number(km.system_id);
+
+    const shared = new Map<DetectedRoam, number>();
+    for (const pilot of pilots) {
+      for (const roam of pilotRoams.get(pilot) || []) {
+        if (time - lastKill(roam).occurred_at.getTime() > ROAM_MAX_GAP) {
+          pilotRoams.get(pilot)?.delete(roam);
+        } else {
+          shared.set(roam, (shared.get(roam) || 0) + 1);
+        }
+      }
+    }
+
+    const [best] = [...shared]
+      .filter(([roam]) => isReachable(graph, reach, Number(lastKill(roam).system_id), systemId))
+      .sort(([, a], [, b]) => b - a);
+
+    const roam = best ? best[0] : { kills: [], pilots: new Set<number>() };
+    if (!best) roams.push(roam);
+
+    roam.kills.push(km);
+    for (const pilot of pilots) {
+      roam.pilots.add(pilot);
+      pilotRoams.set(pilot, (pilotRoams.get(pilot) || new Set()).add(roam));
+    }
+  }
+
+  return roams.filter((roam) => systemCount(roam) >= ROAM_MIN_SYSTEMS);
+}
+
+/**
+ * The roam's trail, one stop per visit to a system, and the groups its
+ * pilots flew for. `names` maps alliance (or alliance-less corporation) IDs
+ * to names.
+ */
+export function summarizeRoam(
+  roam: DetectedRoam,
+  names: Map<number, string | null> = new Map(),
+  graph: StargateGraph = getStargateGraph()
+): RoamSummary {
+  const trail: RoamStop[] = [];
+  const groups = new Map<number, Set<number>>();
+  const allianceIds = new Set<number>();
+  let totalIsk = 0;
+
+  for (const km of roam.kills) {
+    totalIsk += Number(km.isk_value || 0);
+
+    const systemId = Number(km.system_id);
+    const killedAt = km.occurred_at.toISOString();
+    const stop = trail[trail.length - 1];
+    if (stop && stop.systemId === systemId) {
+      stop.lastKillAt = killedAt;
+      stop.kills++;
+    } else {
+      const system = graph.getSystem(systemId);
+      trail.push({
+        systemId,
+        systemName: system?.name ?? String(systemId),
+        regionName: (system && graph.getRegionName(system.regionId)) ?? null,
+        firstKillAt: killedAt,
+        lastKillAt: killedAt,
+        kills: 1,
+      });
+    }
+
+    for (const attacker of km.attackers || []) {
+      const entityId = getEntityId(attacker.allianceId, attacker.corporationId);
+      if (!attacker.characterId || !entityId) continue;
+      groups.set(entityId, (groups.get(entityId) || new Set()).add(attacker.characterId));
+      if (attacker.allianceId) allianceIds.add(attacker.allianceId);
+    }
+  }
+
+  return {
+    startTime: roam.kills[0].occurred_at,
+    lastKillAt: lastKill(roam).occurred_at,
+    totalKills: roam.kills.length,
+    totalIsk,
+    pilots: roam.pilots.size,
+    allianceIds: [...allianceIds].sort((a, b) => a - b),
+    groups: [...groups]
+      .map(([entityId, pilots]) => ({ entityId, name: names.get(entityId) ?? null, pilots: pilots.size }))
+      .sort((a, b) => b.pilots - a.pilots || a.entityId - b.entityId),
+    trail,
+  };
+}
+
+async function loadGroupNames(db: DB, roams: DetectedRoam[]): Promise<Map<number, string | null>> {
+  const battleIds = [...new Set(roams.flatMap((roam) => roam.kills.map((km) => km.battle_id)))];
+  const names = new Map<number, string | null>();
+
+  for (let i = 0; i < battleIds.length; i += BATTLE_QUERY_CHUNK) {
+    const rows = await db
+      .selectFrom('battle_participants')
+      .select(['alliance_id', 'alliance_name', 'corp_id', 'corp_name'])
+      .where('battle_id', 'in', battleIds.slice(i, i + BATTLE_QUERY_CHUNK))
+      .where('is_victim', '=', false)
+      .execute();
+    for (const row of rows) {
+      const entityId = getEntityId(row.alliance_id, row.corp_id);
+      if (entityId) names.set(entityId, (row.alliance_id ? row.alliance_name : row.corp_name) ?? null);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Rebuilds the roams of the last `ROAM_LOOKBACK_HOURS`. Roams still going at
+ * the start of the window are rebuilt whole; older ones no longer change.
+ */
+export async function refreshRoams(db: DB, now: Date = new Date()): Promise<{ roams: number; killmails: number }> {
+  const cutoff = new Date(now.getTime() - ROAM_LOOKBACK - ROAM_MAX_GAP);
+  const existing = await db
+    .selectFrom('roams')
+    .select(['id', 'start_time'])
+    .where('last_kill_at', '>=', cutoff)
+    .execute();
+
+  let windowStart = new Date(now.getTime() - ROAM_LOOKBACK);
+  for (const roam of existing) {
+    if (roam.start_time < windowStart) windowStart = roam.start_time;
+  }
+
+  const killmails = await db
+    .selectFrom('battle_killmails')
+    .select(KILLMAIL_COLUMNS)
+    .where('occurred_at', '>=', windowStart)
+    .where('system_id', 'is not', null)
+    // Kills of roams that ended before the window stay where they are
+    .where(
+      'killmail_id',
+      'not in',
+      db
+        .selectFrom('roam_killmails')
+        .innerJoin('roams', 'roams.id', 'roam_killmails.roam_id')
+        .select('roam_killmails.killmail_id')
+        .where('roams.last_kill_at', '<', cutoff)
+    )
+    .execute();
+
+  const roams = detectRoams(killmails);
+  const names = await loadGroupNames(db, roams);
+
+  await db.transaction().execute(async (trx) => {
+    const kept = new Set<string>();
+    for (const roam of roams) {
+      // bigint columns come back from pg as strings
+      const id = getRoamId(Number(roam.kills[0].killmail_id));
+      const summary = summarizeRoam(roam, names);
+      const values = {
+        start_time: summary.startTime,
+        last_kill_at: summary.lastKillAt,
+        total_kills: summary.totalKills,
+        total_isk_destroyed: BigInt(summary.totalIsk),
+        pilots: summary.pilots,
+        alliance_ids: summary.allianceIds,
+        groups: JSON.stringify(summary.groups),
+        trail: JSON.stringify(summary.trail),
+      };
+      kept.add(id);
+
+      await trx
+        .insertInto('roams')
+        .values({ id, ...values })
+        .onConflict((oc) => oc.column('id').doUpdateSet({ ...values, updated_at: new Date() }))
+        .execute();
+      await trx.deleteFrom('roam_killmails').where('roam_id', '=', id).execute();
+      await trx
+        .insertInto('roam_killmails')
+        .values(
+          roam.kills.map((km) => ({
+            roam_id: id,
+            killmail_id: Number(km.killmail_id),
+            battle_id: km.battle_id,
+            occurred_at: km.occurred_at,
+          }))
+        )
+        .execute();
+    }
+
+    const stale = existing.map((r) => r.id).filter((id) => !kept.has(id));
+    if (stale.length > 0) {
+      await trx.deleteFrom('roams').where('id', 'in', stale).execute();
+    }
+  });
+
+  return { roams: roams.length, killmails: roams.reduce((sum, r) => sum + r.kills.length, 0) };
+}
@@ -0,0 +1,66 @@
+import axios from 'axios';
+import { createLogger } from '@battlescope/logger';
+
+const logger = createLogger({ serviceName: 'search-client' });
+
+interface CharacterDocument {
+  character_id: string;
+  character_name: string;
+  corp_name: string;
+  alliance_name?: string;
+}
+
+export interface IndexedCharacter {
+  characterId: number;
+  name: string;
+  corporationName: string | null;
+  allianceName: string | null;
+}
+
+/**
+ * Client for the search service, which indexes every character seen on a
+ * killmail. Used to resolve pasted character names that no battle knows.
+ */
+export class SearchClient {
+  private baseUrl: string;
+
+  constructor(baseUrl = process.env.SEARCH_SERVICE_URL || 'http://search:3004') {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Looks up characters by exact name in one request. Names the index doesn't
+   * have are left out, and none are found if the lookup fails.
+   */
+  async findCharacters(names: string[]): Promise<Map<string, IndexedCharacter>> {
+    const found = new Map<string, IndexedCharacter>();
+    if (names.length === 0) {
+      return found;
+    }
+
+    try {
+      const response = await axios.post<{ characters: CharacterDocument[] }>(
+        `${this.baseUrl}/api/search/characters/lookup`,
+        { names },
+        { timeout: 10000 }
+      );
+
+      const wanted = new Set(names.map((name) => name.toLowerCase()));
+      for (const match of response.data.characters) {
+        const name = match.character_name.toLowerCase();
+        if (wanted.has(name)) {
+          found.set(name, {
+            characterId: Number(match.character_id),
+            name: match.character_name,
+            corporationName: match.corp_name || null,
+            allianceName: match.alliance_name || null,
+          });
+        }
+      }
+    } catch (error) {
+      logger.warn({ count: names.length, error: (error as Error).message }, 'Character lookup failed');
+    }
+
+    return found;
+  }
+}
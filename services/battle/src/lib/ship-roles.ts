@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '@battlescope/logger';
+
+const logger = createLogger({ serviceName: 'ship-roles' });
+
+// Hand-maintained fleet role of every ship group, and of weapons (tackle modules) that give a pilot's role away
+const DEFAULT_SHIP_ROLES_PATH = path.join(__dirname, '../../data/ship-roles.json');
+
+export const PARTICIPANT_ROLES = ['logi', 'tackle', 'dps', 'capital', 'command', 'ewar', 'other'] as const;
+
+export type ParticipantRole = (typeof PARTICIPANT_ROLES)[number];
+
+export interface ShipRoleData {
+  // Ship group ID -> role
+  groups: Record<string, ParticipantRole>;
+  // Weapon (module) type ID -> role
+  weapons: Record<string, ParticipantRole>;
+}
+
+export class ShipRoles {
+  private groups: Map<number, ParticipantRole> = new Map();
+  private weapons: Map<number, ParticipantRole> = new Map();
+
+  constructor(data: ShipRoleData) {
+    for (const [groupId, role] of Object.entries(data.groups)) {
+      this.groups.set(Number(groupId), role);
+    }
+    for (const [typeId, role] of Object.entries(data.weapons)) {
+      this.weapons.set(Number(typeId), role);
+    }
+  }
+
+  get size(): number {
+    return this.groups.size;
+  }
+
+  getGroupRole(groupId: number): ParticipantRole | undefined {
+    return this.groups.get(groupId);
+  }
+
+  getWeaponRole(typeId: number): ParticipantRole | undefined {
+    return this.weapons.get(typeId);
+  }
+}
+
+let shipRoles: ShipRoles | null = null;
+
+export function loadShipRoles(filePath: string): ShipRoles {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  return new ShipRoles(JSON.parse(raw) as ShipRoleData);
+}
+
+export function getShipRoles(): ShipRoles {
+  if (!shipRoles) {
+    const filePath = process.env.SHIP_ROLES_PATH || DEFAULT_SHIP_ROLES_PATH;
+
+    try {
+      shipRoles = loadShipRoles(filePath);
+      logger.info(`Loaded roles for ${shipRoles.size} ship groups from ${filePath}`);
+    } catch (error) {
+      // Everyone ends up as "other", but reports still work
+      logger.warn({ error, filePath }, 'Failed to load ship roles, participant roles unavailable');
+      shipRoles = new ShipRoles({ groups: {}, weapons: {} });
+    }
+  }
+
+  return shipRoles;
+}
@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '@battlescope/logger';
+
+const logger = createLogger({ serviceName: 'ship-types' });
+
+// Ship, structure, deployable and fighter types from the EVE static data export
+const DEFAULT_SHIP_TYPES_PATH = path.join(__dirname, '../../data/ship-types.json');
+
+export interface ShipType {
+  name: string;
+  groupId: number;
+}
+
+export interface ShipGroup {
+  name: string;
+  categoryId: number;
+}
+
+export interface ShipTypeData {
+  groups: Record<string, ShipGroup>;
+  types: Record<string, ShipType>;
+}
+
+export class ShipTypes {
+  private types: Map<number, ShipType> = new Map();
+  private groups: Map<number, ShipGroup> = new Map();
+
+  constructor(data: ShipTypeData) {
+    for (const [typeId, type] of Object.entries(data.types)) {
+      this.types.set(Number(typeId), type);
+    }
+    for (const [groupId, group] of Object.entries(data.groups)) {
+      this.groups.set(Number(groupId), group);
+    }
+  }
+
+  get size(): number {
+    return this.types.size;
+  }
+
+  getType(typeId: number): ShipType | undefined {
+    return this.types.get(typeId);
+  }
+
+  getGroup(groupId: number): ShipGroup | undefined {
+    return this.groups.get(groupId);
+  }
+
+  /**
+   * Returns the ship group (hull class) of a type, e.g. "Interceptor" or
+   * "Force Auxiliary".
+   */
+  getGroupOf(typeId: number): ({ id: number } & ShipGroup) | undefined {
+    const type = this.types.get(typeId);
+    const group = type && this.groups.get(type.groupId);
+    return type && group ? { id: type.groupId, ...group } : undefined;
+  }
+}
+
+let shipTypes: ShipTypes | null = null;
+
+export function loadShipTypes(filePath: string): ShipTypes {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  return new ShipTypes(JSON.parse(raw) as ShipTypeData);
+}
+
+export function getShipTypes(): ShipTypes {
+  if (!shipTypes) {
+    const filePath = process.env.SHIP_TYPES_PATH || DEFAULT_SHIP_TYPES_PATH;
+
+    try {
+      shipTypes = loadShipTypes(filePath);
+      logger.info(`Loaded ${shipTypes.size} ship types from ${filePath}`);
+    } catch (error) {
+      // Reports still work, just without ship groups
+      logger.warn({ error, filePath }, 'Failed to load ship types, ship groups unavailable');
+      shipTypes = new ShipTypes({ groups: {}, types: {} });
+    }
+  }
+
+  return shipTypes;
+}
@@ -0,0 +1,274 @@
+/**
+ * Side inference for battles.
+ *
+ * Builds a weighted graph between alliances (or corporations for pilots without
+ * an alliance) from every killmail in a battle: "shot at" edges between the
+ * victim and each attacking group, and "shot alongside" edges between groups
+ * that appear on the same attacker list. The graph is then partitioned into
+ * sides so that groups that fight together end up on the same side and groups
+ * that shoot each other end up on opposing sides.
+ */
+
+export const MAX_SIDES = 4;
+
+export interface SideKillmail {
+  victim: {
+    corporationId?: number | null;
+    allianceId?: number | null;
+  };
+  attackers: Array<{
+    characterId?: number | null;
+    corporationId?: number | null;
+    allianceId?: number | null;
+  }>;
+}
+
+// Alliance if available, otherwise corporation
+export function getEntityId(allianceId?: number | null, corporationId?: number | null): number | null {
+  return Number(allianceId || corporationId) || null;
+}
+
+export class SideGraph {
+  private hostile: Map<number, Map<number, number>> = new Map();
+  private allied: Map<number, Map<number, number>> = new Map();
+  private totals: Map<number, number> = new Map();
+
+  get entities(): number[] {
+    return [...this.totals.keys()];
+  }
+
+  addKillmail(killmail: SideKillmail): void {
+    const victimId = getEntityId(killmail.victim.allianceId, killmail.victim.corporationId);
+
+    // NPCs have no character and should not drag groups onto a side
+    const attackerIds = new Set<number>();
+    for (const attacker of killmail.attackers) {
+      const attackerId = getEntityId(attacker.allianceId, attacker.corporationId);
+      if (attacker.characterId && attackerId) {
+        attackerIds.add(attackerId);
+      }
+    }
+
+    if (victimId) {
+      this.touch(victimId);
+      for (const attackerId of attackerIds) {
+        // Friendly fire (awox) says nothing about which side a group is on
+        if (attackerId !== victimId) {
+          this.addEdge(this.hostile, victimId, attackerId, 1);
+        }
+      }
+    }
+
+    // Spread "shot alongside" evidence over the group so blobs don't dominate
+    const attackers = [...attackerIds];
+    const alongsideWeight = attackers.length > 1 ? 1 / (attackers.length - 1) : 0;
+    for (let i = 0; i < attackers.length; i++) {
+      this.touch(attackers[i]);
+      for (let j = i + 1; j < attackers.length; j++) {
+        this.addEdge(this.allied, attackers[i], attackers[j], alongsideWeight);
+      }
+    }
+  }
+
+  /**
+   * Partitions the graph into sides. Side IDs from `previous` are kept where
+   * possible so that participants don't flip sides when a new killmail only
+   * confirms the existing partition. `pinned` entities are fixed to a side.
+   */
+  partition(previous: Map<number, number> = new Map(), pinned: Map<number, number> = new Map()): Map<number, number> {
+    const assignment = new Map<number, number>(pinned);
+    const order = this.placementOrder(pinned);
+
+    // Greedy placement, strongest relationships first
+    for (const entityId of order) {
+      if (assignment.has(entityId)) continue;
+
+      const sideIds = distinctSides(assignment);
+      const best = this.bestSide(entityId, assignment, sideIds);
+
+      // Hostile to every existing side: start a new one (third parties)
+      if (!best || (best.score < 0 && sideIds.length < MAX_SIDES)) {
+        assignment.set(entityId, nextSideId(sideIds));
+      } else {
+        assignment.set(entityId, best.sideId);
+      }
+    }
+
+    // Local refinement: move groups to the side they have the strongest ties to
+    for (let pass = 0; pass < 10; pass++) {
+      let moved = false;
+      for (const entityId of order) {
+        if (pinned.has(entityId)) continue;
+
+        const current = assignment.get(entityId)!;
+        const best = this.bestSide(entityId, assignment, distinctSides(assignment), entityId);
+        if (best && best.sideId !== current && best.score > this.score(entityId, current, assignment, entityId)) {
+          assignment.set(entityId, best.sideId);
+          moved = true;
+        }
+      }
+      if (!moved) break;
+    }
+
+    return renumberSides(assignment, previous, pinned);
+  }
+
+  private touch(entityId: number): void {
+    if (!this.totals.has(entityId)) {
+      this.totals.set(entityId, 0);
+    }
+  }
+
+  private addEdge(edges: Map<number, Map<number, number>>, a: number, b: number, weight: number): void {
+    for (const [from, to] of [
+      [a, b],
+      [b, a],
+    ]) {
+      let row = edges.get(from);
+      if (!row) {
+        row = new Map();
+        edges.set(from, row);
+      }
+      row.set(to, (row.get(to) || 0) + weight);
+      this.totals.set(from, (this.totals.get(from) || 0) + weight);
+    }
+  }
+
+  private weightBetween(a: number, b: number): number {
+    return (this.allied.get(a)?.get(b) || 0) - (this.hostile.get(a)?.get(b) || 0);
+  }
+
+  private score(entityId: number, sideId: number, assignment: Map<number, number>, exclude?: number): number {
+    let score = 0;
+    for (const [otherId, otherSide] of assignment) {
+      if (otherSide === sideId && otherId !== exclude) {
+        score += this.weightBetween(entityId, otherId);
+      }
+    }
+    return score;
+  }
+
+  private bestSide(
+    entityId: number,
+    assignment: Map<number, number>,
+    sideIds: number[],
+    exclude?: number
+  ): { sideId: number; score: number } | null {
+    let best: { sideId: number; score: number } | null = null;
+    for (const sideId of sideIds) {
+      const score = this.score(entityId, sideId, assignment, exclude);
+      if (!best || score > best.score) {
+        best = { sideId, score };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Orders entities so that each one is placed next to the groups it has the
+   * strongest relationship with. Ties break on total weight, then entity ID,
+   * which keeps the result deterministic for the same set of killmails.
+   */
+  private placementOrder(pinned: Map<number, number>): number[] {
+    const remaining = new Set(this.totals.keys());
+    const placed = new Set<number>();
+    const order: number[] = [];
+
+    for (const entityId of pinned.keys()) {
+      placed.add(entityId);
+      remaining.delete(entityId);
+    }
+
+    const byTotal = (a: number, b: number) => (this.totals.get(b) || 0) - (this.totals.get(a) || 0) || a - b;
+
+    while (remaining.size > 0) {
+      let next: number | null = null;
+      let nextStrength = 0;
+
+      for (const entityId of remaining) {
+        let strength = 0;
+        for (const placedId of placed) {
+          strength += Math.abs(this.weightBetween(entityId, placedId));
+        }
+        if (
+          strength > nextStrength ||
+          (strength === nextStrength && strength > 0 && next !== null && byTotal(entityId, next) < 0)
+        ) {
+          next = entityId;
+          nextStrength = strength;
+        }
+      }
+
+      // Nothing connected to what we've placed so far, start a new component
+      if (next === null) {
+        next = [...remaining].sort(byTotal)[0];
+      }
+
+      order.push(next);
+      placed.add(next);
+      remaining.delete(next);
+    }
+
+    return order;
+  }
+}
+
+function distinctSides(assignment: Map<number, number>): number[] {
+  return [...new Set(assignment.values())].sort((a, b) => a - b);
+}
+
+function nextSideId(sideIds: number[]): number {
+  let sideId = 1;
+  while (sideIds.includes(sideId)) sideId++;
+  return sideId;
+}
+
+/**
+ * Maps freshly computed side IDs onto the previous ones by overlap, so that a
+ * recomputation that agrees with the old partition keeps the same numbering.
+ */
+function renumberSides(
+  assignment: Map<number, number>,
+  previous: Map<number, number>,
+  pinned: Map<number, number>
+): Map<number, number> {
+  const overlap = new Map<string, number>();
+  for (const [entityId, sideId] of assignment) {
+    const previousSide = pinned.get(entityId) ?? previous.get(entityId);
+    if (previousSide !== undefined) {
+      const key = `${sideId}:${previousSide}`;
+      // Pinned entities must keep their side, so they dominate the overlap
+      overlap.set(key, (overlap.get(key) || 0) + (pinned.has(entityId) ? 1e6 : 1));
+    }
+  }
+
+  const candidates = [...overlap.entries()]
+    .map(([key, count]) => {
+      const [sideId, previousSide] = key.split(':').map(Number);
+      return { sideId, previousSide, count };
+    })
+    .sort((a, b) => b.count - a.count || a.sideId - b.sideId || a.previousSide - b.previousSide);
+
+  const mapping = new Map<number, number>();
+  const used = new Set<number>();
+  for (const { sideId, previousSide } of candidates) {
+    if (!mapping.has(sideId) && !used.has(previousSide)) {
+      mapping.set(sideId, previousSide);
+      used.add(previousSide);
+    }
+  }
+
+  for (const sideId of distinctSides(assignment)) {
+    if (!mapping.has(sideId)) {
+      const newSide = nextSideId([...used]);
+      mapping.set(sideId, newSide);
+      used.add(newSide);
+    }
+  }
+
+  const result = new Map<number, number>();
+  for (const [entityId, sideId] of assignment) {
+    result.set(entityId, mapping.get(sideId)!);
+  }
+  return result;
+}
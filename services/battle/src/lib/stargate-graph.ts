@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from '@battlescope/logger';
+
+const logger = createLogger({ serviceName: 'stargate-graph' });
+
+// Static stargate data generated from the EVE static data export (k-space only)
+const DEFAULT_GRAPH_PATH = path.join(__dirname, '../../data/stargates.json');
+
+export interface SolarSystemNode {
+  name: string;
+  regionId: number;
+  security: number;
+  neighbours: number[];
+}
+
+export interface StargateGraphData {
+  regions: Record<string, string>;
+  systems: Record<string, SolarSystemNode>;
+}
+
+export class StargateGraph {
+  private systems: Map<number, SolarSystemNode> = new Map();
+  private regions: Map<number, string> = new Map();
+
+  constructor(data: StargateGraphData) {
+    for (const [systemId, system] of Object.entries(data.systems)) {
+      this.systems.set(Number(systemId), system);
+    }
+    for (const [regionId, name] of Object.entries(data.regions)) {
+      this.regions.set(Number(regionId), name);
+    }
+  }
+
+  get size(): number {
+    return this.systems.size;
+  }
+
+  getSystem(systemId: number): SolarSystemNode | undefined {
+    return this.systems.get(systemId);
+  }
+
+  getRegionName(regionId: number): string | undefined {
+    return this.regions.get(regionId);
+  }
+
+  getNeighbours(systemId: number): number[] {
+    return this.systems.get(systemId)?.neighbours || [];
+  }
+
+  /**
+   * Returns every system reachable within `maxJumps` gate jumps, mapped to its
+   * distance. The origin system is always included at distance 0, even when it
+   * is not part of the graph (wormholes, Pochven filaments, etc).
+   */
+  getSystemsWithinJumps(systemId: number, maxJumps: number): Map<number, number> {
+    const distances = new Map<number, number>([[systemId, 0]]);
+    let frontier = [systemId];
+
+    for (let jumps = 1; jumps <= maxJumps && frontier.length > 0; jumps++) {
+      const next: number[] = [];
+      for (const current of frontier) {
+        for (const neighbour of this.getNeighbours(current)) {
+          if (!distances.has(neighbour)) {
+            distances.set(neighbour, jumps);
+            next.push(neighbour);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return distances;
+  }
+
+  /**
+   * Returns the jump distance between two systems, or null if they are further
+   * apart than `maxJumps` (or not connected at all).
+   */
+  jumpsBetween(fromSystemId: number, toSystemId: number, maxJumps: number): number | null {
+    return this.getSystemsWithinJumps(fromSystemId, maxJumps).get(toSystemId) ?? null;
+  }
+}
+
+let graph: StargateGraph | null = null;
+
+export function loadStargateGraph(filePath: string): StargateGraph {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  return new StargateGraph(JSON.parse(raw) as StargateGraphData);
+}
+
+export function getStargateGraph(): StargateGraph {
+  if (!graph) {
+    const filePath = process.env.STARGATE_GRAPH_PATH || DEFAULT_GRAPH_PATH;
+
+    try {
+      graph = loadStargateGraph(filePath);
+      logger.info(`Loaded stargate graph with ${graph.size} systems from ${filePath}`);
+    } catch (error) {
+      // Without the graph we can still cluster, just not across gates
+      logger.warn({ error, filePath }, 'Failed to load stargate graph, clustering per system only');
+      graph = new StargateGraph({ regions: {}, systems: {} });
+    }
+  }
+
+  return graph;
+}
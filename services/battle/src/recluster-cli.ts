@@ -0,0 +1,66 @@
+/**
+ * Re-cluster Script - Rebuild battles for a historical range
+ *
+ * Wipes battles, battle_killmails, battle_participants and their
+ * pilot_ship_history contributions for the range, then replays the enriched
+ * killmails stored by the enrichment service through the clusterer.
+ *
+ * Usage:
+ *   RECLUSTER_START_DATE=2025-11-01 RECLUSTER_END_DATE=2025-11-07 pnpm recluster
+ */
+
+import { createLogger } from '@battlescope/logger';
+import { getDatabase, closeDatabase } from './database/client';
+import { countActiveBattlesInRange, reclusterRange } from './lib/recluster';
+
+const logger = createLogger({ serviceName: 'recluster' });
+
+function parseDate(name: string): Date {
+  const value = process.env[name];
+  const date = value ? new Date(value) : new Date(NaN);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid or missing ${name}. Use YYYY-MM-DD or an ISO timestamp`);
+  }
+  return date;
+}
+
+async function main() {
+  try {
+    const range = {
+      from: parseDate('RECLUSTER_START_DATE'),
+      to: parseDate('RECLUSTER_END_DATE'),
+    };
+    const db = getDatabase();
+
+    const activeBattles = await countActiveBattlesInRange(db, range);
+    if (activeBattles > 0) {
+      throw new Error(`Range includes ${activeBattles} active battles, wait for them to end`);
+    }
+
+    const result = await reclusterRange(db, range, (progress) => {
+      const percent = progress.killmailsTotal
+        ? ((progress.killmailsProcessed / progress.killmailsTotal) * 100).toFixed(1)
+        : '0.0';
+      logger.info(`Processed ${progress.killmailsProcessed}/${progress.killmailsTotal} killmails (${percent}%)`);
+    });
+
+    logger.info(
+      {
+        rangeStart: result.rangeStart.toISOString(),
+        rangeEnd: result.rangeEnd.toISOString(),
+        battlesDeleted: result.battlesDeleted,
+        battlesCreated: result.battlesCreated,
+        killmails: result.killmailsProcessed,
+      },
+      '✅ Re-clustering completed'
+    );
+    await closeDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Re-clustering failed:', error);
+    await closeDatabase();
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,74 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import type { DB } from '../database/types';
+import { BATTLE_ADMIN_FEATURE, BATTLE_ADMIN_ROLE, getAuthClient, requireFeatureRole } from '../lib/auth-client';
+import {
+  countActiveBattlesInRange,
+  getReclusterJob,
+  getRunningReclusterJob,
+  listReclusterJobs,
+  startReclusterJob,
+} from '../lib/recluster';
+
+const ReclusterBodySchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+  })
+  .refine((range) => range.from < range.to, { message: '`from` must be before `to`' });
+
+const adminRoutes: FastifyPluginAsync = async (fastify) => {
+  const db = fastify.db as DB;
+
+  fastify.addHook('preHandler', requireFeatureRole(BATTLE_ADMIN_FEATURE, BATTLE_ADMIN_ROLE));
+
+  // POST /api/admin/recluster - Rebuild all battles in a date range in the background
+  fastify.post('/api/admin/recluster', async (request, reply) => {
+    const parsed = ReclusterBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid range', details: parsed.error.errors });
+    }
+
+    const running = getRunningReclusterJob();
+    if (running) {
+      return reply.status(409).send({ error: 'A re-clustering job is already running', job: running });
+    }
+
+    const activeBattles = await countActiveBattlesInRange(db, parsed.data);
+    if (activeBattles > 0) {
+      return reply
+        .status(409)
+        .send({ error: `Range includes ${activeBattles} active battles, wait for them to end` });
+    }
+
+    const { from, to } = parsed.data;
+    await getAuthClient().writeAuditLog({
+      actorAccountId: request.accountId || null,
+      action: 'battle.recluster',
+      targetType: 'battle_range',
+      targetId: `${from.toISOString()}/${to.toISOString()}`,
+      metadata: { from: from.toISOString(), to: to.toISOString() },
+    });
+
+    const job = startReclusterJob(db, parsed.data);
+    return reply.status(202).send({ job });
+  });
+
+  // GET /api/admin/recluster - List re-clustering jobs
+  fastify.get('/api/admin/recluster', async () => {
+    return { jobs: listReclusterJobs() };
+  });
+
+  // GET /api/admin/recluster/:jobId - Get re-clustering job progress
+  fastify.get<{ Params: { jobId: string } }>('/api/admin/recluster/:jobId', async (request, reply) => {
+    const job = getReclusterJob(request.params.jobId);
+
+    if (!job) {
+      return reply.status(404).send({ error: 'Job not found' });
+    }
+
+    return { job };
+  });
+};
+
+export default adminRoutes;
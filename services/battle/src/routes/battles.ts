@@ -1,83 +1,112 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import type { DB } from '../database/types';
+import { BATTLE_CLASSIFICATIONS } from '../lib/battle-classification';
+import { buildBattleExport, EXPORT_FORMATS, toExportCsv, toExportText } from '../lib/battle-export';
+import { buildBattlePhases } from '../lib/battle-phases';
+import { BATTLE_SORTS, decodeCursor, filterBattles, getNextCursor, sortBattles } from '../lib/battle-query';
+import {
+  buildBattleReplay,
+  getBucketSizes,
+  MAX_REPLAY_BUCKETS,
+  parseBucket,
+  REPLAY_BUCKET_SIZES,
+} from '../lib/battle-replay';
+import { buildBattleReport } from '../lib/battle-report';
+import { inferRole, loadSideRoles } from '../lib/participant-roles';
+import { loadParticipantStats } from '../lib/participant-stats';
+
+// Most battles on one page
+const MAX_BATTLES_PAGE = 100;
+
+const optionalNumber = z.coerce.number().int().positive().optional();
 
 const ListBattlesQuerySchema = z.object({
-  page: z.string().optional().default('1').transform(Number),
-  limit: z.string().optional().default('20').transform(Number),
-  systemId: z.string().optional().transform((v) => (v ? Number(v) : undefined)),
+  limit: z
+    .string()
+    .optional()
+    .default('20')
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(MAX_BATTLES_PAGE)),
+  // nextCursor of the previous page
+  cursor: z.string().optional(),
+  sort: z.enum(BATTLE_SORTS).optional().default('start_time'),
+  order: z.enum(['asc', 'desc']).optional().default('desc'),
+  systemId: optionalNumber,
+  regionId: optionalNumber,
   securityType: z.enum(['highsec', 'lowsec', 'nullsec', 'wormhole']).optional(),
-  minKills: z.string().optional().transform((v) => (v ? Number(v) : undefined)),
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
+  minKills: optionalNumber,
+  minIsk: optionalNumber,
+  classification: z.enum(BATTLE_CLASSIFICATIONS).optional(),
+  minSignificance: z.coerce.number().nonnegative().optional(),
+  allianceId: optionalNumber,
+  corporationId: optionalNumber,
+  shipTypeId: optionalNumber,
+  activeOnly: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((v) => v === 'true'),
+  excludeCamps: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((v) => v === 'true'),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
 });
 
-const battleRoutes: FastifyPluginAsync = async (fastify) => {
-  const db = fastify.db as DB;
-
-  // GET /api/battles - List battles with pagination and filters
-  fastify.get('/api/battles', async (request) => {
-    const query = ListBattlesQuerySchema.parse(request.query);
-    const offset = (query.page - 1) * query.limit;
-
-    let battlesQuery = db
-      .selectFrom('battles')
-      .selectAll()
-      .orderBy('start_time', 'desc')
-      .limit(query.limit)
-      .offset(offset);
+const ListParticipantsQuerySchema = z.object({
+  sort: z
+    .enum(['name', 'damage_dealt', 'damage_received', 'kill_involvement', 'final_blows', 'losses', 'isk_lost'])
+    .optional()
+    .default('name'),
+  order: z.enum(['asc', 'desc']).optional(),
+});
 
-    // Apply filters
-    if (query.systemId) {
-      battlesQuery = battlesQuery.where('system_id', '=', query.systemId);
-    }
-    if (query.securityType) {
-      battlesQuery = battlesQuery.where('security_type', '=', query.securityType);
-    }
-    if (query.minKills) {
-      battlesQuery = battlesQuery.where('total_kills', '>=', query.minKills);
-    }
-    if (query.startDate) {
-      battlesQuery = battlesQuery.where('start_time', '>=', new Date(query.startDate));
-    }
-    if (query.endDate) {
-      battlesQuery = battlesQuery.where('start_time', '<=', new Date(query.endDate));
-    }
+const ReplayQuerySchema = z.object({
+  // The finest size that fits the battle when left out
+  bucket: z.string().optional(),
+});
 
-    const battles = await battlesQuery.execute();
+const ExportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).optional().default('json'),
+});
 
-    // Get total count for pagination
-    let countQuery = db.selectFrom('battles').select(db.fn.count('id').as('count'));
+const battleRoutes: FastifyPluginAsync = async (fastify) => {
+  const db = fastify.db as DB;
 
-    if (query.systemId) {
-      countQuery = countQuery.where('system_id', '=', query.systemId);
-    }
-    if (query.securityType) {
-      countQuery = countQuery.where('security_type', '=', query.securityType);
-    }
-    if (query.minKills) {
-      countQuery = countQuery.where('total_kills', '>=', query.minKills);
+  // GET /api/battles - List battles with cursor pagination, sorting and filters
+  fastify.get('/api/battles', async (request, reply) => {
+    const parsed = ListBattlesQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid battle query', details: parsed.error.errors });
     }
-    if (query.startDate) {
-      countQuery = countQuery.where('start_time', '>=', new Date(query.startDate));
-    }
-    if (query.endDate) {
-      countQuery = countQuery.where('start_time', '<=', new Date(query.endDate));
+    const { limit, cursor: encodedCursor, sort, order, ...filters } = parsed.data;
+
+    const cursor = encodedCursor ? decodeCursor(encodedCursor, sort, order) : null;
+    if (encodedCursor && !cursor) {
+      return reply.status(400).send({ error: 'Invalid cursor for this sort order' });
     }
 
-    const countResult = await countQuery.executeTakeFirst();
-    const total = Number(countResult?.count || 0);
+    // One extra row tells whether there's another page
+    const listQuery = filterBattles(db.selectFrom('battles').selectAll('battles'), filters);
+    const rows = await sortBattles(listQuery, sort, order, cursor)
+      .limit(limit + 1)
+      .execute();
+    const battles = rows.slice(0, limit);
+
+    const countResult = await filterBattles(db.selectFrom('battles'), filters)
+      .select(db.fn.count('battles.id').as('count'))
+      .executeTakeFirst();
 
     return {
-      data: battles.map((b) => ({
+      data: battles.map(({ sort_value: _sortValue, ...b }) => ({
         ...b,
         total_isk_destroyed: b.total_isk_destroyed.toString(),
       })),
       pagination: {
-        page: query.page,
-        limit: query.limit,
-        total,
-        totalPages: Math.ceil(total / query.limit),
+        limit,
+        total: Number(countResult?.count || 0),
+        nextCursor: rows.length > limit ? getNextCursor(battles[battles.length - 1], sort, order) : null,
       },
     };
   });
@@ -129,13 +158,44 @@ const battleRoutes: FastifyPluginAsync = async (fastify) => {
       stats: {
         participants: participantStats,
         topAlliances: allianceStats,
+        roles: await loadSideRoles(db, id),
+      },
+    };
+  });
+
+  // GET /api/battles/:id/report - Get the full per-side battle report
+  fastify.get<{ Params: { id: string } }>('/api/battles/:id/report', async (request, reply) => {
+    const { id } = request.params;
+
+    const battle = await db
+      .selectFrom('battles')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    if (!battle) {
+      return reply.status(404).send({ error: 'Battle not found' });
+    }
+
+    const report = await buildBattleReport(db, id);
+
+    return {
+      battle: {
+        ...battle,
+        total_isk_destroyed: battle.total_isk_destroyed.toString(),
       },
+      sides: report.sides,
     };
   });
 
   // GET /api/battles/:id/participants - Get battle participants
   fastify.get<{ Params: { id: string } }>('/api/battles/:id/participants', async (request, reply) => {
     const { id } = request.params;
+    const parsed = ListParticipantsQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid participant query', details: parsed.error.errors });
+    }
+    const query = parsed.data;
 
     // Check if battle exists
     const battle = await db
@@ -156,16 +216,95 @@ const battleRoutes: FastifyPluginAsync = async (fastify) => {
       .orderBy('character_name')
       .execute();
 
-    return {
-      battleId: id,
-      participants: participants.map((p) => ({
+    const stats = await loadParticipantStats(db, id);
+    const rows = participants.map((p) => {
+      const pilot = stats.get(Number(p.character_id));
+      return {
         ...p,
         alliance_id: p.alliance_id?.toString(),
         corp_id: p.corp_id?.toString(),
-      })),
+        role: inferRole(
+          p.ship_type_id ? Number(p.ship_type_id) : null,
+          (pilot?.weapons ?? []).map((w) => w.weaponTypeId)
+        ),
+        damage_dealt: pilot?.damageDealt ?? 0,
+        damage_received: pilot?.damageReceived ?? 0,
+        kill_involvement: pilot?.killInvolvement ?? 0,
+        final_blows: pilot?.finalBlows ?? 0,
+        losses: pilot?.losses ?? 0,
+        isk_lost: pilot?.iskLost ?? 0,
+        weapons: pilot?.weapons ?? [],
+        ships: pilot?.ships ?? [],
+      };
+    });
+
+    // `name` keeps the alliance, then pilot name order; ties between stats keep it too
+    if (query.sort !== 'name') {
+      const sort = query.sort;
+      const direction = query.order === 'asc' ? 1 : -1;
+      rows.sort((a, b) => direction * (a[sort] - b[sort]));
+    } else if (query.order === 'desc') {
+      rows.reverse();
+    }
+
+    return {
+      battleId: id,
+      participants: rows,
     };
   });
 
+  // GET /api/battles/:id/phases - Get the battle's engagement phases with per-side ISK and kills
+  fastify.get<{ Params: { id: string } }>('/api/battles/:id/phases', async (request, reply) => {
+    const { id } = request.params;
+
+    const battle = await db
+      .selectFrom('battles')
+      .select('id')
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    if (!battle) {
+      return reply.status(404).send({ error: 'Battle not found' });
+    }
+
+    return {
+      battleId: id,
+      phases: await buildBattlePhases(db, id),
+    };
+  });
+
+  // GET /api/battles/:id/replay - Get cumulative battle state per time bucket
+  fastify.get<{ Params: { id: string } }>('/api/battles/:id/replay', async (request, reply) => {
+    const { id } = request.params;
+    const query = ReplayQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.status(400).send({ error: 'Invalid replay query', details: query.error.errors });
+    }
+
+    const battle = await db
+      .selectFrom('battles')
+      .select(['id', 'start_time', 'last_killmail_at'])
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    if (!battle) {
+      return reply.status(404).send({ error: 'Battle not found' });
+    }
+
+    const duration = battle.last_killmail_at.getTime() - battle.start_time.getTime();
+    const bucketSizes = getBucketSizes(duration);
+    const bucket = query.data.bucket ?? bucketSizes[0] ?? REPLAY_BUCKET_SIZES[REPLAY_BUCKET_SIZES.length - 1];
+    const bucketMs = parseBucket(bucket);
+    if (!bucketMs) {
+      return reply.status(400).send({ error: 'bucket must be a number of seconds or minutes, e.g. 30s or 5m' });
+    }
+    if (query.data.bucket && duration / bucketMs + 1 > MAX_REPLAY_BUCKETS) {
+      return reply.status(400).send({ error: `bucket too small, this battle would need over ${MAX_REPLAY_BUCKETS} buckets` });
+    }
+
+    return { ...(await buildBattleReplay(db, id, bucketMs)), bucket, bucketSizes };
+  });
+
   // GET /api/battles/:id/timeline - Get battle timeline (killmails in chronological order)
   fastify.get<{ Params: { id: string } }>('/api/battles/:id/timeline', async (request, reply) => {
     const { id } = request.params;
@@ -196,6 +335,40 @@ const battleRoutes: FastifyPluginAsync = async (fastify) => {
       })),
     };
   });
+
+  // GET /api/battles/:id/export - Export the battle as CSV, a JSON battle report or a plain-text summary
+  fastify.get<{ Params: { id: string } }>('/api/battles/:id/export', async (request, reply) => {
+    const { id } = request.params;
+    const query = ExportQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.status(400).send({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const battle = await db
+      .selectFrom('battles')
+      .selectAll()
+      .where('id', '=', id)
+      .executeTakeFirst();
+
+    if (!battle) {
+      return reply.status(404).send({ error: 'Battle not found' });
+    }
+
+    const data = await buildBattleExport(db, battle);
+
+    switch (query.data.format) {
+      case 'csv':
+        return reply
+          .header('content-type', 'text/csv; charset=utf-8')
+          .header('content-disposition', `attachment; filename="battle-${id}.csv"`)
+          .send(toExportCsv(data));
+      case 'text':
+        // Shown inline, for copying into a post
+        return reply.header('content-type', 'text/plain; charset=utf-8').send(toExportText(data));
+      default:
+        return reply.header('content-disposition', `attachment; filename="battle-${id}.json"`).send(data);
+    }
+  });
 };
 
 export default battleRoutes;
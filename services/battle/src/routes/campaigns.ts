@@ -0,0 +1,208 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { sql } from 'kysely';
+import { z } from 'zod';
+import type { DB } from '../database/types';
+import { BATTLE_ADMIN_FEATURE, BATTLE_ADMIN_ROLE, requireFeatureRole } from '../lib/auth-client';
+import { buildCampaignReport } from '../lib/campaign-report';
+import {
+  CAMPAIGN_KINDS,
+  createCampaign,
+  deleteCampaign,
+  updateCampaign,
+  type CampaignContext,
+} from '../lib/campaigns';
+
+const ListCampaignsQuerySchema = z.object({
+  page: z.string().optional().default('1').transform(Number),
+  limit: z.string().optional().default('20').transform(Number),
+  kind: z.enum(CAMPAIGN_KINDS).optional(),
+  regionId: z.coerce.number().int().positive().optional(),
+  // Alliance ID, or corporation ID for corporations without an alliance
+  entityId: z.coerce.number().int().positive().optional(),
+  sort: z.enum(['end_time', 'total_isk_destroyed', 'total_battles']).optional().default('end_time'),
+});
+
+const CampaignParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const CreateCampaignBodySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  battleIds: z.array(z.string().uuid()).min(1).max(500),
+});
+
+const UpdateCampaignBodySchema = CreateCampaignBodySchema.partial().refine(
+  (body) => Object.keys(body).length > 0,
+  { message: 'Nothing to update' }
+);
+
+// Groups listed per side in the campaign list
+const LIST_ENTITIES_PER_SIDE = 5;
+
+interface CampaignSideSummary {
+  sideId: number;
+  pilots: number;
+  entities: Array<{ entityId: number; name: string | null }>;
+}
+
+const campaignRoutes: FastifyPluginAsync = async (fastify) => {
+  const db = fastify.db as DB;
+
+  // Editing campaigns is limited to admins, like battle corrections
+  const requireAdmin = requireFeatureRole(BATTLE_ADMIN_FEATURE, BATTLE_ADMIN_ROLE);
+
+  const context = (accountId?: string): CampaignContext => ({
+    db,
+    actorAccountId: accountId || null,
+  });
+
+  const getCampaign = async (id: string) => {
+    const campaign = await db.selectFrom('campaigns').selectAll().where('id', '=', id).executeTakeFirst();
+    return campaign && { ...campaign, total_isk_destroyed: campaign.total_isk_destroyed.toString() };
+  };
+
+  // GET /api/campaigns - List campaigns with pagination and filters
+  fastify.get('/api/campaigns', async (request) => {
+    const query = ListCampaignsQuerySchema.parse(request.query);
+    const offset = (query.page - 1) * query.limit;
+
+    let campaignsQuery = db
+      .selectFrom('campaigns')
+      .selectAll()
+      .orderBy(sql.ref(query.sort), 'desc')
+      .limit(query.limit)
+      .offset(offset);
+    let countQuery = db.selectFrom('campaigns').select(db.fn.count('id').as('count'));
+
+    if (query.kind) {
+      campaignsQuery = campaignsQuery.where('kind', '=', query.kind);
+      countQuery = countQuery.where('kind', '=', query.kind);
+    }
+    if (query.regionId) {
+      campaignsQuery = campaignsQuery.where('region_id', '=', query.regionId);
+      countQuery = countQuery.where('region_id', '=', query.regionId);
+    }
+    if (query.entityId) {
+      const withEntity = db
+        .selectFrom('campaign_entities')
+        .select('campaign_id')
+        .where('entity_id', '=', query.entityId);
+      campaignsQuery = campaignsQuery.where('id', 'in', withEntity);
+      countQuery = countQuery.where('id', 'in', withEntity);
+    }
+
+    const campaigns = await campaignsQuery.execute();
+    const countResult = await countQuery.executeTakeFirst();
+    const total = Number(countResult?.count || 0);
+
+    // Biggest groups on each side
+    const entities =
+      campaigns.length > 0
+        ? await db
+            .selectFrom('campaign_entities')
+            .select(['campaign_id', 'entity_id', 'entity_name', 'side_id', 'pilots'])
+            .where('campaign_id', 'in', campaigns.map((c) => c.id))
+            .orderBy('pilots', 'desc')
+            .execute()
+        : [];
+
+    return {
+      data: campaigns.map((c) => {
+        const sides = new Map<number, CampaignSideSummary>();
+        for (const e of entities) {
+          if (e.campaign_id !== c.id) continue;
+          const side = sides.get(e.side_id) || { sideId: e.side_id, pilots: 0, entities: [] };
+          side.pilots += e.pilots;
+          if (side.entities.length < LIST_ENTITIES_PER_SIDE) {
+            // bigint columns come back from pg as strings
+            side.entities.push({ entityId: Number(e.entity_id), name: e.entity_name });
+          }
+          sides.set(e.side_id, side);
+        }
+
+        return {
+          ...c,
+          total_isk_destroyed: c.total_isk_destroyed.toString(),
+          sides: [...sides.values()].sort((a, b) => a.sideId - b.sideId),
+        };
+      }),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    };
+  });
+
+  // GET /api/campaigns/:id - Get a campaign with its battles and per-side results
+  fastify.get('/api/campaigns/:id', async (request, reply) => {
+    const params = CampaignParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid campaign ID' });
+    }
+
+    const campaign = await getCampaign(params.data.id);
+    if (!campaign) {
+      return reply.status(404).send({ error: 'Campaign not found' });
+    }
+
+    const battles = await db
+      .selectFrom('battles')
+      .innerJoin('campaign_battles', 'campaign_battles.battle_id', 'battles.id')
+      .selectAll('battles')
+      .where('campaign_battles.campaign_id', '=', campaign.id)
+      .orderBy('battles.start_time', 'asc')
+      .execute();
+
+    const report = await buildCampaignReport(db, campaign.id, battles);
+    const battleSides = new Map(report.battles.map((b) => [b.battleId, b.sides]));
+
+    return {
+      campaign,
+      sides: report.sides,
+      battles: battles.map((b) => ({
+        ...b,
+        total_isk_destroyed: b.total_isk_destroyed.toString(),
+        sides: battleSides.get(b.id) || [],
+      })),
+    };
+  });
+
+  // POST /api/campaigns - Create a manual campaign from a list of battles
+  fastify.post('/api/campaigns', { preHandler: requireAdmin }, async (request, reply) => {
+    const body = CreateCampaignBodySchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid campaign', details: body.error.errors });
+    }
+
+    const id = await createCampaign(context(request.accountId), body.data);
+    return reply.status(201).send({ data: await getCampaign(id) });
+  });
+
+  // PATCH /api/campaigns/:id - Rename a manual campaign or replace its battles
+  fastify.patch('/api/campaigns/:id', { preHandler: requireAdmin }, async (request, reply) => {
+    const params = CampaignParamsSchema.safeParse(request.params);
+    const body = UpdateCampaignBodySchema.safeParse(request.body);
+    if (!params.success || !body.success) {
+      return reply.status(400).send({ error: 'Invalid campaign update' });
+    }
+
+    const id = await updateCampaign(context(request.accountId), params.data.id, body.data);
+    return { data: await getCampaign(id) };
+  });
+
+  // DELETE /api/campaigns/:id - Delete a manual campaign
+  fastify.delete('/api/campaigns/:id', { preHandler: requireAdmin }, async (request, reply) => {
+    const params = CampaignParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid campaign ID' });
+    }
+
+    await deleteCampaign(context(request.accountId), params.data.id);
+    return reply.status(204).send();
+  });
+};
+
+export default campaignRoutes;
@@ -0,0 +1,144 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import type { DB } from '../database/types';
+import { BATTLE_ADMIN_FEATURE, BATTLE_ADMIN_ROLE, requireFeatureRole } from '../lib/auth-client';
+import { BattleImportSchema } from '../lib/battle-import';
+import {
+  importBattle,
+  mergeBattles,
+  moveKillmail,
+  pinSides,
+  splitBattle,
+  type CorrectionContext,
+} from '../lib/corrections';
+
+// Battle reports with every pilot listed run well past Fastify's 1 MB default
+const IMPORT_BODY_LIMIT = 10 * 1024 * 1024;
+
+const BattleParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const KillmailParamsSchema = BattleParamsSchema.extend({
+  killmailId: z.coerce.number().int().positive(),
+});
+
+const MergeBodySchema = z.object({
+  // Battle to merge into the one in the URL
+  battleId: z.string().uuid(),
+});
+
+const SplitBodySchema = z.object({
+  at: z.coerce.date(),
+});
+
+const MoveBodySchema = z.object({
+  targetBattleId: z.string().uuid(),
+});
+
+const SidesBodySchema = z.object({
+  sides: z
+    .array(
+      z.object({
+        entityId: z.number().int().positive(),
+        sideId: z.number().int().positive().nullable(),
+      })
+    )
+    .min(1),
+});
+
+const correctionRoutes: FastifyPluginAsync = async (fastify) => {
+  const db = fastify.db as DB;
+
+  // Corrections rewrite battles for everyone, so they're limited to admins
+  fastify.addHook('preHandler', requireFeatureRole(BATTLE_ADMIN_FEATURE, BATTLE_ADMIN_ROLE));
+
+  const context = (accountId?: string): CorrectionContext => ({
+    db,
+    actorAccountId: accountId || null,
+    clusterer: fastify.clusterer,
+  });
+
+  const getBattles = async (battleIds: string[]) => {
+    const battles = await db.selectFrom('battles').selectAll().where('id', 'in', battleIds).execute();
+    return battles.map((b) => ({
+      ...b,
+      total_isk_destroyed: b.total_isk_destroyed.toString(),
+    }));
+  };
+
+  // POST /api/battles/import - Create a battle from killmails or an external battle report
+  fastify.post('/api/battles/import', { bodyLimit: IMPORT_BODY_LIMIT }, async (request, reply) => {
+    const body = BattleImportSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({ error: 'Invalid import', details: body.error.errors });
+    }
+
+    const result = await importBattle(context(request.accountId), body.data);
+    const [battle] = await getBattles([result.battleId]);
+
+    // The battle only exists once one of its killmails has been stored
+    return reply.status(battle ? 201 : 202).send({ data: result, battle: battle || null });
+  });
+
+  // POST /api/battles/:id/merge - Merge another battle into this one
+  fastify.post('/api/battles/:id/merge', async (request, reply) => {
+    const params = BattleParamsSchema.safeParse(request.params);
+    const body = MergeBodySchema.safeParse(request.body);
+    if (!params.success || !body.success) {
+      return reply.status(400).send({ error: 'Invalid merge request' });
+    }
+
+    const battleIds = await mergeBattles(context(request.accountId), params.data.id, body.data.battleId);
+    return { data: await getBattles(battleIds) };
+  });
+
+  // POST /api/battles/:id/split - Split a battle in two at a timestamp
+  fastify.post('/api/battles/:id/split', async (request, reply) => {
+    const params = BattleParamsSchema.safeParse(request.params);
+    const body = SplitBodySchema.safeParse(request.body);
+    if (!params.success || !body.success) {
+      return reply.status(400).send({ error: 'Invalid split request' });
+    }
+
+    const battleIds = await splitBattle(context(request.accountId), params.data.id, body.data.at);
+    return { data: await getBattles(battleIds) };
+  });
+
+  // POST /api/battles/:id/killmails/:killmailId/move - Move a killmail to another battle
+  fastify.post('/api/battles/:id/killmails/:killmailId/move', async (request, reply) => {
+    const params = KillmailParamsSchema.safeParse(request.params);
+    const body = MoveBodySchema.safeParse(request.body);
+    if (!params.success || !body.success) {
+      return reply.status(400).send({ error: 'Invalid move request' });
+    }
+
+    const battleIds = await moveKillmail(
+      context(request.accountId),
+      params.data.id,
+      params.data.killmailId,
+      body.data.targetBattleId
+    );
+    return { data: await getBattles(battleIds) };
+  });
+
+  // POST /api/battles/:id/sides - Pin alliances (or corporations) to a side
+  fastify.post('/api/battles/:id/sides', async (request, reply) => {
+    const params = BattleParamsSchema.safeParse(request.params);
+    const body = SidesBodySchema.safeParse(request.body);
+    if (!params.success || !body.success) {
+      return reply.status(400).send({ error: 'Invalid sides request' });
+    }
+
+    const battleIds = await pinSides(context(request.accountId), params.data.id, body.data.sides);
+    const pinned = await db
+      .selectFrom('battle_side_overrides')
+      .select(['entity_id', 'side_id'])
+      .where('battle_id', '=', params.data.id)
+      .execute();
+
+    return { data: await getBattles(battleIds), pinnedSides: pinned };
+  });
+};
+
+export default correctionRoutes;
@@ -1,5 +1,81 @@
-import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { sql } from 'kysely';
+import { z } from 'zod';
 import type { DB } from '../database/types';
+import { buildAssociates } from '../lib/associates';
+import { buildCharacterProfile } from '../lib/character-profile';
+import { CAMP_MAX_GAP } from '../lib/camps';
+import { buildGroupProfile, PROFILE_WINDOWS, type GroupType, type ProfileWindow } from '../lib/group-profile';
+import { buildPasteIntel, MAX_PASTE_NAMES, parsePaste } from '../lib/paste-intel';
+import { ROAM_MAX_GAP } from '../lib/roams';
+
+// Latest battles listed with each doctrine
+const DOCTRINE_RECENT_BATTLES = 5;
+
+// Systems that can be checked for camps in one request, enough for a long route
+const MAX_ROUTE_SYSTEMS = 100;
+
+const ListCampsQuerySchema = z.object({
+  page: z.string().optional().default('1').transform(Number),
+  limit: z.string().optional().default('20').transform(Number),
+  // Comma-separated system IDs, e.g. the systems along a route
+  systemIds: z
+    .string()
+    .optional()
+    .transform((v) => (v ? v.split(',').map(Number) : undefined))
+    .refine((ids) => !ids || (ids.length <= MAX_ROUTE_SYSTEMS && ids.every(Number.isInteger)), {
+      message: `Up to ${MAX_ROUTE_SYSTEMS} system IDs`,
+    }),
+  regionId: z.coerce.number().int().positive().optional(),
+  activeOnly: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((v) => v === 'true'),
+});
+
+const ListRoamsQuerySchema = z.object({
+  page: z.string().optional().default('1').transform(Number),
+  limit: z.string().optional().default('20').transform(Number),
+  allianceId: z.coerce.number().int().positive().optional(),
+});
+
+const IntelParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const GroupParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+const GroupProfileQuerySchema = z.object({
+  window: z
+    .enum(Object.keys(PROFILE_WINDOWS) as [ProfileWindow, ...ProfileWindow[]])
+    .optional()
+    .default('30d'),
+});
+
+const CharacterParamsSchema = z.object({
+  characterId: z.coerce.number().int().positive(),
+});
+
+const CharacterQuerySchema = z.object({
+  // A pilot is seen far less often than a whole group, and alts only show up over months of corporation moves
+  window: z
+    .enum(Object.keys(PROFILE_WINDOWS) as [ProfileWindow, ...ProfileWindow[]])
+    .optional()
+    .default('90d'),
+});
+
+const PasteBodySchema = z.object({
+  // Character names copied from local chat, one per line
+  text: z
+    .string()
+    .min(1)
+    .transform(parsePaste)
+    .refine((paste) => paste.names.length <= MAX_PASTE_NAMES, {
+      message: `Up to ${MAX_PASTE_NAMES} character names`,
+    }),
+});
 
 const intelRoutes: FastifyPluginAsync = async (fastify) => {
   const db = fastify.db as DB;
@@ -77,6 +153,333 @@ const intelRoutes: FastifyPluginAsync = async (fastify) => {
       };
     }
   );
+
+  // GET /api/intel/characters/:characterId/associates - Get the pilots a character flies with, and likely alts
+  fastify.get('/api/intel/characters/:characterId/associates', async (request, reply) => {
+    const params = CharacterParamsSchema.safeParse(request.params);
+    const query = CharacterQuerySchema.safeParse(request.query);
+    if (!params.success || !query.success) {
+      return reply.status(400).send({
+        error: 'Invalid associates request',
+        details: [...(params.error?.errors || []), ...(query.error?.errors || [])],
+      });
+    }
+
+    const associates = await buildAssociates(db, params.data.characterId, PROFILE_WINDOWS[query.data.window]);
+    if (!associates) {
+      return reply.status(404).send({ error: 'Character not found' });
+    }
+    return { ...associates, window: query.data.window };
+  });
+
+  // GET /api/intel/characters/:characterId/profile - Get a character's activity profile
+  fastify.get('/api/intel/characters/:characterId/profile', async (request, reply) => {
+    const params = CharacterParamsSchema.safeParse(request.params);
+    const query = CharacterQuerySchema.safeParse(request.query);
+    if (!params.success || !query.success) {
+      return reply.status(400).send({
+        error: 'Invalid character profile request',
+        details: [...(params.error?.errors || []), ...(query.error?.errors || [])],
+      });
+    }
+
+    const profile = await buildCharacterProfile(db, params.data.characterId, PROFILE_WINDOWS[query.data.window]);
+    if (!profile) {
+      return reply.status(404).send({ error: 'Character not found' });
+    }
+    return { ...profile, window: query.data.window };
+  });
+
+  // POST /api/intel/paste - Assess the threat of the pilots in a local chat paste
+  fastify.post('/api/intel/paste', async (request, reply) => {
+    const parsed = PasteBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid paste', details: parsed.error.errors });
+    }
+
+    return buildPasteIntel(db, parsed.data.text);
+  });
+
+  // Camps and roams count as active until they've been quiet for as long as they may be
+  const isActive = (lastKillAt: Date, maxGap: number) => Date.now() - lastKillAt.getTime() <= maxGap;
+
+  // GET /api/intel/camps - List gate camps, most recently active first
+  fastify.get('/api/intel/camps', async (request, reply) => {
+    const parsed = ListCampsQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid camp query', details: parsed.error.errors });
+    }
+    const query = parsed.data;
+    const offset = (query.page - 1) * query.limit;
+
+    let campsQuery = db
+      .selectFrom('camps')
+      .selectAll()
+      .orderBy('last_kill_at', 'desc')
+      .limit(query.limit)
+      .offset(offset);
+    let countQuery = db.selectFrom('camps').select(db.fn.count('id').as('count'));
+
+    if (query.systemIds) {
+      campsQuery = campsQuery.where('system_id', 'in', query.systemIds);
+      countQuery = countQuery.where('system_id', 'in', query.systemIds);
+    }
+    if (query.regionId) {
+      campsQuery = campsQuery.where('region_id', '=', query.regionId);
+      countQuery = countQuery.where('region_id', '=', query.regionId);
+    }
+    if (query.activeOnly) {
+      const since = new Date(Date.now() - CAMP_MAX_GAP);
+      campsQuery = campsQuery.where('last_kill_at', '>=', since);
+      countQuery = countQuery.where('last_kill_at', '>=', since);
+    }
+
+    const camps = await campsQuery.execute();
+    const countResult = await countQuery.executeTakeFirst();
+    const total = Number(countResult?.count || 0);
+
+    return {
+      data: camps.map((c) => ({
+        ...c,
+        total_isk_destroyed: c.total_isk_destroyed.toString(),
+        is_active: isActive(c.last_kill_at, CAMP_MAX_GAP),
+      })),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    };
+  });
+
+  // GET /api/intel/camps/:id - Get a gate camp with its kills
+  fastify.get('/api/intel/camps/:id', async (request, reply) => {
+    const params = IntelParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid camp ID' });
+    }
+
+    const camp = await db.selectFrom('camps').selectAll().where('id', '=', params.data.id).executeTakeFirst();
+    if (!camp) {
+      return reply.status(404).send({ error: 'Camp not found' });
+    }
+
+    const kills = await db
+      .selectFrom('camp_killmails')
+      .innerJoin('battle_killmails', 'battle_killmails.killmail_id', 'camp_killmails.killmail_id')
+      .select([
+        'battle_killmails.killmail_id',
+        'battle_killmails.battle_id',
+        'battle_killmails.occurred_at',
+        'battle_killmails.victim_character_id',
+        'battle_killmails.victim_name',
+        'battle_killmails.victim_alliance_name',
+        'battle_killmails.victim_ship_type_id',
+        'battle_killmails.ship_type_name',
+        'battle_killmails.isk_value',
+      ])
+      .where('camp_killmails.camp_id', '=', camp.id)
+      .orderBy('battle_killmails.occurred_at', 'desc')
+      .execute();
+
+    return {
+      camp: {
+        ...camp,
+        total_isk_destroyed: camp.total_isk_destroyed.toString(),
+        is_active: isActive(camp.last_kill_at, CAMP_MAX_GAP),
+      },
+      kills: kills.map((k) => ({ ...k, isk_value: k.isk_value?.toString() ?? null })),
+    };
+  });
+
+  const listRoams = async (request: FastifyRequest, reply: FastifyReply, liveOnly: boolean) => {
+    const parsed = ListRoamsQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Invalid roam query', details: parsed.error.errors });
+    }
+    const query = parsed.data;
+    const offset = (query.page - 1) * query.limit;
+
+    let roamsQuery = db
+      .selectFrom('roams')
+      .selectAll()
+      .orderBy('last_kill_at', 'desc')
+      .limit(query.limit)
+      .offset(offset);
+    let countQuery = db.selectFrom('roams').select(db.fn.count('id').as('count'));
+
+    if (query.allianceId) {
+      const withAlliance = sql<boolean>`alliance_ids @> ${[query.allianceId]}::bigint[]`;
+      roamsQuery = roamsQuery.where(withAlliance);
+      countQuery = countQuery.where(withAlliance);
+    }
+    if (liveOnly) {
+      const since = new Date(Date.now() - ROAM_MAX_GAP);
+      roamsQuery = roamsQuery.where('last_kill_at', '>=', since);
+      countQuery = countQuery.where('last_kill_at', '>=', since);
+    }
+
+    const roams = await roamsQuery.execute();
+    const countResult = await countQuery.executeTakeFirst();
+    const total = Number(countResult?.count || 0);
+
+    return {
+      data: roams.map((r) => ({
+        ...r,
+        total_isk_destroyed: r.total_isk_destroyed.toString(),
+        // bigint columns come back from pg as strings
+        alliance_ids: r.alliance_ids.map(Number),
+        is_live: isActive(r.last_kill_at, ROAM_MAX_GAP),
+      })),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    };
+  };
+
+  // GET /api/intel/roams - List roams, most recently active first
+  fastify.get('/api/intel/roams', async (request, reply) => listRoams(request, reply, false));
+
+  // GET /api/intel/roams/live - List roams that are still going
+  fastify.get('/api/intel/roams/live', async (request, reply) => listRoams(request, reply, true));
+
+  // GET /api/intel/roams/:id - Get a roam with its kills
+  fastify.get('/api/intel/roams/:id', async (request, reply) => {
+    const params = IntelParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid roam ID' });
+    }
+
+    const roam = await db.selectFrom('roams').selectAll().where('id', '=', params.data.id).executeTakeFirst();
+    if (!roam) {
+      return reply.status(404).send({ error: 'Roam not found' });
+    }
+
+    const kills = await db
+      .selectFrom('roam_killmails')
+      .innerJoin('battle_killmails', 'battle_killmails.killmail_id', 'roam_killmails.killmail_id')
+      .select([
+        'battle_killmails.killmail_id',
+        'battle_killmails.battle_id',
+        'battle_killmails.occurred_at',
+        'battle_killmails.system_id',
+        'battle_killmails.victim_character_id',
+        'battle_killmails.victim_name',
+        'battle_killmails.victim_alliance_name',
+        'battle_killmails.victim_ship_type_id',
+        'battle_killmails.ship_type_name',
+        'battle_killmails.isk_value',
+      ])
+      .where('roam_killmails.roam_id', '=', roam.id)
+      .orderBy('battle_killmails.occurred_at', 'asc')
+      .execute();
+
+    return {
+      roam: {
+        ...roam,
+        total_isk_destroyed: roam.total_isk_destroyed.toString(),
+        alliance_ids: roam.alliance_ids.map(Number),
+        is_live: isActive(roam.last_kill_at, ROAM_MAX_GAP),
+      },
+      kills: kills.map((k) => ({ ...k, isk_value: k.isk_value?.toString() ?? null })),
+    };
+  });
+
+  const getGroupProfile = async (request: FastifyRequest, reply: FastifyReply, type: GroupType) => {
+    const params = GroupParamsSchema.safeParse(request.params);
+    const query = GroupProfileQuerySchema.safeParse(request.query);
+    if (!params.success || !query.success) {
+      return reply.status(400).send({
+        error: `Invalid ${type} profile request`,
+        details: [...(params.error?.errors || []), ...(query.error?.errors || [])],
+      });
+    }
+
+    const profile = await buildGroupProfile(db, { type, id: params.data.id }, PROFILE_WINDOWS[query.data.window]);
+    if (!profile) {
+      return reply.status(404).send({ error: type === 'alliance' ? 'Alliance not found' : 'Corporation not found' });
+    }
+    return { ...profile, window: query.data.window };
+  };
+
+  // GET /api/intel/alliances/:id - Get an alliance's intel profile
+  fastify.get('/api/intel/alliances/:id', async (request, reply) => getGroupProfile(request, reply, 'alliance'));
+
+  // GET /api/intel/corporations/:id - Get a corporation's intel profile
+  fastify.get('/api/intel/corporations/:id', async (request, reply) => getGroupProfile(request, reply, 'corporation'));
+
+  // GET /api/intel/alliances/:id/doctrines - List an alliance's fleet doctrines, most recently seen first
+  fastify.get('/api/intel/alliances/:id/doctrines', async (request, reply) => {
+    const params = GroupParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid alliance ID' });
+    }
+
+    const doctrines = await db
+      .selectFrom('doctrines')
+      .selectAll()
+      .where('alliance_id', '=', params.data.id)
+      .orderBy('last_seen', 'desc')
+      .execute();
+
+    const battles =
+      doctrines.length > 0
+        ? await db
+            // Only each doctrine's latest battles, an alliance can have fielded one in hundreds
+            .selectFrom((eb) =>
+              eb
+                .selectFrom('doctrine_battles')
+                .select([
+                  'doctrine_id',
+                  'battle_id',
+                  'pilots',
+                  sql<number>`row_number() over (partition by doctrine_id order by start_time desc)`.as('recency'),
+                ])
+                .where('doctrine_id', 'in', doctrines.map((d) => d.id))
+                .as('doctrine_battles')
+            )
+            .innerJoin('battles', 'battles.id', 'doctrine_battles.battle_id')
+            .select([
+              'doctrine_battles.doctrine_id',
+              'doctrine_battles.pilots',
+              'battles.id',
+              'battles.system_name',
+              'battles.start_time',
+              'battles.total_kills',
+              'battles.total_isk_destroyed',
+            ])
+            .where('doctrine_battles.recency', '<=', DOCTRINE_RECENT_BATTLES)
+            .orderBy('battles.start_time', 'desc')
+            .execute()
+        : [];
+
+    return {
+      allianceId: params.data.id,
+      doctrines: doctrines.map((d) => ({
+        id: d.id,
+        name: d.name,
+        ships: d.ships,
+        timesSeen: d.times_seen,
+        firstSeen: d.first_seen,
+        lastSeen: d.last_seen,
+        averagePilots: d.average_pilots,
+        recentBattles: battles
+          .filter((b) => b.doctrine_id === d.id)
+          .map((b) => ({
+            id: b.id,
+            system_name: b.system_name,
+            start_time: b.start_time,
+            total_kills: b.total_kills,
+            total_isk_destroyed: b.total_isk_destroyed.toString(),
+            pilots: b.pilots,
+          })),
+      })),
+    };
+  });
 };
 
 export default intelRoutes;
@@ -5,16 +5,26 @@ import { getDatabase } from './database/client';
 import healthRoutes from './routes/health';
 import battleRoutes from './routes/battles';
 import intelRoutes from './routes/intel';
+import adminRoutes from './routes/admin';
+import correctionRoutes from './routes/corrections';
+import campaignRoutes from './routes/campaigns';
+import type { BattleClusterer } from './lib/clusterer';
 
 const logger = createLogger({ serviceName: 'battle-server' });
 
 declare module 'fastify' {
   interface FastifyInstance {
     db: ReturnType<typeof getDatabase>;
+    // Live clusterer, if running in this process, so corrections can update its state
+    clusterer: BattleClusterer | null;
   }
 }
 
-export async function buildServer(): Promise<FastifyInstance> {
+export interface ServerOptions {
+  clusterer?: BattleClusterer;
+}
+
+export async function buildServer(options: ServerOptions = {}): Promise<FastifyInstance> {
   const server = fastify({
     logger: false, // Using our custom logger
     trustProxy: true,
@@ -29,11 +39,15 @@ export async function buildServer(): Promise<FastifyInstance> {
   // Add database to fastify instance
   const db = getDatabase();
   server.decorate('db', db);
+  server.decorate('clusterer', options.clusterer || null);
 
   // Register routes
   await server.register(healthRoutes);
   await server.register(battleRoutes);
   await server.register(intelRoutes);
+  await server.register(adminRoutes);
+  await server.register(correctionRoutes);
+  await server.register(campaignRoutes);
 
   // Global error handler
   server.setErrorHandler((error, request, reply) => {
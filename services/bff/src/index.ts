@@ -16,6 +16,7 @@ const logger = createLogger({ serviceName: 'bff' });
 import { authRoutes } from './routes/auth';
 import { adminRoutes } from './routes/admin';
 import { battleRoutes } from './routes/battles';
+import { campaignRoutes } from './routes/campaigns';
 import { intelRoutes } from './routes/intel';
 import { searchRoutes } from './routes/search';
 import { notificationRoutes } from './routes/notifications';
@@ -81,6 +82,7 @@ async function startServer() {
   await fastify.register(authRoutes);
   await fastify.register(adminRoutes);
   await fastify.register(battleRoutes);
+  await fastify.register(campaignRoutes);
   await fastify.register(intelRoutes);
   await fastify.register(searchRoutes);
   await fastify.register(notificationRoutes);
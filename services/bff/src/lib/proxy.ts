@@ -19,6 +19,8 @@ interface ProxyOptions {
   headers?: Record<string, string>;
   cache?: boolean;
   cacheTTL?: number;
+  // Response headers to pass on to the client, e.g. content-type and content-disposition of downloads
+  forwardHeaders?: string[];
 }
 
 /**
@@ -45,6 +47,7 @@ export async function proxyRequest(
     headers = {},
     cache: enableCache = false,
     cacheTTL,
+    forwardHeaders = [],
   } = options;
 
   // Generate cache key for GET requests
@@ -124,6 +127,13 @@ export async function proxyRequest(
       reply.header('location', locationHeader);
     }
 
+    for (const name of forwardHeaders) {
+      const value = response.headers[name];
+      if (value) {
+        reply.header(name, value);
+      }
+    }
+
     // Cache successful GET responses
     if (enableCache && cacheKey && response.status === 200 && config.cache.enabled) {
       cache.set(cacheKey, response.data, cacheTTL);
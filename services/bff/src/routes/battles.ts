@@ -29,6 +29,17 @@ export async function battleRoutes(fastify: FastifyInstance) {
     });
   });
 
+  // Get per-side battle report
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/battles/:id/report', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/battles/${request.params.id}/report`,
+      cache: true,
+      cacheTTL: 120,
+    });
+  });
+
   // Get battle participants
   fastify.get<{
     Params: { id: string };
@@ -40,6 +51,38 @@ export async function battleRoutes(fastify: FastifyInstance) {
     });
   });
 
+  // Get battle engagement phases
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/battles/:id/phases', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/battles/${request.params.id}/phases`,
+      cache: true,
+      cacheTTL: 120,
+    });
+  });
+
+  // Get battle replay snapshots
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/battles/:id/replay', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/battles/${request.params.id}/replay`,
+      cache: true,
+      cacheTTL: 120,
+    });
+  });
+
+  // Export a battle as CSV, JSON or a plain-text summary
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/battles/:id/export', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/battles/${request.params.id}/export`,
+      forwardHeaders: ['content-type', 'content-disposition'],
+    });
+  });
+
   // Get battle timeline
   fastify.get<{
     Params: { id: string };
@@ -50,4 +93,56 @@ export async function battleRoutes(fastify: FastifyInstance) {
       cacheTTL: 120,
     });
   });
+
+  // Merge another battle into this one (admin)
+  fastify.post<{
+    Params: { id: string };
+  }>('/api/battles/:id/merge', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/battles/${request.params.id}/merge`,
+      method: 'POST',
+    });
+  });
+
+  // Split a battle at a timestamp (admin)
+  fastify.post<{
+    Params: { id: string };
+  }>('/api/battles/:id/split', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/battles/${request.params.id}/split`,
+      method: 'POST',
+    });
+  });
+
+  // Move a killmail to another battle (admin)
+  fastify.post<{
+    Params: { id: string; killmailId: string };
+  }>('/api/battles/:id/killmails/:killmailId/move', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/battles/${request.params.id}/killmails/${request.params.killmailId}/move`,
+      method: 'POST',
+    });
+  });
+
+  // Import a battle from killmails or a battle report (admin)
+  fastify.post(
+    '/api/battles/import',
+    { bodyLimit: 10 * 1024 * 1024 }, // Battle reports list every pilot
+    async (request, reply) => {
+      return proxyRequest(request, reply, battleServiceUrl, {
+        path: '/api/battles/import',
+        method: 'POST',
+      });
+    }
+  );
+
+  // Pin alliances to sides (admin)
+  fastify.post<{
+    Params: { id: string };
+  }>('/api/battles/:id/sides', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/battles/${request.params.id}/sides`,
+      method: 'POST',
+    });
+  });
 }
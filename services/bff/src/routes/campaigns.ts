@@ -0,0 +1,59 @@
+/**
+ * Campaign routes - proxy to battle service
+ */
+
+import { FastifyInstance } from 'fastify';
+import { proxyRequest } from '../lib/proxy';
+import { config } from '../config';
+
+export async function campaignRoutes(fastify: FastifyInstance) {
+  const battleServiceUrl = config.services.battle;
+
+  // List campaigns with pagination and filters
+  fastify.get('/api/campaigns', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: '/api/campaigns',
+      cache: true,
+      cacheTTL: 300, // Campaigns are rebuilt every 15 minutes
+    });
+  });
+
+  // Get campaign details with per-side results
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/campaigns/:id', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/campaigns/${request.params.id}`,
+      cache: true,
+      cacheTTL: 300,
+    });
+  });
+
+  // Create a manual campaign (admin)
+  fastify.post('/api/campaigns', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: '/api/campaigns',
+      method: 'POST',
+    });
+  });
+
+  // Update a manual campaign (admin)
+  fastify.patch<{
+    Params: { id: string };
+  }>('/api/campaigns/:id', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/campaigns/${request.params.id}`,
+      method: 'PATCH',
+    });
+  });
+
+  // Delete a manual campaign (admin)
+  fastify.delete<{
+    Params: { id: string };
+  }>('/api/campaigns/:id', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/campaigns/${request.params.id}`,
+      method: 'DELETE',
+    });
+  });
+}
@@ -1,5 +1,5 @@
 /**
- * Intel routes - proxy to ingestion service
+ * Intel routes - proxy to ingestion and battle services
  */
 
 import { FastifyInstance } from 'fastify';
@@ -8,6 +8,7 @@ import { config } from '../config';
 
 export async function intelRoutes(fastify: FastifyInstance) {
   const ingestionServiceUrl = config.services.ingestion;
+  const battleServiceUrl = config.services.battle;
 
   // Get live killmails (recent intel)
   fastify.get('/api/intel/live', async (request, reply) => {
@@ -39,4 +40,116 @@ export async function intelRoutes(fastify: FastifyInstance) {
       cacheTTL: 180, // Cache for 3 minutes
     });
   });
+
+  // Get a character's activity profile
+  fastify.get<{
+    Params: { characterId: string };
+  }>('/api/intel/characters/:characterId/profile', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/intel/characters/${request.params.characterId}/profile`,
+      cache: true,
+      cacheTTL: 300,
+    });
+  });
+
+  // Get the pilots a character flies with, and likely alts
+  fastify.get<{
+    Params: { characterId: string };
+  }>('/api/intel/characters/:characterId/associates', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/intel/characters/${request.params.characterId}/associates`,
+      cache: true,
+      cacheTTL: 300,
+    });
+  });
+
+  // Assess the threat of the pilots in a local chat paste
+  fastify.post('/api/intel/paste', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: '/api/intel/paste',
+      method: 'POST',
+    });
+  });
+
+  // List gate camps, e.g. along a route
+  fastify.get('/api/intel/camps', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: '/api/intel/camps',
+      cache: true,
+      cacheTTL: 60, // Camps are rebuilt every 5 minutes, but roamers want them fresh
+    });
+  });
+
+  // Get gate camp details with its kills
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/intel/camps/:id', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/intel/camps/${request.params.id}`,
+      cache: true,
+      cacheTTL: 60,
+    });
+  });
+
+  // List roams, e.g. of one alliance
+  fastify.get('/api/intel/roams', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: '/api/intel/roams',
+      cache: true,
+      cacheTTL: 60,
+    });
+  });
+
+  // List roams that are still going
+  fastify.get('/api/intel/roams/live', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: '/api/intel/roams/live',
+      cache: true,
+      cacheTTL: 30, // Roams are rebuilt every 2 minutes
+    });
+  });
+
+  // Get roam details with its kills
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/intel/roams/:id', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/intel/roams/${request.params.id}`,
+      cache: true,
+      cacheTTL: 60,
+    });
+  });
+
+  // Get an alliance's intel profile
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/intel/alliances/:id', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/intel/alliances/${request.params.id}`,
+      cache: true,
+      cacheTTL: 300, // Profiles cover days of battles, they change slowly
+    });
+  });
+
+  // List an alliance's fleet doctrines
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/intel/alliances/:id/doctrines', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/intel/alliances/${request.params.id}/doctrines`,
+      cache: true,
+      cacheTTL: 600, // Doctrines are rebuilt every hour
+    });
+  });
+
+  // Get a corporation's intel profile
+  fastify.get<{
+    Params: { id: string };
+  }>('/api/intel/corporations/:id', async (request, reply) => {
+    return proxyRequest(request, reply, battleServiceUrl, {
+      path: `/api/intel/corporations/${request.params.id}`,
+      cache: true,
+      cacheTTL: 300,
+    });
+  });
 }
@@ -0,0 +1,13 @@
+-- Store the in-game killmail time so enriched killmails can be replayed by time range
+-- (used by the battle service when re-clustering historical battles)
+
+ALTER TABLE enriched_killmails ADD COLUMN IF NOT EXISTS killmail_time TIMESTAMPTZ;
+
+-- Backfill from the raw killmail payload
+UPDATE enriched_killmails
+SET killmail_time = (raw_killmail_data->>'killmailTime')::timestamptz
+WHERE killmail_time IS NULL AND raw_killmail_data->>'killmailTime' IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_enriched_killmails_killmail_time ON enriched_killmails(killmail_time, killmail_id);
+
+COMMENT ON COLUMN enriched_killmails.killmail_time IS 'Timestamp when the kill occurred in-game';
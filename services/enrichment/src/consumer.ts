@@ -1,7 +1,7 @@
 import { EventBus, Topics, getEventBusConfigFromEnv } from '@battlescope/events';
 import { createLogger } from '@battlescope/logger';
 import type { Event, Killmail } from '@battlescope/types';
-import { getEnricher } from './lib/enricher';
+import { getEnricher, buildEnrichedKillmailData } from './lib/enricher';
 import { withSpan } from './lib/tracing';
 
 const logger = createLogger({ serviceName: 'enrichment-consumer' });
@@ -86,34 +86,7 @@ export class KillmailConsumer {
             Topics.KILLMAILS_ENRICHED,
             {
               type: 'killmail.enriched',
-              data: {
-                killmailId: killmail.killmailId,
-                killmailHash: killmail.killmailHash,
-                killmailTime: killmail.killmailTime,
-                solarSystemId: killmail.solarSystemId,
-                zkb: killmail.zkb,
-                victim: {
-                  ...killmail.victim,
-                  shipTypeName: enriched.ship_type_name,
-                  characterName: enriched.victim_character_name || undefined,
-                  corporationName: enriched.victim_corp_name || undefined,
-                  allianceName: enriched.victim_alliance_name || undefined,
-                },
-                attackers: enriched.attacker_data.map((attacker) => ({
-                  characterId: attacker.characterId,
-                  characterName: attacker.characterName,
-                  corporationId: attacker.corporationId,
-                  corporationName: attacker.corporationName,
-                  allianceId: attacker.allianceId,
-                  allianceName: attacker.allianceName,
-                  shipTypeId: attacker.shipTypeId,
-                  shipTypeName: attacker.shipTypeName,
-                  weaponTypeId: attacker.weaponTypeId,
-                  weaponTypeName: attacker.weaponTypeName,
-                  damageDone: attacker.damageDone,
-                  finalBlow: attacker.finalBlow,
-                })),
-              },
+              data: buildEnrichedKillmailData(enriched),
               timestamp: new Date(),
             }
           );
@@ -24,6 +24,7 @@ export interface EnrichedKillmailsTable {
   victim_alliance_name: string | null;
   attacker_data: ColumnType<AttackerData[], string, string>;
   raw_killmail_data: ColumnType<any, string, string>;
+  killmail_time: ColumnType<Date | null, string | Date | null, string | Date | null>;
   enriched_at: ColumnType<Date, string | Date, string | Date>;
   version: number;
 }
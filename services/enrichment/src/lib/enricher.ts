@@ -24,6 +24,49 @@ export interface EnrichedKillmail {
   victim_alliance_name: string | null;
   attacker_data: AttackerData[];
   raw_killmail_data: any;
+  killmail_time: Date | null;
+}
+
+/**
+ * Build the payload of a `killmail.enriched` event from an enriched killmail.
+ * Also used to replay stored killmails to other services.
+ */
+export function buildEnrichedKillmailData(enriched: EnrichedKillmail) {
+  // The killmail as enriched (complete even if the original event was a stub)
+  const killmail: Killmail = enriched.raw_killmail_data;
+
+  return {
+    killmailId: killmail.killmailId,
+    killmailHash: killmail.killmailHash,
+    killmailTime: new Date(killmail.killmailTime),
+    solarSystemId: killmail.solarSystemId,
+    systemName: enriched.system_name,
+    regionId: enriched.region_id,
+    regionName: enriched.region_name,
+    securityStatus: Number(enriched.security_status),
+    zkb: killmail.zkb,
+    victim: {
+      ...killmail.victim,
+      shipTypeName: enriched.ship_type_name,
+      characterName: enriched.victim_character_name || undefined,
+      corporationName: enriched.victim_corp_name || undefined,
+      allianceName: enriched.victim_alliance_name || undefined,
+    },
+    attackers: enriched.attacker_data.map((attacker) => ({
+      characterId: attacker.characterId,
+      characterName: attacker.characterName,
+      corporationId: attacker.corporationId,
+      corporationName: attacker.corporationName,
+      allianceId: attacker.allianceId,
+      allianceName: attacker.allianceName,
+      shipTypeId: attacker.shipTypeId,
+      shipTypeName: attacker.shipTypeName,
+      weaponTypeId: attacker.weaponTypeId,
+      weaponTypeName: attacker.weaponTypeName,
+      damageDone: attacker.damageDone,
+      finalBlow: attacker.finalBlow,
+    })),
+  };
 }
 
 export class KillmailEnricher {
@@ -222,6 +265,7 @@ export class KillmailEnricher {
         victim_alliance_name: victimAllianceName,
         attacker_data: enrichedAttackers,
         raw_killmail_data: killmail,
+        killmail_time: new Date(killmail.killmailTime),
       };
 
       // Save to database
@@ -341,6 +385,59 @@ export class KillmailEnricher {
     }
   }
 
+  /**
+   * List enriched killmails by in-game time, oldest first. Uses keyset
+   * pagination on (killmail_time, killmail_id) so callers can page through
+   * large ranges in a stable order.
+   */
+  async listEnrichedKillmails(options: {
+    from: Date;
+    to: Date;
+    after?: { killmailTime: Date; killmailId: number };
+    limit: number;
+  }): Promise<{ killmails: EnrichedKillmail[]; total: number }> {
+    try {
+      let query = this.db
+        .selectFrom('enriched_killmails')
+        .selectAll()
+        .where('killmail_time', '>=', options.from)
+        .where('killmail_time', '<=', options.to)
+        .orderBy('killmail_time', 'asc')
+        .orderBy('killmail_id', 'asc')
+        .limit(options.limit);
+
+      if (options.after) {
+        const { killmailTime, killmailId } = options.after;
+        query = query.where((eb) =>
+          eb.or([
+            eb('killmail_time', '>', killmailTime),
+            eb.and([eb('killmail_time', '=', killmailTime), eb('killmail_id', '>', killmailId)]),
+          ])
+        );
+      }
+
+      const rows = await query.execute();
+
+      const countResult = await this.db
+        .selectFrom('enriched_killmails')
+        .select((eb) => eb.fn.count('killmail_id').as('count'))
+        .where('killmail_time', '>=', options.from)
+        .where('killmail_time', '<=', options.to)
+        .executeTakeFirst();
+
+      return {
+        killmails: rows.map((row) => ({
+          ...row,
+          attacker_data: row.attacker_data as unknown as AttackerData[],
+        })),
+        total: Number(countResult?.count || 0),
+      };
+    } catch (error) {
+      logger.error('Failed to list enriched killmails:', error);
+      throw error;
+    }
+  }
+
   async getCacheStats(): Promise<any> {
     try {
       const totalCached = await this.db
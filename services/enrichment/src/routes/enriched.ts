@@ -1,12 +1,68 @@
 import type { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
-import { getEnricher } from '../lib/enricher';
+import { getEnricher, buildEnrichedKillmailData } from '../lib/enricher';
 
 const ParamsSchema = z.object({
   killmailId: z.string().transform((val) => parseInt(val, 10)),
 });
 
+const ListQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  afterTime: z.coerce.date().optional(),
+  afterId: z.coerce.number().optional(),
+  limit: z.coerce.number().min(1).max(1000).default(500),
+});
+
 const enrichedRoutes: FastifyPluginAsync = async (fastify) => {
+  // List enriched killmails by in-game time, in killmail.enriched event format
+  fastify.get('/api/enriched', async (request, reply) => {
+    try {
+      const query = ListQuerySchema.parse(request.query);
+      const enricher = getEnricher();
+
+      const after =
+        query.afterTime && query.afterId !== undefined
+          ? { killmailTime: query.afterTime, killmailId: query.afterId }
+          : undefined;
+
+      const { killmails, total } = await enricher.listEnrichedKillmails({
+        from: query.from,
+        to: query.to,
+        after,
+        limit: query.limit,
+      });
+
+      const data = killmails.map((killmail) => buildEnrichedKillmailData(killmail));
+      const last = data[data.length - 1];
+
+      return {
+        killmails: data,
+        total,
+        next:
+          data.length === query.limit
+            ? { afterTime: last.killmailTime.toISOString(), afterId: last.killmailId }
+            : null,
+      };
+    } catch (error: any) {
+      fastify.log.error('Failed to list enriched killmails:', error);
+
+      if (error instanceof z.ZodError) {
+        reply.status(400);
+        return {
+          error: 'Invalid query',
+          details: error.errors,
+        };
+      }
+
+      reply.status(500);
+      return {
+        error: 'Internal server error',
+        message: error.message,
+      };
+    }
+  });
+
   fastify.get('/api/enriched/:killmailId', async (request, reply) => {
     try {
       const { killmailId } = ParamsSchema.parse(request.params);
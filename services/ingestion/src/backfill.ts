@@ -10,9 +10,9 @@
  */
 
 import { createLogger } from '@battlescope/logger';
-import { EventBus, Topics } from '@battlescope/events';
-import type { KillmailEvent } from '@battlescope/types';
+import { EventBus } from '@battlescope/events';
 import { getDatabase, closeDatabase } from './database';
+import { queueKillmails } from './lib/killmail-queue';
 import { ZKillboardHistoryClient } from './lib/zkillboard-history';
 import { getConfig } from './config';
 
@@ -92,6 +92,7 @@ async function main() {
     let totalKillmails = 0;
     let totalInserted = 0;
     let totalSkipped = 0;
+    let totalFailed = 0;
 
     // Fetch killmails for each date in range
     const currentDate = new Date(config.startDate);
@@ -113,21 +114,23 @@ async function main() {
         // Process in batches
         for (let i = 0; i < killmails.length; i += config.batchSize) {
           const batch = killmails.slice(i, i + config.batchSize);
-          const { inserted, skipped } = await processBatch(
+          const { inserted, skipped, failed } = await queueKillmails(
             batch,
             db,
             eventBus,
             logger
           );
 
-          totalInserted += inserted;
-          totalSkipped += skipped;
+          totalInserted += inserted.length;
+          totalSkipped += skipped.length;
+          totalFailed += failed.length;
 
           logger.info('Batch processed', {
             date: dateStr,
             batchNumber: Math.floor(i / config.batchSize) + 1,
-            inserted,
-            skipped,
+            inserted: inserted.length,
+            skipped: skipped.length,
+            failed: failed.length,
           });
         }
 
@@ -151,6 +154,7 @@ async function main() {
       totalKillmails,
       totalInserted,
       totalSkipped,
+      totalFailed,
       successRate: `${((totalInserted / totalKillmails) * 100).toFixed(2)}%`,
     });
   } catch (error) {
@@ -170,88 +174,6 @@ async function main() {
   }
 }
 
-async function processBatch(
-  killmails: Array<[number, string]>,
-  db: ReturnType<typeof getDatabase>,
-  eventBus: EventBus | null,
-  logger: ReturnType<typeof createLogger>
-): Promise<{ inserted: number; skipped: number }> {
-  let inserted = 0;
-  let skipped = 0;
-
-  for (const [killmailId, hash] of killmails) {
-    try {
-      // Insert with ON CONFLICT DO NOTHING for idempotency
-      const result = await db
-        .insertInto('killmail_events')
-        .values({
-          killmail_id: killmailId,
-          // We don't have full killmail data from history API
-          // Set minimal values and let enrichment fill the rest
-          system_id: 0, // Will be updated by enrichment
-          occurred_at: new Date(0), // Will be updated by enrichment
-          victim_alliance_id: null,
-          attacker_alliance_ids: null,
-          isk_value: null,
-          zkb_url: `https://zkillboard.com/kill/${killmailId}/`,
-          raw_data: JSON.stringify({ killmail_id: killmailId, hash }),
-          processed_at: null,
-          battle_id: null,
-        })
-        .onConflict((oc) => oc.column('killmail_id').doNothing())
-        .returning('killmail_id')
-        .executeTakeFirst();
-
-      if (result) {
-        // New killmail inserted
-        inserted++;
-
-        // Publish event for enrichment
-        if (eventBus) {
-          const event: KillmailEvent = {
-            type: 'killmail.received',
-            timestamp: new Date(),
-            data: {
-              killmailId,
-              killmailHash: hash,
-              killmailTime: new Date(0), // Will be updated by enrichment
-              solarSystemId: 0, // Will be updated by enrichment
-              victim: {
-                characterId: undefined,
-                corporationId: 0,
-                allianceId: undefined,
-                shipTypeId: 0,
-                damageTaken: 0,
-              },
-              attackers: [],
-              zkb: {
-                totalValue: 0,
-                points: 0,
-                npc: false,
-                solo: false,
-                awox: false,
-              },
-            },
-          };
-
-          await eventBus.publish(Topics.KILLMAILS, event);
-        }
-      } else {
-        // Killmail already exists
-        skipped++;
-      }
-    } catch (error) {
-      logger.error('Failed to insert killmail', {
-        killmailId,
-        error: error instanceof Error ? error.message : String(error),
-      });
-      skipped++;
-    }
-  }
-
-  return { inserted, skipped };
-}
-
 // Handle signals
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully...');
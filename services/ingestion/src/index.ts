@@ -52,7 +52,7 @@ async function main() {
 
     // Register routes
     await healthRoutes(fastify, db);
-    await killmailRoutes(fastify, db);
+    await killmailRoutes(fastify, db, eventBus);
     await statsRoutes(fastify, db);
 
     // Start server
@@ -0,0 +1,117 @@
+import type { Kysely } from 'kysely';
+import type { Logger } from '@battlescope/logger';
+import { Topics, type EventBus } from '@battlescope/events';
+import type { KillmailEvent } from '@battlescope/types';
+import type { Database } from '../database/schema';
+
+/**
+ * Killmail ID and hash, as ZKillboard's history API lists them
+ */
+export type KillmailRef = [number, string];
+
+export interface QueueResult {
+  // Killmails published for enrichment: new ones, and stored ones not processed yet
+  inserted: number[];
+  // Killmails already processed, or already stored when `eventBus` is null
+  skipped: number[];
+  // Killmails that failed to be stored or published; queueing them again retries them
+  failed: number[];
+}
+
+function receivedEvent(killmailId: number, hash: string): KillmailEvent {
+  return {
+    type: 'killmail.received',
+    timestamp: new Date(),
+    data: {
+      killmailId,
+      killmailHash: hash,
+      killmailTime: new Date(0), // Will be updated by enrichment
+      solarSystemId: 0, // Will be updated by enrichment
+      victim: {
+        characterId: undefined,
+        corporationId: 0,
+        allianceId: undefined,
+        shipTypeId: 0,
+        damageTaken: 0,
+      },
+      attackers: [],
+      zkb: {
+        totalValue: 0,
+        points: 0,
+        npc: false,
+        solo: false,
+        awox: false,
+      },
+    },
+  };
+}
+
+/**
+ * Queues killmails known only by ID and hash for enrichment. They're stored
+ * with placeholder values that enrichment fills in, and published as received
+ * killmails unless `eventBus` is null. Killmails already stored are published
+ * again while they haven't been processed, in case an earlier publish failed
+ * or never happened, so queueing is idempotent and retries what failed.
+ */
+export async function queueKillmails(
+  killmails: KillmailRef[],
+  db: Kysely<Database>,
+  eventBus: EventBus | null,
+  logger: Logger
+): Promise<QueueResult> {
+  const inserted: number[] = [];
+  const skipped: number[] = [];
+  const failed: number[] = [];
+
+  for (const [killmailId, hash] of killmails) {
+    try {
+      // Insert with ON CONFLICT DO NOTHING for idempotency
+      const result = await db
+        .insertInto('killmail_events')
+        .values({
+          killmail_id: killmailId,
+          // We don't have full killmail data, only the ID and hash
+          // Set minimal values and let enrichment fill the rest
+          system_id: 0, // Will be updated by enrichment
+          occurred_at: new Date(0), // Will be updated by enrichment
+          victim_alliance_id: null,
+          attacker_alliance_ids: null,
+          isk_value: null,
+          zkb_url: `https://zkillboard.com/kill/${killmailId}/`,
+          raw_data: JSON.stringify({ killmail_id: killmailId, hash }),
+          processed_at: null,
+          battle_id: null,
+        })
+        .onConflict((oc) => oc.column('killmail_id').doNothing())
+        .returning('killmail_id')
+        .executeTakeFirst();
+
+      if (!result) {
+        // Killmail already exists; only publish it again if it's still waiting for enrichment
+        const existing = await db
+          .selectFrom('killmail_events')
+          .select('processed_at')
+          .where('killmail_id', '=', killmailId)
+          .executeTakeFirst();
+        if (existing?.processed_at || !eventBus) {
+          skipped.push(killmailId);
+          continue;
+        }
+      }
+
+      // Publish event for enrichment
+      if (eventBus) {
+        await eventBus.publish(Topics.KILLMAILS, receivedEvent(killmailId, hash));
+      }
+      inserted.push(killmailId);
+    } catch (error) {
+      logger.error('Failed to queue killmail', {
+        killmailId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      failed.push(killmailId);
+    }
+  }
+
+  return { inserted, skipped, failed };
+}
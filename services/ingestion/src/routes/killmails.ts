@@ -1,8 +1,13 @@
 import type { FastifyInstance } from 'fastify';
 import type { Kysely } from 'kysely';
+import type { EventBus } from '@battlescope/events';
+import { createLogger } from '@battlescope/logger';
 import type { Database } from '../database/schema';
+import { queueKillmails } from '../lib/killmail-queue';
 import { z } from 'zod';
 
+const logger = createLogger({ serviceName: 'killmail-queue' });
+
 // Request schemas
 const ListKillmailsQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(50),
@@ -11,9 +16,22 @@ const ListKillmailsQuerySchema = z.object({
   unprocessedOnly: z.coerce.boolean().default(false),
 });
 
+const QueueKillmailsBodySchema = z.object({
+  killmails: z
+    .array(
+      z.object({
+        killmailId: z.number().int().positive(),
+        hash: z.string().regex(/^[0-9a-f]{40}$/i),
+      })
+    )
+    .min(1)
+    .max(1000),
+});
+
 export async function killmailRoutes(
   fastify: FastifyInstance,
-  db: Kysely<Database>
+  db: Kysely<Database>,
+  eventBus: EventBus | null
 ): Promise<void> {
   // List recent killmails with pagination
   fastify.get('/api/killmails', async (request, reply) => {
@@ -130,4 +148,26 @@ export async function killmailRoutes(
       });
     }
   });
+
+  // Queue killmails known only by ID and hash for enrichment, e.g. for a
+  // battle imported into the battle service
+  fastify.post('/api/killmails/queue', async (request, reply) => {
+    const body = QueueKillmailsBodySchema.safeParse(request.body);
+
+    if (!body.success) {
+      return reply.status(400).send({
+        error: 'Invalid request',
+        details: body.error.errors,
+      });
+    }
+
+    const { inserted, skipped, failed } = await queueKillmails(
+      body.data.killmails.map((km) => [km.killmailId, km.hash]),
+      db,
+      eventBus,
+      logger
+    );
+
+    return reply.status(202).send({ queued: inserted, skipped, failed });
+  });
 }
@@ -1,4 +1,5 @@
 import { Kafka } from 'kafkajs';
+import { Topics } from '@battlescope/events';
 import { createLogger } from '@battlescope/logger';
 import { config } from './config';
 import { SubscriptionsRepository, NotificationsRepository } from './database';
@@ -27,7 +28,7 @@ export async function startEventConsumer(deps: EventConsumerDependencies) {
 
   // Subscribe to topics
   await consumer.subscribe({
-    topics: ['battle.created', 'battle.ended', 'killmail.enriched'],
+    topics: [Topics.BATTLES, 'killmail.enriched'],
     fromBeginning: false,
   });
 
@@ -47,11 +48,11 @@ export async function startEventConsumer(deps: EventConsumerDependencies) {
 
         // Process different event types
         switch (topic) {
-          case 'battle.created':
-            await handleBattleCreated(event, deps);
-            break;
-          case 'battle.ended':
-            await handleBattleEnded(event, deps);
+          case Topics.BATTLES:
+            // battle.updated is only used for search indexing
+            if (event.type === 'battle.created' || event.type === 'battle.ended') {
+              await handleBattleEvent(event, deps);
+            }
             break;
           case 'killmail.enriched':
             await handleKillmailEnriched(event, deps);
@@ -68,64 +69,35 @@ export async function startEventConsumer(deps: EventConsumerDependencies) {
   return consumer;
 }
 
-// Handle battle.created events
-async function handleBattleCreated(event: any, deps: EventConsumerDependencies) {
-  const { subscriptionsRepo, notificationsRepo, wsManager, webhookService } = deps;
+// Handle battle.created and battle.ended events
+async function handleBattleEvent(event: any, deps: EventConsumerDependencies) {
+  const { subscriptionsRepo } = deps;
   const battleData = event.data;
 
-  logger.info({ battleId: battleData.id }, 'Processing battle.created event');
-
-  // Find subscriptions for this system
-  const systemSubscriptions = await subscriptionsRepo.findActiveByType(
-    'system',
-    battleData.systemId
-  );
-
-  // Find subscriptions for this region
-  const regionSubscriptions = await subscriptionsRepo.findActiveByType(
-    'region',
-    battleData.regionId
-  );
+  logger.info({ battleId: battleData.id }, `Processing ${event.type} event`);
 
-  const allSubscriptions = [...systemSubscriptions, ...regionSubscriptions];
+  // Battles can span several systems and regions, match subscriptions on any of them
+  const systemIds: number[] = battleData.systemIds?.length ? battleData.systemIds : [battleData.systemId];
+  const regionIds: number[] = battleData.regionIds?.length ? battleData.regionIds : [battleData.regionId];
 
-  // Send notifications to all matching subscriptions
-  for (const subscription of allSubscriptions) {
-    await sendNotification({
-      subscription,
-      eventType: 'battle.created',
-      eventData: battleData,
-      deps,
-    });
+  const allSubscriptions: any[] = [];
+  for (const systemId of systemIds) {
+    allSubscriptions.push(...(await subscriptionsRepo.findActiveByType('system', systemId)));
+  }
+  for (const regionId of regionIds.filter(Boolean)) {
+    allSubscriptions.push(...(await subscriptionsRepo.findActiveByType('region', regionId)));
   }
-}
-
-// Handle battle.ended events
-async function handleBattleEnded(event: any, deps: EventConsumerDependencies) {
-  const { subscriptionsRepo, notificationsRepo, wsManager, webhookService } = deps;
-  const battleData = event.data;
-
-  logger.info({ battleId: battleData.id }, 'Processing battle.ended event');
-
-  // Find subscriptions for this system
-  const systemSubscriptions = await subscriptionsRepo.findActiveByType(
-    'system',
-    battleData.systemId
-  );
 
-  // Find subscriptions for this region
-  const regionSubscriptions = await subscriptionsRepo.findActiveByType(
-    'region',
-    battleData.regionId
+  // Deduplicate subscriptions
+  const uniqueSubscriptions = Array.from(
+    new Map(allSubscriptions.map((sub) => [sub.id, sub])).values()
   );
 
-  const allSubscriptions = [...systemSubscriptions, ...regionSubscriptions];
-
   // Send notifications to all matching subscriptions
-  for (const subscription of allSubscriptions) {
+  for (const subscription of uniqueSubscriptions) {
     await sendNotification({
       subscription,
-      eventType: 'battle.ended',
+      eventType: event.type,
       eventData: battleData,
       deps,
     });
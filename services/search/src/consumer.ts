@@ -116,59 +116,29 @@ export class EventConsumer {
       this.eventBus['kafka']['clientId'] + '-battles',
       async (event: Event) => {
         try {
-          if (event.type !== 'battle.detected' && event.type !== 'battle.updated') {
+          if (event.type !== 'battle.created' && event.type !== 'battle.updated' && event.type !== 'battle.ended') {
             return;
           }
 
-          if (event.type === 'battle.detected') {
-            // Initial battle detection - create minimal document
-            const detectedData = event.data as { battleId: string; systemId: number; startTime: Date };
-            const battleDoc: BattleDocument = {
-              id: detectedData.battleId,
-              system_name: this.extractSystemName(detectedData.systemId),
-              region_name: this.extractRegionName(detectedData.systemId),
-              security_type: this.determineSecurityType(detectedData.systemId),
-              start_time: Math.floor(detectedData.startTime.getTime() / 1000),
-              total_kills: 0,
-              total_isk_destroyed: 0,
-              alliance_names: [],
-              participant_names: [],
-            };
-
-            await this.indexer.indexBattle(battleDoc);
-            logger.debug({ battleId: detectedData.battleId }, 'Battle detected and indexed');
-          } else if (event.type === 'battle.updated') {
-            // Battle updated - full document
-            const updatedData = event.data as {
-              id: string;
-              systemId: number;
-              systemName: string;
-              regionId: number;
-              regionName: string;
-              startTime: Date;
-              endTime?: Date;
-              totalKills: number;
-              totalValue: number;
-              participants: number;
-              alliances: string[];
-              corporations: string[];
-            };
-            const battleDoc: BattleDocument = {
-              id: updatedData.id,
-              system_name: updatedData.systemName,
-              region_name: updatedData.regionName,
-              security_type: this.determineSecurityType(updatedData.systemId),
-              start_time: Math.floor(updatedData.startTime.getTime() / 1000),
-              end_time: updatedData.endTime ? Math.floor(updatedData.endTime.getTime() / 1000) : undefined,
-              total_kills: updatedData.totalKills,
-              total_isk_destroyed: updatedData.totalValue,
-              alliance_names: updatedData.alliances || [],
-              participant_names: [], // This would need to be populated from participants
-            };
+          // Every battle event carries the full battle summary with running totals
+          const battle = event.data;
+          const battleDoc: BattleDocument = {
+            id: battle.id,
+            system_name: battle.systemName,
+            region_name: battle.regionName,
+            security_type: battle.securityType,
+            start_time: Math.floor(battle.startTime.getTime() / 1000),
+            end_time: battle.endTime ? Math.floor(battle.endTime.getTime() / 1000) : undefined,
+            total_kills: battle.totalKills,
+            total_isk_destroyed: battle.totalValue,
+            alliance_names: battle.alliances || [],
+            participant_names: [], // This would need to be populated from participants
+            classification: battle.classification ?? undefined,
+            significance: battle.significance ?? undefined,
+          };
 
-            await this.indexer.indexBattle(battleDoc);
-            logger.debug({ battleId: updatedData.id }, 'Battle updated and indexed');
-          }
+          await this.indexer.indexBattle(battleDoc);
+          logger.debug({ battleId: battle.id, type: event.type }, 'Battle indexed');
         } catch (error: any) {
           logger.error({ error: error.message, event }, 'Failed to process battle event');
         }
@@ -187,12 +157,6 @@ export class EventConsumer {
     return `Region-${systemId}`;
   }
 
-  private determineSecurityType(systemId: number): string {
-    // TODO: Implement security status lookup
-    // For now, return a placeholder
-    return 'Unknown';
-  }
-
   private extractShipGroup(shipTypeName?: string): string {
     if (!shipTypeName) {
       return 'Unknown';
@@ -16,6 +16,8 @@ export interface BattleDocument {
   total_isk_destroyed: number;
   alliance_names: string[];
   participant_names: string[];
+  classification?: string;
+  significance?: number;
 }
 
 // Killmail document interface
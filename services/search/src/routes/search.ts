@@ -24,9 +24,13 @@ const BattlesQuerySchema = z.object({
   security_type: z.enum(['highsec', 'lowsec', 'nullsec', 'wormhole']).optional(),
   min_kills: z.coerce.number().int().positive().optional(),
   min_isk: z.coerce.number().int().positive().optional(),
+  classification: z
+    .enum(['gank', 'small_gang', 'fleet_fight', 'capital_escalation', 'structure_bash', 'gate_camp'])
+    .optional(),
+  min_significance: z.coerce.number().positive().optional(),
   page: z.coerce.number().int().positive().default(1),
   per_page: z.coerce.number().int().positive().max(100).default(20),
-  sort_by: z.enum(['start_time', 'total_kills', 'total_isk_destroyed']).default('start_time'),
+  sort_by: z.enum(['start_time', 'total_kills', 'total_isk_destroyed', 'significance']).default('start_time'),
 });
 
 const KillmailsQuerySchema = z.object({
@@ -49,6 +53,18 @@ const CharactersQuerySchema = z.object({
   per_page: z.coerce.number().int().positive().max(100).default(20),
 });
 
+// Names one lookup may hold, and names matched per Typesense search
+const MAX_LOOKUP_NAMES = 500;
+const LOOKUP_CHUNK = 100;
+
+const CharacterLookupBodySchema = z.object({
+  // Backticks would end the filter value they're quoted in
+  names: z
+    .array(z.string().min(1).max(37).regex(/^[^`]+$/))
+    .min(1)
+    .max(MAX_LOOKUP_NAMES),
+});
+
 const searchRoute: FastifyPluginAsync = async (fastify) => {
   const typedFastify = fastify.withTypeProvider<ZodTypeProvider>();
 
@@ -192,7 +208,19 @@ const searchRoute: FastifyPluginAsync = async (fastify) => {
       },
     },
     async (request, reply) => {
-      const { q, system, region, security_type, min_kills, min_isk, page, per_page, sort_by } = request.query;
+      const {
+        q,
+        system,
+        region,
+        security_type,
+        min_kills,
+        min_isk,
+        classification,
+        min_significance,
+        page,
+        per_page,
+        sort_by,
+      } = request.query;
 
       try {
         // Build filter string
@@ -202,6 +230,8 @@ const searchRoute: FastifyPluginAsync = async (fastify) => {
         if (security_type) filters.push(`security_type:=${security_type}`);
         if (min_kills) filters.push(`total_kills:>=${min_kills}`);
         if (min_isk) filters.push(`total_isk_destroyed:>=${min_isk}`);
+        if (classification) filters.push(`classification:=${classification}`);
+        if (min_significance) filters.push(`significance:>=${min_significance}`);
 
         const searchParams: any = {
           q: q || '*',
@@ -319,6 +349,41 @@ const searchRoute: FastifyPluginAsync = async (fastify) => {
     }
   );
 
+  // Character lookup by exact name, many names in one request
+  typedFastify.post(
+    '/api/search/characters/lookup',
+    {
+      schema: {
+        body: CharacterLookupBodySchema,
+      },
+    },
+    async (request, reply) => {
+      const { names } = request.body;
+
+      try {
+        const searches = [];
+        for (let i = 0; i < names.length; i += LOOKUP_CHUNK) {
+          const values = names.slice(i, i + LOOKUP_CHUNK).map((name) => `\`${name}\``);
+          searches.push({
+            collection: Collections.CHARACTERS,
+            q: '*',
+            filter_by: `character_name:=[${values.join(',')}]`,
+            per_page: 250,
+          });
+        }
+
+        const searchResults = await fastify.typesense.multiSearch.perform({ searches });
+
+        return {
+          characters: searchResults.results.flatMap((result: any) => result.hits?.map((hit: any) => hit.document) || []),
+        };
+      } catch (error: any) {
+        fastify.log.error({ error: error.message }, 'Character lookup failed');
+        return reply.code(500).send({ error: 'Character lookup failed', message: error.message });
+      }
+    }
+  );
+
   // Helper methods
   function getCollectionForType(type: string): string {
     switch (type) {
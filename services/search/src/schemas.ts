@@ -14,6 +14,8 @@ export const BattlesCollectionSchema: CollectionCreateSchema = {
     { name: 'total_isk_destroyed', type: 'int64', sort: true },
     { name: 'alliance_names', type: 'string[]', facet: true },
     { name: 'participant_names', type: 'string[]' },
+    { name: 'classification', type: 'string', facet: true, optional: true },
+    { name: 'significance', type: 'float', sort: true, optional: true },
   ],
   default_sorting_field: 'start_time',
 };